@@ -0,0 +1,156 @@
+import React, { useState } from "react";
+import { createBackup, deleteAccount, downloadBackup, readBackup, restoreBackup, type Backup, type RestoreMode } from "./account";
+import { DEMO_MODE } from "./repository";
+
+/**
+ * "Your data" on the profile screen: download a full backup, restore one
+ * (merge or replace), delete the account and everything in it.
+ */
+export default function AccountData({ owner, email, onRestored }: {
+  owner: string;
+  email?: string;
+  onRestored: () => Promise<void> | void;   // reload what the app shows
+}) {
+  const [busy, setBusy] = useState<"backup" | "restore" | "delete" | null>(null);
+  const [file, setFile] = useState<{ name: string; backup: Backup } | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [confirmText, setConfirmText] = useState("");
+
+  async function run(kind: NonNullable<typeof busy>, fn: () => Promise<void>) {
+    setBusy(kind);
+    try {
+      await fn();
+    } catch (e: any) {
+      alert(e.code ? e.message : "This needs a connection.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const backup = () => run("backup", async () => downloadBackup(await createBackup(owner)));
+
+  const pick = async (f: File) => {
+    try {
+      setFile({ name: f.name, backup: readBackup(await f.text()) });
+    } catch (e: any) {
+      setFile(null);
+      alert(e.message);
+    }
+  };
+
+  const restore = () => {
+    if (!file) return;
+    const ask =
+      mode === "replace"
+        ? "Replace everything in your account with this backup? Sessions, results, plans and CSS tests that are not in the backup are deleted for good."
+        : "Add the sessions, results, plans and CSS tests from this backup that are not in your account yet?";
+    if (!confirm(ask)) return;
+    void run("restore", async () => {
+      const { restored, skipped, errors } = await restoreBackup(file.backup, owner, mode);
+      setFile(null);
+      await onRestored();
+      const lines = [
+        `Restored ${restored.workouts} session(s), ${restored.competitions} result(s), ${restored.plans} planned session(s) and ${restored.cssTests} CSS test(s).`,
+        skipped ? `${skipped} row(s) were already in your account and were left as they are.` : "",
+        errors.length ? `Some rows could not be saved:\n${errors.join("\n")}` : "",
+      ];
+      alert(lines.filter(Boolean).join("\n"));
+    });
+  };
+
+  const confirmWord = DEMO_MODE ? "RESET" : "DELETE";
+  const remove = () =>
+    run("delete", async () => {
+      await deleteAccount();
+      window.location.reload();
+    });
+
+  const b = file?.backup;
+  return (
+    <section className="rounded-2xl p-4 bg-white shadow mt-4">
+      <h2 className="text-lg font-semibold">Your data</h2>
+
+      <h3 className="font-medium mt-3">Backup</h3>
+      <p className="text-sm text-gray-600">
+        One JSON file with your profile, every session and result (trash included), your training plan, CSS tests and the time
+        standards on this device{DEMO_MODE ? "" : ", plus your share links, teams and coach comments for the record"}.
+      </p>
+      <button onClick={backup} disabled={!!busy} className="mt-2 px-3 py-2 rounded-xl border text-sm disabled:opacity-50">
+        {busy === "backup" ? "Preparing…" : "Download backup"}
+      </button>
+
+      <h3 className="font-medium mt-5">Restore</h3>
+      <p className="text-sm text-gray-600">
+        <b>Merge</b> adds what is missing and leaves rows you already have alone. <b>Replace</b> deletes your sessions, results, plan
+        and CSS tests first. Share links, teams and comments are not restored.
+      </p>
+      <div className="flex flex-wrap items-center gap-2 mt-2 text-sm">
+        <label className="px-3 py-2 rounded-xl bg-gray-100 border cursor-pointer">
+          Choose backup file
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const f = e.target.files?.[0];
+              e.currentTarget.value = "";
+              if (f) void pick(f);
+            }}
+          />
+        </label>
+        {file && <span className="text-gray-600 truncate max-w-[16rem]">{file.name}</span>}
+      </div>
+      {b && (
+        <div className="mt-2 rounded-xl border p-3 text-sm">
+          <p>
+            Taken {b.exported_at.slice(0, 10) || "on an unknown date"}
+            {b.profile?.full_name && ` from ${b.profile.full_name}'s account`} · format {b.version}
+          </p>
+          <p className="text-gray-600">
+            {b.workouts.length} sessions · {b.competitions.length} results · {b.planned_sessions.length} planned sessions · {b.css_tests.length} CSS tests
+          </p>
+          <div className="flex flex-wrap items-center gap-3 mt-2">
+            {(["merge", "replace"] as const).map((m) => (
+              <label key={m} className="flex items-center gap-1">
+                <input type="radio" name="restore-mode" checked={mode === m} onChange={() => setMode(m)} />
+                {m === "merge" ? "Merge" : "Replace"}
+              </label>
+            ))}
+            <button onClick={restore} disabled={!!busy} className="px-3 py-1 rounded-lg bg-gray-900 text-white disabled:opacity-50">
+              {busy === "restore" ? "Restoring…" : "Restore"}
+            </button>
+            <button onClick={() => setFile(null)} disabled={!!busy} className="px-3 py-1 rounded-lg border">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <h3 className="font-medium mt-5 text-red-700">{DEMO_MODE ? "Reset the demo" : "Delete my account and data"}</h3>
+      {DEMO_MODE ? (
+        <p className="text-sm text-gray-600">Removes everything entered in the demo on this device.</p>
+      ) : (
+        <p className="text-sm text-gray-600">
+          Deletes your account{email ? ` (${email})` : ""} and everything in it for good: profile, sessions, results, edit history,
+          training plan, CSS tests, share links, team memberships and coach comments. Teams you created are deleted for all their
+          members; swimmers keep their own logs. Download a backup first if you want to keep a copy.
+        </p>
+      )}
+      <div className="flex flex-wrap items-center gap-2 mt-2 text-sm">
+        <input
+          value={confirmText}
+          onChange={(e) => setConfirmText(e.target.value)}
+          placeholder={`Type ${confirmWord} to confirm`}
+          className="px-3 py-2 rounded-xl border bg-white"
+        />
+        <button
+          onClick={remove}
+          disabled={!!busy || confirmText.trim() !== confirmWord}
+          className="px-3 py-2 rounded-xl bg-red-600 text-white disabled:opacity-50"
+        >
+          {busy === "delete" ? "Deleting…" : DEMO_MODE ? "Reset demo" : "Delete account"}
+        </button>
+      </div>
+    </section>
+  );
+}
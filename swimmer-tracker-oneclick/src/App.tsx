@@ -1,14 +1,111 @@
 import React, { useEffect, useMemo, useState, useTransition } from "react";
-import { createClient } from "@supabase/supabase-js";
 import { motion } from "framer-motion";
-import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid } from "recharts";
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  ComposedChart,
+  ReferenceArea,
+  XAxis,
+  YAxis,
+  Tooltip,
+  CartesianGrid,
+  Legend,
+} from "recharts";
+import { supabase } from "./supabase";
+import { DEMO_MODE, demoSession, repository, type Profile, type TableName } from "./repository";
+import { computePBs } from "./pbs";
+import { formatNumber, minutesToMMSS, pacePer100, secToTime, timeToSec } from "./utils";
+import { COURSES, convertTime, courseLabel, courseUnit, type Course } from "./course";
+import { SPLIT_LENGTHS, SPLIT_TOLERANCE, analysePacing, cumulative, fromCumulative, validateSplits } from "./splits";
+import {
+  adoptLocalData,
+  clearLocal,
+  deleteLocal,
+  newId,
+  pendingCount,
+  purgeLocal,
+  queryAll,
+  queryPage,
+  loadProfile,
+  readLocal,
+  removeCssTest,
+  resolveConflict,
+  restoreLocal,
+  rowsBetween,
+  saveCssTest,
+  saveLocal,
+  saveProfile,
+  sync,
+  type Conflict,
+  type History,
+  type TablePage,
+} from "./sync";
+import { mergeWeeks, summarize, weeklyTotals } from "./history";
+import {
+  STROKES,
+  STROKE_COLORS,
+  SET_KINDS,
+  ZONES,
+  emptySet,
+  formatInterval,
+  formatSet,
+  totalsFromSets,
+} from "./sets";
+import { toCSV } from "./csv";
+import { competitionImport, workoutImport } from "./importer";
+import ImportWizard from "./ImportWizard";
+import { exportWorkbook, readWorkbook, type Workbook } from "./xlsx";
+import { activityToWorkout, importedSourceIds, readActivityFile, type SwimActivity } from "./watch";
+import ResultsImport from "./ResultsImport";
+import { ACWR_CAUTION, ACWR_LOW, dailyLoads, loadWarnings, weeklyLoads } from "./load";
+import { emptyStandards, loadStandards, saveStandards, standardStatus, type StandardStatus, type StandardsState } from "./standards";
+import StandardsView from "./StandardsView";
+import { acceptInvite } from "./teams";
+import TeamView from "./TeamView";
+import TrashView from "./TrashView";
+import CalendarView from "./CalendarView";
+import { planToWorkout } from "./plans";
+import RowHistory from "./RowHistory";
+import EventHistory from "./EventHistory";
+import type { SwimEvent } from "./progression";
+import PaceZonesView from "./PaceZonesView";
+import RacePredictor from "./RacePredictor";
+import ProfileView from "./ProfileView";
+import ShareLinks from "./ShareLinks";
+import ReportView from "./ReportView";
+import AccountData from "./AccountData";
+import LogFilters from "./LogFilters";
+import { filterCount, viewFromParams, viewToParams, type LogFilter, type LogView } from "./filters";
+import { downloadPBCard } from "./pbcard";
+import { athleteOn, displayName } from "./profile";
+import { ZONE_COLORS, workoutZone } from "./css";
+import { UNITS, formatDistance, fromMeters, inSessionUnit, paceIn, toStored, type Unit } from "./units";
+import type { Competition, CssTest, PB, Plan, Stroke, Workout, WorkoutSet } from "./types";
 
 /**
  * Swimmer Tracker – Multi-user (Supabase) • Mobile-first React
  * - Auth: Email magic link + Google/Apple OAuth
- * - Cloud Postgres with Row-Level Security
- * - Competition results + Personal Bests view
- * - Debounced search, pagination, optimistic UI, validation
+ * - Cloud Postgres with Row-Level Security; teams let coaches read their swimmers' logs
+ * - Offline-first: IndexedDB copy + sync queue (see sync.ts), installable PWA
+ * - Structured sessions (sets) with per-stroke totals
+ * - Meter or yard sessions, shown in the unit chosen in the profile
+ * - Training load: session RPE, acute:chronic ratio, monotony & strain
+ * - Time standards loaded from CSV/JSON, compared with PBs
+ * - Competition results + Personal Bests view, event progression, race splits + pacing
+ * - Athlete profile (name, birth date, gender, club, defaults)
+ * - Full JSON backup and restore; deleting the account and its data
+ * - Public read-only share links (PBs, recent results) and a PB card image
+ * - Race time predictor for events not swum lately (Riegel model fitted per stroke)
+ * - Full-text search, sorting and paging in the database; KPIs over the whole history
+ * - Log filters (dates, strokes, distance, duration, RPE, notes) kept in the URL, saved views
+ * - Training calendar: planned sessions vs. completed workouts, .ics export
+ * - Month and season reports, printable and exported as PDF in the browser
+ * - CSS tests and pace zones, time in zone per week
+ * - Trash with undo, per-row edit history
+ * - Optimistic UI, validation
  * - CSV import/export (chunked)
  *
  * Requirements:
@@ -18,45 +115,6 @@ import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip, CartesianG
  * Run the SQL in supabase/schema.sql on your Supabase project before using.
  */
 
-// ---------- Supabase client ----------
-const supabase = createClient(
-  import.meta.env.VITE_SUPABASE_URL as string,
-  import.meta.env.VITE_SUPABASE_ANON_KEY as string
-);
-
-// ---------- Types ----------
-type Workout = {
-  id?: string;
-  user_id?: string;
-  date: string;            // YYYY-MM-DD
-  distance_m: number;      // meters
-  duration_min: number;    // minutes
-  stroke: "Free" | "Back" | "Breast" | "Fly" | "IM" | "Drill";
-  rpe?: number;            // 1-10
-  notes?: string;
-};
-
-type Competition = {
-  id?: string;
-  user_id?: string;
-  date: string;            // YYYY-MM-DD
-  meet: string;
-  distance_m: number;
-  stroke: "Free" | "Back" | "Breast" | "Fly" | "IM";
-  time_sec: number;        // total seconds
-  location?: string;
-  notes?: string;
-};
-
-type PB = {
-  user_id: string;
-  stroke: string;
-  distance_m: number;
-  time_sec: number;
-  date: string;
-  meet: string;
-};
-
 const emptyWorkout: Workout = {
   date: new Date().toISOString().slice(0, 10),
   distance_m: 0,
@@ -64,47 +122,49 @@ const emptyWorkout: Workout = {
   stroke: "Free",
   rpe: 5,
   notes: "",
+  sets: null,
 };
 
 const emptyComp: Competition = {
   date: new Date().toISOString().slice(0, 10),
   meet: "",
+  course: "LCM",
   distance_m: 50,
   stroke: "Free",
   time_sec: 40,
+  splits: null,
+  split_length: null,
   location: "",
   notes: "",
 };
 
-// ---------- Utils ----------
-function formatNumber(n: number) {
-  return new Intl.NumberFormat().format(n);
+// Blank forms, with the profile's default stroke, units and usual pool
+function blankWorkout(profile: Profile | null): Workout {
+  return { ...emptyWorkout, stroke: profile?.default_stroke ?? emptyWorkout.stroke, unit: profile?.units ?? "m" };
 }
-function pacePer100(distance_m: number, duration_min: number) {
-  if (!distance_m || !duration_min) return 0;
-  return (duration_min * 100) / (distance_m / 100); // min/100m
+function blankComp(profile: Profile | null): Competition {
+  const stroke = profile?.default_stroke;
+  return { ...emptyComp, course: profile?.course ?? emptyComp.course, stroke: stroke && stroke !== "Drill" ? stroke : emptyComp.stroke };
 }
-function minutesToMMSS(min: number) {
-  if (!isFinite(min) || min <= 0) return "-";
-  const totalSec = Math.round(min * 60);
-  const m = Math.floor(totalSec / 60);
-  const s = totalSec % 60;
-  return `${m}:${s.toString().padStart(2, "0")}`;
+
+const PAGE_SIZE = 50;
+
+type Sort = { column: string; dir: "asc" | "desc" };
+
+function emptyPage<T>(): TablePage<T> {
+  return { rows: [], total: 0, local: false };
 }
-function secToTime(sec: number) {
-  if (!isFinite(sec) || sec <= 0) return "-";
-  const m = Math.floor(sec / 60);
-  const s = Math.floor(sec % 60);
-  const ms = Math.round((sec - Math.floor(sec)) * 100);
-  return `${m}:${s.toString().padStart(2, "0")}.${ms.toString().padStart(2, "0")}`;
+
+// ---------- Utils ----------
+// Clicking the sorted column flips it; a new column starts newest first for dates, ascending otherwise
+function nextSort(cur: Sort, column: string): Sort {
+  if (cur.column === column) return { column, dir: cur.dir === "asc" ? "desc" : "asc" };
+  return { column, dir: column === "date" ? "desc" : "asc" };
 }
-function timeToSec(t: string) {
-  // Accepts MM:SS.xx or M:SS or SS.xx
-  const parts = t.split(":");
-  if (parts.length === 1) return Number(parts[0]);
-  const m = Number(parts[0]);
-  const s = Number(parts[1]);
-  return m * 60 + s;
+function equivalentTime(p: PB, to: Course) {
+  const eq = convertTime(Number(p.time_sec), p.stroke as Competition["stroke"], p.distance_m, p.course, to);
+  if (!eq) return "-";
+  return eq.distance === p.distance_m ? secToTime(eq.time_sec) : `${secToTime(eq.time_sec)} (${eq.distance} ${courseUnit(to)})`;
 }
 
 // ---------- Smaller UI components ----------
@@ -116,6 +176,64 @@ function KPI({ label, value }: { label: string; value: string }) {
     </div>
   );
 }
+function SortTh({ label, column, sort, onSort }: {
+  label: string;
+  column: string;
+  sort: Sort;
+  onSort: (column: string) => void;
+}) {
+  const active = sort.column === column;
+  return (
+    <th className="p-2" aria-sort={active ? (sort.dir === "asc" ? "ascending" : "descending") : "none"}>
+      <button onClick={() => onSort(column)} className="inline-flex items-center gap-1 font-semibold whitespace-nowrap">
+        {label}
+        <span className={active ? "text-blue-600" : "invisible"}>{active && sort.dir === "asc" ? "▲" : "▼"}</span>
+      </button>
+    </th>
+  );
+}
+function Pager({ page, total, noun, onPage }: { page: number; total: number; noun: string; onPage: (page: number) => void }) {
+  const pages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  return (
+    <div className="flex items-center justify-between p-2 text-sm text-gray-600">
+      <button
+        disabled={page === 0}
+        onClick={() => onPage(page - 1)}
+        className="px-3 py-2 rounded-xl border disabled:opacity-50"
+      >
+        Prev
+      </button>
+      <div className="opacity-70">
+        Page {page + 1} of {pages} · {formatNumber(total)} {noun}
+        {total === 1 ? "" : "s"}
+      </div>
+      <button
+        disabled={page >= pages - 1}
+        onClick={() => onPage(page + 1)}
+        className="px-3 py-2 rounded-xl border disabled:opacity-50"
+      >
+        Next
+      </button>
+    </div>
+  );
+}
+function Toast({ message, onUndo, onClose }: { message: string; onUndo?: () => void; onClose: () => void }) {
+  return (
+    <div className="fixed bottom-4 inset-x-0 z-30 flex justify-center px-4 pointer-events-none" role="status">
+      <div className="pointer-events-auto flex items-center gap-3 rounded-xl bg-gray-900 text-white text-sm px-4 py-3 shadow-lg">
+        <span>{message}</span>
+        {onUndo && (
+          <button onClick={onUndo} className="font-semibold text-blue-300">
+            Undo
+          </button>
+        )}
+        <button onClick={onClose} aria-label="Dismiss" className="opacity-70">
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+}
 function Field({ label, children }: { label: string; children: React.ReactNode }) {
   return (
     <div className="col-span-1">
@@ -136,67 +254,248 @@ function EmailSignIn({ onSubmit }: { onSubmit: (email: string) => void }) {
   );
 }
 
-// CSV Import helper
-function CSVImport({ onRows }: { onRows: (rows: any[]) => void }) {
-  function parseCSV(text: string): any[] {
-    const lines = text.split(/\r?\n/).filter(Boolean);
-    if (!lines.length) return [];
-    const header = lines[0].split(",").map((h) => h.trim().toLowerCase());
-    const idx = (name: string) => header.indexOf(name);
-    const out: any[] = [];
-    for (let i = 1; i < lines.length; i++) {
-      const cols = lines[i].split(",");
-      out.push({
-        date: cols[idx("date")]?.trim(),
-        distance_m: cols[idx("distance_m")] || cols[idx("distance")] || 0,
-        duration_min: cols[idx("duration_min")] || cols[idx("duration")] || 0,
-        stroke: cols[idx("stroke")]?.trim() || "Free",
-        rpe: cols[idx("rpe")] || null,
-        notes: cols[idx("notes")]?.trim() || "",
-      });
-    }
-    return out;
+// Send-off input: free typing, parsed to seconds on blur
+function IntervalInput({ value, onChange }: { value?: number; onChange: (sec: number | undefined) => void }) {
+  const [text, setText] = useState(formatInterval(value));
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      placeholder="@1:30"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => {
+        const sec = text.trim() ? timeToSec(text.replace("@", "").trim()) : NaN;
+        onChange(isFinite(sec) && sec > 0 ? sec : undefined);
+        setText(isFinite(sec) && sec > 0 ? formatInterval(sec) : "");
+      }}
+      className="w-full px-2 py-1 rounded-lg border bg-white text-sm"
+    />
+  );
+}
+
+function SetsEditor({ sets, unit, onChange }: { sets: WorkoutSet[]; unit: Unit; onChange: (sets: WorkoutSet[]) => void }) {
+  const update = (i: number, patch: Partial<WorkoutSet>) => onChange(sets.map((s, j) => (j === i ? { ...s, ...patch } : s)));
+  const input = "w-full px-2 py-1 rounded-lg border bg-white text-sm";
+  return (
+    <div className="col-span-2">
+      <div className="flex items-center justify-between">
+        <label className="text-xs text-gray-600">Sets</label>
+        <button type="button" onClick={() => onChange([...sets, { ...emptySet }])} className="px-2 py-1 rounded-lg border text-sm">
+          + Add set
+        </button>
+      </div>
+      {!sets.length && (
+        <p className="text-xs text-gray-500 mt-1">No sets: the session counts as one set of the stroke and distance above.</p>
+      )}
+      {sets.map((s, i) => (
+        <div key={i} className="grid grid-cols-6 gap-1 mt-2 items-center">
+          <input type="number" inputMode="numeric" min={1} title="Reps" value={s.reps}
+                 onChange={(e) => update(i, { reps: Number(e.target.value) })} className={input} />
+          <input type="number" inputMode="numeric" min={0} title={`Distance per rep (${unit})`} value={s.distance_m}
+                 onChange={(e) => update(i, { distance_m: Number(e.target.value) })} className={input} />
+          <select title="Stroke" value={s.stroke} onChange={(e) => update(i, { stroke: e.target.value as Stroke })} className={input}>
+            {STROKES.map((st) => (
+              <option key={st}>{st}</option>
+            ))}
+          </select>
+          <IntervalInput value={s.interval_sec} onChange={(interval_sec) => update(i, { interval_sec })} />
+          <select title="Type" value={s.kind ?? "swim"} onChange={(e) => update(i, { kind: e.target.value as WorkoutSet["kind"] })} className={input}>
+            {SET_KINDS.map((k) => (
+              <option key={k}>{k}</option>
+            ))}
+          </select>
+          <select title="Effort zone" value={s.zone ?? ""} onChange={(e) => update(i, { zone: e.target.value ? Number(e.target.value) : undefined })} className={input}>
+            <option value="">Zone</option>
+            {ZONES.map((z) => (
+              <option key={z.zone} value={z.zone}>{z.label}</option>
+            ))}
+          </select>
+          <input type="text" placeholder="Description (e.g. descend 1-4)" value={s.description ?? ""}
+                 onChange={(e) => update(i, { description: e.target.value })} className={`${input} col-span-5`} />
+          <button type="button" onClick={() => onChange(sets.filter((_, j) => j !== i))} className="px-2 py-1 rounded-lg border text-sm">
+            Remove
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Split entry: lap or cumulative times, always emitted as lap times
+function SplitsEditor({ distance, timeSec, length, laps, onChange }: {
+  distance: number;
+  timeSec: number;
+  length: number | null;
+  laps: number[] | null;
+  onChange: (length: number | null, laps: number[] | null) => void;
+}) {
+  const [mode, setMode] = useState<"lap" | "cumulative">("lap");
+  const [text, setText] = useState<string[]>(() => (laps ?? []).map((l) => secToTime(l)));
+  const count = length && distance % length === 0 ? distance / length : 0;
+  const cells = Array.from({ length: count }, (_, i) => text[i] ?? "");
+
+  function emit(next: string[], nextMode = mode) {
+    const vals = next.map((t) => (t.trim() ? timeToSec(t) : NaN));
+    onChange(length, next.some((t) => t.trim()) ? (nextMode === "cumulative" ? fromCumulative(vals) : vals) : null);
+  }
+  function switchMode(next: "lap" | "cumulative") {
+    // Re-express what was typed so far in the other form
+    const vals = cells.map((t) => (t.trim() ? timeToSec(t) : NaN));
+    const conv = next === "cumulative" ? cumulative(vals) : fromCumulative(vals);
+    const nextText = conv.map((v, i) => (cells[i].trim() && isFinite(v) ? secToTime(v) : cells[i]));
+    setMode(next);
+    setText(nextText);
+    emit(nextText, next);
   }
+
+  const total = (laps ?? []).reduce((s, l) => s + (isFinite(l) ? l : 0), 0);
+  return (
+    <div className="col-span-2">
+      <div className="flex items-center gap-2">
+        <label className="text-xs text-gray-600">Splits</label>
+        <select
+          value={length ?? ""}
+          onChange={(e) => {
+            setText([]);
+            onChange(e.target.value ? Number(e.target.value) : null, null);
+          }}
+          className="px-2 py-1 rounded-lg border bg-white text-sm"
+        >
+          <option value="">None</option>
+          {SPLIT_LENGTHS.map((l) => (
+            <option key={l} value={l}>Every {l}</option>
+          ))}
+        </select>
+        {!!length && (
+          <select
+            value={mode}
+            onChange={(e) => switchMode(e.target.value as "lap" | "cumulative")}
+            className="px-2 py-1 rounded-lg border bg-white text-sm"
+          >
+            <option value="lap">Lap times</option>
+            <option value="cumulative">Cumulative</option>
+          </select>
+        )}
+      </div>
+      {!!length && !count && (
+        <p className="text-xs text-red-600 mt-1">A {distance} can't be split into {length}s.</p>
+      )}
+      {!!count && (
+        <div className="grid grid-cols-4 gap-2 mt-2">
+          {cells.map((t, i) => (
+            <input
+              key={i}
+              type="text"
+              inputMode="decimal"
+              placeholder={`${(i + 1) * length!}`}
+              value={t}
+              onChange={(e) => {
+                const next = cells.slice();
+                next[i] = e.target.value;
+                setText(next);
+                emit(next);
+              }}
+              className="w-full px-2 py-1 rounded-lg border bg-white text-sm"
+            />
+          ))}
+        </div>
+      )}
+      {!!count && laps && (
+        <div className={`text-xs mt-1 ${Math.abs(total - timeSec) <= SPLIT_TOLERANCE ? "text-green-700" : "text-red-600"}`}>
+          Splits total {secToTime(total)} · final {secToTime(timeSec)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function StandardCell({ status }: { status: StandardStatus }) {
   return (
-    <label className="px-3 py-2 rounded-xl bg-gray-100 border cursor-pointer text-sm">
-      Import CSV
-      <input
-        type="file"
-        accept=".csv"
-        className="hidden"
-        onChange={(e) => {
-          const f = e.target.files?.[0];
-          if (!f) return;
-          const r = new FileReader();
-          r.onload = () => {
-            const text = String(r.result || "");
-            const data = parseCSV(text);
-            if (!data.length) alert("No rows found. Ensure your CSV has a header row.");
-            else onRows(data);
-          };
-          r.readAsText(f);
-          e.currentTarget.value = "";
-        }}
-      />
-    </label>
+    <td className="p-2 whitespace-nowrap">
+      <span className="font-medium">{status.achieved?.level ?? "-"}</span>
+      {status.next && (
+        <span className="block text-xs text-gray-500">
+          next {status.next.level}: −{status.gap_sec?.toFixed(2)} s ({status.gap_pct}%)
+        </span>
+      )}
+    </td>
   );
 }
 
-function exportCSV(rows: Workout[]) {
-  const header = ["date", "distance_m", "duration_min", "stroke", "rpe", "notes"];
-  const body = rows.map((r) =>
-    [r.date, r.distance_m, r.duration_min, r.stroke, r.rpe ?? "", (r.notes ?? "").replaceAll(",", " ")].join(",")
+function ZoneCell({ zone }: { zone: number | null }) {
+  const label = ZONES.find((z) => z.zone === zone)?.label;
+  return (
+    <td className="p-2 whitespace-nowrap" title={label}>
+      {zone ? (
+        <span className="px-1.5 py-0.5 rounded text-xs font-medium text-white" style={{ background: ZONE_COLORS[zone] }}>
+          Z{zone}
+        </span>
+      ) : (
+        "-"
+      )}
+    </td>
+  );
+}
+
+function SyncBadge({ online, syncing, pending, onSync }: {
+  online: boolean; syncing: boolean; pending: number; onSync: () => void;
+}) {
+  const label = !online ? "Offline" : syncing ? "Syncing…" : pending ? `${pending} to sync` : "Synced";
+  const tone = !online ? "bg-gray-200 text-gray-700" : pending ? "bg-amber-100 text-amber-800" : "bg-green-100 text-green-800";
+  return (
+    <button onClick={onSync} disabled={!online || syncing} title={online ? "Sync now" : "Changes are saved on this device"}
+            className={`px-2 py-1 rounded-lg text-xs ${tone}`}>
+      {label}
+    </button>
   );
-  const csv = [header.join(","), ...body].join("\n");
+}
+
+// "40 × 25 m · 16 strokes/length" for sessions imported from a watch
+function describeLengths(w: Workout) {
+  const lengths = w.lengths ?? [];
+  const counted = lengths.filter((l) => l.strokes);
+  const avg = counted.length ? Math.round(counted.reduce((s, l) => s + l.strokes!, 0) / counted.length) : null;
+  const unit = w.unit ?? "m";
+  const pool = w.pool_length ? ` × ${Math.round(fromMeters(w.pool_length, unit) * 100) / 100} ${unit}` : " lengths";
+  return `${lengths.length}${pool}${avg ? ` · ${avg} strokes/length` : ""}`;
+}
+
+function describeRow(r: any) {
+  if (!r) return "deleted";
+  const text =
+    "meet" in r
+      ? `${r.date} ${r.meet} ${r.course} ${r.distance_m} ${r.stroke} ${secToTime(Number(r.time_sec))}`
+      : `${r.date} ${r.stroke} ${formatDistance(r.distance_m, r.unit ?? "m")} / ${r.duration_min} min`;
+  return r.deleted_at ? `${text} (in the trash)` : text;
+}
+
+function downloadCSV(prefix: string, csv: string) {
   const el = document.createElement("a");
   el.setAttribute("href", "data:text/csv;charset=utf-8," + encodeURIComponent(csv));
   const stamp = new Date().toISOString().slice(0, 19).replaceAll(":", "-");
-  el.setAttribute("download", `swims_${stamp}.csv`);
+  el.setAttribute("download", `${prefix}_${stamp}.csv`);
   document.body.appendChild(el);
   el.click();
   document.body.removeChild(el);
 }
 
+// Distances in each session's own unit, so yard sessions import back unchanged
+function exportCSV(rows: Workout[]) {
+  const header = ["date", "distance", "unit", "duration_min", "stroke", "rpe", "notes"];
+  const body = rows.map(inSessionUnit).map((r) => [r.date, r.distance_m, r.unit ?? "m", r.duration_min, r.stroke, r.rpe ?? "", r.notes ?? ""]);
+  downloadCSV("swims", toCSV(header, body));
+}
+
+// Same columns the competition import maps by default; time as M:SS.xx
+function exportCompetitionsCSV(comps: Competition[]) {
+  const header = ["date", "meet", "course", "stroke", "distance", "time", "location", "notes"];
+  const body = comps.map((c) => [
+    c.date, c.meet, c.course, c.stroke, c.distance_m, secToTime(Number(c.time_sec)), c.location ?? "", c.notes ?? "",
+  ]);
+  downloadCSV("results", toCSV(header, body));
+}
+
 // ---------- Main App ----------
 export default function App() {
   const [session, setSession] = useState<any>(null);
@@ -205,20 +504,54 @@ export default function App() {
   const [rows, setRows] = useState<Workout[]>([]);
   const [comps, setComps] = useState<Competition[]>([]);
   const [pbs, setPBs] = useState<PB[]>([]);
+  const [history, setHistory] = useState<History>({ since: null, weeks: [] });
+  const [cssTests, setCssTests] = useState<CssTest[]>([]);
 
   const [draft, setDraft] = useState<Workout>({ ...emptyWorkout });
   const [cdraft, setCDraft] = useState<Competition>({ ...emptyComp });
 
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [formKey, setFormKey] = useState(0);
   const [ceditingId, setCEditingId] = useState<string | null>(null);
+  const [cformKey, setCFormKey] = useState(0);
+  const [pacingId, setPacingId] = useState<string | null>(null);
 
   const [page, setPage] = useState(0);
-  const [search, setSearch] = useState("");
-  const [query, setQuery] = useState("");
+  const [linked] = useState(() => viewFromParams(new URLSearchParams(window.location.search))); // the log as the URL left it
+  const [search, setSearch] = useState(linked.search);
+  const [query, setQuery] = useState(linked.search);
   const [isPending, startTransition] = useTransition();
+  const [logSort, setLogSort] = useState<Sort>(linked.sort);
+  const [logFilter, setLogFilter] = useState<LogFilter>(linked.filter);
+  const [matching, setMatching] = useState<Workout[] | null>(null); // every session the search and filters match
+  const [logPage, setLogPage] = useState<TablePage<Workout>>(emptyPage);
+  const [cpage, setCPage] = useState(0);
+  const [compSort, setCompSort] = useState<Sort>({ column: "date", dir: "desc" });
+  const [compPage, setCompPage] = useState<TablePage<Competition>>(emptyPage);
+  const [revision, setRevision] = useState(0); // bumped on every data change, refetches the table pages
 
-  // Auth listener
+  const [online, setOnline] = useState(navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  const [pending, setPending] = useState(0);
+  const [conflicts, setConflicts] = useState<Conflict[]>([]);
+  const [view, setView] = useState<"log" | "calendar" | "reports" | "zones" | "team" | "standards" | "trash" | "profile">("log");
+  const [toast, setToast] = useState<{ message: string; undo?: () => void } | null>(null);
+  const [historyOf, setHistoryOf] = useState<{ table: TableName; row: Workout | Competition } | null>(null);
+  const [eventOf, setEventOf] = useState<SwimEvent | null>(null);
+  const [standards, setStandards] = useState<StandardsState>(emptyStandards);
+  const [importing, setImporting] = useState<{ kind: "workouts" | "competitions" | "results"; workbook?: Workbook } | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const activeStandards = standards.sets.find((s) => s.name === standards.active) ?? null;
+  const athlete = athleteOn(profile, standards.athlete, standards.meetDate || new Date().toISOString().slice(0, 10));
+  const units: Unit = profile?.units ?? "m";
+
+  // Auth listener (demo mode has no backend and a fixed local user)
   useEffect(() => {
+    if (DEMO_MODE) {
+      setSession(demoSession);
+      setLoading(false);
+      return;
+    }
     supabase.auth.getSession().then(({ data }) => {
       setSession(data.session ?? null);
       setLoading(false);
@@ -231,140 +564,368 @@ export default function App() {
     };
   }, []);
 
-  // Fetch data on login
+  // Invite links: /?invite=CODE joins the team once signed in
+  useEffect(() => {
+    if (!session?.user || DEMO_MODE) return;
+    const params = new URLSearchParams(window.location.search);
+    const code = params.get("invite");
+    if (!code) return;
+    params.delete("invite");
+    const rest = params.toString();
+    window.history.replaceState(null, "", window.location.pathname + (rest ? `?${rest}` : ""));
+    acceptInvite(code)
+      .then(() => {
+        setView("team");
+        alert("You've joined the team.");
+      })
+      .catch((e: any) => alert(e.message || "Could not accept the invite"));
+  }, [session?.user?.id]);
+
+  // Fetch data on login, re-sync whenever the connection comes back
   useEffect(() => {
     if (!session?.user) return;
     void fetchAll();
+    const up = () => {
+      setOnline(true);
+      void runSync();
+    };
+    const down = () => setOnline(false);
+    window.addEventListener("online", up);
+    window.addEventListener("offline", down);
+    return () => {
+      window.removeEventListener("online", up);
+      window.removeEventListener("offline", down);
+    };
   }, [session]);
 
+  // Local copy first (works offline), then sync with the server
   async function fetchAll() {
     setLoading(true);
     try {
-      const [{ data: w, error: ew }, { data: c, error: ec }, { data: p, error: ep }] = await Promise.all([
-        supabase.from("workouts").select("*").order("date", { ascending: false }).limit(500),
-        supabase.from("competitions").select("*").order("date", { ascending: false }).limit(500),
-        supabase.from("personal_bests").select("*"),
-      ]);
-      if (ew) throw ew;
-      if (ec) throw ec;
-      if (ep) throw ep;
-      setRows((w ?? []) as any);
-      setComps((c ?? []) as any);
-      setPBs((p ?? []) as any);
+      await adoptLocalData(session.user.id);
+      await loadLocal();
+      setStandards(await loadStandards());
+      loadProfile(session.user.id)
+        .then((p) => {
+          setProfile(p);
+          // Forms still showing the built-in defaults switch to the profile's
+          const { stroke, unit } = blankWorkout(p);
+          const { course, stroke: race } = blankComp(p);
+          setDraft((d) => (d.id || d.stroke !== emptyWorkout.stroke || d.unit ? d : { ...d, stroke, unit }));
+          setCDraft((c) => (c.id || c.course !== emptyComp.course || c.stroke !== emptyComp.stroke ? c : { ...c, course, stroke: race }));
+        })
+        .catch(() => {});
     } catch (e: any) {
       alert(e.message || "Error loading data");
     } finally {
       setLoading(false);
     }
+    await runSync();
+  }
+
+  async function loadLocal() {
+    const local = await readLocal();
+    setRows(local.workouts);
+    setComps(local.competitions);
+    setPBs(local.pbs);
+    setHistory(local.history);
+    setCssTests(local.cssTests);
+    setConflicts(local.conflicts);
+    setPending(local.pending);
+    setRevision((v) => v + 1);
+  }
+
+  async function runSync() {
+    if (!navigator.onLine) return;
+    setSyncing(true);
+    try {
+      const res = await sync();
+      if (res.errors.length) alert(res.errors.join("\n"));
+    } catch (e: any) {
+      alert(e.message || "Sync failed");
+    } finally {
+      setSyncing(false);
+      await loadLocal();
+    }
+  }
+
+  // Exports cover the whole history, not just the cached window: unsent changes go up
+  // first, then every row is read from the server a page at a time
+  async function exportAll(kind: "sessions" | "results" | "workbook") {
+    try {
+      await runSync();
+      const sort = { sort: "date", dir: "desc" } as const;
+      const [sessions, results] = await Promise.all([
+        kind === "results" ? null : queryAll("workouts", sort),
+        kind === "sessions" ? null : queryAll("competitions", sort),
+      ]);
+      const offline = [sessions, results].some((p) => p?.local);
+      if (offline && !confirm("You're offline, so only the sessions and results saved on this device can be exported. Export them anyway?")) return;
+      if (kind === "sessions") exportCSV(sessions!.rows);
+      else if (kind === "results") exportCompetitionsCSV(results!.rows);
+      else await exportWorkbook(sessions!.rows, results!.rows, pbs);
+    } catch (e: any) {
+      alert(e.message || "Export failed");
+    }
+  }
+
+  // Every local write: refresh the pending badge and push if we can
+  async function afterWrite() {
+    setPending(await pendingCount());
+    setRevision((v) => v + 1);
+    void runSync();
   }
 
+  // Toasts go away by themselves
+  useEffect(() => {
+    if (!toast) return;
+    const t = setTimeout(() => setToast(null), 6000);
+    return () => clearTimeout(t);
+  }, [toast]);
+
   // Debounce search → query
   useEffect(() => {
-    const t = setTimeout(() => startTransition(() => setQuery(search)), 250);
+    const t = setTimeout(
+      () =>
+        startTransition(() => {
+          setQuery(search);
+          setPage(0);
+        }),
+      250
+    );
     return () => clearTimeout(t);
   }, [search]);
 
-  // KPIs
-  const totals = useMemo(() => {
-    const totalDistance = rows.reduce((s, r) => s + (r.distance_m || 0), 0);
-    const totalSessions = rows.length;
-    const paces = rows.map((r) => pacePer100(r.distance_m, r.duration_min)).filter((p) => p > 0);
-    const avgPace100 = paces.length ? paces.reduce((s, p) => s + p, 0) / paces.length : 0;
-    return { totalDistance, totalSessions, avgPace100 };
-  }, [rows]);
+  // The log's search, filters and sort stay in the URL, for bookmarks and the back button
+  useEffect(() => {
+    const params = viewToParams({ search: query, filter: logFilter, sort: logSort }, new URLSearchParams(window.location.search));
+    const qs = params.toString();
+    window.history.replaceState(null, "", window.location.pathname + (qs ? `?${qs}` : ""));
+  }, [query, logFilter, logSort]);
 
-  // Weekly distance chart
-  const weeklyChart = useMemo(() => {
-    const map = new Map<string, number>();
-    for (const r of rows) {
-      const d = new Date(r.date + "T00:00:00");
-      const day = (d.getDay() + 6) % 7; // Mon=0
-      const monday = new Date(d);
-      monday.setDate(d.getDate() - day);
-      const key = monday.toISOString().slice(0, 10);
-      map.set(key, (map.get(key) || 0) + (r.distance_m || 0));
+  // Table pages: searched, filtered, sorted and paged by the database (the local window when offline)
+  useEffect(() => {
+    if (!session?.user) return;
+    let stale = false;
+    queryPage("workouts", { search: query, filter: logFilter, sort: logSort.column, dir: logSort.dir, offset: page * PAGE_SIZE, limit: PAGE_SIZE })
+      .then((p) => {
+        if (stale) return;
+        if (page > 0 && page * PAGE_SIZE >= p.total) setPage(Math.max(0, Math.ceil(p.total / PAGE_SIZE) - 1));
+        else setLogPage(p);
+      })
+      .catch((e: any) => !stale && alert(e.message || "Error loading sessions"));
+    return () => {
+      stale = true;
+    };
+  }, [session, query, logFilter, logSort, page, revision]);
+
+  // With a search or filters, the KPIs and the weekly chart cover the matching sessions only
+  const filtering = !!query.trim() || filterCount(logFilter) > 0;
+  useEffect(() => {
+    if (!session?.user || !filtering) {
+      setMatching(null);
+      return;
     }
-    return Array.from(map.entries())
-      .map(([weekStart, dist]) => ({ weekStart, dist }))
-      .sort((a, b) => a.weekStart.localeCompare(b.weekStart));
+    let stale = false;
+    queryAll("workouts", { search: query, filter: logFilter, sort: "date", dir: "desc" })
+      .then((p) => !stale && setMatching(p.rows))
+      .catch((e: any) => !stale && alert(e.message || "Error loading sessions"));
+    return () => {
+      stale = true;
+    };
+  }, [session, filtering, query, logFilter, revision]);
+
+  useEffect(() => {
+    if (!session?.user) return;
+    let stale = false;
+    queryPage("competitions", { sort: compSort.column, dir: compSort.dir, offset: cpage * PAGE_SIZE, limit: PAGE_SIZE })
+      .then((p) => {
+        if (stale) return;
+        if (cpage > 0 && cpage * PAGE_SIZE >= p.total) setCPage(Math.max(0, Math.ceil(p.total / PAGE_SIZE) - 1));
+        else setCompPage(p);
+      })
+      .catch((e: any) => !stale && alert(e.message || "Error loading competitions"));
+    return () => {
+      stale = true;
+    };
+  }, [session, compSort, cpage, revision]);
+
+  // Weekly totals over the whole history: the server's weeks before the local window, plus
+  // the window itself (so unsynced sessions count right away)
+  const weeks = useMemo(() => {
+    if (matching) return weeklyTotals(matching);
+    const since = history.since;
+    return mergeWeeks(history.weeks, weeklyTotals(since ? rows.filter((r) => r.date >= since) : rows));
+  }, [rows, history, matching]);
+
+  // KPIs
+  const totals = useMemo(() => summarize(weeks), [weeks]);
+
+  // Weekly distance chart, stacked by stroke, in the preferred unit
+  const weeklyChart = useMemo(
+    () =>
+      weeks.map((w) => ({
+        weekStart: w.week,
+        dist: Math.round(fromMeters(w.distance_m, units)),
+        ...Object.fromEntries(Object.entries(w.by_stroke).map(([st, m]) => [st, Math.round(fromMeters(Number(m), units))])),
+      })),
+    [weeks, units]
+  );
+  // Training load (session RPE × minutes), last 12 weeks on the chart
+  const load = useMemo(() => {
+    const days = dailyLoads(rows);
+    const weeks = weeklyLoads(days);
+    return {
+      chart: days.slice(-84),
+      today: days[days.length - 1],
+      week: weeks[weeks.length - 1],
+      warnings: loadWarnings(days, weeks, rows),
+    };
   }, [rows]);
+  const chartStrokes = STROKES.filter((st) => (totals.byStroke[st] ?? 0) > 0);
+  const draftTotals = draft.sets?.length ? totalsFromSets(draft.sets) : null;
 
-  // Filtered & paginated rows
-  const filtered = useMemo(() => {
-    const q = query.trim().toLowerCase();
-    const pageSize = 50;
-    const base = !q
-      ? rows
-      : rows.filter(
-          (r) =>
-            r.date.includes(q) ||
-            String(r.distance_m).includes(q) ||
-            String(r.duration_min).includes(q) ||
-            (r.stroke || "").toLowerCase().includes(q) ||
-            (r.notes || "").toLowerCase().includes(q)
-        );
-    const start = page * pageSize;
-    return base.slice(start, start + pageSize);
-  }, [rows, query, page]);
+  function applyLogView(v: LogView) {
+    setSearch(v.search);
+    setQuery(v.search);
+    setLogFilter(v.filter);
+    setLogSort(v.sort);
+    setPage(0);
+  }
+  function sortLog(column: string) {
+    setLogSort((cur) => nextSort(cur, column));
+    setPage(0);
+  }
+  function sortComps(column: string) {
+    setCompSort((cur) => nextSort(cur, column));
+    setCPage(0);
+  }
+
+  // Rows shown in the tables may be older than the local window
+  const findWorkout = (id: string) => logPage.rows.find((x) => x.id === id) ?? rows.find((x) => x.id === id);
+  const findCompetition = (id: string) => compPage.rows.find((x) => x.id === id) ?? comps.find((x) => x.id === id);
+
+  // Pacing: selected race vs the fastest other swim of the event that has splits
+  const pacing = useMemo(() => {
+    const race = pacingId ? findCompetition(pacingId) : undefined;
+    if (!race?.splits?.length || !race.split_length) return null;
+    const sameEvent = (c: Competition) =>
+      c.course === race.course && c.stroke === race.stroke && c.distance_m === race.distance_m;
+    const ref = comps
+      .filter((c) => c.id !== race.id && sameEvent(c) && c.splits?.length && c.split_length)
+      .sort((a, b) => Number(a.time_sec) - Number(b.time_sec))[0];
+    const pb = pbs.find((p) => p.course === race.course && p.stroke === race.stroke && p.distance_m === race.distance_m);
+    const raceIsPB = !!pb && Number(race.time_sec) <= Number(pb.time_sec);
+    const refKind = !ref ? null : raceIsPB ? "Previous best" : pb && Number(ref.time_sec) <= Number(pb.time_sec) ? "PB" : "Fastest swim with splits";
+    return {
+      race,
+      ref,
+      refKind,
+      analysis: analysePacing(
+        { laps: race.splits.map(Number), length: race.split_length },
+        ref ? { laps: ref.splits!.map(Number), length: ref.split_length! } : undefined
+      ),
+    };
+  }, [comps, compPage, pbs, pacingId]);
 
   // CRUD: Workouts (optimistic)
   async function saveWorkout(e: React.FormEvent) {
     e.preventDefault();
+    // Entered in the session's unit, stored in meters (toStored below)
     const clean: Workout = {
       ...draft,
+      unit: draft.unit ?? "m",
       distance_m: Math.max(0, Number(draft.distance_m) || 0),
       duration_min: Math.max(0, Number(draft.duration_min) || 0),
       rpe: draft.rpe ? Math.min(10, Math.max(1, Number(draft.rpe))) : undefined,
       stroke: draft.stroke,
+      sets: null,
     };
+    // Sessions built from sets: totals and dominant stroke come from the sets
+    const sets = (draft.sets ?? [])
+      .map((s) => ({
+        ...s,
+        reps: Math.max(1, Math.round(Number(s.reps) || 1)),
+        distance_m: Math.max(0, Number(s.distance_m) || 0),
+        description: s.description?.trim() || undefined,
+      }))
+      .filter((s) => s.distance_m > 0);
+    if (sets.length) {
+      const t = totalsFromSets(sets);
+      clean.sets = sets;
+      clean.distance_m = t.distance_m;
+      clean.stroke = t.stroke;
+      if (!clean.duration_min && t.duration_min) clean.duration_min = t.duration_min;
+    }
     if (!session?.user) return alert("Please sign in first.");
 
-    if (editingId) {
-      const idx = rows.findIndex((r) => r.id === editingId);
-      const prev = rows[idx];
-      const updated = { ...clean, id: editingId } as any;
-      setRows((r) => r.map((x) => (x.id === editingId ? updated : x)));
-      const { error } = await supabase.from("workouts").update(updated).eq("id", editingId);
-      if (error) {
-        alert(error.message);
-        setRows((r) => r.map((x) => (x.id === editingId ? prev : x)));
-      }
-    } else {
-      const optimistic = { ...clean, id: (crypto as any).randomUUID?.() || String(Math.random()) } as any;
-      setRows((r) => [optimistic, ...r]);
-      const { data, error } = await supabase
-        .from("workouts")
-        .insert({ ...clean, user_id: session.user.id })
-        .select()
-        .single();
-      if (error) {
-        alert(error.message);
-        setRows((r) => r.filter((x) => x.id !== optimistic.id));
-      } else {
-        setRows((r) => r.map((x) => (x.id === optimistic.id ? (data as any) : x)));
+    const prev = editingId ? findWorkout(editingId) : undefined;
+    const row: Workout = { ...toStored(clean), id: editingId ?? newId(), user_id: session.user.id, updated_at: prev?.updated_at };
+    setRows((r) => (editingId ? r.map((x) => (x.id === editingId ? row : x)) : [row, ...r]));
+    setLogPage((p) => ({ ...p, rows: p.rows.map((x) => (x.id === row.id ? row : x)) }));
+    setEditingId(null);
+    setDraft(blankWorkout(profile));
+    setFormKey((k) => k + 1);
+    await saveLocal("workouts", [row]);
+    await afterWrite();
+  }
+
+  // Watch files: parse locally, skip activities already in the log (or repeated in the selection)
+  async function importActivities(files: File[]) {
+    if (!session?.user) return alert("Please sign in first.");
+    const parsed: SwimActivity[] = [];
+    const failed: string[] = [];
+    for (const f of files) {
+      try {
+        parsed.push(await readActivityFile(f));
+      } catch (e: any) {
+        failed.push(`${f.name}: ${e.message || "could not be read"}`);
       }
     }
-    setEditingId(null);
-    setDraft({ ...emptyWorkout });
+    const known = await importedSourceIds(session.user.id, rows, parsed.map((a) => a.source_id));
+    const fresh = parsed.filter((a) => {
+      if (known.has(a.source_id)) return false;
+      known.add(a.source_id);
+      return true;
+    });
+    const imported = fresh.map((a) => ({ ...activityToWorkout(a), user_id: session.user.id }));
+    if (imported.length) {
+      await saveLocal("workouts", imported);
+      await loadLocal();
+      await afterWrite();
+    }
+    const skipped = parsed.length - fresh.length;
+    alert(
+      [
+        `Imported ${imported.length} session${imported.length === 1 ? "" : "s"}.`,
+        skipped ? `${skipped} already in your log.` : "",
+        ...failed,
+      ].filter(Boolean).join("\n")
+    );
   }
 
   function editWorkout(id: string) {
-    const r = rows.find((x) => x.id === id);
+    const r = findWorkout(id);
     if (r) {
       setEditingId(id);
-      setDraft({ ...r });
+      setDraft(inSessionUnit(r));
+      setFormKey((k) => k + 1);
       window.scrollTo({ top: 0, behavior: "smooth" });
     }
   }
   async function deleteWorkout(id: string) {
-    if (!confirm("Delete this session?")) return;
-    const prev = rows;
+    const row = findWorkout(id);
+    if (!row) return;
     setRows((r) => r.filter((x) => x.id !== id));
-    const { error } = await supabase.from("workouts").delete().eq("id", id);
-    if (error) {
-      alert(error.message);
-      setRows(prev);
+    setLogPage((p) => ({ ...p, rows: p.rows.filter((x) => x.id !== id), total: p.total - 1 }));
+    if (editingId === id) {
+      setEditingId(null);
+      setDraft(blankWorkout(profile));
+      setFormKey((k) => k + 1);
     }
+    const trashed = await deleteLocal("workouts", row);
+    setToast({ message: "Session moved to the trash.", undo: () => void restoreRows("workouts", [trashed]) });
+    await afterWrite();
   }
 
   // CRUD: Competitions (optimistic) + PB refresh
@@ -375,60 +936,137 @@ export default function App() {
       distance_m: Math.max(25, Number(cdraft.distance_m) || 50),
       time_sec: Math.max(1, Number(cdraft.time_sec) || 40),
     };
-    if (!session?.user) return alert("Please sign in first.");
-
-    if (ceditingId) {
-      const idx = comps.findIndex((r) => r.id === ceditingId);
-      const prev = comps[idx];
-      const updated = { ...clean, id: ceditingId } as any;
-      setComps((r) => r.map((x) => (x.id === ceditingId ? updated : x)));
-      const { error } = await supabase.from("competitions").update(updated).eq("id", ceditingId);
-      if (error) {
-        alert(error.message);
-        setComps((r) => r.map((x) => (x.id === ceditingId ? prev : x)));
-      }
+    if (clean.split_length && clean.splits) {
+      const err = validateSplits(clean.splits, clean.time_sec, clean.distance_m, clean.split_length);
+      if (err) return alert(err);
     } else {
-      const optimistic = { ...clean, id: (crypto as any).randomUUID?.() || String(Math.random()) } as any;
-      setComps((r) => [optimistic, ...r]);
-      const { data, error } = await supabase
-        .from("competitions")
-        .insert({ ...clean, user_id: session.user.id })
-        .select()
-        .single();
-      if (error) {
-        alert(error.message);
-        setComps((r) => r.filter((x) => x.id !== optimistic.id));
-      } else {
-        setComps((r) => r.map((x) => (x.id === optimistic.id ? (data as any) : x)));
-      }
+      clean.splits = null;
+      clean.split_length = null;
     }
+    if (!session?.user) return alert("Please sign in first.");
+
+    const prev = ceditingId ? findCompetition(ceditingId) : undefined;
+    const row: Competition = { ...clean, id: ceditingId ?? newId(), user_id: session.user.id, updated_at: prev?.updated_at };
+    const next = ceditingId ? comps.map((x) => (x.id === ceditingId ? row : x)) : [row, ...comps];
+    setComps(next);
+    setPBs(computePBs(next));
+    setCompPage((p) => ({ ...p, rows: p.rows.map((x) => (x.id === row.id ? row : x)) }));
     setCEditingId(null);
-    setCDraft({ ...emptyComp });
-    setTimeout(() => refreshPBs(), 250);
+    setCDraft(blankComp(profile));
+    setCFormKey((k) => k + 1);
+    await saveLocal("competitions", [row]);
+    await afterWrite();
   }
 
   function editCompetition(id: string) {
-    const r = comps.find((x) => x.id === id);
+    const r = findCompetition(id);
     if (r) {
       setCEditingId(id);
       setCDraft({ ...r });
+      setCFormKey((k) => k + 1);
       window.scrollTo({ top: 0, behavior: "smooth" });
     }
   }
   async function deleteCompetition(id: string) {
-    if (!confirm("Delete this result?")) return;
-    const prev = comps;
-    setComps((r) => r.filter((x) => x.id !== id));
-    const { error } = await supabase.from("competitions").delete().eq("id", id);
-    if (error) {
-      alert(error.message);
-      setComps(prev);
+    const row = findCompetition(id);
+    if (!row) return;
+    const next = comps.filter((x) => x.id !== id);
+    setComps(next);
+    setPBs(computePBs(next));
+    setCompPage((p) => ({ ...p, rows: p.rows.filter((x) => x.id !== id), total: p.total - 1 }));
+    if (ceditingId === id) {
+      setCEditingId(null);
+      setCDraft(blankComp(profile));
+      setCFormKey((k) => k + 1);
     }
-    setTimeout(() => refreshPBs(), 250);
+    const trashed = await deleteLocal("competitions", row);
+    setToast({ message: "Result moved to the trash.", undo: () => void restoreRows("competitions", [trashed]) });
+    await afterWrite();
   }
-  async function refreshPBs() {
-    const { data, error } = await supabase.from("personal_bests").select("*");
-    if (!error) setPBs((data ?? []) as any);
+
+  // Marking a planned session done logs it, then opens it for the actual numbers
+  async function completePlan(plan: Plan) {
+    const row: Workout = { ...planToWorkout(plan, units), id: newId(), user_id: session.user.id };
+    setRows((r) => [row, ...r]);
+    await saveLocal("workouts", [row]);
+    setEditingId(row.id!);
+    setDraft(inSessionUnit(row));
+    setFormKey((k) => k + 1);
+    setView("log");
+    window.scrollTo({ top: 0, behavior: "smooth" });
+    setToast({ message: "Session logged from the plan. Adjust it to what you swam and save." });
+    await afterWrite();
+  }
+
+  // Trash & history
+  async function restoreRows(table: TableName, restored: (Workout | Competition)[]) {
+    setToast(null);
+    if (!restored.length) return;
+    await restoreLocal(table, restored);
+    await loadLocal(); // recomputes PBs
+    await afterWrite();
+  }
+  async function purgeRows(table: TableName, purged: (Workout | Competition)[]) {
+    for (const r of purged) await purgeLocal(table, r);
+    if (purged.length) await afterWrite();
+  }
+  // The old values become a new edit, based on the current server version
+  async function revertRow(table: TableName, old: Workout | Competition) {
+    const current = table === "workouts" ? findWorkout(old.id!) : findCompetition(old.id!);
+    await saveLocal(table, [{ ...old, deleted_at: null, updated_at: current?.updated_at }]);
+    // History is opened from the edit form, which still shows the replaced values
+    if (table === "workouts") {
+      setEditingId(null);
+      setDraft(blankWorkout(profile));
+      setFormKey((k) => k + 1);
+    } else {
+      setCEditingId(null);
+      setCDraft(blankComp(profile));
+      setCFormKey((k) => k + 1);
+    }
+    await loadLocal();
+    setToast({ message: "Reverted to the earlier version." });
+    await afterWrite();
+  }
+
+  async function updateProfile(next: Profile) {
+    try {
+      setProfile(await saveProfile(next));
+      setToast({ message: "Profile saved." });
+    } catch (e: any) {
+      alert(e.code ? e.message : "Saving the profile needs a connection.");
+    }
+  }
+
+  // A restore can change the profile and the standards too, not just the rows
+  async function afterRestore() {
+    setStandards(await loadStandards());
+    setProfile(await loadProfile(session.user.id));
+    await loadLocal();
+  }
+
+  // CSS tests go straight to the server
+  async function saveTest(test: CssTest) {
+    try {
+      await saveCssTest(test);
+      await loadLocal();
+    } catch (e: any) {
+      alert(e.code ? e.message : "Saving a test needs a connection.");
+    }
+  }
+  async function removeTest(test: CssTest) {
+    try {
+      await removeCssTest(test.id!);
+      await loadLocal();
+    } catch (e: any) {
+      alert(e.code ? e.message : "Removing a test needs a connection.");
+    }
+  }
+
+  async function keepVersion(c: Conflict, keep: "mine" | "theirs") {
+    await resolveConflict(c, keep);
+    await loadLocal();
+    if (keep === "mine") void runSync();
   }
 
   // Auth actions
@@ -442,7 +1080,15 @@ export default function App() {
     if (error) alert(error.message);
   }
   async function signOut() {
+    if (DEMO_MODE) {
+      if (!confirm("Reset the demo? Everything you entered is removed.")) return;
+      await clearLocal();
+      window.location.reload();
+      return;
+    }
+    if (pending && !confirm(`${pending} change(s) have not synced yet and will be lost. Sign out anyway?`)) return;
     await supabase.auth.signOut();
+    await clearLocal();
     setRows([]);
     setComps([]);
     setPBs([]);
@@ -477,430 +1123,869 @@ export default function App() {
   return (
     <div className="min-h-screen bg-gray-50 text-gray-900">
       {/* Header */}
-      <header className="sticky top-0 z-10 bg-white/80 backdrop-blur shadow-sm">
+      <header className="sticky top-0 z-10 bg-white/80 backdrop-blur shadow-sm print:hidden">
         <div className="max-w-5xl mx-auto px-4 py-3 flex items-center justify-between">
-          <motion.h1 initial={{ opacity: 0, y: -6 }} animate={{ opacity: 1, y: 0 }} className="text-2xl font-bold">
-            Swimmer Tracker
-          </motion.h1>
+          <div className="flex items-center gap-3">
+            <motion.h1 initial={{ opacity: 0, y: -6 }} animate={{ opacity: 1, y: 0 }} className="text-2xl font-bold">
+              Swimmer Tracker
+            </motion.h1>
+            <nav className="flex gap-1 text-sm">
+              {(DEMO_MODE
+                ? (["log", "calendar", "reports", "zones", "standards", "trash"] as const)
+                : (["log", "calendar", "reports", "zones", "standards", "team", "trash"] as const)
+              ).map((v) => (
+                <button
+                  key={v}
+                  onClick={() => setView(v)}
+                  className={`px-3 py-1 rounded-lg ${view === v ? "bg-gray-900 text-white" : "border"}`}
+                >
+                  {{ log: "My log", calendar: "Calendar", reports: "Reports", zones: "Pace zones", standards: "Standards", team: "Team", trash: "Trash" }[v]}
+                </button>
+              ))}
+            </nav>
+          </div>
           <div className="flex items-center gap-2 text-sm">
-            <span className="hidden sm:inline text-gray-600">{session.user.email}</span>
+            {DEMO_MODE && <span className="hidden sm:inline text-gray-600">Demo · data stays on this device</span>}
+            <button
+              onClick={() => setView("profile")}
+              title="Profile"
+              className={`max-w-[10rem] truncate hover:underline ${view === "profile" ? "font-medium" : "text-gray-600"}`}
+            >
+              {displayName(profile, session.user.email) || "Profile"}
+            </button>
+            <SyncBadge online={online} syncing={syncing} pending={pending} onSync={() => void runSync()} />
             <button onClick={signOut} className="px-3 py-2 rounded-xl border">
-              Sign out
+              {DEMO_MODE ? "Reset demo" : "Sign out"}
             </button>
           </div>
         </div>
       </header>
 
       <main className="max-w-5xl mx-auto px-4 pb-24">
-        {/* KPIs */}
-        <section className="grid grid-cols-2 sm:grid-cols-3 gap-3 mt-4">
-          <KPI label="Total Distance" value={`${formatNumber(totals.totalDistance)} m`} />
-          <KPI label="Sessions" value={formatNumber(totals.totalSessions)} />
-          <KPI label="Avg Pace /100m" value={minutesToMMSS(totals.avgPace100)} />
-        </section>
-
-        {/* Weekly Chart */}
-        <section className="rounded-2xl p-4 bg-white shadow mt-4">
-          <div className="flex items-center justify-between mb-2">
-            <h2 className="text-lg font-semibold">Weekly Distance</h2>
-          </div>
-          <div className="h-56">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={weeklyChart} margin={{ top: 8, right: 8, left: 0, bottom: 8 }}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="weekStart" tick={{ fontSize: 12 }} />
-                <YAxis tick={{ fontSize: 12 }} />
-                <Tooltip />
-                <Line type="monotone" dataKey="dist" dot={false} strokeWidth={2} />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
-        </section>
+        {/* Sync conflicts */}
+        {!!conflicts.length && (
+          <section className="rounded-2xl p-4 bg-amber-50 border border-amber-200 shadow mt-4 print:hidden">
+            <h2 className="text-lg font-semibold mb-1">Not synced</h2>
+            <p className="text-sm text-gray-600 mb-3">
+              These rows changed on the server while you had unsynced edits, or the server did not accept them. Pick the version to
+              keep.
+            </p>
+            <ul className="grid gap-2 text-sm">
+              {conflicts.map((c) => (
+                <li key={`${c.table}:${c.id}`} className="flex items-center gap-2 flex-wrap">
+                  <span className="flex-1">
+                    <span className="text-gray-500">{c.table === "workouts" ? "Session" : "Result"}:</span>{" "}
+                    mine: {describeRow(c.local)} · server: {describeRow(c.remote)}
+                    {c.error && <span className="block text-red-700">Not accepted: {c.error}</span>}
+                  </span>
+                  <button onClick={() => keepVersion(c, "mine")} className="px-2 py-1 rounded-lg border bg-white">
+                    {c.error ? "Send again" : "Keep mine"}
+                  </button>
+                  <button onClick={() => keepVersion(c, "theirs")} className="px-2 py-1 rounded-lg border bg-white">
+                    {c.error && !c.remote ? "Discard mine" : "Keep server"}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
 
-        {/* Personal Bests */}
-        <section className="rounded-2xl p-4 bg-white shadow mt-4">
-          <div className="flex items-center justify-between mb-2">
-            <h2 className="text-lg font-semibold">Personal Bests</h2>
-          </div>
-          <div className="overflow-x-auto">
-            <table className="min-w-full text-sm">
-              <thead>
-                <tr className="text-left border-b">
-                  <th className="p-2">Stroke</th>
-                  <th className="p-2">Distance</th>
-                  <th className="p-2">Best Time</th>
-                  <th className="p-2">Meet</th>
-                  <th className="p-2">Date</th>
-                </tr>
-              </thead>
-              <tbody>
-                {pbs.map((p) => (
-                  <tr key={`${p.stroke}-${p.distance_m}`} className="border-b last:border-0">
-                    <td className="p-2">{p.stroke}</td>
-                    <td className="p-2">{p.distance_m} m</td>
-                    <td className="p-2 font-medium">{secToTime(Number(p.time_sec))}</td>
-                    <td className="p-2">{p.meet}</td>
-                    <td className="p-2">{p.date}</td>
-                  </tr>
+        {view === "team" && <TeamView userId={session.user.id} unit={units} />}
+
+        {view === "calendar" && (
+          <CalendarView
+            owner={session.user.id}
+            ownerName={profile?.full_name}
+            unit={units}
+            revision={revision}
+            onComplete={completePlan}
+          />
+        )}
+
+        {view === "reports" && <ReportView owner={session.user.id} name={displayName(profile, session.user.email)} unit={units} />}
+
+        {view === "profile" && profile && <ProfileView profile={profile} email={session.user.email} onSave={updateProfile} />}
+        {view === "profile" && !DEMO_MODE && <ShareLinks owner={session.user.id} />}
+        {view === "profile" && <AccountData owner={session.user.id} email={session.user.email} onRestored={afterRestore} />}
+        {view === "profile" && !profile && (
+          <section className="rounded-2xl p-4 bg-white shadow mt-4 text-sm text-gray-600">The profile needs a connection the first time.</section>
+        )}
+
+        {view === "zones" && <PaceZonesView tests={cssTests} workouts={rows} onSave={saveTest} onRemove={removeTest} />}
+
+        {view === "trash" && <TrashView revision={revision} unit={units} onRestore={restoreRows} onPurge={purgeRows} />}
+
+        {view === "standards" && (
+          <StandardsView
+            standards={standards}
+            athlete={athlete}
+            profile={profile}
+            pbs={pbs}
+            onChange={(next) => {
+              setStandards(next);
+              void saveStandards(next);
+            }}
+          />
+        )}
+
+        {view === "log" && (
+          <>
+            {/* KPIs */}
+            {filtering && (
+              <p className="mt-4 text-sm text-blue-800 flex flex-wrap items-center gap-2">
+                Totals and the weekly chart cover the sessions matching the log's search and filters.
+                <button onClick={() => applyLogView({ search: "", filter: {}, sort: logSort })} className="px-2 py-0.5 rounded-lg border border-blue-300">
+                  Show all
+                </button>
+              </p>
+            )}
+            <section className="grid grid-cols-2 sm:grid-cols-3 gap-3 mt-4">
+              <KPI label="Total Distance" value={formatDistance(totals.totalDistance, units)} />
+              <KPI label="Sessions" value={formatNumber(totals.totalSessions)} />
+              <KPI label={`Avg Pace /100${units}`} value={minutesToMMSS(paceIn(totals.avgPace100, units))} />
+            </section>
+            {chartStrokes.length > 1 && (
+              <section className="grid grid-cols-3 sm:grid-cols-6 gap-3 mt-3">
+                {chartStrokes.map((st) => (
+                  <KPI key={st} label={st} value={formatDistance(totals.byStroke[st] ?? 0, units)} />
+                ))}
+              </section>
+            )}
+
+            <div className="grid md:grid-cols-2 gap-4 mt-4">
+              {/* Weekly Chart */}
+              <section className="rounded-2xl p-4 bg-white shadow">
+                <div className="flex items-center justify-between mb-2">
+                  <h2 className="text-lg font-semibold">
+                    Weekly Distance ({units}){filtering && <span className="text-sm font-normal text-blue-800"> · filtered</span>}
+                  </h2>
+                </div>
+                <div className="h-56">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={weeklyChart} margin={{ top: 8, right: 8, left: 0, bottom: 8 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="weekStart" tick={{ fontSize: 12 }} />
+                      <YAxis tick={{ fontSize: 12 }} />
+                      <Tooltip />
+                      {chartStrokes.length > 1 && <Legend />}
+                      {chartStrokes.map((st) => (
+                        <Bar key={st} dataKey={st} stackId="dist" fill={STROKE_COLORS[st]} />
+                      ))}
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </section>
+
+              {/* Training Load */}
+              <section className="rounded-2xl p-4 bg-white shadow">
+                <div className="flex items-center justify-between mb-2">
+                  <h2 className="text-lg font-semibold">Training Load</h2>
+                  <div className="flex gap-3 text-xs text-gray-600">
+                    <span>ACWR <b className="text-gray-900">{load.today?.acwr ?? "-"}</b></span>
+                    <span>Monotony <b className="text-gray-900">{load.week?.monotony ?? "-"}</b></span>
+                    <span>Strain <b className="text-gray-900">{load.week?.strain != null ? formatNumber(load.week.strain) : "-"}</b></span>
+                  </div>
+                </div>
+                <div className="h-56">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={load.chart} margin={{ top: 8, right: 8, left: 0, bottom: 8 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                      <YAxis yAxisId="au" tick={{ fontSize: 12 }} />
+                      <YAxis yAxisId="ratio" orientation="right" domain={[0, 2]} tick={{ fontSize: 12 }} />
+                      <Tooltip />
+                      <Legend />
+                      <ReferenceArea yAxisId="ratio" y1={ACWR_LOW} y2={ACWR_CAUTION} fill="#16a34a" fillOpacity={0.06} />
+                      <Bar yAxisId="au" dataKey="load" name="Daily load" fill="#cbd5e1" />
+                      <Line yAxisId="au" type="monotone" dataKey="acute" name="Acute (7 d)" dot={false} stroke="#dc2626" strokeWidth={2} />
+                      <Line yAxisId="au" type="monotone" dataKey="chronic" name="Chronic (28 d/wk)" dot={false} stroke="#2563eb" strokeWidth={2} />
+                      <Line yAxisId="ratio" type="monotone" dataKey="acwr" name="ACWR" dot={false} stroke="#111827" strokeDasharray="4 4" />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+                {load.warnings.map((w) => (
+                  <p
+                    key={w.message}
+                    className={`text-sm mt-1 ${w.level === "danger" ? "text-red-600" : w.level === "caution" ? "text-amber-700" : "text-gray-600"}`}
+                  >
+                    {w.level === "info" ? "ℹ︎" : "⚠︎"} {w.message}
+                  </p>
                 ))}
-                {!pbs.length && (
-                  <tr>
-                    <td className="p-2 text-gray-500" colSpan={5}>
-                      Add competition results to see PBs.
-                    </td>
-                  </tr>
+              </section>
+            </div>
+
+            {/* Personal Bests */}
+            <section className="rounded-2xl p-4 bg-white shadow mt-4">
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="text-lg font-semibold">Personal Bests</h2>
+                {!!pbs.length && (
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-gray-500">Click an event for its progression</span>
+                    <button
+                      onClick={() =>
+                        downloadPBCard({ name: profile?.full_name?.trim() ?? "", club: profile?.club, pbs }).catch((e) => alert(e.message))
+                      }
+                      className="px-2 py-1 rounded-lg border text-sm"
+                    >
+                      PB card
+                    </button>
+                  </div>
                 )}
-              </tbody>
-            </table>
-          </div>
-        </section>
-
-        {/* Forms */}
-        <section className="grid md:grid-cols-2 gap-4 mt-4">
-          {/* Training form */}
-          <div className="rounded-2xl p-4 bg-white shadow">
-            <h2 className="text-lg font-semibold mb-3">{editingId ? "Edit Session" : "Add Session"}</h2>
-            <form onSubmit={saveWorkout} className="grid grid-cols-2 gap-3">
-              <Field label="Date">
+              </div>
+              {!pbs.length && <p className="p-2 text-sm text-gray-500">Add competition results to see PBs.</p>}
+              {COURSES.filter((course) => pbs.some((p) => p.course === course)).map((course) => {
+                const others = COURSES.filter((c) => c !== course);
+                return (
+                  <div key={course} className="overflow-x-auto mt-2">
+                    <h3 className="text-sm font-semibold text-gray-700 px-2">
+                      {courseLabel(course)} ({course})
+                    </h3>
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-left border-b">
+                          <th className="p-2">Stroke</th>
+                          <th className="p-2">Distance</th>
+                          <th className="p-2">Best Time</th>
+                          {others.map((c) => (
+                            <th key={c} className="p-2 text-gray-500 font-normal">≈ {c}</th>
+                          ))}
+                          {activeStandards && <th className="p-2">Standard</th>}
+                          <th className="p-2">Meet</th>
+                          <th className="p-2">Date</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {pbs
+                          .filter((p) => p.course === course)
+                          .map((p) => (
+                            <tr
+                              key={`${p.course}-${p.stroke}-${p.distance_m}`}
+                              onClick={() => setEventOf(p)}
+                              className="border-b last:border-0 cursor-pointer hover:bg-gray-50"
+                            >
+                              <td className="p-2">{p.stroke}</td>
+                              <td className="p-2">{p.distance_m} {courseUnit(course)}</td>
+                              <td className="p-2 font-medium">{secToTime(Number(p.time_sec))}</td>
+                              {others.map((c) => (
+                                <td key={c} className="p-2 text-gray-500 whitespace-nowrap">{equivalentTime(p, c)}</td>
+                              ))}
+                              {activeStandards && <StandardCell status={standardStatus(activeStandards, p, athlete)} />}
+                              <td className="p-2">{p.meet}</td>
+                              <td className="p-2">{p.date}</td>
+                            </tr>
+                          ))}
+                      </tbody>
+                    </table>
+                  </div>
+                );
+              })}
+              {!!pbs.length && (
+                <p className="px-2 pt-2 text-xs text-gray-500">≈ Equivalent times use standard course conversion factors and are estimates.</p>
+              )}
+            </section>
+
+            <RacePredictor comps={comps} pbs={pbs} />
+
+            {/* Forms */}
+            <section className="grid md:grid-cols-2 gap-4 mt-4">
+              {/* Training form */}
+              <div className="rounded-2xl p-4 bg-white shadow">
+                <h2 className="text-lg font-semibold mb-3">{editingId ? "Edit Session" : "Add Session"}</h2>
+                <form onSubmit={saveWorkout} className="grid grid-cols-2 gap-3">
+                  <Field label="Date">
+                    <input
+                      type="date"
+                      value={draft.date}
+                      onChange={(e) => setDraft((v) => ({ ...v, date: e.target.value }))}
+                      required
+                      className="w-full px-3 py-2 rounded-xl border bg-white"
+                    />
+                  </Field>
+                  <Field label="Stroke">
+                    <select
+                      value={draftTotals?.stroke ?? draft.stroke}
+                      disabled={!!draftTotals}
+                      onChange={(e) => setDraft((v) => ({ ...v, stroke: e.target.value as Workout["stroke"] }))}
+                      className="w-full px-3 py-2 rounded-xl border bg-white disabled:bg-gray-100"
+                    >
+                      <option>Free</option>
+                      <option>Back</option>
+                      <option>Breast</option>
+                      <option>Fly</option>
+                      <option>IM</option>
+                      <option>Drill</option>
+                    </select>
+                  </Field>
+                  <Field label={`Distance (${draft.unit ?? "m"})`}>
+                    <div className="flex gap-1">
+                      <input
+                        type="number"
+                        inputMode="numeric"
+                        value={draftTotals?.distance_m ?? draft.distance_m}
+                        disabled={!!draftTotals}
+                        onChange={(e) => setDraft((v) => ({ ...v, distance_m: Number(e.target.value) }))}
+                        className="w-full min-w-0 px-3 py-2 rounded-xl border bg-white disabled:bg-gray-100"
+                      />
+                      <select
+                        title="Pool unit"
+                        value={draft.unit ?? "m"}
+                        onChange={(e) => setDraft((v) => ({ ...v, unit: e.target.value as Unit }))}
+                        className="px-2 py-2 rounded-xl border bg-white"
+                      >
+                        {UNITS.map((u) => (
+                          <option key={u}>{u}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </Field>
+                  <Field label="Duration (min)">
+                    <input
+                      type="number"
+                      inputMode="numeric"
+                      value={draft.duration_min || ""}
+                      placeholder={draftTotals?.duration_min ? String(draftTotals.duration_min) : "0"}
+                      onChange={(e) => setDraft((v) => ({ ...v, duration_min: Number(e.target.value) }))}
+                      className="w-full px-3 py-2 rounded-xl border bg-white"
+                    />
+                  </Field>
+                  <Field label="RPE (1-10)">
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      inputMode="numeric"
+                      value={draft.rpe ?? 5}
+                      onChange={(e) => setDraft((v) => ({ ...v, rpe: Number(e.target.value) }))}
+                      className="w-full px-3 py-2 rounded-xl border bg-white"
+                    />
+                  </Field>
+                  <div className="col-span-2">
+                    <label className="text-xs text-gray-600">Notes</label>
+                    <input
+                      type="text"
+                      value={draft.notes}
+                      onChange={(e) => setDraft((v) => ({ ...v, notes: e.target.value }))}
+                      className="w-full px-3 py-2 rounded-xl border bg-white"
+                      placeholder="Main set, drills, etc."
+                    />
+                  </div>
+                  <SetsEditor key={formKey} sets={draft.sets ?? []} unit={draft.unit ?? "m"} onChange={(sets) => setDraft((v) => ({ ...v, sets }))} />
+                  <div className="col-span-2 flex items-center gap-2">
+                    <button type="submit" className="px-4 py-2 rounded-xl bg-blue-600 text-white">
+                      {editingId ? "Save Changes" : "Add Session"}
+                    </button>
+                    {editingId && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setEditingId(null);
+                          setDraft(blankWorkout(profile));
+                          setFormKey((k) => k + 1);
+                        }}
+                        className="px-3 py-2 rounded-xl border"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                    {editingId && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          const row = findWorkout(editingId);
+                          if (row) setHistoryOf({ table: "workouts", row });
+                        }}
+                        className="px-3 py-2 rounded-xl border"
+                      >
+                        History
+                      </button>
+                    )}
+                    <div className="ml-auto text-sm text-gray-600">
+                      Pace/100{draft.unit ?? "m"}:{" "}
+                      <span className="font-semibold">
+                        {minutesToMMSS(
+                          pacePer100(draftTotals?.distance_m ?? draft.distance_m, draft.duration_min || draftTotals?.duration_min || 0)
+                        )}
+                      </span>
+                    </div>
+                  </div>
+                </form>
+              </div>
+
+              {/* Competition form */}
+              <div className="rounded-2xl p-4 bg-white shadow">
+                <h2 className="text-lg font-semibold mb-3">{ceditingId ? "Edit Competition" : "Add Competition"}</h2>
+                <form onSubmit={saveCompetition} className="grid grid-cols-2 gap-3">
+                  <Field label="Date">
+                    <input
+                      type="date"
+                      value={cdraft.date}
+                      onChange={(e) => setCDraft((v) => ({ ...v, date: e.target.value }))}
+                      required
+                      className="w-full px-3 py-2 rounded-xl border bg-white"
+                    />
+                  </Field>
+                  <Field label="Meet">
+                    <input
+                      type="text"
+                      value={cdraft.meet}
+                      onChange={(e) => setCDraft((v) => ({ ...v, meet: e.target.value }))}
+                      required
+                      className="w-full px-3 py-2 rounded-xl border bg-white"
+                    />
+                  </Field>
+                  <Field label="Stroke">
+                    <select
+                      value={cdraft.stroke}
+                      onChange={(e) => setCDraft((v) => ({ ...v, stroke: e.target.value as Competition["stroke"] }))}
+                      className="w-full px-3 py-2 rounded-xl border bg-white"
+                    >
+                      <option>Free</option>
+                      <option>Back</option>
+                      <option>Breast</option>
+                      <option>Fly</option>
+                      <option>IM</option>
+                    </select>
+                  </Field>
+                  <Field label="Course">
+                    <select
+                      value={cdraft.course}
+                      onChange={(e) => setCDraft((v) => ({ ...v, course: e.target.value as Course }))}
+                      className="w-full px-3 py-2 rounded-xl border bg-white"
+                    >
+                      {COURSES.map((c) => (
+                        <option key={c} value={c}>
+                          {c} – {courseLabel(c)}
+                        </option>
+                      ))}
+                    </select>
+                  </Field>
+                  <Field label={`Distance (${courseUnit(cdraft.course)})`}>
+                    <input
+                      type="number"
+                      inputMode="numeric"
+                      value={cdraft.distance_m}
+                      onChange={(e) => setCDraft((v) => ({ ...v, distance_m: Number(e.target.value) }))}
+                      className="w-full px-3 py-2 rounded-xl border bg-white"
+                    />
+                  </Field>
+                  <Field label="Time (MM:SS.xx)">
+                    <input
+                      type="text"
+                      value={secToTime(cdraft.time_sec)}
+                      onChange={(e) => setCDraft((v) => ({ ...v, time_sec: timeToSec(e.target.value) }))}
+                      className="w-full px-3 py-2 rounded-xl border bg-white"
+                    />
+                  </Field>
+                  <Field label="Location">
+                    <input
+                      type="text"
+                      value={cdraft.location}
+                      onChange={(e) => setCDraft((v) => ({ ...v, location: e.target.value }))}
+                      className="w-full px-3 py-2 rounded-xl border bg-white"
+                    />
+                  </Field>
+                  <SplitsEditor
+                    key={cformKey}
+                    distance={Number(cdraft.distance_m) || 0}
+                    timeSec={Number(cdraft.time_sec) || 0}
+                    length={cdraft.split_length ?? null}
+                    laps={cdraft.splits ?? null}
+                    onChange={(split_length, splits) => setCDraft((v) => ({ ...v, split_length, splits }))}
+                  />
+                  <div className="col-span-2">
+                    <label className="text-xs text-gray-600">Notes</label>
+                    <input
+                      type="text"
+                      value={cdraft.notes}
+                      onChange={(e) => setCDraft((v) => ({ ...v, notes: e.target.value }))}
+                      className="w-full px-3 py-2 rounded-xl border bg-white"
+                    />
+                  </div>
+                  <div className="col-span-2 flex items-center gap-2">
+                    <button type="submit" className="px-4 py-2 rounded-xl bg-blue-600 text-white">
+                      {ceditingId ? "Save Changes" : "Add Result"}
+                    </button>
+                    {ceditingId && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setCEditingId(null);
+                          setCDraft(blankComp(profile));
+                          setCFormKey((k) => k + 1);
+                        }}
+                        className="px-3 py-2 rounded-xl border"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                    {ceditingId && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          const row = findCompetition(ceditingId);
+                          if (row) setHistoryOf({ table: "competitions", row });
+                        }}
+                        className="px-3 py-2 rounded-xl border"
+                      >
+                        History
+                      </button>
+                    )}
+                  </div>
+                </form>
+              </div>
+            </section>
+
+            {/* Search */}
+            <section className="rounded-2xl p-4 bg-white shadow mt-4">
+              <div className="flex items-center gap-2">
                 <input
-                  type="date"
-                  value={draft.date}
-                  onChange={(e) => setDraft((v) => ({ ...v, date: e.target.value }))}
-                  required
-                  className="w-full px-3 py-2 rounded-xl border bg-white"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search notes and strokes…"
+                  className="flex-1 px-3 py-2 rounded-xl border bg-white"
                 />
-              </Field>
-              <Field label="Stroke">
-                <select
-                  value={draft.stroke}
-                  onChange={(e) => setDraft((v) => ({ ...v, stroke: e.target.value as Workout["stroke"] }))}
-                  className="w-full px-3 py-2 rounded-xl border bg-white"
+                <button
+                  onClick={() => {
+                    setSearch("");
+                    setQuery("");
+                    setPage(0);
+                  }}
+                  className="px-3 py-2 rounded-xl border"
                 >
-                  <option>Free</option>
-                  <option>Back</option>
-                  <option>Breast</option>
-                  <option>Fly</option>
-                  <option>IM</option>
-                  <option>Drill</option>
-                </select>
-              </Field>
-              <Field label="Distance (m)">
-                <input
-                  type="number"
-                  inputMode="numeric"
-                  value={draft.distance_m}
-                  onChange={(e) => setDraft((v) => ({ ...v, distance_m: Number(e.target.value) }))}
-                  className="w-full px-3 py-2 rounded-xl border bg-white"
-                />
-              </Field>
-              <Field label="Duration (min)">
-                <input
-                  type="number"
-                  inputMode="numeric"
-                  value={draft.duration_min}
-                  onChange={(e) => setDraft((v) => ({ ...v, duration_min: Number(e.target.value) }))}
-                  className="w-full px-3 py-2 rounded-xl border bg-white"
-                />
-              </Field>
-              <Field label="RPE (1-10)">
-                <input
-                  type="number"
-                  min={1}
-                  max={10}
-                  inputMode="numeric"
-                  value={draft.rpe ?? 5}
-                  onChange={(e) => setDraft((v) => ({ ...v, rpe: Number(e.target.value) }))}
-                  className="w-full px-3 py-2 rounded-xl border bg-white"
-                />
-              </Field>
-              <div className="col-span-2">
-                <label className="text-xs text-gray-600">Notes</label>
-                <input
-                  type="text"
-                  value={draft.notes}
-                  onChange={(e) => setDraft((v) => ({ ...v, notes: e.target.value }))}
-                  className="w-full px-3 py-2 rounded-xl border bg-white"
-                  placeholder="Main set, drills, etc."
-                />
-              </div>
-              <div className="col-span-2 flex items-center gap-2">
-                <button type="submit" className="px-4 py-2 rounded-xl bg-blue-600 text-white">
-                  {editingId ? "Save Changes" : "Add Session"}
+                  Clear
                 </button>
-                {editingId && (
-                  <button
-                    type="button"
-                    onClick={() => {
-                      setEditingId(null);
-                      setDraft({ ...emptyWorkout });
-                    }}
-                    className="px-3 py-2 rounded-xl border"
-                  >
-                    Cancel
-                  </button>
+              </div>
+              <LogFilters view={{ search, filter: logFilter, sort: logSort }} unit={units} onChange={applyLogView} />
+            </section>
+
+            {/* Training table */}
+            <section className="rounded-2xl p-2 sm:p-4 bg-white shadow mt-4">
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left border-b">
+                      <SortTh label="Date" column="date" sort={logSort} onSort={sortLog} />
+                      <SortTh label="Stroke" column="stroke" sort={logSort} onSort={sortLog} />
+                      <SortTh label={`Distance (${units})`} column="distance_m" sort={logSort} onSort={sortLog} />
+                      <SortTh label="Duration (min)" column="duration_min" sort={logSort} onSort={sortLog} />
+                      <SortTh label={`Pace /100${units}`} column="pace_per_100" sort={logSort} onSort={sortLog} />
+                      <th className="p-2">Zone</th>
+                      <SortTh label="RPE" column="rpe" sort={logSort} onSort={sortLog} />
+                      <th className="p-2">Sets</th>
+                      <SortTh label="Notes" column="notes" sort={logSort} onSort={sortLog} />
+                      <th className="p-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {logPage.rows.map((r) => (
+                      <tr key={r.id} className="border-b last:border-0">
+                        <td className="p-2 whitespace-nowrap">{r.date}</td>
+                        <td className="p-2 whitespace-nowrap">{r.stroke}</td>
+                        <td className="p-2 whitespace-nowrap">
+                          {formatNumber(Math.round(fromMeters(r.distance_m, units)))}
+                          {(r.unit ?? "m") !== units && (
+                            <span className="block text-xs text-gray-500">{formatDistance(r.distance_m, r.unit ?? "m")}</span>
+                          )}
+                        </td>
+                        <td className="p-2 whitespace-nowrap">{r.duration_min}</td>
+                        <td className="p-2 whitespace-nowrap">
+                          {minutesToMMSS(paceIn(pacePer100(r.distance_m, r.duration_min), units))}
+                        </td>
+                        <ZoneCell zone={workoutZone(r, cssTests)} />
+                        <td className="p-2 whitespace-nowrap">{r.rpe ?? "-"}</td>
+                        <td className="p-2 text-xs text-gray-600">
+                          {inSessionUnit(r).sets?.map((s, i) => (
+                            <div key={i} className="whitespace-nowrap">{formatSet(s)}</div>
+                          ))}
+                          {!r.sets?.length && !!r.lengths?.length && (
+                            <div className="whitespace-nowrap">{describeLengths(r)}</div>
+                          )}
+                        </td>
+                        <td className="p-2">{r.notes}</td>
+                        <td className="p-2 whitespace-nowrap text-right">
+                          <button onClick={() => editWorkout(r.id!)} className="px-2 py-1 rounded-lg border mr-1">
+                            Edit
+                          </button>
+                          <button onClick={() => deleteWorkout(r.id!)} className="px-2 py-1 rounded-lg border">
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                    {!logPage.rows.length && (
+                      <tr>
+                        <td className="text-center text-gray-500 py-8" colSpan={10}>
+                          {filtering ? "No sessions match." : "No sessions yet."}
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+                {logPage.local && (
+                  <p className="px-2 text-xs text-amber-700">Offline: showing the sessions saved on this device only.</p>
                 )}
-                <div className="ml-auto text-sm text-gray-600">
-                  Pace/100m: <span className="font-semibold">{minutesToMMSS(pacePer100(draft.distance_m, draft.duration_min))}</span>
-                </div>
+                <Pager page={page} total={logPage.total} noun="session" onPage={setPage} />
               </div>
-            </form>
-          </div>
+            </section>
 
-          {/* Competition form */}
-          <div className="rounded-2xl p-4 bg-white shadow">
-            <h2 className="text-lg font-semibold mb-3">{ceditingId ? "Edit Competition" : "Add Competition"}</h2>
-            <form onSubmit={saveCompetition} className="grid grid-cols-2 gap-3">
-              <Field label="Date">
-                <input
-                  type="date"
-                  value={cdraft.date}
-                  onChange={(e) => setCDraft((v) => ({ ...v, date: e.target.value }))}
-                  required
-                  className="w-full px-3 py-2 rounded-xl border bg-white"
-                />
-              </Field>
-              <Field label="Meet">
-                <input
-                  type="text"
-                  value={cdraft.meet}
-                  onChange={(e) => setCDraft((v) => ({ ...v, meet: e.target.value }))}
-                  required
-                  className="w-full px-3 py-2 rounded-xl border bg-white"
-                />
-              </Field>
-              <Field label="Stroke">
-                <select
-                  value={cdraft.stroke}
-                  onChange={(e) => setCDraft((v) => ({ ...v, stroke: e.target.value as Competition["stroke"] }))}
-                  className="w-full px-3 py-2 rounded-xl border bg-white"
-                >
-                  <option>Free</option>
-                  <option>Back</option>
-                  <option>Breast</option>
-                  <option>Fly</option>
-                  <option>IM</option>
-                </select>
-              </Field>
-              <Field label="Distance (m)">
-                <input
-                  type="number"
-                  inputMode="numeric"
-                  value={cdraft.distance_m}
-                  onChange={(e) => setCDraft((v) => ({ ...v, distance_m: Number(e.target.value) }))}
-                  className="w-full px-3 py-2 rounded-xl border bg-white"
-                />
-              </Field>
-              <Field label="Time (MM:SS.xx)">
-                <input
-                  type="text"
-                  value={secToTime(cdraft.time_sec)}
-                  onChange={(e) => setCDraft((v) => ({ ...v, time_sec: timeToSec(e.target.value) }))}
-                  className="w-full px-3 py-2 rounded-xl border bg-white"
-                />
-              </Field>
-              <Field label="Location">
-                <input
-                  type="text"
-                  value={cdraft.location}
-                  onChange={(e) => setCDraft((v) => ({ ...v, location: e.target.value }))}
-                  className="w-full px-3 py-2 rounded-xl border bg-white"
-                />
-              </Field>
-              <div className="col-span-2">
-                <label className="text-xs text-gray-600">Notes</label>
-                <input
-                  type="text"
-                  value={cdraft.notes}
-                  onChange={(e) => setCDraft((v) => ({ ...v, notes: e.target.value }))}
-                  className="w-full px-3 py-2 rounded-xl border bg-white"
-                />
+            {/* Competitions table */}
+            <section className="rounded-2xl p-2 sm:p-4 bg-white shadow mt-4">
+              <h2 className="text-lg font-semibold px-2">Competitions</h2>
+              <div className="overflow-x-auto mt-2">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left border-b">
+                      <SortTh label="Date" column="date" sort={compSort} onSort={sortComps} />
+                      <SortTh label="Meet" column="meet" sort={compSort} onSort={sortComps} />
+                      <SortTh label="Course" column="course" sort={compSort} onSort={sortComps} />
+                      <SortTh label="Stroke" column="stroke" sort={compSort} onSort={sortComps} />
+                      <SortTh label="Distance" column="distance_m" sort={compSort} onSort={sortComps} />
+                      <SortTh label="Time" column="time_sec" sort={compSort} onSort={sortComps} />
+                      <SortTh label="Location" column="location" sort={compSort} onSort={sortComps} />
+                      <SortTh label="Notes" column="notes" sort={compSort} onSort={sortComps} />
+                      <th className="p-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {compPage.rows.map((r) => (
+                      <tr key={r.id} className="border-b last:border-0">
+                        <td className="p-2 whitespace-nowrap">{r.date}</td>
+                        <td className="p-2 whitespace-nowrap">{r.meet}</td>
+                        <td className="p-2 whitespace-nowrap">{r.course}</td>
+                        <td className="p-2 whitespace-nowrap">{r.stroke}</td>
+                        <td className="p-2 whitespace-nowrap">{r.distance_m} {courseUnit(r.course)}</td>
+                        <td className="p-2 whitespace-nowrap font-medium">{secToTime(Number(r.time_sec))}</td>
+                        <td className="p-2 whitespace-nowrap">{r.location}</td>
+                        <td className="p-2">{r.notes}</td>
+                        <td className="p-2 whitespace-nowrap text-right">
+                          {!!r.splits?.length && (
+                            <button onClick={() => setPacingId(r.id!)} className="px-2 py-1 rounded-lg border mr-1">
+                              Pacing
+                            </button>
+                          )}
+                          <button onClick={() => editCompetition(r.id!)} className="px-2 py-1 rounded-lg border mr-1">
+                            Edit
+                          </button>
+                          <button onClick={() => deleteCompetition(r.id!)} className="px-2 py-1 rounded-lg border">
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                    {!compPage.rows.length && (
+                      <tr>
+                        <td className="text-center text-gray-500 py-8" colSpan={9}>
+                          No competition results yet.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+                {compPage.local && (
+                  <p className="px-2 text-xs text-amber-700">Offline: showing the results saved on this device only.</p>
+                )}
+                <Pager page={cpage} total={compPage.total} noun="result" onPage={setCPage} />
               </div>
-              <div className="col-span-2 flex items-center gap-2">
-                <button type="submit" className="px-4 py-2 rounded-xl bg-blue-600 text-white">
-                  {ceditingId ? "Save Changes" : "Add Result"}
-                </button>
-                {ceditingId && (
+            </section>
+
+            {/* Pacing */}
+            {pacing && (
+              <section className="rounded-2xl p-4 bg-white shadow mt-4">
+                <div className="flex items-center justify-between mb-1">
+                  <h2 className="text-lg font-semibold">
+                    Pacing – {pacing.race.distance_m} {courseUnit(pacing.race.course)} {pacing.race.stroke} ({pacing.race.course})
+                  </h2>
+                  <button onClick={() => setPacingId(null)} className="px-3 py-2 rounded-xl border text-sm">
+                    Close
+                  </button>
+                </div>
+                <p className="text-sm text-gray-600 mb-2">
+                  {pacing.race.meet} {pacing.race.date} · {secToTime(Number(pacing.race.time_sec))}
+                  {pacing.ref
+                    ? ` vs ${pacing.refKind} ${secToTime(Number(pacing.ref.time_sec))} (${pacing.ref.meet} ${pacing.ref.date})`
+                    : " · no other swim of this event has splits to compare with"}
+                </p>
+                <div className="h-56">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={pacing.analysis.rows} margin={{ top: 8, right: 8, left: 0, bottom: 8 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="at" tick={{ fontSize: 12 }} />
+                      <YAxis tick={{ fontSize: 12 }} domain={["auto", "auto"]} />
+                      <Tooltip formatter={(v: number) => secToTime(v)} />
+                      <Legend />
+                      <Line type="monotone" dataKey="race" name="This race" stroke="#2563eb" strokeWidth={2} />
+                      {pacing.ref && (
+                        <Line type="monotone" dataKey="ref" name={pacing.refKind!} stroke="#9ca3af" strokeDasharray="5 5" strokeWidth={2} />
+                      )}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="overflow-x-auto mt-2">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left border-b">
+                        <th className="p-2">Split</th>
+                        <th className="p-2">This race</th>
+                        {pacing.ref && <th className="p-2">{pacing.refKind}</th>}
+                        {pacing.ref && <th className="p-2">Δ</th>}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {pacing.analysis.rows.map((r) => (
+                        <tr key={r.at} className="border-b last:border-0">
+                          <td className="p-2">{r.at}</td>
+                          <td className="p-2">{secToTime(r.race)}</td>
+                          {pacing.ref && <td className="p-2">{r.ref !== undefined ? secToTime(r.ref) : "-"}</td>}
+                          {pacing.ref && (
+                            <td className={`p-2 ${(r.delta ?? 0) > 0 ? "text-red-600" : "text-green-700"}`}>
+                              {r.delta !== undefined ? `${r.delta > 0 ? "+" : ""}${r.delta.toFixed(2)}` : "-"}
+                            </td>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {!!pacing.analysis.notes.length && (
+                  <ul className="list-disc pl-6 mt-2 text-sm text-gray-700">
+                    {pacing.analysis.notes.map((n) => (
+                      <li key={n}>{n}</li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            )}
+
+            {/* Import/Export */}
+            <section className="rounded-2xl p-4 bg-white shadow mt-4">
+              <div className="flex items-center justify-between gap-2 flex-wrap">
+                <div className="flex items-center gap-2 flex-wrap">
                   <button
-                    type="button"
-                    onClick={() => {
-                      setCEditingId(null);
-                      setCDraft({ ...emptyComp });
-                    }}
-                    className="px-3 py-2 rounded-xl border"
+                    onClick={() => (session?.user ? setImporting({ kind: "workouts" }) : alert("Please sign in first."))}
+                    className="px-3 py-2 rounded-xl bg-gray-100 border text-sm"
                   >
-                    Cancel
+                    Import CSV
                   </button>
-                )}
+                  <button
+                    onClick={() => (session?.user ? setImporting({ kind: "competitions" }) : alert("Please sign in first."))}
+                    className="px-3 py-2 rounded-xl bg-gray-100 border text-sm"
+                  >
+                    Import results CSV
+                  </button>
+                  <button
+                    onClick={() => (session?.user ? setImporting({ kind: "results" }) : alert("Please sign in first."))}
+                    className="px-3 py-2 rounded-xl bg-gray-100 border text-sm"
+                  >
+                    Import meet results
+                  </button>
+                  <label className="px-3 py-2 rounded-xl bg-gray-100 border cursor-pointer text-sm">
+                    Import watch files
+                    <input
+                      type="file"
+                      accept=".fit,.tcx"
+                      multiple
+                      className="hidden"
+                      onChange={(e) => {
+                        const files = Array.from(e.target.files ?? []);
+                        e.currentTarget.value = "";
+                        if (files.length) void importActivities(files);
+                      }}
+                    />
+                  </label>
+                  <label className="px-3 py-2 rounded-xl bg-gray-100 border cursor-pointer text-sm">
+                    Import Excel
+                    <input
+                      type="file"
+                      accept=".xlsx,.xls"
+                      className="hidden"
+                      onChange={async (e) => {
+                        const f = e.target.files?.[0];
+                        e.currentTarget.value = "";
+                        if (!f) return;
+                        if (!session?.user) return alert("Please sign in first.");
+                        try {
+                          const workbook = await readWorkbook(f);
+                          if (!workbook.sheets.length) return alert("That workbook has no data.");
+                          setImporting({ kind: "workouts", workbook });
+                        } catch (err: any) {
+                          alert(err.message || "Could not read that workbook");
+                        }
+                      }}
+                    />
+                  </label>
+                </div>
+                <div className="flex items-center gap-2 flex-wrap">
+                  <button onClick={() => exportAll("sessions")} className="px-3 py-2 rounded-xl bg-gray-900 text-white text-sm">
+                    Export CSV
+                  </button>
+                  <button onClick={() => exportAll("results")} className="px-3 py-2 rounded-xl bg-gray-900 text-white text-sm">
+                    Export results CSV
+                  </button>
+                  <button
+                    onClick={() => exportAll("workbook")}
+                    className="px-3 py-2 rounded-xl bg-gray-900 text-white text-sm"
+                  >
+                    Export Excel
+                  </button>
+                </div>
               </div>
-            </form>
-          </div>
-        </section>
+            </section>
+          </>
+        )}
 
-        {/* Search */}
-        <section className="rounded-2xl p-4 bg-white shadow mt-4">
-          <div className="flex items-center gap-2">
-            <input
-              value={search}
-              onChange={(e) => setSearch(e.target.value)}
-              placeholder="Search date, stroke, notes…"
-              className="flex-1 px-3 py-2 rounded-xl border bg-white"
-            />
-            <button
-              onClick={() => {
-                setSearch("");
-                setQuery("");
-              }}
-              className="px-3 py-2 rounded-xl border"
-            >
-              Clear
-            </button>
-          </div>
-        </section>
-
-        {/* Training table */}
-        <section className="rounded-2xl p-2 sm:p-4 bg-white shadow mt-4">
-          <div className="overflow-x-auto">
-            <table className="min-w-full text-sm">
-              <thead>
-                <tr className="text-left border-b">
-                  <th className="p-2">Date</th>
-                  <th className="p-2">Stroke</th>
-                  <th className="p-2">Distance (m)</th>
-                  <th className="p-2">Duration (min)</th>
-                  <th className="p-2">Pace /100m</th>
-                  <th className="p-2">RPE</th>
-                  <th className="p-2">Notes</th>
-                  <th className="p-2"></th>
-                </tr>
-              </thead>
-              <tbody>
-                {filtered.map((r) => (
-                  <tr key={r.id} className="border-b last:border-0">
-                    <td className="p-2 whitespace-nowrap">{r.date}</td>
-                    <td className="p-2 whitespace-nowrap">{r.stroke}</td>
-                    <td className="p-2 whitespace-nowrap">{formatNumber(r.distance_m)}</td>
-                    <td className="p-2 whitespace-nowrap">{r.duration_min}</td>
-                    <td className="p-2 whitespace-nowrap">
-                      {minutesToMMSS(pacePer100(r.distance_m, r.duration_min))}
-                    </td>
-                    <td className="p-2 whitespace-nowrap">{r.rpe ?? "-"}</td>
-                    <td className="p-2">{r.notes}</td>
-                    <td className="p-2 whitespace-nowrap text-right">
-                      <button onClick={() => editWorkout(r.id!)} className="px-2 py-1 rounded-lg border mr-1">
-                        Edit
-                      </button>
-                      <button onClick={() => deleteWorkout(r.id!)} className="px-2 py-1 rounded-lg border">
-                        Delete
-                      </button>
-                    </td>
-                  </tr>
-                ))}
-                {!filtered.length && (
-                  <tr>
-                    <td className="text-center text-gray-500 py-8" colSpan={8}>
-                      No sessions yet.
-                    </td>
-                  </tr>
-                )}
-              </tbody>
-            </table>
-            {/* Pagination */}
-            <div className="flex items-center justify-between p-2 text-sm text-gray-600">
-              <button
-                disabled={page === 0}
-                onClick={() => setPage((p) => Math.max(0, p - 1))}
-                className="px-3 py-2 rounded-xl border disabled:opacity-50"
-              >
-                Prev
-              </button>
-              <div className="opacity-70">Page {page + 1}</div>
-              <button onClick={() => setPage((p) => p + 1)} className="px-3 py-2 rounded-xl border">
-                Next
-              </button>
-            </div>
-          </div>
-        </section>
-
-        {/* Competitions table */}
-        <section className="rounded-2xl p-2 sm:p-4 bg-white shadow mt-4">
-          <h2 className="text-lg font-semibold px-2">Competitions</h2>
-          <div className="overflow-x-auto mt-2">
-            <table className="min-w-full text-sm">
-              <thead>
-                <tr className="text-left border-b">
-                  <th className="p-2">Date</th>
-                  <th className="p-2">Meet</th>
-                  <th className="p-2">Stroke</th>
-                  <th className="p-2">Distance</th>
-                  <th className="p-2">Time</th>
-                  <th className="p-2">Location</th>
-                  <th className="p-2">Notes</th>
-                  <th className="p-2"></th>
-                </tr>
-              </thead>
-              <tbody>
-                {comps.map((r) => (
-                  <tr key={r.id} className="border-b last:border-0">
-                    <td className="p-2 whitespace-nowrap">{r.date}</td>
-                    <td className="p-2 whitespace-nowrap">{r.meet}</td>
-                    <td className="p-2 whitespace-nowrap">{r.stroke}</td>
-                    <td className="p-2 whitespace-nowrap">{r.distance_m} m</td>
-                    <td className="p-2 whitespace-nowrap font-medium">{secToTime(Number(r.time_sec))}</td>
-                    <td className="p-2 whitespace-nowrap">{r.location}</td>
-                    <td className="p-2">{r.notes}</td>
-                    <td className="p-2 whitespace-nowrap text-right">
-                      <button onClick={() => editCompetition(r.id!)} className="px-2 py-1 rounded-lg border mr-1">
-                        Edit
-                      </button>
-                      <button onClick={() => deleteCompetition(r.id!)} className="px-2 py-1 rounded-lg border">
-                        Delete
-                      </button>
-                    </td>
-                  </tr>
-                ))}
-                {!comps.length && (
-                  <tr>
-                    <td className="text-center text-gray-500 py-8" colSpan={8}>
-                      No competition results yet.
-                    </td>
-                  </tr>
-                )}
-              </tbody>
-            </table>
-          </div>
-        </section>
-
-        {/* Import/Export */}
-        <section className="rounded-2xl p-4 bg-white shadow mt-4">
-          <div className="flex items-center justify-between gap-2 flex-wrap">
-            <CSVImport
-              onRows={async (rows) => {
-                if (!session?.user) return alert("Please sign in first.");
-                // Bulk insert with validation; chunk to avoid freezes
-                const cleaned = rows.map((r) => ({
-                  date: r.date ?? new Date().toISOString().slice(0, 10),
-                  distance_m: Math.max(0, Number(r.distance_m) || 0),
-                  duration_min: Math.max(0, Number(r.duration_min) || 0),
-                  stroke: ["Free", "Back", "Breast", "Fly", "IM", "Drill"].includes(String(r.stroke)) ? r.stroke : "Free",
-                  rpe: r.rpe ? Math.min(10, Math.max(1, Number(r.rpe))) : null,
-                  notes: r.notes ?? null,
-                  user_id: session.user.id,
-                }));
-                for (let i = 0; i < cleaned.length; i += 500) {
-                  const { error } = await supabase.from("workouts").insert(cleaned.slice(i, i + 500));
-                  if (error) {
-                    alert(error.message);
-                    break;
-                  }
-                }
-                await fetchAll();
-              }}
-            />
-            <button onClick={() => exportCSV(rows)} className="px-3 py-2 rounded-xl bg-gray-900 text-white text-sm">
-              Export CSV
-            </button>
-          </div>
-        </section>
+        {importing?.kind === "workouts" && (
+          <ImportWizard
+            schema={workoutImport}
+            existing={(from, to) => rowsBetween("workouts", session.user.id, from, to)}
+            workbook={importing.workbook}
+            unit={units}
+            closeLabel={importing.workbook ? "Skip" : "Close"}
+            onCommit={async (imported) => {
+              // Stored locally and queued; sync uploads in chunks to avoid freezes
+              await saveLocal("workouts", imported.map((r) => ({ ...r, user_id: session.user.id })));
+              await loadLocal();
+              await afterWrite();
+            }}
+            // A workbook continues with its competition results
+            onClose={() => setImporting(importing.workbook ? { kind: "competitions", workbook: importing.workbook } : null)}
+          />
+        )}
+        {importing?.kind === "competitions" && (
+          <ImportWizard
+            schema={competitionImport}
+            existing={(from, to) => rowsBetween("competitions", session.user.id, from, to)}
+            workbook={importing.workbook}
+            onCommit={async (imported) => {
+              await saveLocal("competitions", imported.map((r) => ({ ...r, user_id: session.user.id })));
+              await loadLocal(); // recomputes PBs
+              await afterWrite();
+            }}
+            onClose={() => setImporting(null)}
+          />
+        )}
+        {importing?.kind === "results" && (
+          <ResultsImport
+            existing={(from, to) => rowsBetween("competitions", session.user.id, from, to)}
+            defaultName={profile?.full_name ?? session.user.user_metadata?.full_name}
+            onCommit={async (imported) => {
+              await saveLocal("competitions", imported.map((r) => ({ ...r, user_id: session.user.id })));
+              await loadLocal(); // recomputes PBs
+              await afterWrite();
+            }}
+            onClose={() => setImporting(null)}
+          />
+        )}
+
+        {historyOf && (
+          <RowHistory
+            table={historyOf.table}
+            row={historyOf.row}
+            onRevert={(old) => revertRow(historyOf.table, old)}
+            onClose={() => setHistoryOf(null)}
+          />
+        )}
+        {eventOf && <EventHistory owner={session.user.id} events={pbs} initial={eventOf} onClose={() => setEventOf(null)} />}
+        {toast && <Toast message={toast.message} onUndo={toast.undo} onClose={() => setToast(null)} />}
 
         <footer className="text-center text-xs text-gray-500 mt-8 mb-10">
           Tip: Add this page to your phone's Home Screen for an app-like experience.
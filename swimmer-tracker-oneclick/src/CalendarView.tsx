@@ -0,0 +1,342 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { plansToICS } from "./ics";
+import { WEEKDAYS, addDays, addMonths, compliance, emptyPlan, monthGrid, planSummary, weekDates } from "./plans";
+import { repository } from "./repository";
+import { STROKES } from "./sets";
+import { newId, rowsBetween } from "./sync";
+import type { Plan, Stroke, Workout } from "./types";
+import { formatDistance, fromMeters, toMeters, type Unit } from "./units";
+
+/**
+ * Training calendar: planned sessions against the workouts logged.
+ * - Month or week grid; every week shows its compliance (done / due)
+ * - "+" on a day plans a session there; clicking a planned session edits it
+ * - The swimmer marks a session done, which logs a workout from it (`onComplete`)
+ * - Export .ics puts the whole plan into any calendar app
+ */
+
+type Status = "done" | "missed" | "planned";
+
+const STATUS_CLASS: Record<Status, string> = {
+  done: "border-green-300 bg-green-50 text-green-800",
+  missed: "border-red-200 bg-red-50 text-red-700",
+  planned: "border-blue-200 bg-blue-50 text-blue-800",
+};
+
+function download(name: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const el = document.createElement("a");
+  el.href = url;
+  el.download = name;
+  document.body.appendChild(el);
+  el.click();
+  el.remove();
+  URL.revokeObjectURL(url);
+}
+
+const optionalNumber = (v: string) => (v === "" ? null : Number(v));
+
+export default function CalendarView({ owner, ownerName, unit = "m", revision = 0, onComplete }: {
+  owner: string;                                        // whose plan (a coach opens a swimmer's)
+  ownerName?: string | null;                            // names the exported calendar
+  unit?: Unit;                                          // distances are shown and entered in
+  revision?: number;                                    // reloads when it changes
+  onComplete?: (plan: Plan) => Promise<void> | void;    // the swimmer's own calendar only
+}) {
+  const today = new Date().toISOString().slice(0, 10);
+  const [mode, setMode] = useState<"month" | "week">("month");
+  const [anchor, setAnchor] = useState(today);
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [workouts, setWorkouts] = useState<Workout[]>([]);
+  const [error, setError] = useState("");
+  const [reload, setReload] = useState(0);
+  const [draft, setDraft] = useState<Plan | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const weeks = useMemo(() => (mode === "month" ? monthGrid(anchor) : [weekDates(anchor)]), [mode, anchor]);
+  const from = weeks[0][0];
+  const to = weeks[weeks.length - 1][6];
+
+  useEffect(() => {
+    let stale = false;
+    Promise.all([repository().plans(owner, { from, to }), rowsBetween("workouts", owner, from, to)])
+      .then(([p, w]) => {
+        if (stale) return;
+        setPlans(p);
+        setWorkouts(w);
+        setError("");
+      })
+      .catch((e: any) => !stale && setError(e.code ? e.message : "The calendar needs a connection."));
+    return () => {
+      stale = true;
+    };
+  }, [owner, from, to, revision, reload]);
+
+  const done = useMemo(() => new Set(workouts.map((w) => w.plan_id).filter(Boolean) as string[]), [workouts]);
+  const plansOn = (d: string) => plans.filter((p) => p.date === d);
+  const planIds = new Set(plans.map((p) => p.id));
+  // Workouts that complete a plan on screen are shown as that plan
+  const unplannedOn = (d: string) => workouts.filter((w) => w.date === d && !(w.plan_id && planIds.has(w.plan_id)));
+  const status = (p: Plan): Status => (done.has(p.id!) ? "done" : p.date < today ? "missed" : "planned");
+  const total = compliance(plans.filter((p) => mode === "week" || p.date.slice(0, 7) === anchor.slice(0, 7)), done, today);
+
+  const title =
+    mode === "month"
+      ? new Date(anchor + "T00:00:00Z").toLocaleDateString(undefined, { month: "long", year: "numeric", timeZone: "UTC" })
+      : `Week of ${from}`;
+  const step = (n: number) => setAnchor((a) => (mode === "month" ? addMonths(a, n) : addDays(a, 7 * n)));
+
+  async function run(fn: () => Promise<void>) {
+    setBusy(true);
+    try {
+      await fn();
+    } catch (e: any) {
+      alert(e.message || "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const savePlan = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    void run(async () => {
+      await repository().savePlan({ ...draft, id: draft.id ?? newId(), user_id: owner, title: draft.title.trim() });
+      setDraft(null);
+      setReload((r) => r + 1);
+    });
+  };
+
+  const exportICS = () =>
+    run(async () => {
+      const all = await repository().plans(owner);
+      if (!all.length) return alert("Nothing planned yet.");
+      const name = ownerName ? `${ownerName} – training plan` : "Training plan";
+      download("training-plan.ics", plansToICS(all, name, unit), "text/calendar;charset=utf-8");
+    });
+
+  const input = "w-full px-2 py-1 rounded-lg border bg-white text-sm";
+  return (
+    <section className="rounded-2xl p-2 sm:p-4 bg-white shadow mt-4">
+      <div className="flex items-center gap-2 flex-wrap px-2">
+        <h2 className="text-lg font-semibold mr-auto">{title}</h2>
+        <span className="text-sm text-gray-600">
+          {total.pct === null ? "Nothing due yet" : `${total.pct}% done (${total.done}/${total.due})`}
+        </span>
+        <div className="flex gap-1 text-sm">
+          {(["month", "week"] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`px-3 py-1 rounded-lg ${mode === m ? "bg-gray-900 text-white" : "border"}`}
+            >
+              {m === "month" ? "Month" : "Week"}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1 text-sm">
+          <button onClick={() => step(-1)} className="px-3 py-1 rounded-lg border" aria-label="Previous">
+            ‹
+          </button>
+          <button onClick={() => setAnchor(today)} className="px-3 py-1 rounded-lg border">
+            Today
+          </button>
+          <button onClick={() => step(1)} className="px-3 py-1 rounded-lg border" aria-label="Next">
+            ›
+          </button>
+        </div>
+        <button disabled={busy} onClick={exportICS} className="px-3 py-1 rounded-lg border text-sm disabled:opacity-50">
+          Export .ics
+        </button>
+      </div>
+
+      {error && <p className="px-2 mt-2 text-sm text-red-700">{error}</p>}
+
+      <div className="overflow-x-auto mt-3">
+        <table className="w-full min-w-[42rem] table-fixed text-xs">
+          <thead>
+            <tr className="text-gray-500">
+              {WEEKDAYS.map((d) => (
+                <th key={d} className="p-1 font-medium text-left">
+                  {d}
+                </th>
+              ))}
+              <th className="p-1 font-medium text-right w-16">Done</th>
+            </tr>
+          </thead>
+          <tbody>
+            {weeks.map((week) => {
+              const c = compliance(plans.filter((p) => p.date >= week[0] && p.date <= week[6]), done, today);
+              return (
+                <tr key={week[0]}>
+                  {week.map((d) => {
+                    const outside = mode === "month" && d.slice(0, 7) !== anchor.slice(0, 7);
+                    return (
+                      <td
+                        key={d}
+                        className={`border align-top p-1 ${mode === "week" ? "h-40" : "h-24"} ${outside ? "bg-gray-50 text-gray-400" : ""}`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className={d === today ? "px-1.5 rounded-full bg-blue-600 text-white" : ""}>
+                            {mode === "week" ? d.slice(5) : Number(d.slice(8))}
+                          </span>
+                          <button
+                            onClick={() => setDraft({ ...emptyPlan, date: d })}
+                            className="px-1 text-gray-400 hover:text-gray-900"
+                            title="Plan a session"
+                          >
+                            +
+                          </button>
+                        </div>
+                        {plansOn(d).map((p) => (
+                          <button
+                            key={p.id}
+                            onClick={() => setDraft({ ...p })}
+                            className={`block w-full text-left mt-1 px-1 rounded border truncate ${STATUS_CLASS[status(p)]}`}
+                          >
+                            {status(p) === "done" ? "✓ " : ""}
+                            {p.title || planSummary(p, unit) || "Session"}
+                            {mode === "week" && p.title && <span className="block whitespace-normal opacity-80">{planSummary(p, unit)}</span>}
+                          </button>
+                        ))}
+                        {unplannedOn(d).map((w) => (
+                          <div key={w.id} className="mt-1 px-1 text-gray-500 truncate">
+                            {formatDistance(w.distance_m, unit)} {w.stroke}
+                          </div>
+                        ))}
+                      </td>
+                    );
+                  })}
+                  <td className="border p-1 text-right align-top">
+                    <div className="font-semibold text-sm">{c.pct === null ? "–" : `${c.pct}%`}</div>
+                    {!!c.due && (
+                      <div className="text-gray-500">
+                        {c.done}/{c.due}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="px-2 mt-2 text-xs text-gray-500">
+        <span className="text-green-700">✓ done</span> · <span className="text-red-700">missed</span> ·{" "}
+        <span className="text-blue-700">planned</span> · grey: sessions logged without a plan
+      </p>
+
+      {draft && (
+        <form onSubmit={savePlan} className="mt-3 mx-2 p-3 rounded-xl border grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+          <label className="col-span-2 sm:col-span-1">
+            <span className="text-xs text-gray-600">Date</span>
+            <input type="date" required value={draft.date} onChange={(e) => setDraft({ ...draft, date: e.target.value })} className={input} />
+          </label>
+          <label className="col-span-2 sm:col-span-3">
+            <span className="text-xs text-gray-600">Title</span>
+            <input
+              value={draft.title}
+              onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+              placeholder="e.g. Threshold 10×200"
+              className={input}
+            />
+          </label>
+          <label>
+            <span className="text-xs text-gray-600">Target distance ({unit})</span>
+            <input
+              type="number"
+              min={0}
+              step={50}
+              value={draft.distance_m == null ? "" : Math.round(fromMeters(draft.distance_m, unit))}
+              onChange={(e) => {
+                const d = optionalNumber(e.target.value);
+                setDraft({ ...draft, distance_m: d === null ? null : Math.round(toMeters(d, unit)) });
+              }}
+              className={input}
+            />
+          </label>
+          <label>
+            <span className="text-xs text-gray-600">Duration (min)</span>
+            <input
+              type="number"
+              min={0}
+              value={draft.duration_min ?? ""}
+              onChange={(e) => setDraft({ ...draft, duration_min: optionalNumber(e.target.value) })}
+              className={input}
+            />
+          </label>
+          <label>
+            <span className="text-xs text-gray-600">Stroke focus</span>
+            <select
+              value={draft.stroke ?? ""}
+              onChange={(e) => setDraft({ ...draft, stroke: (e.target.value || null) as Stroke | null })}
+              className={input}
+            >
+              <option value="">Any</option>
+              {STROKES.map((s) => (
+                <option key={s}>{s}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span className="text-xs text-gray-600">Target RPE</span>
+            <input
+              type="number"
+              min={1}
+              max={10}
+              value={draft.rpe ?? ""}
+              onChange={(e) => setDraft({ ...draft, rpe: optionalNumber(e.target.value) })}
+              className={input}
+            />
+          </label>
+          <label className="col-span-2 sm:col-span-4">
+            <span className="text-xs text-gray-600">Notes</span>
+            <input value={draft.notes ?? ""} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} className={input} />
+          </label>
+          <div className="col-span-2 sm:col-span-4 flex items-center gap-2 flex-wrap">
+            <button type="submit" disabled={busy} className="px-4 py-2 rounded-xl bg-blue-600 text-white disabled:opacity-50">
+              {draft.id ? "Save plan" : "Add to plan"}
+            </button>
+            {draft.id && onComplete && !done.has(draft.id) && (
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() =>
+                  void run(async () => {
+                    await onComplete(draft);
+                    setDraft(null);
+                    setReload((r) => r + 1);
+                  })
+                }
+                className="px-3 py-2 rounded-xl border border-green-300 text-green-800 disabled:opacity-50"
+              >
+                Mark done
+              </button>
+            )}
+            {draft.id && done.has(draft.id) && <span className="text-green-700">✓ Logged</span>}
+            {draft.id && (
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => {
+                  if (!confirm("Remove this session from the plan?")) return;
+                  void run(async () => {
+                    await repository().removePlan(draft.id!);
+                    setDraft(null);
+                    setReload((r) => r + 1);
+                  });
+                }}
+                className="px-3 py-2 rounded-xl border disabled:opacity-50"
+              >
+                Remove
+              </button>
+            )}
+            <button type="button" onClick={() => setDraft(null)} className="px-3 py-2 rounded-xl border ml-auto">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </section>
+  );
+}
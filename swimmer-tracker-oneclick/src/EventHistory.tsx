@@ -0,0 +1,175 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Scatter, Tooltip, XAxis, YAxis } from "recharts";
+import { eventName, progression, sameEvent, seasons, trendLine, type SwimEvent } from "./progression";
+import { eventSwims } from "./sync";
+import type { Competition } from "./types";
+import { secToTime } from "./utils";
+
+/**
+ * History of one event: every swim over time with the PBs highlighted, an
+ * optional trend line, the best time per season and how much it improved.
+ * Other events can be picked without closing.
+ */
+
+const day = (t: number) => new Date(t).toISOString().slice(0, 10);
+
+function improvement(change: number | null, pct: number | null) {
+  if (change == null || pct == null) return "–";
+  if (change === 0) return "±0.00 s";
+  return `${change > 0 ? "−" : "+"}${Math.abs(change).toFixed(2)} s (${Math.abs(pct).toFixed(1)}% ${change > 0 ? "faster" : "slower"})`;
+}
+
+export default function EventHistory({ owner, events, initial, onClose }: {
+  owner: string;
+  events: SwimEvent[];            // the events to choose from (those with a PB)
+  initial: SwimEvent;
+  onClose: () => void;
+}) {
+  const [event, setEvent] = useState(initial);
+  const [swims, setSwims] = useState<Competition[] | null>(null);
+  const [error, setError] = useState("");
+  const [showTrend, setShowTrend] = useState(true);
+
+  useEffect(() => {
+    let stale = false;
+    setSwims(null);
+    eventSwims(owner, event)
+      .then((rows) => {
+        if (stale) return;
+        setSwims(rows);
+        setError("");
+      })
+      .catch((e: any) => !stale && setError(e.message || "Error loading the event"));
+    return () => {
+      stale = true;
+    };
+  }, [owner, event]);
+
+  const points = useMemo(() => progression(swims ?? []), [swims]);
+  const trend = useMemo(() => trendLine(points), [points]);
+  const bySeason = useMemo(() => seasons(points), [points]);
+  const chart = points.map((p) => ({
+    ...p,
+    pb_time: p.pb ? p.time_sec : undefined,
+    trend: showTrend && trend ? trend.at(p.t) : undefined,
+  }));
+  const first = points[0];
+  const best = points.filter((p) => p.pb).pop();
+  const gain = first && best ? first.time_sec - best.time_sec : 0;
+
+  return (
+    <div className="fixed inset-0 z-20 bg-black/30 flex items-start justify-center overflow-y-auto p-2 sm:p-6">
+      <div className="w-full max-w-5xl bg-white rounded-2xl shadow p-4">
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          <h2 className="text-lg font-semibold">Event history</h2>
+          <select
+            value={events.findIndex((e) => sameEvent(e, event))}
+            onChange={(e) => setEvent(events[Number(e.target.value)])}
+            className="px-3 py-2 rounded-xl border bg-white text-sm"
+          >
+            {events.map((e, i) => (
+              <option key={i} value={i}>
+                {eventName(e)}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-sm text-gray-700">
+            <input type="checkbox" checked={showTrend} onChange={(e) => setShowTrend(e.target.checked)} />
+            Trend line
+          </label>
+          <button onClick={onClose} className="ml-auto px-3 py-2 rounded-xl border text-sm">
+            Close
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-700">{error}</p>}
+        {!error && !swims && <p className="text-sm text-gray-500">Loading…</p>}
+        {swims && !swims.length && <p className="text-sm text-gray-500">No swims of this event yet.</p>}
+
+        {!!points.length && (
+          <div className="grid md:grid-cols-5 gap-4">
+            <div className="md:col-span-3">
+              <div className="flex flex-wrap gap-3 text-xs text-gray-600 mb-1">
+                <span>Swims <b className="text-gray-900">{points.length}</b></span>
+                <span>PB <b className="text-gray-900">{secToTime(best!.time_sec)}</b> ({best!.date})</span>
+                {gain > 0 && (
+                  <span>Since first swim <b className="text-gray-900">{improvement(gain, (gain / first.time_sec) * 100)}</b></span>
+                )}
+                {trend && (
+                  <span>
+                    Trend <b className="text-gray-900">{Math.abs(trend.perYear).toFixed(2)} s {trend.perYear <= 0 ? "faster" : "slower"}</b> per year
+                  </span>
+                )}
+              </div>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={chart} margin={{ top: 8, right: 8, left: 0, bottom: 8 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="t" type="number" scale="time" domain={["dataMin", "dataMax"]} tickFormatter={day} tick={{ fontSize: 12 }} />
+                    {/* Faster is higher */}
+                    <YAxis reversed domain={["auto", "auto"]} tickFormatter={secToTime} width={64} tick={{ fontSize: 12 }} />
+                    <Tooltip labelFormatter={(t) => day(Number(t))} formatter={(v: any) => secToTime(Number(v))} />
+                    <Legend />
+                    <Line type="monotone" dataKey="time_sec" name="Time" stroke="#2563eb" strokeWidth={2} />
+                    <Scatter dataKey="pb_time" name="PB" fill="#f59e0b" />
+                    {showTrend && trend && (
+                      <Line type="linear" dataKey="trend" name="Trend" dot={false} stroke="#111827" strokeDasharray="4 4" />
+                    )}
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+
+              <h3 className="text-sm font-semibold text-gray-700 mt-3">By season</h3>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b">
+                    <th className="p-2">Season</th>
+                    <th className="p-2">Swims</th>
+                    <th className="p-2">Best</th>
+                    <th className="p-2">vs. season before</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {bySeason.map((s) => (
+                    <tr key={s.season} className="border-b last:border-0">
+                      <td className="p-2">{s.season}</td>
+                      <td className="p-2">{s.swims}</td>
+                      <td className="p-2 font-medium">{secToTime(s.best)}</td>
+                      <td className={`p-2 ${s.change == null ? "text-gray-500" : s.change >= 0 ? "text-green-700" : "text-red-700"}`}>
+                        {improvement(s.change, s.pct)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="md:col-span-2 overflow-x-auto">
+              <h3 className="text-sm font-semibold text-gray-700">All swims</h3>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b">
+                    <th className="p-2">Date</th>
+                    <th className="p-2">Meet</th>
+                    <th className="p-2">Time</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...points].reverse().map((p, i) => (
+                    <tr key={p.id ?? i} className={`border-b last:border-0 ${p.pb ? "bg-amber-50" : ""}`}>
+                      <td className="p-2 whitespace-nowrap">{p.date}</td>
+                      <td className="p-2">{p.meet}</td>
+                      <td className="p-2 whitespace-nowrap font-medium">
+                        {secToTime(p.time_sec)}
+                        {p.pb && <span className="ml-1 text-xs text-amber-700">PB</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
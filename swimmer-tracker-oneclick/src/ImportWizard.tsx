@@ -0,0 +1,440 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { DELIMITERS, delimiterLabel, detectDelimiter, parseCSV, type Delimiter } from "./csv";
+import { guessMapping, type DateFormat, type ImportSchema } from "./importer";
+import { UNITS, unitLabel, type Unit } from "./units";
+import type { Workbook } from "./xlsx";
+
+/**
+ * Import wizard: file (or workbook sheet) → column mapping → preview → commit.
+ * - Per-row validation errors come from the schema; cells can be fixed inline
+ * - Rows with errors are never imported; duplicates start out skipped
+ * - Duplicates are checked against the whole log for the file's dates, read
+ *   from the server (`existing`), not only the rows cached on this device
+ * - A failed import is shown here and the wizard stays open to try again
+ * - Distances without a unit column are read in the unit picked on the preview
+ */
+
+const PAGE = 100;
+
+type Step = "file" | "map" | "preview";
+type Filter = "all" | "ready" | "errors" | "duplicates" | "skipped";
+
+/** Rows of the log dated `from`..`to`, read for duplicate detection. */
+type Known<T> = { from: string; to: string; rows: T[] };
+
+/** Sheet whose name matches the schema's sheet names, else the first one. */
+function guessSheet(wb: Workbook, names: string[]) {
+  const norm = (s: string) => s.trim().toLowerCase();
+  return (wb.sheets.find((s) => names.includes(norm(s.name))) ?? wb.sheets[0])?.name ?? "";
+}
+
+export default function ImportWizard<T extends { date: string }>({ schema, existing, workbook, unit: defaultUnit = "m", closeLabel = "Close", onCommit, onClose }: {
+  schema: ImportSchema<T>;
+  existing: (from: string, to: string) => Promise<T[]>;  // rows of the log in a date range
+  workbook?: Workbook;             // an already-read spreadsheet; skips the file step
+  unit?: Unit;                     // default for schemas with a unit field
+  closeLabel?: string;
+  onCommit: (rows: T[]) => Promise<void> | void;
+  onClose: () => void;
+}) {
+  const [step, setStep] = useState<Step>(workbook ? "map" : "file");
+  const [fileName, setFileName] = useState(workbook?.fileName ?? "");
+  const [text, setText] = useState("");
+  const [delimiter, setDelimiter] = useState<Delimiter>(",");
+  const [sheet, setSheet] = useState(() => (workbook ? guessSheet(workbook, schema.sheets) : ""));
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<Record<string, number>>(() => {
+    const first = workbook?.sheets.find((s) => s.name === sheet)?.rows[0];
+    return first ? guessMapping(first, schema.fields) : {};
+  });
+  const [dateFormat, setDateFormat] = useState<DateFormat>("auto");
+  const [unit, setUnit] = useState<Unit>(defaultUnit);
+  const [values, setValues] = useState<Record<string, string>[]>([]);
+  const [skip, setSkip] = useState<Set<number>>(new Set());
+  const [filter, setFilter] = useState<Filter>("all");
+  const [page, setPage] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [known, setKnown] = useState<Known<T> | null>(null);
+
+  // Header + data rows from the CSV text or the chosen sheet
+  const table = useMemo(() => {
+    const rows = workbook ? workbook.sheets.find((s) => s.name === sheet)?.rows ?? [] : text ? parseCSV(text, delimiter) : [];
+    const width = Math.max(0, ...rows.map((r) => r.length));
+    const header = hasHeader && rows.length ? rows[0] : Array.from({ length: width }, (_, i) => `Column ${i + 1}`);
+    return { header, records: hasHeader ? rows.slice(1) : rows };
+  }, [workbook, sheet, text, delimiter, hasHeader]);
+
+  function loadFile(f: File) {
+    const r = new FileReader();
+    r.onload = () => {
+      const t = String(r.result || "");
+      const d = detectDelimiter(t);
+      const rows = parseCSV(t, d);
+      if (!rows.length) return alert("That file has no rows.");
+      setFileName(f.name);
+      setText(t);
+      setDelimiter(d);
+      setMapping(guessMapping(rows[0], schema.fields));
+      setStep("map");
+    };
+    r.readAsText(f);
+  }
+
+  // First and last date of the rows that convert
+  function span(vals: Record<string, string>[]) {
+    const dates = vals.flatMap((v) => schema.convert(v, { dateFormat, unit }).row?.date ?? []).sort();
+    return dates.length ? { from: dates[0], to: dates[dates.length - 1] } : null;
+  }
+
+  async function loadKnown(from: string, to: string): Promise<Known<T>> {
+    return { from, to, rows: await existing(from, to) };
+  }
+
+  async function toPreview() {
+    const missing = schema.fields.filter((f) => f.required && !(mapping[f.key] >= 0));
+    if (missing.length) return alert(`Map a column for: ${missing.map((f) => f.label).join(", ")}`);
+    const vals = table.records.map((rec) => {
+      const v: Record<string, string> = {};
+      for (const f of schema.fields) if (mapping[f.key] >= 0) v[f.key] = rec[mapping[f.key]] ?? "";
+      return v;
+    });
+    const range = span(vals);
+    setBusy(true);
+    setError("");
+    try {
+      const k = range ? await loadKnown(range.from, range.to) : null;
+      setKnown(k);
+      setValues(vals);
+      setSkip(new Set(dupIndexes(vals, k?.rows ?? [])));
+      setPage(0);
+      setStep("preview");
+    } catch (e: any) {
+      setError(e.message || "Could not read your log to check for duplicates");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // A date format, unit or inline fix can move rows outside the dates read so far
+  useEffect(() => {
+    if (step !== "preview") return;
+    const range = span(values);
+    if (!range || (known && known.from <= range.from && known.to >= range.to)) return;
+    let stale = false;
+    const from = known && known.from < range.from ? known.from : range.from;
+    const to = known && known.to > range.to ? known.to : range.to;
+    loadKnown(from, to)
+      .then((k) => !stale && setKnown(k))
+      .catch((e: any) => !stale && setError(e.message || "Could not read your log to check for duplicates"));
+    return () => {
+      stale = true;
+    };
+  }, [step, values, dateFormat, unit, known]);
+
+  // Validation + duplicate detection against existing rows and earlier rows of the file
+  function analyse(vals: Record<string, string>[], existingRows: T[]) {
+    const known = new Set(existingRows.map(schema.dupKey));
+    const seen = new Set<string>();
+    return vals.map((v) => {
+      const res = schema.convert(v, { dateFormat, unit });
+      let duplicate: "existing" | "file" | null = null;
+      if (res.row) {
+        const key = schema.dupKey(res.row);
+        if (known.has(key)) duplicate = "existing";
+        else if (seen.has(key)) duplicate = "file";
+        seen.add(key);
+      }
+      return { ...res, duplicate };
+    });
+  }
+  function dupIndexes(vals: Record<string, string>[], existingRows: T[]) {
+    return analyse(vals, existingRows).flatMap((r, i) => (r.duplicate ? [i] : []));
+  }
+
+  const results = useMemo(() => (step === "preview" ? analyse(values, known?.rows ?? []) : []), [step, values, dateFormat, unit, known]);
+  const counts = useMemo(() => {
+    let ready = 0, errors = 0, duplicates = 0;
+    results.forEach((r, i) => {
+      if (r.errors.length) errors++;
+      else if (!skip.has(i)) ready++;
+      if (r.duplicate) duplicates++;
+    });
+    return { ready, errors, duplicates, skipped: skip.size };
+  }, [results, skip]);
+
+  const visible = useMemo(() => {
+    const idx = results.map((_, i) => i);
+    const keep = {
+      all: () => true,
+      ready: (i: number) => !results[i].errors.length && !skip.has(i),
+      errors: (i: number) => results[i].errors.length > 0,
+      duplicates: (i: number) => !!results[i].duplicate,
+      skipped: (i: number) => skip.has(i),
+    }[filter];
+    return idx.filter(keep);
+  }, [results, skip, filter]);
+
+  const mappedFields = schema.fields.filter((f) => mapping[f.key] >= 0);
+  const pages = Math.max(1, Math.ceil(visible.length / PAGE));
+
+  async function commit() {
+    const rows = results.flatMap((r, i) => (r.row && !r.errors.length && !skip.has(i) ? [r.row] : []));
+    if (!rows.length) return alert("No rows are ready to import.");
+    setBusy(true);
+    setError("");
+    try {
+      await onCommit(rows);
+      onClose();
+    } catch (e: any) {
+      setError(e.message || "Import failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const input = "px-2 py-1 rounded-lg border bg-white text-sm";
+  return (
+    <div className="fixed inset-0 z-20 bg-black/30 flex items-start justify-center overflow-y-auto p-2 sm:p-6">
+      <div className="w-full max-w-5xl bg-white rounded-2xl shadow p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold">
+            {schema.title}
+            {fileName && <span className="text-sm font-normal text-gray-500"> · {fileName}</span>}
+          </h2>
+          <button onClick={onClose} className="px-3 py-2 rounded-xl border text-sm">
+            {closeLabel}
+          </button>
+        </div>
+        {error && <p className="mb-3 text-sm text-red-700">{error}</p>}
+
+        {step === "file" && (
+          <label className="block px-3 py-8 rounded-xl border-2 border-dashed text-center text-gray-600 cursor-pointer">
+            Choose a CSV / text file
+            <input
+              type="file"
+              accept=".csv,.txt,.tsv"
+              className="hidden"
+              onChange={(e) => {
+                const f = e.target.files?.[0];
+                if (f) loadFile(f);
+                e.currentTarget.value = "";
+              }}
+            />
+          </label>
+        )}
+
+        {step === "map" && (
+          <>
+            <div className="flex items-center gap-3 flex-wrap text-sm">
+              {workbook ? (
+                <label className="flex items-center gap-1">
+                  Sheet
+                  <select
+                    value={sheet}
+                    onChange={(e) => {
+                      setSheet(e.target.value);
+                      const first = workbook.sheets.find((s) => s.name === e.target.value)?.rows[0] ?? [];
+                      setMapping(guessMapping(first, schema.fields));
+                    }}
+                    className={input}
+                  >
+                    {workbook.sheets.map((s) => (
+                      <option key={s.name} value={s.name}>{s.name} ({s.rows.length} rows)</option>
+                    ))}
+                  </select>
+                </label>
+              ) : (
+                <label className="flex items-center gap-1">
+                  Delimiter
+                  <select value={delimiter} onChange={(e) => setDelimiter(e.target.value as Delimiter)} className={input}>
+                    {DELIMITERS.map((d) => (
+                      <option key={d} value={d}>{delimiterLabel(d)}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+                First row is a header
+              </label>
+            </div>
+            <div className="grid sm:grid-cols-2 gap-2 mt-3">
+              {schema.fields.map((f) => (
+                <label key={f.key} className="flex items-center gap-2 text-sm">
+                  <span className="w-32 text-gray-600">
+                    {f.label}
+                    {f.required && " *"}
+                  </span>
+                  <select
+                    value={mapping[f.key] ?? -1}
+                    onChange={(e) => setMapping((m) => ({ ...m, [f.key]: Number(e.target.value) }))}
+                    className={`${input} flex-1`}
+                  >
+                    <option value={-1}>— not in file —</option>
+                    {table.header.map((h, i) => (
+                      <option key={i} value={i}>{h || `Column ${i + 1}`}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            <div className="overflow-x-auto mt-3">
+              <table className="min-w-full text-xs text-gray-600">
+                <thead>
+                  <tr className="text-left border-b">
+                    {table.header.map((h, i) => (
+                      <th key={i} className="p-1">{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {table.records.slice(0, 5).map((r, i) => (
+                    <tr key={i} className="border-b last:border-0">
+                      {table.header.map((_, j) => (
+                        <td key={j} className="p-1 whitespace-nowrap max-w-[12rem] truncate">{r[j]}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex items-center gap-2 mt-3">
+              <span className="text-sm text-gray-600 mr-auto">{table.records.length} rows</span>
+              {!workbook && (
+                <button onClick={() => setStep("file")} className="px-3 py-2 rounded-xl border text-sm">
+                  Back
+                </button>
+              )}
+              <button disabled={busy} onClick={toPreview} className="px-4 py-2 rounded-xl bg-blue-600 text-white text-sm disabled:opacity-50">
+                Preview
+              </button>
+            </div>
+          </>
+        )}
+
+        {step === "preview" && (
+          <>
+            <div className="flex items-center gap-3 flex-wrap text-sm">
+              <span className="text-green-700">{counts.ready} ready</span>
+              <span className="text-red-600">{counts.errors} with errors</span>
+              <span className="text-amber-700">{counts.duplicates} duplicates</span>
+              <span className="text-gray-600">{counts.skipped} skipped</span>
+              <label className="flex items-center gap-1 ml-auto">
+                Dates
+                <select value={dateFormat} onChange={(e) => setDateFormat(e.target.value as DateFormat)} className={input}>
+                  <option value="auto">Auto</option>
+                  <option value="ymd">YYYY-MM-DD</option>
+                  <option value="dmy">DD/MM/YYYY</option>
+                  <option value="mdy">MM/DD/YYYY</option>
+                </select>
+              </label>
+              {schema.fields.some((f) => f.key === "unit") && !(mapping.unit >= 0) && (
+                <label className="flex items-center gap-1">
+                  Distances in
+                  <select value={unit} onChange={(e) => setUnit(e.target.value as Unit)} className={input}>
+                    {UNITS.map((u) => (
+                      <option key={u} value={u}>
+                        {unitLabel(u)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <select value={filter} onChange={(e) => { setFilter(e.target.value as Filter); setPage(0); }} className={input}>
+                <option value="all">All rows</option>
+                <option value="ready">Ready</option>
+                <option value="errors">With errors</option>
+                <option value="duplicates">Duplicates</option>
+                <option value="skipped">Skipped</option>
+              </select>
+            </div>
+            <div className="overflow-x-auto mt-3">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b">
+                    <th className="p-1">Import</th>
+                    <th className="p-1">#</th>
+                    {mappedFields.map((f) => (
+                      <th key={f.key} className="p-1">{f.label}</th>
+                    ))}
+                    <th className="p-1">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visible.slice(page * PAGE, page * PAGE + PAGE).map((i) => {
+                    const r = results[i];
+                    return (
+                      <tr key={i} className={`border-b last:border-0 ${r.errors.length ? "bg-red-50" : skip.has(i) ? "opacity-60" : ""}`}>
+                        <td className="p-1">
+                          <input
+                            type="checkbox"
+                            disabled={!!r.errors.length}
+                            checked={!r.errors.length && !skip.has(i)}
+                            onChange={(e) =>
+                              setSkip((cur) => {
+                                const next = new Set(cur);
+                                if (e.target.checked) next.delete(i);
+                                else next.add(i);
+                                return next;
+                              })
+                            }
+                          />
+                        </td>
+                        <td className="p-1 text-gray-500">{i + (hasHeader ? 2 : 1)}</td>
+                        {mappedFields.map((f) => (
+                          <td key={f.key} className="p-1">
+                            <input
+                              value={values[i][f.key] ?? ""}
+                              onChange={(e) =>
+                                setValues((cur) => cur.map((v, j) => (j === i ? { ...v, [f.key]: e.target.value } : v)))
+                              }
+                              className={`${input} w-full min-w-[5rem]`}
+                            />
+                          </td>
+                        ))}
+                        <td className="p-1 text-xs">
+                          {r.errors.map((e) => (
+                            <div key={e} className="text-red-600">{e}</div>
+                          ))}
+                          {r.duplicate && (
+                            <div className="text-amber-700">
+                              {r.duplicate === "existing" ? "Already in your log" : "Repeated in this file"}
+                            </div>
+                          )}
+                          {!r.errors.length && !r.duplicate && <span className="text-green-700">OK</span>}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                  {!visible.length && (
+                    <tr>
+                      <td className="text-center text-gray-500 py-8" colSpan={mappedFields.length + 3}>
+                        No rows.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex items-center gap-2 mt-3 text-sm">
+              <button disabled={page === 0} onClick={() => setPage((p) => p - 1)} className="px-3 py-2 rounded-xl border disabled:opacity-50">
+                Prev
+              </button>
+              <span className="text-gray-600">Page {page + 1} of {pages}</span>
+              <button disabled={page + 1 >= pages} onClick={() => setPage((p) => p + 1)} className="px-3 py-2 rounded-xl border disabled:opacity-50">
+                Next
+              </button>
+              <button onClick={() => setStep("map")} className="px-3 py-2 rounded-xl border ml-auto">
+                Back
+              </button>
+              <button disabled={busy || !counts.ready} onClick={commit} className="px-4 py-2 rounded-xl bg-blue-600 text-white disabled:opacity-50">
+                Import {counts.ready} rows
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
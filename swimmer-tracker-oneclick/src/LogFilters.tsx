@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from "react";
+import { filterCount, loadSavedViews, saveSavedViews, viewFromParams, viewToParams, type LogFilter, type LogView, type SavedView } from "./filters";
+import { STROKES, STROKE_COLORS } from "./sets";
+import type { Stroke } from "./types";
+import { fromMeters, toMeters, type Unit } from "./units";
+
+/**
+ * Filter panel and saved views for the training log. Distances are entered
+ * in the log's unit and kept in meters.
+ */
+export default function LogFilters({ view, unit, onChange }: {
+  view: LogView;
+  unit: Unit;
+  onChange: (view: LogView) => void;
+}) {
+  const [open, setOpen] = useState(filterCount(view.filter) > 0);
+  const [saved, setSaved] = useState<SavedView[]>([]);
+
+  useEffect(() => {
+    let stale = false;
+    loadSavedViews().then((v) => !stale && setSaved(v));
+    return () => {
+      stale = true;
+    };
+  }, []);
+
+  const f = view.filter;
+  const set = (patch: Partial<LogFilter>) => onChange({ ...view, filter: { ...f, ...patch } });
+  const num = (v: string) => (v === "" || !Number.isFinite(Number(v)) ? undefined : Number(v));
+  const dist = (m?: number) => (m == null ? "" : String(Math.round(fromMeters(m, unit) * 100) / 100));
+  const meters = (v: string) => {
+    const n = num(v);
+    return n === undefined ? undefined : Math.round(toMeters(n, unit) * 100) / 100;
+  };
+  const toggleStroke = (st: Stroke) => {
+    const cur = f.strokes ?? [];
+    set({ strokes: cur.includes(st) ? cur.filter((s) => s !== st) : [...cur, st] });
+  };
+
+  const params = viewToParams(view).toString();
+  const active = saved.find((v) => v.params === params);
+  const store = (next: SavedView[]) => {
+    setSaved(next);
+    void saveSavedViews(next);
+  };
+  const saveView = () => {
+    const name = prompt("Name this view:", active?.name ?? "")?.trim();
+    if (!name) return;
+    store([...saved.filter((v) => v.name !== name), { name, params }].sort((a, b) => a.name.localeCompare(b.name)));
+  };
+  const applyView = (name: string) => {
+    const v = saved.find((x) => x.name === name);
+    if (!v) return;
+    const next = viewFromParams(new URLSearchParams(v.params));
+    setOpen(filterCount(next.filter) > 0);
+    onChange(next);
+  };
+
+  const count = filterCount(f);
+  const input = "w-full px-2 py-1 rounded-lg border bg-white text-sm";
+  return (
+    <div className="mt-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <button onClick={() => setOpen(!open)} className={`px-3 py-1 rounded-lg border ${count ? "border-blue-400 text-blue-700" : ""}`}>
+          Filters{count ? ` (${count})` : ""} {open ? "▲" : "▼"}
+        </button>
+        {!!count && (
+          <button onClick={() => onChange({ ...view, filter: {} })} className="px-3 py-1 rounded-lg border">
+            Clear filters
+          </button>
+        )}
+        <span className="ml-auto" />
+        <select value={active?.name ?? ""} onChange={(e) => applyView(e.target.value)} className="px-2 py-1 rounded-lg border bg-white">
+          <option value="" disabled>
+            {saved.length ? "Saved views…" : "No saved views"}
+          </option>
+          {saved.map((v) => (
+            <option key={v.name} value={v.name}>
+              {v.name}
+            </option>
+          ))}
+        </select>
+        <button onClick={saveView} className="px-3 py-1 rounded-lg border">
+          Save view
+        </button>
+        {active && (
+          <button
+            onClick={() => confirm(`Delete the view "${active.name}"?`) && store(saved.filter((v) => v !== active))}
+            className="px-3 py-1 rounded-lg border"
+          >
+            Delete view
+          </button>
+        )}
+      </div>
+
+      {open && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-3 text-sm">
+          <label>
+            <span className="text-xs text-gray-600">From</span>
+            <input type="date" value={f.from ?? ""} onChange={(e) => set({ from: e.target.value || undefined })} className={input} />
+          </label>
+          <label>
+            <span className="text-xs text-gray-600">To</span>
+            <input type="date" value={f.to ?? ""} onChange={(e) => set({ to: e.target.value || undefined })} className={input} />
+          </label>
+          <div className="col-span-2">
+            <span className="text-xs text-gray-600">Stroke</span>
+            <div className="flex flex-wrap gap-1">
+              {STROKES.map((st) => {
+                const on = !!f.strokes?.includes(st);
+                return (
+                  <button
+                    key={st}
+                    onClick={() => toggleStroke(st)}
+                    aria-pressed={on}
+                    className={`px-2 py-1 rounded-lg border ${on ? "text-white" : ""}`}
+                    style={on ? { background: STROKE_COLORS[st], borderColor: STROKE_COLORS[st] } : undefined}
+                  >
+                    {st}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+          <label>
+            <span className="text-xs text-gray-600">Distance ({unit}) from</span>
+            <input
+              type="number"
+              min={0}
+              value={dist(f.minDistance)}
+              onChange={(e) => set({ minDistance: meters(e.target.value) })}
+              className={input}
+            />
+          </label>
+          <label>
+            <span className="text-xs text-gray-600">to</span>
+            <input
+              type="number"
+              min={0}
+              value={dist(f.maxDistance)}
+              onChange={(e) => set({ maxDistance: meters(e.target.value) })}
+              className={input}
+            />
+          </label>
+          <label>
+            <span className="text-xs text-gray-600">Duration (min) from</span>
+            <input type="number" min={0} value={f.minDuration ?? ""} onChange={(e) => set({ minDuration: num(e.target.value) })} className={input} />
+          </label>
+          <label>
+            <span className="text-xs text-gray-600">to</span>
+            <input type="number" min={0} value={f.maxDuration ?? ""} onChange={(e) => set({ maxDuration: num(e.target.value) })} className={input} />
+          </label>
+          <label>
+            <span className="text-xs text-gray-600">RPE from</span>
+            <input type="number" min={1} max={10} value={f.minRpe ?? ""} onChange={(e) => set({ minRpe: num(e.target.value) })} className={input} />
+          </label>
+          <label>
+            <span className="text-xs text-gray-600">to</span>
+            <input type="number" min={1} max={10} value={f.maxRpe ?? ""} onChange={(e) => set({ maxRpe: num(e.target.value) })} className={input} />
+          </label>
+          <label className="col-span-2 flex items-end gap-2 pb-1">
+            <input type="checkbox" checked={!!f.hasNotes} onChange={(e) => set({ hasNotes: e.target.checked || undefined })} />
+            Only sessions with notes
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
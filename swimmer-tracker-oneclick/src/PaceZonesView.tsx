@@ -0,0 +1,232 @@
+import React, { useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { ZONE_COLORS, cssPace, emptyCssTest, paceZones, testOn, timeInZone } from "./css";
+import type { CssTest, Workout } from "./types";
+import { minutesToMMSS, secToTime, timeToSec } from "./utils";
+
+/**
+ * Pace zones screen: enter a CSS test (two time trials), see the zones it
+ * gives, the test history, and how the sessions of the last weeks split
+ * across the zones.
+ */
+
+const input = "w-full px-2 py-1 rounded-lg border bg-white text-sm";
+const pace = (sec: number | null) => (sec == null ? "-" : minutesToMMSS(sec / 60));
+
+type Draft = { date: string; long_m: number; long: string; short_m: number; short: string; notes: string };
+
+function toDraft(t: CssTest): Draft {
+  return { date: t.date, long_m: t.long_m, long: t.long_sec ? secToTime(t.long_sec) : "", short_m: t.short_m, short: t.short_sec ? secToTime(t.short_sec) : "", notes: t.notes ?? "" };
+}
+
+function fromDraft(d: Draft): CssTest {
+  return { date: d.date, long_m: d.long_m, long_sec: timeToSec(d.long), short_m: d.short_m, short_sec: timeToSec(d.short), notes: d.notes.trim() };
+}
+
+export default function PaceZonesView({ tests, workouts, onSave, onRemove }: {
+  tests: CssTest[];                                 // oldest first
+  workouts: Workout[];
+  onSave: (test: CssTest) => Promise<void>;
+  onRemove: (test: CssTest) => Promise<void>;
+}) {
+  const today = new Date().toISOString().slice(0, 10);
+  const [draft, setDraft] = useState<Draft>(toDraft({ ...emptyCssTest, date: today }));
+  const [busy, setBusy] = useState(false);
+
+  const current = testOn(tests, today);
+  const css = current && cssPace(current);
+  const preview = cssPace(fromDraft(draft));
+  const weeks = useMemo(() => timeInZone(workouts, tests).slice(-12), [workouts, tests]);
+  const minutes = [1, 2, 3, 4, 5].map((z) => weeks.reduce((sum, w) => sum + w[`Z${z}`], 0));
+  const total = minutes.reduce((a, b) => a + b, 0);
+
+  async function save(e: React.FormEvent) {
+    e.preventDefault();
+    if (!preview) return alert("The longer trial must be longer and slower than the shorter one.");
+    setBusy(true);
+    try {
+      await onSave(fromDraft(draft));
+      setDraft(toDraft({ ...emptyCssTest, date: today }));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <>
+      <section className="rounded-2xl p-4 bg-white shadow mt-4">
+        <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1">
+          <h2 className="text-lg font-semibold">Critical Swim Speed</h2>
+          <span className="text-sm text-gray-600">
+            {css ? (
+              <>
+                CSS pace <b className="text-gray-900">{pace(css)} /100m</b> (test of {current!.date})
+              </>
+            ) : (
+              "No test yet: swim a 400 m and a 200 m time trial (rested, same session or day) and enter both times."
+            )}
+          </span>
+        </div>
+
+        <form onSubmit={save} className="mt-3 p-3 rounded-xl border grid grid-cols-2 sm:grid-cols-6 gap-2 text-sm">
+          <label className="col-span-2 sm:col-span-1">
+            <span className="text-xs text-gray-600">Date</span>
+            <input type="date" required value={draft.date} onChange={(e) => setDraft({ ...draft, date: e.target.value })} className={input} />
+          </label>
+          <label>
+            <span className="text-xs text-gray-600">Long trial (m)</span>
+            <input
+              type="number"
+              min={100}
+              step={50}
+              required
+              value={draft.long_m}
+              onChange={(e) => setDraft({ ...draft, long_m: Number(e.target.value) })}
+              className={input}
+            />
+          </label>
+          <label>
+            <span className="text-xs text-gray-600">Time</span>
+            <input required value={draft.long} onChange={(e) => setDraft({ ...draft, long: e.target.value })} placeholder="6:00.00" className={input} />
+          </label>
+          <label>
+            <span className="text-xs text-gray-600">Short trial (m)</span>
+            <input
+              type="number"
+              min={50}
+              step={50}
+              required
+              value={draft.short_m}
+              onChange={(e) => setDraft({ ...draft, short_m: Number(e.target.value) })}
+              className={input}
+            />
+          </label>
+          <label>
+            <span className="text-xs text-gray-600">Time</span>
+            <input required value={draft.short} onChange={(e) => setDraft({ ...draft, short: e.target.value })} placeholder="2:50.00" className={input} />
+          </label>
+          <label className="col-span-2 sm:col-span-1">
+            <span className="text-xs text-gray-600">Notes</span>
+            <input value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} className={input} />
+          </label>
+          <div className="col-span-2 sm:col-span-6 flex items-center gap-3">
+            <span className="text-gray-600">
+              CSS pace <b className="text-gray-900">{pace(preview)}</b> /100m
+            </span>
+            <button disabled={busy} className="ml-auto px-3 py-1 rounded-lg bg-gray-900 text-white disabled:opacity-50">
+              Save test
+            </button>
+          </div>
+        </form>
+      </section>
+
+      <div className="grid md:grid-cols-2 gap-4 mt-4">
+        <section className="rounded-2xl p-4 bg-white shadow">
+          <h2 className="text-lg font-semibold mb-2">Pace Zones</h2>
+          {!css && <p className="text-sm text-gray-500">Enter a CSS test to see your zones.</p>}
+          {css && (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="p-2">Zone</th>
+                  <th className="p-2">Pace /100m</th>
+                  <th className="p-2 text-right">Last 12 weeks</th>
+                </tr>
+              </thead>
+              <tbody>
+                {paceZones(css).map((z) => (
+                  <tr key={z.zone} className="border-b last:border-0">
+                    <td className="p-2 whitespace-nowrap">
+                      <span className="inline-block w-3 h-3 rounded-sm mr-2 align-middle" style={{ background: ZONE_COLORS[z.zone] }} />
+                      {z.label}
+                    </td>
+                    <td className="p-2 whitespace-nowrap">
+                      {z.from == null ? `faster than ${pace(z.to)}` : z.to == null ? `slower than ${pace(z.from)}` : `${pace(z.from)} – ${pace(z.to)}`}
+                    </td>
+                    <td className="p-2 whitespace-nowrap text-right text-gray-600">
+                      {total ? `${Math.round(minutes[z.zone - 1])} min (${Math.round((minutes[z.zone - 1] / total) * 100)}%)` : "-"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="pt-2 text-xs text-gray-500">
+            Sessions are placed by their average pace, rests included, against the test in effect on their date.
+          </p>
+        </section>
+
+        <section className="rounded-2xl p-4 bg-white shadow">
+          <h2 className="text-lg font-semibold mb-2">Time in Zone</h2>
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={weeks} margin={{ top: 8, right: 8, left: 0, bottom: 8 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="weekStart" tick={{ fontSize: 12 }} />
+                <YAxis tick={{ fontSize: 12 }} unit=" min" width={64} />
+                <Tooltip formatter={(v: any) => `${Math.round(Number(v))} min`} />
+                <Legend />
+                {[1, 2, 3, 4, 5].map((z) => (
+                  <Bar key={z} dataKey={`Z${z}`} stackId="zones" fill={ZONE_COLORS[z]} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </section>
+      </div>
+
+      <section className="rounded-2xl p-2 sm:p-4 bg-white shadow mt-4">
+        <h2 className="text-lg font-semibold px-2">Test History</h2>
+        <div className="overflow-x-auto mt-2">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="p-2">Date</th>
+                <th className="p-2">Trials</th>
+                <th className="p-2">CSS pace /100m</th>
+                <th className="p-2">Change</th>
+                <th className="p-2">Notes</th>
+                <th className="p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...tests].reverse().map((t, i, newestFirst) => {
+                const p = cssPace(t);
+                const prev = newestFirst[i + 1] ? cssPace(newestFirst[i + 1]) : null;
+                const change = p != null && prev != null ? Math.round((p - prev) * 10) / 10 : null;
+                return (
+                  <tr key={t.id} className="border-b last:border-0">
+                    <td className="p-2 whitespace-nowrap">{t.date}</td>
+                    <td className="p-2 whitespace-nowrap">
+                      {t.long_m} m {secToTime(Number(t.long_sec))} · {t.short_m} m {secToTime(Number(t.short_sec))}
+                    </td>
+                    <td className="p-2 whitespace-nowrap font-medium">{pace(p)}</td>
+                    <td className={`p-2 whitespace-nowrap ${change == null ? "text-gray-500" : change <= 0 ? "text-green-700" : "text-red-700"}`}>
+                      {change == null ? "–" : `${change > 0 ? "+" : change < 0 ? "−" : "±"}${Math.abs(change).toFixed(1)} s`}
+                    </td>
+                    <td className="p-2">{t.notes}</td>
+                    <td className="p-2 whitespace-nowrap text-right">
+                      <button
+                        onClick={() => confirm(`Remove the test of ${t.date}?`) && void onRemove(t)}
+                        className="px-2 py-1 rounded-lg border"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+              {!tests.length && (
+                <tr>
+                  <td className="text-center text-gray-500 py-8" colSpan={6}>
+                    No tests yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </>
+  );
+}
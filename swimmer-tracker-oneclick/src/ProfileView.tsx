@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from "react";
+import { COURSES, courseLabel, type Course } from "./course";
+import { ageGroup, ageOn } from "./profile";
+import type { Profile } from "./repository";
+import { STROKES } from "./sets";
+import type { Gender } from "./standards";
+import type { Stroke } from "./types";
+
+/**
+ * Profile screen: who the athlete is (name, birth date, gender, club) and
+ * their defaults (pool course, training units, stroke for new sessions).
+ * Birth date and gender are shown to the athlete's coaches only.
+ */
+export default function ProfileView({ profile, email, onSave }: {
+  profile: Profile;
+  email?: string;
+  onSave: (profile: Profile) => Promise<void>;
+}) {
+  const [draft, setDraft] = useState(profile);
+  const [busy, setBusy] = useState(false);
+  useEffect(() => setDraft(profile), [profile]);
+
+  const today = new Date().toISOString().slice(0, 10);
+  const age = draft.birth_date ? ageOn(draft.birth_date, today) : null;
+  const input = "w-full px-3 py-2 rounded-xl border bg-white";
+
+  async function save(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      await onSave({ ...draft, full_name: draft.full_name?.trim() || null, club: draft.club?.trim() || null });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <section className="rounded-2xl p-4 bg-white shadow mt-4">
+      <h2 className="text-lg font-semibold">Profile</h2>
+      {email && <p className="text-sm text-gray-600">Signed in as {email}</p>}
+      <form onSubmit={save} className="grid grid-cols-2 gap-3 mt-3 max-w-2xl">
+        <label className="col-span-2 text-sm">
+          <span className="text-xs text-gray-600">Full name</span>
+          <input value={draft.full_name ?? ""} onChange={(e) => setDraft({ ...draft, full_name: e.target.value })} className={input} />
+        </label>
+        <label className="text-sm">
+          <span className="text-xs text-gray-600">
+            Date of birth
+            {age !== null && age >= 0 && (
+              <span className="text-gray-500">
+                {" "}
+                · {age} years, {ageGroup(age)}
+              </span>
+            )}
+          </span>
+          <input
+            type="date"
+            max={today}
+            value={draft.birth_date ?? ""}
+            onChange={(e) => setDraft({ ...draft, birth_date: e.target.value || null })}
+            className={input}
+          />
+        </label>
+        <label className="text-sm">
+          <span className="text-xs text-gray-600">Gender (for standards)</span>
+          <select
+            value={draft.gender ?? ""}
+            onChange={(e) => setDraft({ ...draft, gender: (e.target.value || null) as Gender | null })}
+            className={input}
+          >
+            <option value="">Not set</option>
+            <option value="F">Female</option>
+            <option value="M">Male</option>
+            <option value="X">Other</option>
+          </select>
+        </label>
+        <label className="col-span-2 text-sm">
+          <span className="text-xs text-gray-600">Club</span>
+          <input value={draft.club ?? ""} onChange={(e) => setDraft({ ...draft, club: e.target.value })} className={input} />
+        </label>
+        <label className="text-sm">
+          <span className="text-xs text-gray-600">Usual pool</span>
+          <select value={draft.course ?? "LCM"} onChange={(e) => setDraft({ ...draft, course: e.target.value as Course })} className={input}>
+            {COURSES.map((c) => (
+              <option key={c} value={c}>
+                {courseLabel(c)} ({c})
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm">
+          <span className="text-xs text-gray-600">Training distances in</span>
+          <select
+            value={draft.units ?? "m"}
+            onChange={(e) => setDraft({ ...draft, units: e.target.value as "m" | "yd" })}
+            className={input}
+          >
+            <option value="m">Meters</option>
+            <option value="yd">Yards</option>
+          </select>
+        </label>
+        <label className="text-sm">
+          <span className="text-xs text-gray-600">Default stroke</span>
+          <select
+            value={draft.default_stroke ?? "Free"}
+            onChange={(e) => setDraft({ ...draft, default_stroke: e.target.value as Stroke })}
+            className={input}
+          >
+            {STROKES.map((s) => (
+              <option key={s}>{s}</option>
+            ))}
+          </select>
+        </label>
+        <div className="col-span-2 flex items-center gap-3">
+          <button disabled={busy} className="px-4 py-2 rounded-xl bg-gray-900 text-white disabled:opacity-50">
+            Save profile
+          </button>
+          <span className="text-xs text-gray-500">Your birth date and gender are visible to you and your coaches only.</span>
+        </div>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,83 @@
+import React, { useMemo, useState } from "react";
+import { COURSES, courseLabel, courseUnit, type Course } from "./course";
+import { RECENT_MONTHS, predictions, type BaseResult } from "./predictor";
+import type { Competition, PB } from "./types";
+import { secToTime } from "./utils";
+
+/**
+ * Predicted times for the events of a course not swum lately (e.g. to enter
+ * seed times for a meet), with the likely range and the results behind each.
+ */
+
+const basisText = (b: BaseResult, unit: string) =>
+  `${b.distance_m} ${unit} ${secToTime(b.time_sec)} (${b.date}${b.old ? ", PB" : ""})`;
+
+export default function RacePredictor({ comps, pbs }: { comps: Competition[]; pbs: PB[] }) {
+  const today = new Date().toISOString().slice(0, 10);
+  const courses = COURSES.filter((c) => pbs.some((p) => p.course === c));
+  const latest = [...comps].sort((a, b) => b.date.localeCompare(a.date))[0]?.course;
+  const [picked, setPicked] = useState<Course | null>(null);
+  const course = picked && courses.includes(picked) ? picked : latest && courses.includes(latest) ? latest : courses[0];
+  const rows = useMemo(() => (course ? predictions(comps, pbs, course, today) : []), [comps, pbs, course, today]);
+
+  if (!course) return null;
+  const unit = courseUnit(course);
+  return (
+    <section className="rounded-2xl p-4 bg-white shadow mt-4">
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <h2 className="text-lg font-semibold mr-auto">Race Predictor</h2>
+        <select value={course} onChange={(e) => setPicked(e.target.value as Course)} className="px-3 py-2 rounded-xl border bg-white text-sm">
+          {courses.map((c) => (
+            <option key={c} value={c}>
+              {courseLabel(c)} ({c})
+            </option>
+          ))}
+        </select>
+      </div>
+      {!rows.length && <p className="p-2 text-sm text-gray-500">Every {course} event of your strokes has been swum in the last {RECENT_MONTHS} months.</p>}
+      {!!rows.length && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="p-2">Event</th>
+                <th className="p-2">Predicted</th>
+                <th className="p-2">Likely range</th>
+                <th className="p-2">PB</th>
+                <th className="p-2">Based on</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr key={`${r.stroke}-${r.distance_m}`} className="border-b last:border-0 align-top">
+                  <td className="p-2 whitespace-nowrap">
+                    {r.distance_m} {unit} {r.stroke}
+                  </td>
+                  <td className="p-2 whitespace-nowrap font-medium">{secToTime(r.time_sec)}</td>
+                  <td className="p-2 whitespace-nowrap text-gray-600">
+                    {secToTime(r.low)} – {secToTime(r.high)}
+                  </td>
+                  <td className="p-2 whitespace-nowrap text-gray-600">{r.pb ? `${secToTime(Number(r.pb.time_sec))} (${r.pb.date})` : "never swum"}</td>
+                  <td className="p-2 text-xs text-gray-600">
+                    {r.basis.map((b) => (
+                      <div key={b.distance_m} className="whitespace-nowrap">
+                        {basisText(b, unit)}
+                      </div>
+                    ))}
+                    <div className="text-gray-500">
+                      k = {r.exponent.toFixed(3)} {r.fitted ? `fitted on ${r.basis.length} distances` : "(default)"}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <p className="px-2 pt-2 text-xs text-gray-500">
+        Riegel model, time = a × distance^k, with the fatigue exponent k fitted to your best swims of the last {RECENT_MONTHS} months
+        (older PBs fill in other distances). The range is where about 4 in 5 swims should land.
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,261 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { courseUnit } from "./course";
+import { addDays } from "./plans";
+import { LOAD_LOOKBACK_DAYS, bucketLabel, buildReport, formatHours, reportPeriods } from "./report";
+import { downloadReportPdf } from "./reportpdf";
+import { STROKE_COLORS, STROKES } from "./sets";
+import { rowsBetween } from "./sync";
+import type { Competition, Workout } from "./types";
+import { formatDistance, fromMeters, paceIn, type Unit } from "./units";
+import { formatNumber, minutesToMMSS, secToTime } from "./utils";
+
+/**
+ * Month and season report for one swimmer (their own, or a coach's swimmer)
+ * - Presets for this/last month and season, or any from–to range
+ * - A period still running is reported up to today
+ * - Print uses the browser (controls are hidden on paper); Download PDF
+ *   builds the file in the browser
+ */
+export default function ReportView({ owner, name, unit = "m" }: {
+  owner: string;
+  name?: string | null;   // on the title and the PDF
+  unit?: Unit;
+}) {
+  const today = new Date().toISOString().slice(0, 10);
+  const presets = useMemo(() => reportPeriods(today), [today]);
+  const [period, setPeriod] = useState(presets[0]);
+  const [data, setData] = useState<{ workouts: Workout[]; comps: Competition[] } | null>(null);
+  const [error, setError] = useState("");
+
+  const valid = !!period.from && !!period.to && period.from <= period.to;
+  const until = period.to < today ? period.to : period.from > today ? period.from : today;
+
+  useEffect(() => {
+    if (!valid) return;
+    let stale = false;
+    setData(null);
+    Promise.all([
+      rowsBetween("workouts", owner, addDays(period.from, -LOAD_LOOKBACK_DAYS), until),
+      rowsBetween("competitions", owner, "1900-01-01", until),
+    ])
+      .then(([workouts, comps]) => {
+        if (stale) return;
+        setData({ workouts, comps });
+        setError("");
+      })
+      .catch((e: any) => !stale && setError(e.code ? e.message : "The report needs a connection."));
+    return () => {
+      stale = true;
+    };
+  }, [owner, period.from, until, valid]);
+
+  const report = useMemo(() => (data && valid ? buildReport(data.workouts, data.comps, period.from, until) : null), [data, valid, period.from, until]);
+  const swimmer = name?.trim() || "Swimmer";
+  const pace = (p: number | null) => (p ? `${minutesToMMSS(paceIn(p, unit))} /100${unit}` : "–");
+  const strokes = report ? STROKES.filter((st) => (report.byStroke[st] ?? 0) > 0) : [];
+  const chart = report?.buckets.map((b) => ({ label: bucketLabel(b.start, report.bucket), distance: Math.round(fromMeters(b.distance_m, unit)) })) ?? [];
+
+  const input = "px-2 py-1 rounded-lg border bg-white text-sm";
+  return (
+    <section className="rounded-2xl p-4 bg-white shadow mt-4 print:shadow-none print:p-0">
+      <div className="flex flex-wrap items-end gap-2 print:hidden">
+        <label className="text-sm">
+          <span className="block text-xs text-gray-600">Period</span>
+          <select
+            value={presets.findIndex((p) => p.from === period.from && p.to === period.to)}
+            onChange={(e) => Number(e.target.value) >= 0 && setPeriod(presets[Number(e.target.value)])}
+            className={input}
+          >
+            {presets.map((p, i) => (
+              <option key={p.label} value={i}>
+                {p.label}
+              </option>
+            ))}
+            <option value={-1} disabled>
+              Custom dates
+            </option>
+          </select>
+        </label>
+        <label className="text-sm">
+          <span className="block text-xs text-gray-600">From</span>
+          <input type="date" value={period.from} onChange={(e) => setPeriod({ label: "Report", from: e.target.value, to: period.to })} className={input} />
+        </label>
+        <label className="text-sm">
+          <span className="block text-xs text-gray-600">To</span>
+          <input type="date" value={period.to} onChange={(e) => setPeriod({ label: "Report", from: period.from, to: e.target.value })} className={input} />
+        </label>
+        <div className="ml-auto flex gap-2">
+          <button onClick={() => window.print()} disabled={!report} className="px-3 py-1 rounded-lg border text-sm disabled:opacity-50">
+            Print
+          </button>
+          <button
+            onClick={() => report && downloadReportPdf(report, { title: period.label, name: swimmer, unit })}
+            disabled={!report}
+            className="px-3 py-1 rounded-lg bg-gray-900 text-white text-sm disabled:opacity-50"
+          >
+            Download PDF
+          </button>
+        </div>
+      </div>
+      {!valid && <p className="text-sm text-red-700 mt-2 print:hidden">The start date is after the end date.</p>}
+      {error && <p className="text-sm text-red-700 mt-2">{error}</p>}
+      {valid && !report && !error && <p className="text-sm text-gray-500 mt-3">Loading…</p>}
+
+      {report && (
+        <div className="mt-4 print:mt-0">
+          <h2 className="text-xl font-bold">{period.label}</h2>
+          <p className="text-sm text-gray-600">
+            {swimmer} · {report.from} – {report.to}
+            {report.to < period.to && " (so far)"}
+          </p>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-3 text-sm">
+            {[
+              ["Sessions", formatNumber(report.sessions)],
+              ["Distance", formatDistance(report.distance_m, unit)],
+              ["Time", formatHours(report.duration_min)],
+              ["Average pace", pace(report.avgPace)],
+              ["Pace trend", report.paceTrend ? `${pace(report.paceTrend.start)} → ${pace(report.paceTrend.end)}` : "–"],
+              ["Load", `${formatNumber(report.load.total)} AU · ${formatNumber(report.load.weeklyAvg)}/wk`],
+              ["Peak ACWR · monotony", `${report.load.peakAcwr ?? "–"} · ${report.load.avgMonotony ?? "–"}`],
+              ["Meets · new PBs", `${report.meets.length} · ${report.newPBs.length}`],
+            ].map(([label, value]) => (
+              <div key={label} className="rounded-xl border p-2">
+                <div className="text-xs text-gray-500">{label}</div>
+                <div className="font-semibold">{value}</div>
+              </div>
+            ))}
+          </div>
+          {!!report.load.unrated && (
+            <p className="text-xs text-gray-500 mt-1">{report.load.unrated} session(s) without RPE count as zero load.</p>
+          )}
+
+          {!!strokes.length && (
+            <>
+              <h3 className="font-semibold mt-5 mb-1">Distance by stroke</h3>
+              <ul className="grid gap-1 text-sm">
+                {strokes.map((st) => (
+                  <li key={st} className="flex items-center gap-2">
+                    <span className="w-14">{st}</span>
+                    <span className="flex-1 h-3 rounded bg-gray-100 overflow-hidden">
+                      <span
+                        className="block h-full"
+                        style={{ width: `${(report.byStroke[st]! / report.distance_m) * 100}%`, background: STROKE_COLORS[st] }}
+                      />
+                    </span>
+                    <span className="w-36 text-right">
+                      {formatDistance(report.byStroke[st]!, unit)} ({Math.round((report.byStroke[st]! / report.distance_m) * 100)}%)
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          <h3 className="font-semibold mt-5 mb-1">{report.bucket === "week" ? "By week" : "By month"}</h3>
+          <div className="h-48 print:hidden">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chart}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" fontSize={11} />
+                <YAxis fontSize={11} />
+                <Tooltip />
+                <Bar dataKey="distance" name={`Distance (${unit})`} fill="#3b82f6" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="p-2">{report.bucket === "week" ? "Week of" : "Month"}</th>
+                  <th className="p-2">Sessions</th>
+                  <th className="p-2">Distance ({unit})</th>
+                  <th className="p-2">Pace /100{unit}</th>
+                  <th className="p-2">Load</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.buckets.map((b) => (
+                  <tr key={b.start} className="border-b last:border-0">
+                    <td className="p-2 whitespace-nowrap">{bucketLabel(b.start, report.bucket)}</td>
+                    <td className="p-2">{b.sessions}</td>
+                    <td className="p-2">{formatNumber(Math.round(fromMeters(b.distance_m, unit)))}</td>
+                    <td className="p-2">{b.pace ? minutesToMMSS(paceIn(b.pace, unit)) : "–"}</td>
+                    <td className="p-2">{formatNumber(b.load)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <h3 className="font-semibold mt-5 mb-1">New PBs</h3>
+          {!report.newPBs.length && <p className="text-sm text-gray-500">No new PBs in this period.</p>}
+          {!!report.newPBs.length && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b">
+                    <th className="p-2">Event</th>
+                    <th className="p-2">Time</th>
+                    <th className="p-2">Previous</th>
+                    <th className="p-2">Improvement</th>
+                    <th className="p-2">Date</th>
+                    <th className="p-2">Meet</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.newPBs.map((p) => (
+                    <tr key={`${p.course}-${p.stroke}-${p.distance_m}`} className="border-b last:border-0">
+                      <td className="p-2 whitespace-nowrap">
+                        {p.distance_m} {courseUnit(p.course)} {p.stroke} <span className="text-gray-500">{p.course}</span>
+                      </td>
+                      <td className="p-2 font-medium">{secToTime(p.time_sec)}</td>
+                      <td className="p-2">{p.previous !== null ? secToTime(p.previous) : <span className="text-gray-500">first swim</span>}</td>
+                      <td className="p-2 text-green-700">{p.improvement !== null && `−${p.improvement.toFixed(2)} s (${p.pct}%)`}</td>
+                      <td className="p-2 whitespace-nowrap">{p.date}</td>
+                      <td className="p-2">{p.meet}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <h3 className="font-semibold mt-5 mb-1">Meets</h3>
+          {!report.meets.length && <p className="text-sm text-gray-500">No meets in this period.</p>}
+          {!!report.meets.length && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b">
+                    <th className="p-2">Date</th>
+                    <th className="p-2">Meet</th>
+                    <th className="p-2">Course</th>
+                    <th className="p-2">Swims</th>
+                    <th className="p-2">PBs</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.meets.map((m) => (
+                    <tr key={m.meet} className="border-b last:border-0">
+                      <td className="p-2 whitespace-nowrap">{m.date}</td>
+                      <td className="p-2">
+                        {m.meet}
+                        {m.location && <span className="block text-xs text-gray-500">{m.location}</span>}
+                      </td>
+                      <td className="p-2">{m.course}</td>
+                      <td className="p-2">{m.swims}</td>
+                      <td className="p-2">{m.pbs}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
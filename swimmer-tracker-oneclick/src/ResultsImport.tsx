@@ -0,0 +1,210 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { courseUnit } from "./course";
+import { competitionImport } from "./importer";
+import { readResultsFile, swimToCompetition, type ResultAthlete } from "./results";
+import type { Competition } from "./types";
+import { secToTime } from "./utils";
+
+/**
+ * Meet results import: pick a Lenex / SDIF file, pick the athlete, review
+ * their swims and import them as competitions. Swims already in the log
+ * are skipped; the log is read from the server for the swims' dates, not
+ * only the rows cached on this device.
+ */
+export default function ResultsImport({ existing, defaultName, onCommit, onClose }: {
+  existing: (from: string, to: string) => Promise<Competition[]>;  // results of the log in a date range
+  defaultName?: string;            // preselects a matching athlete
+  onCommit: (rows: Competition[]) => Promise<void> | void;
+  onClose: () => void;
+}) {
+  const [fileName, setFileName] = useState("");
+  const [athletes, setAthletes] = useState<ResultAthlete[]>([]);
+  const [filter, setFilter] = useState(defaultName ?? "");
+  const [picked, setPicked] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [known, setKnown] = useState<Competition[] | null>(null);  // null = still reading the log
+
+  const matches = useMemo(() => {
+    const q = filter.trim().toLowerCase();
+    return q ? athletes.filter((a) => `${a.name} ${a.birth_year ?? ""} ${a.club}`.toLowerCase().includes(q)) : athletes;
+  }, [athletes, filter]);
+
+  const athlete = athletes.find((a) => a.key === picked) ?? null;
+
+  useEffect(() => {
+    setKnown(null);
+    setError("");
+    if (!athlete) return;
+    const dates = athlete.swims.map((s) => s.date).sort();
+    let stale = false;
+    existing(dates[0], dates[dates.length - 1])
+      .then((rows) => !stale && setKnown(rows))
+      .catch((e: any) => !stale && setError(e.message || "Could not read your log to check for duplicates"));
+    return () => {
+      stale = true;
+    };
+  }, [athlete]);
+
+  const rows = useMemo(() => {
+    if (!athlete || !known) return [];
+    const keys = new Set(known.map(competitionImport.dupKey));
+    return athlete.swims.map((s) => {
+      const row = swimToCompetition(s);
+      const key = competitionImport.dupKey(row);
+      const duplicate = keys.has(key);
+      keys.add(key);
+      return { row, duplicate };
+    });
+  }, [athlete, known]);
+  const fresh = rows.filter((r) => !r.duplicate).map((r) => r.row);
+
+  async function load(f: File) {
+    try {
+      const found = await readResultsFile(f);
+      if (!found.length) return alert("No individual results found in that file.");
+      setFileName(f.name);
+      setAthletes(found);
+      const q = filter.trim().toLowerCase();
+      const only = q ? found.filter((a) => a.name.toLowerCase() === q) : [];
+      setPicked(only.length === 1 ? only[0].key : null);
+    } catch (e: any) {
+      alert(e.message || "Could not read that file");
+    }
+  }
+
+  async function commit() {
+    setBusy(true);
+    setError("");
+    try {
+      await onCommit(fresh);
+      onClose();
+    } catch (e: any) {
+      setError(e.message || "Import failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const input = "px-2 py-1 rounded-lg border bg-white text-sm";
+  return (
+    <div className="fixed inset-0 z-20 bg-black/30 flex items-start justify-center overflow-y-auto p-2 sm:p-6">
+      <div className="w-full max-w-4xl bg-white rounded-2xl shadow p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold">
+            Import meet results
+            {fileName && <span className="text-sm font-normal text-gray-500"> · {fileName}</span>}
+          </h2>
+          <button onClick={onClose} className="px-3 py-2 rounded-xl border text-sm">
+            Close
+          </button>
+        </div>
+        {error && <p className="mb-3 text-sm text-red-700">{error}</p>}
+
+        {!athletes.length && (
+          <label className="block px-3 py-8 rounded-xl border-2 border-dashed text-center text-gray-600 cursor-pointer">
+            Choose a Lenex (.lef / .lxf) or SDIF (.sd3) results file
+            <input
+              type="file"
+              accept=".lef,.lxf,.xml,.sd3,.cl2"
+              className="hidden"
+              onChange={(e) => {
+                const f = e.target.files?.[0];
+                e.currentTarget.value = "";
+                if (f) void load(f);
+              }}
+            />
+          </label>
+        )}
+
+        {!!athletes.length && !athlete && (
+          <>
+            <input
+              placeholder="Search name, birth year or club…"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              className={`${input} w-full`}
+            />
+            <div className="mt-2 max-h-[60vh] overflow-y-auto divide-y">
+              {matches.map((a) => (
+                <button
+                  key={a.key}
+                  onClick={() => setPicked(a.key)}
+                  className="w-full text-left px-2 py-2 text-sm hover:bg-gray-50 flex items-center gap-2"
+                >
+                  <span className="font-medium">{a.name}</span>
+                  {a.birth_year && <span className="text-gray-500">{a.birth_year}</span>}
+                  <span className="text-gray-500 truncate">{a.club}</span>
+                  <span className="ml-auto text-gray-500 whitespace-nowrap">{a.swims.length} swims</span>
+                </button>
+              ))}
+              {!matches.length && <p className="text-center text-gray-500 py-8 text-sm">No athlete matches.</p>}
+            </div>
+          </>
+        )}
+
+        {athlete && (
+          <>
+            <div className="flex items-center gap-2 flex-wrap text-sm">
+              <span className="font-medium">{athlete.name}</span>
+              {athlete.birth_year && <span className="text-gray-500">{athlete.birth_year}</span>}
+              <span className="text-gray-500">{athlete.club}</span>
+              <button onClick={() => setPicked(null)} className="px-2 py-1 rounded-lg border ml-auto">
+                Other athlete
+              </button>
+            </div>
+            <div className="overflow-x-auto mt-3">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b">
+                    <th className="p-1">Date</th>
+                    <th className="p-1">Meet</th>
+                    <th className="p-1">Event</th>
+                    <th className="p-1">Round</th>
+                    <th className="p-1">Time</th>
+                    <th className="p-1">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(({ row, duplicate }, i) => (
+                    <tr key={i} className={`border-b last:border-0 ${duplicate ? "opacity-60" : ""}`}>
+                      <td className="p-1 whitespace-nowrap">{row.date}</td>
+                      <td className="p-1">{row.meet}</td>
+                      <td className="p-1 whitespace-nowrap">
+                        {row.distance_m} {courseUnit(row.course)} {row.stroke} <span className="text-gray-500">{row.course}</span>
+                      </td>
+                      <td className="p-1">{row.notes}</td>
+                      <td className="p-1 whitespace-nowrap font-medium">
+                        {secToTime(row.time_sec)}
+                        {row.splits && <span className="text-gray-500 font-normal"> · splits</span>}
+                      </td>
+                      <td className="p-1 text-xs">
+                        {duplicate ? <span className="text-amber-700">Already in your log</span> : <span className="text-green-700">New</span>}
+                      </td>
+                    </tr>
+                  ))}
+                  {!known && !error && (
+                    <tr>
+                      <td className="text-center text-gray-500 py-8" colSpan={6}>
+                        Checking your log…
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex justify-end mt-3">
+              <button
+                disabled={busy || !fresh.length}
+                onClick={commit}
+                className="px-4 py-2 rounded-xl bg-blue-600 text-white text-sm disabled:opacity-50"
+              >
+                Import {fresh.length} swims
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
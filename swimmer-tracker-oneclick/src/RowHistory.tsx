@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from "react";
+import { repository, type TableName } from "./repository";
+import { formatSet } from "./sets";
+import type { Competition, RowVersion, Workout } from "./types";
+import { inSessionUnit } from "./units";
+import { secToTime } from "./utils";
+
+/**
+ * Edit history of one session or result: every earlier version and how it
+ * differs from the current one. Reverting saves the old values as a new edit
+ * (so it can be reverted too).
+ */
+
+type Row = Workout | Competition;
+
+const FIELDS: Record<TableName, [string, string][]> = {
+  workouts: [
+    ["date", "Date"],
+    ["stroke", "Stroke"],
+    ["distance_m", "Distance"],
+    ["unit", "Unit"],
+    ["duration_min", "Duration (min)"],
+    ["rpe", "RPE"],
+    ["sets", "Sets"],
+    ["notes", "Notes"],
+  ],
+  competitions: [
+    ["date", "Date"],
+    ["meet", "Meet"],
+    ["course", "Course"],
+    ["stroke", "Stroke"],
+    ["distance_m", "Distance"],
+    ["time_sec", "Time"],
+    ["splits", "Splits"],
+    ["location", "Location"],
+    ["notes", "Notes"],
+  ],
+};
+
+function show(field: string, v: any): string {
+  if (v == null || v === "" || (Array.isArray(v) && !v.length)) return "–";
+  if (field === "time_sec") return secToTime(Number(v));
+  if (field === "splits") return v.map((s: number) => secToTime(Number(s))).join(" / ");
+  if (field === "sets") return v.map(formatSet).join("; ");
+  return String(v);
+}
+
+export default function RowHistory({ table, row, onRevert, onClose }: {
+  table: TableName;
+  row: Row;
+  onRevert: (old: Row) => Promise<void> | void;
+  onClose: () => void;
+}) {
+  const [versions, setVersions] = useState<RowVersion<Row>[] | null>(null);
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    repository()
+      .versions(table, row.id!)
+      .then(setVersions)
+      .catch((e: any) => setError(e.code ? e.message : "The edit history needs a connection."));
+  }, [table, row.id]);
+
+  async function revert(old: Row) {
+    setBusy(true);
+    try {
+      await onRevert(old);
+      onClose();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // Sessions are compared in the unit they were entered in
+  const entered = (r: Row): any => (table === "workouts" ? { ...inSessionUnit(r as Workout), unit: (r as Workout).unit ?? "m" } : r);
+  const current = entered(row);
+  return (
+    <div className="fixed inset-0 z-20 bg-black/30 flex items-start justify-center overflow-y-auto p-2 sm:p-6">
+      <div className="w-full max-w-2xl bg-white rounded-2xl shadow p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold">Edit history</h2>
+          <button onClick={onClose} className="px-3 py-2 rounded-xl border text-sm">
+            Close
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-700">{error}</p>}
+        {!error && !versions && <p className="text-sm text-gray-500">Loading…</p>}
+        {versions && !versions.length && <p className="text-sm text-gray-500">No earlier versions: this row has not been edited.</p>}
+        <ul className="grid gap-3">
+          {versions?.map((v, i) => {
+            const old = entered(v.row);
+            const changed = FIELDS[table].filter(([f]) => show(f, old[f]) !== show(f, current[f]));
+            return (
+              <li key={i} className="rounded-xl border p-3 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="text-gray-500">Replaced {new Date(v.changed_at).toLocaleString()}</span>
+                  <button
+                    disabled={busy || !changed.length}
+                    onClick={() => revert(v.row)}
+                    className="ml-auto px-2 py-1 rounded-lg border disabled:opacity-50"
+                  >
+                    Revert to this
+                  </button>
+                </div>
+                {changed.length ? (
+                  <table className="mt-2 text-sm">
+                    <tbody>
+                      {changed.map(([f, label]) => (
+                        <tr key={f}>
+                          <td className="pr-3 text-gray-500 align-top whitespace-nowrap">{label}</td>
+                          <td className="pr-3 align-top">{show(f, old[f])}</td>
+                          <td className="text-gray-500 align-top">now {show(f, current[f])}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className="mt-1 text-gray-500">Same as now.</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
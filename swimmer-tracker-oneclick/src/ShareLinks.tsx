@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from "react";
+import { seasonDates, seasonOf } from "./progression";
+import { SHARE_SCOPES, createShareLink, listShareLinks, revokeShareLink, shareDates, shareUrl, type NewShareLink, type ShareLink } from "./share";
+
+/**
+ * Share links on the profile screen: create a read-only link for PBs (and
+ * optionally recent results, for a date range), copy it, revoke it.
+ */
+
+const emptyLink: NewShareLink = { label: "", scope: "pbs", date_from: null, date_to: null };
+
+export default function ShareLinks({ owner }: { owner: string }) {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [draft, setDraft] = useState<NewShareLink>(emptyLink);
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  useEffect(() => {
+    let stale = false;
+    listShareLinks(owner)
+      .then((l) => !stale && setLinks(l))
+      .catch((e: any) => !stale && setError(e.code ? e.message : "Share links need a connection."));
+    return () => {
+      stale = true;
+    };
+  }, [owner]);
+
+  async function run(fn: () => Promise<void>) {
+    setBusy(true);
+    try {
+      await fn();
+    } catch (e: any) {
+      alert(e.code ? e.message : "Share links need a connection.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const create = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft.date_from && draft.date_to && draft.date_from > draft.date_to) return alert("The start date is after the end date.");
+    void run(async () => {
+      const link = await createShareLink(draft);
+      setLinks((cur) => [link, ...cur]);
+      setDraft(emptyLink);
+    });
+  };
+  const revoke = (l: ShareLink) => {
+    if (!confirm("Revoke this link? Anyone who has it will no longer see the page.")) return;
+    void run(async () => {
+      await revokeShareLink(l.id);
+      setLinks((cur) => cur.filter((x) => x.id !== l.id));
+    });
+  };
+  const copy = (l: ShareLink) =>
+    navigator.clipboard
+      .writeText(shareUrl(l.token))
+      .then(() => setCopied(l.id))
+      .catch(() => prompt("Copy this link:", shareUrl(l.token)));
+  const thisSeason = () => {
+    const season = seasonOf(new Date().toISOString().slice(0, 10));
+    const { from, to } = seasonDates(season);
+    setDraft((d) => ({ ...d, date_from: from, date_to: to, label: d.label || `Season ${season}` }));
+  };
+
+  const input = "w-full px-2 py-1 rounded-lg border bg-white text-sm";
+  return (
+    <section className="rounded-2xl p-4 bg-white shadow mt-4">
+      <h2 className="text-lg font-semibold">Share links</h2>
+      <p className="text-sm text-gray-600">
+        A read-only page with your PBs for a club or a recruiter; no account needed to open it. It shows the name and club from your profile if you set them, never your email. Revoke a link to take the page down.
+      </p>
+      {error && <p className="text-sm text-red-700 mt-2">{error}</p>}
+
+      <form onSubmit={create} className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-3 text-sm">
+        <label className="col-span-2">
+          <span className="text-xs text-gray-600">Label (shown on the page)</span>
+          <input value={draft.label} onChange={(e) => setDraft({ ...draft, label: e.target.value })} placeholder="e.g. College recruiting" className={input} />
+        </label>
+        <label className="col-span-2">
+          <span className="text-xs text-gray-600">Shows</span>
+          <select value={draft.scope} onChange={(e) => setDraft({ ...draft, scope: e.target.value as NewShareLink["scope"] })} className={input}>
+            {SHARE_SCOPES.map((s) => (
+              <option key={s.scope} value={s.scope}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span className="text-xs text-gray-600">From (optional)</span>
+          <input type="date" value={draft.date_from ?? ""} onChange={(e) => setDraft({ ...draft, date_from: e.target.value || null })} className={input} />
+        </label>
+        <label>
+          <span className="text-xs text-gray-600">To (optional)</span>
+          <input type="date" value={draft.date_to ?? ""} onChange={(e) => setDraft({ ...draft, date_to: e.target.value || null })} className={input} />
+        </label>
+        <div className="col-span-2 flex items-end gap-2">
+          <button type="button" onClick={thisSeason} className="px-3 py-1 rounded-lg border">
+            This season
+          </button>
+          <button disabled={busy || !!error} className="px-3 py-1 rounded-lg bg-gray-900 text-white disabled:opacity-50">
+            Create link
+          </button>
+        </div>
+      </form>
+
+      {!!links.length && (
+        <ul className="mt-3 divide-y text-sm">
+          {links.map((l) => (
+            <li key={l.id} className="py-2 flex flex-wrap items-center gap-2">
+              <div className="mr-auto min-w-0">
+                <div className="font-medium truncate">{l.label || "Untitled link"}</div>
+                <div className="text-xs text-gray-500">
+                  {SHARE_SCOPES.find((s) => s.scope === l.scope)?.label}
+                  {shareDates(l) && ` · ${shareDates(l)}`} · created {l.created_at.slice(0, 10)}
+                </div>
+              </div>
+              <button onClick={() => copy(l)} className="px-2 py-1 rounded-lg border">
+                {copied === l.id ? "Copied" : "Copy link"}
+              </button>
+              <a href={shareUrl(l.token)} target="_blank" rel="noreferrer" className="px-2 py-1 rounded-lg border">
+                Open
+              </a>
+              <button disabled={busy} onClick={() => revoke(l)} className="px-2 py-1 rounded-lg border disabled:opacity-50">
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from "react";
+import { COURSES, courseLabel, courseUnit } from "./course";
+import { downloadPBCard } from "./pbcard";
+import { loadSharedPage, shareDates, type SharedPage as Page, type SharedResult } from "./share";
+import { hasBackend } from "./supabase";
+import { secToTime } from "./utils";
+
+/**
+ * Read-only page behind a share link (/?share=TOKEN), for visitors without
+ * an account: the swimmer's PBs, and their recent results when the link
+ * includes them. What is shown is decided by shared_page() on the server.
+ */
+export default function SharedPage({ token }: { token: string }) {
+  const [page, setPage] = useState<Page | null>(null);
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let stale = false;
+    if (!hasBackend) {
+      setError("Share links need the hosted backend.");
+      setLoading(false);
+      return;
+    }
+    loadSharedPage(token)
+      .then((p) => {
+        if (stale) return;
+        setPage(p);
+        if (!p) setError("This link is not available. It may have been revoked.");
+      })
+      .catch((e: any) => !stale && setError(e.message || "Could not load the page."))
+      .finally(() => !stale && setLoading(false));
+    return () => {
+      stale = true;
+    };
+  }, [token]);
+
+  if (loading) {
+    return <div className="min-h-screen flex items-center justify-center text-gray-600">Loading…</div>;
+  }
+  if (!page) {
+    return (
+      <div className="min-h-screen bg-gray-50 text-gray-900 flex items-center justify-center px-4">
+        <div className="max-w-md w-full bg-white rounded-2xl shadow p-6">
+          <h1 className="text-2xl font-bold mb-2">Swimmer Tracker</h1>
+          <p className="text-gray-600">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const name = page.full_name?.trim() || "Swimmer";
+  const dates = shareDates(page);
+  const isPB = (r: SharedResult) =>
+    page.pbs.some((p) => p.course === r.course && p.stroke === r.stroke && p.distance_m === r.distance_m && p.time_sec === r.time_sec && p.date === r.date);
+  const meets = new Set(page.results?.map((r) => `${r.date}|${r.meet}`)).size;
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-gray-900">
+      <main className="max-w-3xl mx-auto px-4 py-6">
+        <section className="rounded-2xl p-4 bg-white shadow">
+          <div className="flex flex-wrap items-start gap-3">
+            <div className="mr-auto">
+              <h1 className="text-2xl font-bold">{name}</h1>
+              <p className="text-sm text-gray-600">{[page.club, page.label, dates].filter(Boolean).join(" · ")}</p>
+            </div>
+            <button
+              onClick={() =>
+                downloadPBCard({ name, club: page.club, subtitle: page.label || dates, pbs: page.pbs }).catch((e) => alert(e.message))
+              }
+              disabled={!page.pbs.length}
+              className="px-3 py-2 rounded-xl border text-sm disabled:opacity-50"
+            >
+              Download PB card
+            </button>
+          </div>
+          {page.results && (
+            <p className="text-sm text-gray-600 mt-2">
+              {page.results.length} swims at {meets} meets · {page.pbs.length} events
+            </p>
+          )}
+        </section>
+
+        <section className="rounded-2xl p-4 bg-white shadow mt-4">
+          <h2 className="text-lg font-semibold">{dates ? "Best times" : "Personal Bests"}</h2>
+          {!page.pbs.length && <p className="p-2 text-sm text-gray-500">No results{dates ? " in these dates" : ""}.</p>}
+          {COURSES.filter((c) => page.pbs.some((p) => p.course === c)).map((course) => (
+            <div key={course} className="overflow-x-auto mt-2">
+              <h3 className="text-sm font-semibold text-gray-700 px-2">
+                {courseLabel(course)} ({course})
+              </h3>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b">
+                    <th className="p-2">Event</th>
+                    <th className="p-2">Time</th>
+                    <th className="p-2">Meet</th>
+                    <th className="p-2">Date</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {page.pbs
+                    .filter((p) => p.course === course)
+                    .map((p) => (
+                      <tr key={`${p.stroke}-${p.distance_m}`} className="border-b last:border-0">
+                        <td className="p-2 whitespace-nowrap">
+                          {p.distance_m} {courseUnit(course)} {p.stroke}
+                        </td>
+                        <td className="p-2 font-medium">{secToTime(p.time_sec)}</td>
+                        <td className="p-2">{p.meet}</td>
+                        <td className="p-2 whitespace-nowrap">{p.date}</td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </section>
+
+        {page.results && (
+          <section className="rounded-2xl p-4 bg-white shadow mt-4">
+            <h2 className="text-lg font-semibold">Recent results</h2>
+            {!page.results.length && <p className="p-2 text-sm text-gray-500">No results{dates ? " in these dates" : ""}.</p>}
+            {!!page.results.length && (
+              <div className="overflow-x-auto mt-2">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left border-b">
+                      <th className="p-2">Date</th>
+                      <th className="p-2">Meet</th>
+                      <th className="p-2">Event</th>
+                      <th className="p-2">Time</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {page.results.map((r, i) => (
+                      <tr key={i} className="border-b last:border-0">
+                        <td className="p-2 whitespace-nowrap">{r.date}</td>
+                        <td className="p-2">
+                          {r.meet}
+                          {r.location && <span className="block text-xs text-gray-500">{r.location}</span>}
+                        </td>
+                        <td className="p-2 whitespace-nowrap">
+                          {r.distance_m} {courseUnit(r.course)} {r.stroke} <span className="text-gray-500">{r.course}</span>
+                        </td>
+                        <td className="p-2 whitespace-nowrap font-medium">
+                          {secToTime(r.time_sec)}
+                          {isPB(r) && <span className="ml-1 px-1.5 py-0.5 rounded bg-green-100 text-green-800 text-xs">{dates ? "Best" : "PB"}</span>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+        )}
+
+        <p className="text-xs text-gray-500 mt-4 px-2">Shared read-only from Swimmer Tracker.</p>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import React, { useMemo } from "react";
+import { ageGroup } from "./profile";
+import type { Profile } from "./repository";
+import { courseUnit } from "./course";
+import {
+  cutsFor,
+  eventsOf,
+  levelsOf,
+  parseStandardsFile,
+  standardStatus,
+  type Athlete,
+  type Gender,
+  type StandardSet,
+  type StandardsState,
+} from "./standards";
+import type { PB } from "./types";
+import { secToTime } from "./utils";
+
+/**
+ * Standards screen: load standard sets, pick one, and see every event of
+ * the set against the athlete's PBs (achieved cuts highlighted). Gender and
+ * age come from the profile when it has them; age is counted on the meet date.
+ */
+export default function StandardsView({ standards, athlete, profile, pbs, onChange }: {
+  standards: StandardsState;
+  athlete: Athlete;                 // effective: profile first, then what was entered here
+  profile: Profile | null;
+  pbs: PB[];
+  onChange: (next: StandardsState) => void;
+}) {
+  const set = standards.sets.find((s) => s.name === standards.active) ?? standards.sets[0] ?? null;
+  const entered = standards.athlete;
+
+  // Columns slowest → fastest, ranked by the average cut of each level
+  const levels = useMemo(() => {
+    if (!set) return [];
+    const avg = (level: string) => {
+      const ts = set.standards.filter((s) => s.level === level).map((s) => s.time_sec / s.distance);
+      return ts.reduce((a, b) => a + b, 0) / (ts.length || 1);
+    };
+    return levelsOf(set).sort((a, b) => avg(b) - avg(a));
+  }, [set]);
+
+  const rows = useMemo(() => {
+    if (!set) return [];
+    return eventsOf(set, athlete).map((ev) => {
+      const pb = pbs.find((p) => p.course === ev.course && p.stroke === ev.stroke && p.distance_m === ev.distance_m);
+      const cuts = cutsFor(set, ev, athlete);
+      return { ev, pb, cuts, status: pb ? standardStatus(set, pb, athlete) : null };
+    });
+  }, [set, pbs, athlete]);
+
+  function addSets(incoming: StandardSet[]) {
+    const names = new Set(incoming.map((s) => s.name));
+    onChange({
+      ...standards,
+      sets: [...standards.sets.filter((s) => !names.has(s.name)), ...incoming],
+      active: standards.active ?? incoming[0]?.name ?? null,
+    });
+  }
+
+  return (
+    <section className="rounded-2xl p-2 sm:p-4 bg-white shadow mt-4">
+      <div className="flex items-center gap-2 flex-wrap px-2">
+        <h2 className="text-lg font-semibold mr-auto">Time Standards</h2>
+        <label className="px-3 py-2 rounded-xl bg-gray-100 border cursor-pointer text-sm">
+          Load standards
+          <input
+            type="file"
+            accept=".csv,.json"
+            className="hidden"
+            onChange={(e) => {
+              const f = e.target.files?.[0];
+              if (!f) return;
+              const r = new FileReader();
+              r.onload = () => {
+                try {
+                  const sets = parseStandardsFile(f.name, String(r.result || ""));
+                  if (!sets.some((s) => s.standards.length)) alert("No standards found in that file.");
+                  else addSets(sets);
+                } catch (err: any) {
+                  alert(err.message || "Could not read that file");
+                }
+              };
+              r.readAsText(f);
+              e.currentTarget.value = "";
+            }}
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 px-2 mt-3">
+        <div className="col-span-2">
+          <label className="text-xs text-gray-600">Standard set</label>
+          <div className="flex gap-2">
+            <select
+              value={set?.name ?? ""}
+              onChange={(e) => onChange({ ...standards, active: e.target.value })}
+              className="flex-1 px-3 py-2 rounded-xl border bg-white"
+            >
+              {standards.sets.map((s) => (
+                <option key={s.name}>{s.name}</option>
+              ))}
+              {!standards.sets.length && <option value="">No standards loaded</option>}
+            </select>
+            {set && (
+              <button
+                onClick={() => {
+                  if (!confirm(`Remove "${set.name}" from this device?`)) return;
+                  const sets = standards.sets.filter((s) => s.name !== set.name);
+                  onChange({ ...standards, sets, active: sets[0]?.name ?? null });
+                }}
+                className="px-3 py-2 rounded-xl border text-sm"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        </div>
+        <div>
+          <label className="text-xs text-gray-600">Gender</label>
+          <select
+            value={athlete.gender}
+            disabled={!!profile?.gender}
+            title={profile?.gender ? "From your profile" : undefined}
+            onChange={(e) => onChange({ ...standards, athlete: { ...entered, gender: e.target.value as Gender } })}
+            className="w-full px-3 py-2 rounded-xl border bg-white disabled:bg-gray-100"
+          >
+            <option value="F">Female</option>
+            <option value="M">Male</option>
+            <option value="X">Any</option>
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-gray-600">
+            Age{athlete.age !== null && <span className="text-gray-500"> · {ageGroup(athlete.age)}</span>}
+          </label>
+          <input
+            type="number"
+            inputMode="numeric"
+            value={athlete.age ?? ""}
+            disabled={!!profile?.birth_date}
+            title={profile?.birth_date ? "From your profile's birth date" : undefined}
+            onChange={(e) =>
+              onChange({ ...standards, athlete: { ...entered, age: e.target.value ? Number(e.target.value) : null } })
+            }
+            className="w-full px-3 py-2 rounded-xl border bg-white disabled:bg-gray-100"
+          />
+        </div>
+        {profile?.birth_date && (
+          <div>
+            <label className="text-xs text-gray-600">Age on (meet date)</label>
+            <input
+              type="date"
+              value={standards.meetDate ?? ""}
+              onChange={(e) => onChange({ ...standards, meetDate: e.target.value || null })}
+              className="w-full px-3 py-2 rounded-xl border bg-white"
+            />
+          </div>
+        )}
+      </div>
+
+      {!standards.sets.length && (
+        <p className="text-sm text-gray-500 px-2 mt-3">
+          Load a CSV with the columns <code>set,level,stroke,distance,course,gender,age_min,age_max,time</code> or a
+          JSON file (see the README) to compare your PBs with qualifying or motivational times.
+        </p>
+      )}
+
+      {set && (
+        <div className="overflow-x-auto mt-3">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="p-2">Event</th>
+                <th className="p-2">PB</th>
+                {levels.map((l) => (
+                  <th key={l} className="p-2">{l}</th>
+                ))}
+                <th className="p-2">Next</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ ev, pb, cuts, status }) => (
+                <tr key={`${ev.course}-${ev.stroke}-${ev.distance_m}`} className="border-b last:border-0">
+                  <td className="p-2 whitespace-nowrap">
+                    {ev.distance_m} {courseUnit(ev.course)} {ev.stroke} <span className="text-gray-500">{ev.course}</span>
+                  </td>
+                  <td className="p-2 whitespace-nowrap font-medium">{pb ? secToTime(Number(pb.time_sec)) : "-"}</td>
+                  {levels.map((l) => {
+                    const cut = cuts.find((c) => c.level === l);
+                    const made = !!cut && !!pb && Number(pb.time_sec) <= cut.time_sec;
+                    return (
+                      <td key={l} className={`p-2 whitespace-nowrap ${made ? "bg-green-50 text-green-800 font-medium" : "text-gray-600"}`}>
+                        {cut ? secToTime(cut.time_sec) : ""}
+                      </td>
+                    );
+                  })}
+                  <td className="p-2 whitespace-nowrap text-gray-600">
+                    {status?.next ? `${status.next.level}: −${status.gap_sec?.toFixed(2)} s (${status.gap_pct}%)` : pb ? "✓ all" : ""}
+                  </td>
+                </tr>
+              ))}
+              {!rows.length && (
+                <tr>
+                  <td className="text-center text-gray-500 py-8" colSpan={levels.length + 3}>
+                    No events in this set match the selected gender and age.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,412 @@
+import React, { useEffect, useState } from "react";
+import CalendarView from "./CalendarView";
+import { courseUnit } from "./course";
+import ReportView from "./ReportView";
+import {
+  acceptInvite,
+  addComment,
+  createInvite,
+  createTeam,
+  deleteComment,
+  fetchRoster,
+  fetchSwimmerLog,
+  inviteLink,
+  listComments,
+  listInvites,
+  listMembers,
+  listTeams,
+  removeMember,
+  revokeInvite,
+  type CoachComment,
+  type Role,
+  type RosterRow,
+  type Team,
+  type TeamInvite,
+  type TeamMember,
+} from "./teams";
+import type { Competition, Workout } from "./types";
+import { formatDistance, type Unit } from "./units";
+import { secToTime } from "./utils";
+
+/**
+ * Team screen
+ * - Coaches: roster with this week's volume and latest PBs, invites,
+ *   read-only swimmer logs with comments, the swimmer's training plan and
+ *   reports
+ * - Swimmers: their teams and the comments coaches left on their rows
+ */
+export default function TeamView({ userId, unit = "m" }: { userId: string; unit?: Unit }) {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [teamId, setTeamId] = useState<string | null>(null);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [roster, setRoster] = useState<RosterRow[]>([]);
+  const [invites, setInvites] = useState<TeamInvite[]>([]);
+  const [swimmer, setSwimmer] = useState<TeamMember | null>(null);
+  const [log, setLog] = useState<{ workouts: Workout[]; competitions: Competition[] } | null>(null);
+  const [comments, setComments] = useState<CoachComment[]>([]);
+  const [teamName, setTeamName] = useState("");
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const team = teams.find((t) => t.id === teamId) ?? null;
+  const isCoach = team?.role === "coach";
+
+  async function run(fn: () => Promise<void>) {
+    setBusy(true);
+    try {
+      await fn();
+    } catch (e: any) {
+      alert(e.message || "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function loadTeams(select?: string) {
+    const t = await listTeams(userId);
+    setTeams(t);
+    setTeamId((cur) => select ?? (t.some((x) => x.id === cur) ? cur : t[0]?.id ?? null));
+  }
+
+  useEffect(() => {
+    void run(() => loadTeams());
+  }, [userId]);
+
+  useEffect(() => {
+    setSwimmer(null);
+    setLog(null);
+    if (!team) return;
+    void run(async () => {
+      setMembers(await listMembers(team.id));
+      if (team.role === "coach") {
+        setRoster(await fetchRoster(team.id));
+        setInvites(await listInvites(team.id));
+      } else {
+        setComments(await listComments(userId));
+      }
+    });
+  }, [teamId, teams]);
+
+  function openSwimmer(m: TeamMember) {
+    setSwimmer(m);
+    void run(async () => {
+      setLog(await fetchSwimmerLog(m.user_id));
+      setComments(await listComments(m.user_id));
+    });
+  }
+
+  async function comment(target: { workout_id: string } | { competition_id: string }) {
+    const body = prompt("Comment for the swimmer")?.trim();
+    if (!body || !swimmer) return;
+    await run(async () => {
+      const c = await addComment(swimmer.user_id, target, body);
+      setComments((cur) => [c, ...cur]);
+    });
+  }
+
+  const commentsFor = (key: "workout_id" | "competition_id", id?: string) => comments.filter((c) => c[key] === id);
+  const coachName = (id: string) => members.find((m) => m.user_id === id)?.full_name ?? "Coach";
+
+  return (
+    <>
+      {/* Teams */}
+      <section className="rounded-2xl p-4 bg-white shadow mt-4">
+        <div className="flex items-center gap-2 flex-wrap">
+          <h2 className="text-lg font-semibold mr-auto">Teams</h2>
+          {teams.length > 0 && (
+            <select
+              value={teamId ?? ""}
+              onChange={(e) => setTeamId(e.target.value)}
+              className="px-3 py-2 rounded-xl border bg-white text-sm"
+            >
+              {teams.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name} ({t.role})
+                </option>
+              ))}
+            </select>
+          )}
+          {busy && <span className="text-xs text-gray-500">Loading…</span>}
+        </div>
+        <div className="grid sm:grid-cols-2 gap-3 mt-3">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!teamName.trim()) return;
+              void run(async () => {
+                const id = await createTeam(teamName.trim());
+                setTeamName("");
+                await loadTeams(id);
+              });
+            }}
+            className="flex gap-2"
+          >
+            <input
+              value={teamName}
+              onChange={(e) => setTeamName(e.target.value)}
+              placeholder="New team name (you become its coach)"
+              className="flex-1 px-3 py-2 rounded-xl border bg-white text-sm"
+            />
+            <button type="submit" className="px-3 py-2 rounded-xl bg-blue-600 text-white text-sm">
+              Create
+            </button>
+          </form>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!code.trim()) return;
+              void run(async () => {
+                const id = await acceptInvite(code.trim());
+                setCode("");
+                await loadTeams(id);
+              });
+            }}
+            className="flex gap-2"
+          >
+            <input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Invite code"
+              className="flex-1 px-3 py-2 rounded-xl border bg-white text-sm"
+            />
+            <button type="submit" className="px-3 py-2 rounded-xl border text-sm">
+              Join
+            </button>
+          </form>
+        </div>
+        {!teams.length && !busy && (
+          <p className="text-sm text-gray-500 mt-3">You're not on a team yet. Create one or join with a code from your coach.</p>
+        )}
+      </section>
+
+      {/* Coach: roster */}
+      {team && isCoach && (
+        <section className="rounded-2xl p-2 sm:p-4 bg-white shadow mt-4">
+          <h2 className="text-lg font-semibold px-2">Roster – {team.name}</h2>
+          <div className="overflow-x-auto mt-2">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="p-2">Swimmer</th>
+                  <th className="p-2">This week</th>
+                  <th className="p-2">Sessions</th>
+                  <th className="p-2">Latest PBs</th>
+                  <th className="p-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {roster.map((r) => (
+                  <tr key={r.user_id} className="border-b last:border-0">
+                    <td className="p-2 whitespace-nowrap">{r.full_name ?? r.user_id.slice(0, 8)}</td>
+                    <td className="p-2 whitespace-nowrap">{formatDistance(r.weekDistance, unit)}</td>
+                    <td className="p-2 whitespace-nowrap">{r.weekSessions}</td>
+                    <td className="p-2 text-xs text-gray-600">
+                      {r.latestPBs.map((p) => (
+                        <div key={`${p.course}-${p.stroke}-${p.distance_m}`} className="whitespace-nowrap">
+                          {p.distance_m} {courseUnit(p.course)} {p.stroke} {p.course} {secToTime(Number(p.time_sec))} ({p.date})
+                        </div>
+                      ))}
+                      {!r.latestPBs.length && "-"}
+                    </td>
+                    <td className="p-2 whitespace-nowrap text-right">
+                      <button onClick={() => openSwimmer(r)} className="px-2 py-1 rounded-lg border mr-1">
+                        Log
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (!confirm(`Remove ${r.full_name ?? "this swimmer"} from ${team.name}?`)) return;
+                          void run(async () => {
+                            await removeMember(team.id, r.user_id);
+                            setRoster((cur) => cur.filter((x) => x.user_id !== r.user_id));
+                          });
+                        }}
+                        className="px-2 py-1 rounded-lg border"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {!roster.length && (
+                  <tr>
+                    <td className="text-center text-gray-500 py-8" colSpan={5}>
+                      No swimmers yet. Send an invite below.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Invites */}
+          <div className="px-2 mt-4">
+            <div className="flex items-center gap-2">
+              <h3 className="text-sm font-semibold text-gray-700 mr-auto">Invites</h3>
+              {(["swimmer", "coach"] as Role[]).map((role) => (
+                <button
+                  key={role}
+                  onClick={() =>
+                    void run(async () => {
+                      const inv = await createInvite(team.id, role);
+                      setInvites((cur) => [inv, ...cur]);
+                      void navigator.clipboard?.writeText(inviteLink(inv.code)).catch(() => undefined);
+                    })
+                  }
+                  className="px-3 py-1 rounded-lg border text-sm"
+                >
+                  Invite {role}
+                </button>
+              ))}
+            </div>
+            <ul className="mt-2 text-sm grid gap-1">
+              {invites.map((inv) => (
+                <li key={inv.id} className="flex items-center gap-2 flex-wrap">
+                  <code className="px-2 py-0.5 rounded bg-gray-100">{inv.code}</code>
+                  <span className="text-gray-600">{inv.role}</span>
+                  <span className="text-gray-500 text-xs">
+                    {inv.accepted_at ? "accepted" : `expires ${inv.expires_at.slice(0, 10)}`}
+                  </span>
+                  {!inv.accepted_at && (
+                    <input readOnly value={inviteLink(inv.code)} onFocus={(e) => e.currentTarget.select()}
+                           className="flex-1 min-w-0 px-2 py-0.5 rounded border text-xs bg-gray-50" />
+                  )}
+                  <button
+                    onClick={() =>
+                      void run(async () => {
+                        await revokeInvite(inv.id);
+                        setInvites((cur) => cur.filter((x) => x.id !== inv.id));
+                      })
+                    }
+                    className="px-2 py-0.5 rounded border text-xs"
+                  >
+                    Revoke
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </section>
+      )}
+
+      {/* Coach: one swimmer's log with comments */}
+      {team && isCoach && swimmer && log && (
+        <section className="rounded-2xl p-2 sm:p-4 bg-white shadow mt-4">
+          <div className="flex items-center justify-between px-2">
+            <h2 className="text-lg font-semibold">{swimmer.full_name ?? "Swimmer"} – recent log</h2>
+            <button onClick={() => setSwimmer(null)} className="px-3 py-2 rounded-xl border text-sm">
+              Close
+            </button>
+          </div>
+          <div className="overflow-x-auto mt-2">
+            <table className="min-w-full text-sm">
+              <tbody>
+                {log.workouts.map((w) => (
+                  <tr key={w.id} className="border-b last:border-0 align-top">
+                    <td className="p-2 whitespace-nowrap">{w.date}</td>
+                    <td className="p-2 whitespace-nowrap">
+                      {formatDistance(w.distance_m, unit)} {w.stroke} · {w.duration_min} min{w.rpe ? ` · RPE ${w.rpe}` : ""}
+                    </td>
+                    <td className="p-2">
+                      {w.notes}
+                      <CommentList comments={commentsFor("workout_id", w.id)} onDelete={(id) => void run(async () => {
+                        await deleteComment(id);
+                        setComments((cur) => cur.filter((c) => c.id !== id));
+                      })} />
+                    </td>
+                    <td className="p-2 text-right">
+                      <button onClick={() => comment({ workout_id: w.id! })} className="px-2 py-1 rounded-lg border">
+                        Comment
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {log.competitions.map((c) => (
+                  <tr key={c.id} className="border-b last:border-0 align-top">
+                    <td className="p-2 whitespace-nowrap">{c.date}</td>
+                    <td className="p-2 whitespace-nowrap">
+                      {c.distance_m} {courseUnit(c.course)} {c.stroke} {c.course} · {secToTime(Number(c.time_sec))}
+                    </td>
+                    <td className="p-2">
+                      {c.meet}
+                      <CommentList comments={commentsFor("competition_id", c.id)} onDelete={(id) => void run(async () => {
+                        await deleteComment(id);
+                        setComments((cur) => cur.filter((x) => x.id !== id));
+                      })} />
+                    </td>
+                    <td className="p-2 text-right">
+                      <button onClick={() => comment({ competition_id: c.id! })} className="px-2 py-1 rounded-lg border">
+                        Comment
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {!log.workouts.length && !log.competitions.length && (
+                  <tr>
+                    <td className="text-center text-gray-500 py-8" colSpan={4}>
+                      Nothing logged yet.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      {/* Coach: plan the swimmer's sessions */}
+      {team && isCoach && swimmer && <CalendarView owner={swimmer.user_id} ownerName={swimmer.full_name} unit={unit} />}
+
+      {/* Coach: the swimmer's month and season report */}
+      {team && isCoach && swimmer && <ReportView owner={swimmer.user_id} name={swimmer.full_name} unit={unit} />}
+
+      {/* Swimmer: coaches and their comments */}
+      {team && !isCoach && (
+        <section className="rounded-2xl p-4 bg-white shadow mt-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold">{team.name}</h2>
+            <button
+              onClick={() => {
+                if (!confirm(`Leave ${team.name}? Your coaches will no longer see your log.`)) return;
+                void run(async () => {
+                  await removeMember(team.id, userId);
+                  await loadTeams();
+                });
+              }}
+              className="px-3 py-2 rounded-xl border text-sm"
+            >
+              Leave team
+            </button>
+          </div>
+          <p className="text-sm text-gray-600 mt-1">
+            Coaches: {members.filter((m) => m.role === "coach").map((m) => m.full_name ?? "Coach").join(", ") || "-"}
+          </p>
+          <h3 className="text-sm font-semibold text-gray-700 mt-3">Coach comments</h3>
+          <ul className="mt-1 text-sm grid gap-1">
+            {comments.map((c) => (
+              <li key={c.id}>
+                <span className="text-gray-500">{c.created_at.slice(0, 10)} · {coachName(c.coach_id)}:</span> {c.body}
+              </li>
+            ))}
+            {!comments.length && <li className="text-gray-500">No comments yet.</li>}
+          </ul>
+        </section>
+      )}
+    </>
+  );
+}
+
+function CommentList({ comments, onDelete }: { comments: CoachComment[]; onDelete: (id: string) => void }) {
+  if (!comments.length) return null;
+  return (
+    <ul className="mt-1 text-xs text-gray-600 grid gap-0.5">
+      {comments.map((c) => (
+        <li key={c.id}>
+          💬 {c.body}{" "}
+          <button onClick={() => onDelete(c.id)} className="text-gray-400 underline">
+            delete
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from "react";
+import { courseUnit } from "./course";
+import type { TableName } from "./repository";
+import { listTrash } from "./sync";
+import type { Competition, Workout } from "./types";
+import { fromMeters, type Unit } from "./units";
+import { formatNumber, secToTime } from "./utils";
+
+/**
+ * Deleted sessions and results. Restoring puts a row back as it was;
+ * deleting for good also drops its edit history and can't be undone.
+ */
+export default function TrashView({ revision, unit = "m", onRestore, onPurge }: {
+  revision: number;                // reloads the trash when it changes
+  unit?: Unit;                     // session distances are shown in
+  onRestore: (table: TableName, rows: (Workout | Competition)[]) => Promise<void>;
+  onPurge: (table: TableName, rows: (Workout | Competition)[]) => Promise<void>;
+}) {
+  const [workouts, setWorkouts] = useState<Workout[]>([]);
+  const [comps, setComps] = useState<Competition[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let stale = false;
+    Promise.all([listTrash("workouts"), listTrash("competitions")])
+      .then(([w, c]) => {
+        if (stale) return;
+        setWorkouts(w);
+        setComps(c);
+      })
+      .catch((e: any) => alert(e.message || "Error loading the trash"))
+      .finally(() => setLoading(false));
+    return () => {
+      stale = true;
+    };
+  }, [revision]);
+
+  async function purge(table: TableName, rows: (Workout | Competition)[]) {
+    const what = rows.length === 1 ? "this row" : `these ${rows.length} rows`;
+    if (!confirm(`Delete ${what} for good? This can't be undone.`)) return;
+    await onPurge(table, rows);
+  }
+
+  const deletedOn = (r: { deleted_at?: string | null }) => (r.deleted_at ? new Date(r.deleted_at).toLocaleDateString() : "");
+  const actions = (table: TableName, r: Workout | Competition) => (
+    <td className="p-2 whitespace-nowrap text-right">
+      <button onClick={() => onRestore(table, [r])} className="px-2 py-1 rounded-lg border mr-1">
+        Restore
+      </button>
+      <button onClick={() => purge(table, [r])} className="px-2 py-1 rounded-lg border">
+        Delete forever
+      </button>
+    </td>
+  );
+
+  return (
+    <>
+      <section className="rounded-2xl p-4 bg-white shadow mt-4">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <h2 className="text-lg font-semibold">Trash</h2>
+            <p className="text-sm text-gray-600">Deleted sessions and results stay here until you restore them or delete them for good.</p>
+          </div>
+          <button
+            disabled={!workouts.length && !comps.length}
+            onClick={async () => {
+              if (!confirm(`Delete all ${workouts.length + comps.length} rows in the trash for good? This can't be undone.`)) return;
+              await onPurge("workouts", workouts);
+              await onPurge("competitions", comps);
+            }}
+            className="px-3 py-2 rounded-xl border text-sm disabled:opacity-50"
+          >
+            Empty trash
+          </button>
+        </div>
+      </section>
+
+      <section className="rounded-2xl p-2 sm:p-4 bg-white shadow mt-4">
+        <h2 className="text-lg font-semibold px-2">Sessions</h2>
+        <div className="overflow-x-auto mt-2">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="p-2">Date</th>
+                <th className="p-2">Stroke</th>
+                <th className="p-2">Distance ({unit})</th>
+                <th className="p-2">Duration (min)</th>
+                <th className="p-2">Notes</th>
+                <th className="p-2">Deleted</th>
+                <th className="p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {workouts.map((r) => (
+                <tr key={r.id} className="border-b last:border-0">
+                  <td className="p-2 whitespace-nowrap">{r.date}</td>
+                  <td className="p-2 whitespace-nowrap">{r.stroke}</td>
+                  <td className="p-2 whitespace-nowrap">{formatNumber(Math.round(fromMeters(r.distance_m, unit)))}</td>
+                  <td className="p-2 whitespace-nowrap">{r.duration_min}</td>
+                  <td className="p-2">{r.notes}</td>
+                  <td className="p-2 whitespace-nowrap text-gray-500">{deletedOn(r)}</td>
+                  {actions("workouts", r)}
+                </tr>
+              ))}
+              {!workouts.length && (
+                <tr>
+                  <td className="text-center text-gray-500 py-8" colSpan={7}>
+                    {loading ? "Loading…" : "No deleted sessions."}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className="rounded-2xl p-2 sm:p-4 bg-white shadow mt-4">
+        <h2 className="text-lg font-semibold px-2">Competition results</h2>
+        <div className="overflow-x-auto mt-2">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="p-2">Date</th>
+                <th className="p-2">Meet</th>
+                <th className="p-2">Event</th>
+                <th className="p-2">Time</th>
+                <th className="p-2">Deleted</th>
+                <th className="p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {comps.map((r) => (
+                <tr key={r.id} className="border-b last:border-0">
+                  <td className="p-2 whitespace-nowrap">{r.date}</td>
+                  <td className="p-2 whitespace-nowrap">{r.meet}</td>
+                  <td className="p-2 whitespace-nowrap">
+                    {r.distance_m} {courseUnit(r.course)} {r.stroke} <span className="text-gray-500">{r.course}</span>
+                  </td>
+                  <td className="p-2 whitespace-nowrap font-medium">{secToTime(Number(r.time_sec))}</td>
+                  <td className="p-2 whitespace-nowrap text-gray-500">{deletedOn(r)}</td>
+                  {actions("competitions", r)}
+                </tr>
+              ))}
+              {!comps.length && (
+                <tr>
+                  <td className="text-center text-gray-500 py-8" colSpan={6}>
+                    {loading ? "Loading…" : "No deleted results."}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </>
+  );
+}
@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createBackup, readBackup, restoreBackup } from "./account";
+import { createLocalRepository } from "./localRepository";
+import { setRepository, type Repository } from "./repository";
+import { adoptLocalData, clearLocal } from "./sync";
+import type { Workout } from "./types";
+
+const OWNER = "00000000-0000-4000-8000-000000000001";
+const OTHER = "00000000-0000-4000-8000-000000000002";
+
+const workout = (i: number, extra: Partial<Workout> = {}): Workout => ({
+  id: `w${String(i).padStart(5, "0")}`, user_id: OWNER, date: "2024-03-05", distance_m: 2000, duration_min: 40, stroke: "Free", ...extra,
+});
+
+let server: Repository;
+
+beforeEach(async () => {
+  await clearLocal();
+  server = createLocalRepository();
+  setRepository(server);
+  await adoptLocalData(OWNER);
+});
+
+describe("createBackup", () => {
+  it("includes every live and trashed row, past the 1000-row page", async () => {
+    // Like PostgREST, return at most 1000 rows per request
+    const local = server;
+    setRepository({ ...local, list: (table, owner, opts = {}) => local.list(table, owner, { ...opts, limit: Math.min(opts.limit ?? 1000, 1000) }) });
+    const trashed = Array.from({ length: 1005 }, (_, i) => workout(i, { deleted_at: "2024-04-01T00:00:00Z" }));
+    await server.upsert("workouts", [...trashed, workout(2000), workout(2001)]);
+    const backup = await createBackup(OWNER);
+    expect(backup.workouts).toHaveLength(1007);
+    expect(new Set(backup.workouts.map((w) => w.id)).size).toBe(1007);
+  });
+});
+
+describe("restoreBackup", () => {
+  it("merges: adds missing rows and leaves existing ones alone", async () => {
+    await server.upsert("workouts", [workout(1, { notes: "on the server" })]);
+    const backup = readBackup(JSON.stringify({ ...(await createBackup(OWNER)), workouts: [workout(1, { notes: "in the file" }), workout(2)] }));
+    const summary = await restoreBackup(backup, OWNER, "merge");
+    expect(summary).toMatchObject({ restored: { workouts: 1 }, skipped: 1, errors: [] });
+    expect((await server.get("workouts", "w00001"))?.notes).toBe("on the server");
+    expect(await server.get("workouts", "w00002")).not.toBeNull();
+  });
+
+  it("gives rows new ids in another account, keeping workouts on their plan", async () => {
+    await server.savePlan({ id: "p1", user_id: OWNER, created_by: OWNER, date: "2024-03-05", title: "Threshold" });
+    await server.upsert("workouts", [workout(1, { plan_id: "p1" }), workout(2, { date: "2024-03-06" })]);
+    const backup = await createBackup(OWNER);
+
+    // The source account still has every row
+    await adoptLocalData(OTHER);
+    const summary = await restoreBackup(backup, OTHER, "merge");
+    expect(summary).toMatchObject({ restored: { workouts: 2, plans: 1 }, errors: [] });
+    const [plan] = await server.plans(OTHER);
+    const mine = await server.list("workouts", OTHER);
+    expect(plan.id).not.toBe("p1");
+    expect(mine.map((w) => w.id)).not.toContain("w00001");
+    expect(mine.find((w) => w.date === "2024-03-05")?.plan_id).toBe(plan.id);
+    expect(await server.list("workouts", OWNER)).toHaveLength(2);
+
+    // Merging the same file again finds everything already there
+    expect(await restoreBackup(backup, OTHER, "merge")).toMatchObject({ restored: { workouts: 0, plans: 0 }, skipped: 3 });
+  });
+
+  it("refuses files from a newer version of the app", () => {
+    expect(() => readBackup(JSON.stringify({ format: "swimmer-tracker-backup", version: 99 }))).toThrow(/newer version/);
+  });
+});
@@ -0,0 +1,274 @@
+import { competitionImport, workoutImport } from "./importer";
+import { DEMO_MODE, repository, type Profile, type RepoError, type TableName, type Tables } from "./repository";
+import { listShareLinks, type ShareLink } from "./share";
+import { loadStandards, saveStandards, type StandardsState } from "./standards";
+import { supabase } from "./supabase";
+import { clearLocal, newId, pendingCount, removeCssTest, saveCssTest, saveLocal, saveProfile, sync } from "./sync";
+import { listComments, listTeams, type CoachComment, type Team } from "./teams";
+import type { Competition, CssTest, Plan, Workout } from "./types";
+
+/**
+ * Your data: a full backup, restoring it, deleting the account.
+ * - The backup is one JSON file with a format name and version: profile,
+ *   workouts and results (trash included), training plan, CSS tests and this
+ *   device's time standards. Share links, teams and coach comments are in it
+ *   for the record but never restored: links are public URLs, and teams and
+ *   comments belong to other people too
+ * - A new table gets a key in `Backup`, `createBackup` and `restoreBackup`.
+ *   Older files lack the key and restore without it; bump BACKUP_VERSION
+ *   (and convert in `readBackup`) only when existing keys change shape
+ * - Restore merges (adds rows whose id is not there yet) or replaces (deletes
+ *   the account's rows first). Workouts and results go through the outbox
+ *   like an import; the rest is written straight to the server
+ * - Restored into another account, rows get new ids (with `plan_id` following
+ *   its plan), and a merge skips rows that match by content, like an import
+ * - Deleting the account runs delete_my_account() in supabase/schema.sql;
+ *   everything that cascades from auth.users goes with it
+ */
+
+export const BACKUP_FORMAT = "swimmer-tracker-backup";
+export const BACKUP_VERSION = 1;
+
+const PAGE = 1000;   // PostgREST returns at most 1000 rows per request by default
+
+export type Backup = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exported_at: string;
+  user_id: string;                   // the account it was taken from
+  profile: Profile | null;
+  standards: StandardsState | null;  // kept per device, see standards.ts
+  workouts: Workout[];
+  competitions: Competition[];
+  planned_sessions: Plan[];
+  css_tests: CssTest[];
+  share_links: ShareLink[];          // not restored
+  teams: Team[];                     // not restored
+  coach_comments: CoachComment[];    // not restored
+};
+
+export type RestoreMode = "merge" | "replace";
+
+/** Rows written per kind, rows a merge left out because they were already there, rows the server refused. */
+export type RestoreSummary = {
+  restored: Record<"workouts" | "competitions" | "plans" | "cssTests", number>;
+  skipped: number;
+  errors: string[];
+};
+
+function invalid(message: string): never {
+  const error: RepoError = { message, code: "invalid_backup" };
+  throw error;
+}
+
+// Backups and restores work on the server copy, so nothing may be waiting in the outbox
+async function requireSynced() {
+  await sync();
+  if (await pendingCount()) {
+    const error: RepoError = { message: "Some changes have not synced yet. Go online, let them sync, and try again.", code: "pending" };
+    throw error;
+  }
+}
+
+// Every row of a table, trash included, a page at a time
+async function allRows<T extends TableName>(table: T, owner: string): Promise<Tables[T][]> {
+  const repo = repository();
+  const rows: Tables[T][] = [];
+  for (let offset = 0; ; offset += PAGE) {
+    const page = await repo.page(table, owner, { sort: "date", dir: "asc", offset, limit: PAGE });
+    rows.push(...page.rows);
+    if (!page.rows.length || rows.length >= page.total) break;
+  }
+  // The trash has no count; a short page is the last one
+  for (let offset = 0; ; offset += PAGE) {
+    const trashed = await repo.list(table, owner, { trashed: true, offset, limit: PAGE });
+    rows.push(...trashed);
+    if (trashed.length < PAGE) break;
+  }
+  return rows;
+}
+
+export async function createBackup(owner: string): Promise<Backup> {
+  await requireSynced();
+  const repo = repository();
+  const [profile, standards, workouts, competitions, plans, tests] = await Promise.all([
+    repo.profile(owner),
+    loadStandards(),
+    allRows("workouts", owner),
+    allRows("competitions", owner),
+    repo.plans(owner),
+    repo.cssTests(owner),
+  ]);
+  // Online-only tables; demo mode has none
+  const [links, teams, comments] = DEMO_MODE
+    ? [[], [], []]
+    : await Promise.all([listShareLinks(owner), listTeams(owner), listComments(owner)]);
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: new Date().toISOString(),
+    user_id: owner,
+    profile,
+    standards,
+    workouts,
+    competitions,
+    planned_sessions: plans,
+    css_tests: tests,
+    share_links: links,
+    teams,
+    coach_comments: comments,
+  };
+}
+
+export function downloadBackup(backup: Backup) {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" }));
+  const el = document.createElement("a");
+  el.href = url;
+  el.download = `swimmer-tracker-backup_${backup.exported_at.slice(0, 19).replaceAll(":", "-")}.json`;
+  document.body.appendChild(el);
+  el.click();
+  el.remove();
+  URL.revokeObjectURL(url);
+}
+
+/** Parses and checks a backup file; throws a readable error when it can't be restored. */
+export function readBackup(text: string): Backup {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    invalid("This file is not a Swimmer Tracker backup (it is not JSON).");
+  }
+  if (typeof parsed !== "object" || parsed === null) invalid("This file is not a Swimmer Tracker backup.");
+  const raw = parsed as Record<string, unknown>;
+  if (raw.format !== BACKUP_FORMAT) invalid("This file is not a Swimmer Tracker backup.");
+  const version = raw.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) invalid("The backup has no valid format version.");
+  if (version > BACKUP_VERSION) {
+    invalid(`The backup was made by a newer version of the app (format ${version}, this one reads up to ${BACKUP_VERSION}). Update the app and try again.`);
+  }
+
+  const list = <T>(key: string, dated = true): T[] => {
+    const rows: unknown = raw[key] ?? [];
+    if (!Array.isArray(rows)) invalid(`"${key}" in the backup is not a list.`);
+    const bad = rows.filter((r: unknown) => {
+      const row = (typeof r === "object" && r !== null ? r : {}) as { id?: unknown; date?: unknown };
+      return typeof row.id !== "string" || (dated && !/^\d{4}-\d{2}-\d{2}$/.test(String(row.date)));
+    }).length;
+    if (bad) invalid(`${bad} row(s) of "${key}" have no id or date.`);
+    return rows as T[];
+  };
+  return {
+    format: BACKUP_FORMAT,
+    version,
+    exported_at: String(raw.exported_at ?? ""),
+    user_id: String(raw.user_id ?? ""),
+    profile: (raw.profile ?? null) as Profile | null,
+    standards: (raw.standards ?? null) as StandardsState | null,
+    workouts: list<Workout>("workouts"),
+    competitions: list<Competition>("competitions"),
+    planned_sessions: list<Plan>("planned_sessions"),
+    css_tests: list<CssTest>("css_tests"),
+    share_links: list<ShareLink>("share_links", false),
+    teams: list<Team>("teams", false),
+    coach_comments: list<CoachComment>("coach_comments", false),
+  };
+}
+
+/** Fields of `theirs` where `mine` has nothing. */
+function fillBlanks<T extends object>(mine: T, theirs: Partial<T>): T {
+  const out = { ...mine } as Record<string, unknown>;
+  for (const [k, v] of Object.entries(theirs)) if ((out[k] ?? "") === "" && v != null) out[k] = v;
+  return out as T;
+}
+
+export async function restoreBackup(backup: Backup, owner: string, mode: RestoreMode): Promise<RestoreSummary> {
+  await requireSynced();
+  const repo = repository();
+  const sameAccount = backup.user_id === owner;
+  // Into another account rows get new ids (the account they came from may still hold the originals),
+  // so a merge recognises rows that are already there by their content instead
+  const key = {
+    workouts: (w: Workout) => (sameAccount ? w.id! : workoutImport.dupKey(w)),
+    competitions: (c: Competition) => (sameAccount ? c.id! : competitionImport.dupKey(c)),
+    plans: (p: Plan) => (sameAccount ? p.id! : `${p.date}|${p.title}`),
+    cssTests: (t: CssTest) => (sameAccount ? t.id! : `${t.date}|${t.long_m}|${t.long_sec}|${t.short_m}|${t.short_sec}`),
+  };
+  const have = { workouts: new Set<string>(), competitions: new Set<string>(), plans: new Map<string, string>(), cssTests: new Set<string>() };
+  const sources = new Set<string>();
+
+  if (mode === "replace") {
+    for (const p of await repo.plans(owner)) await repo.removePlan(p.id!);
+    for (const t of await repo.cssTests(owner)) await removeCssTest(t.id!);
+    await repo.removeAll("workouts", owner);
+    await repo.removeAll("competitions", owner);
+  } else {
+    const [workouts, competitions, plans, tests] = await Promise.all([
+      allRows("workouts", owner),
+      allRows("competitions", owner),
+      repo.plans(owner),
+      repo.cssTests(owner),
+    ]);
+    workouts.forEach((w) => have.workouts.add(key.workouts(w)));
+    workouts.forEach((w) => w.source_id && sources.add(w.source_id));
+    competitions.forEach((c) => have.competitions.add(key.competitions(c)));
+    plans.forEach((p) => have.plans.set(key.plans(p), p.id!));
+    tests.forEach((t) => have.cssTests.add(key.cssTests(t)));
+  }
+  const id = (row: { id?: string }) => (sameAccount ? row.id : newId());
+
+  // Plans first: restored workouts point at them (plan_id), by their id in this account
+  const planIds = new Map<string, string>();
+  const plans: Plan[] = [];
+  for (const p of backup.planned_sessions) {
+    const existing = have.plans.get(key.plans(p));
+    const restored = existing ?? id(p)!;
+    planIds.set(p.id!, restored);
+    if (!existing) plans.push({ ...p, id: restored });
+  }
+  for (const p of plans) {
+    // The author only means something in the account it came from (or a coach who still exists there)
+    const created_by = p.created_by === backup.user_id ? owner : sameAccount ? p.created_by : null;
+    await repo.savePlan({ ...p, user_id: owner, created_by, updated_at: undefined });
+  }
+  const tests = backup.css_tests.filter((t) => !have.cssTests.has(key.cssTests(t)));
+  for (const t of tests) await saveCssTest({ ...t, id: id(t), updated_at: undefined });
+
+  // No base version: sent as new rows, in chunks
+  const workouts = backup.workouts.filter((w) => !have.workouts.has(key.workouts(w)) && !(w.source_id && sources.has(w.source_id)));
+  const competitions = backup.competitions.filter((c) => !have.competitions.has(key.competitions(c)));
+  await saveLocal(
+    "workouts",
+    workouts.map((w) => ({ ...w, id: id(w), user_id: owner, plan_id: w.plan_id ? planIds.get(w.plan_id) ?? null : w.plan_id, updated_at: undefined }))
+  );
+  await saveLocal("competitions", competitions.map((c) => ({ ...c, id: id(c), user_id: owner, updated_at: undefined })));
+
+  if (backup.profile) {
+    const { id: _id, updated_at: _u, ...fields } = backup.profile;
+    const current = await repo.ensureProfile(owner);
+    await saveProfile(mode === "replace" ? { ...current, ...fields } : fillBlanks(current, fields));
+  }
+  if (backup.standards) {
+    const current = await loadStandards();
+    const names = new Set(current.sets.map((s) => s.name));
+    await saveStandards(
+      mode === "replace" ? backup.standards : { ...current, sets: [...current.sets, ...backup.standards.sets.filter((s) => !names.has(s.name))] }
+    );
+  }
+
+  const { errors } = await sync();
+  const restored = { workouts: workouts.length, competitions: competitions.length, plans: plans.length, cssTests: tests.length };
+  const total = backup.workouts.length + backup.competitions.length + backup.planned_sessions.length + backup.css_tests.length;
+  return { restored, skipped: total - Object.values(restored).reduce((s, n) => s + n, 0), errors };
+}
+
+/** Deletes the account and everything in it, then forgets this device's copy. Demo: resets the demo. */
+export async function deleteAccount() {
+  if (!DEMO_MODE) {
+    const { error } = await supabase.rpc("delete_my_account");
+    if (error) throw error;
+    // The user is gone, so the server may refuse the sign-out; the local session is cleared anyway
+    await supabase.auth.signOut();
+  }
+  await clearLocal();
+}
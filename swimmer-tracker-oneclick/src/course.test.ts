@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { convertTime } from "./course";
+
+describe("convertTime", () => {
+  it("converts the mile to the 1500 with its own factors", () => {
+    // 16:00.00 for 1650 yd
+    expect(convertTime(960, "Free", 1650, "SCY", "LCM")).toEqual({ distance: 1500, time_sec: 979.2 });
+    expect(convertTime(960, "Free", 1650, "SCY", "SCM")).toEqual({ distance: 1500, time_sec: 936 });
+    expect(convertTime(979.2, "Free", 1500, "LCM", "SCY")).toEqual({ distance: 1650, time_sec: 960 });
+    expect(convertTime(936, "Free", 1500, "SCM", "SCY")).toEqual({ distance: 1650, time_sec: 960 });
+  });
+
+  it("converts the 500 and 1000 yd to the 400 and 800 m", () => {
+    expect(convertTime(300, "Free", 500, "SCY", "LCM")).toEqual({ distance: 400, time_sec: 267.75 });
+    expect(convertTime(300, "Free", 500, "SCY", "SCM")).toEqual({ distance: 400, time_sec: 262.5 });
+    expect(convertTime(535.5, "Free", 800, "LCM", "SCY")).toEqual({ distance: 1000, time_sec: 600 });
+  });
+
+  it("scales other yard events by 1.11 and adds the turn allowance for long course", () => {
+    expect(convertTime(50, "Free", 100, "SCY", "SCM")).toEqual({ distance: 100, time_sec: 55.5 });
+    expect(convertTime(50, "Free", 100, "SCY", "LCM")).toEqual({ distance: 100, time_sec: 56.3 });
+    expect(convertTime(120, "Back", 200, "SCM", "LCM")).toEqual({ distance: 200, time_sec: 122.4 });
+    expect(convertTime(122.4, "Back", 200, "LCM", "SCM")).toEqual({ distance: 200, time_sec: 120 });
+  });
+
+  it("keeps distance freestyle factors to freestyle and the same course as is", () => {
+    expect(convertTime(300, "IM", 400, "SCM", "SCY")).toEqual({ distance: 400, time_sec: 270.27 });
+    expect(convertTime(61.5, "Fly", 100, "LCM", "LCM")).toEqual({ distance: 100, time_sec: 61.5 });
+  });
+
+  it("has no long course equivalent for the 100 IM", () => {
+    expect(convertTime(60, "IM", 100, "SCM", "LCM")).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+import type { Competition } from "./types";
+
+/**
+ * Pool courses and time conversion between them.
+ * - SCY (25 yd) → SCM (25 m): ×1.11
+ * - SCM → LCM: add the turn allowance per 100 (fewer walls in a 50 m pool)
+ * - The distance freestyle events 500/1000/1650 yd map to 400/800/1500 m, so
+ *   they convert straight to each meters course with their own factor:
+ *   ×0.875 / ×0.8925 (SCM / LCM) for 500 and 1000, ×0.975 / ×1.02 for 1650
+ * These are the usual approximate conversion factors (same idea as the
+ * meet-management tables); treat equivalents as estimates, not records.
+ */
+
+export type Course = "SCM" | "SCY" | "LCM";
+export const COURSES: Course[] = ["SCM", "SCY", "LCM"];
+
+type Stroke = Competition["stroke"];
+
+const YARDS_TO_METERS = 1.11;
+// Yard event → meter event, and the time factor into SCM and into LCM
+const LONG_DISTANCE: { yards: number; meters: number; SCM: number; LCM: number }[] = [
+  { yards: 500, meters: 400, SCM: 0.875, LCM: 0.8925 },
+  { yards: 1000, meters: 800, SCM: 0.875, LCM: 0.8925 },
+  { yards: 1650, meters: 1500, SCM: 0.975, LCM: 1.02 },
+];
+
+// Seconds lost per 100 when moving from a 25 m to a 50 m pool
+const TURN_ALLOWANCE: Record<Stroke, number> = {
+  Free: 0.8,
+  Back: 1.2,
+  Breast: 1.0,
+  Fly: 0.6,
+  IM: 0.8,
+};
+
+export function courseUnit(course: Course) {
+  return course === "SCY" ? "y" : "m";
+}
+
+export function courseLabel(course: Course) {
+  return { SCM: "Short course meters", SCY: "Short course yards", LCM: "Long course meters" }[course];
+}
+
+/** Individual event distances swum in a course for a stroke (yards for SCY). */
+export function courseEvents(course: Course, stroke: Stroke): number[] {
+  if (stroke === "Free") return course === "SCY" ? [50, 100, 200, 500, 1000, 1650] : [50, 100, 200, 400, 800, 1500];
+  if (stroke === "IM") return course === "LCM" ? [200, 400] : [100, 200, 400];
+  return [50, 100, 200];
+}
+
+/**
+ * Equivalent time for the same event in another course, or null when the event
+ * has no counterpart (100 IM is not swum in a 50 m pool).
+ */
+export function convertTime(
+  time_sec: number,
+  stroke: Stroke,
+  distance: number,
+  from: Course,
+  to: Course
+): { distance: number; time_sec: number } | null {
+  if (from === to) return { distance, time_sec };
+  if (stroke === "IM" && distance === 100 && (from === "LCM" || to === "LCM")) return null;
+  const result = (distance: number, time: number) => (time > 0 ? { distance, time_sec: Math.round(time * 100) / 100 } : null);
+
+  // Distance freestyle between yards and meters: a different event, converted directly
+  if (stroke === "Free" && from === "SCY") {
+    const long = LONG_DISTANCE.find((l) => l.yards === distance);
+    if (long) return result(long.meters, time_sec * long[to as "SCM" | "LCM"]);
+  }
+  if (stroke === "Free" && to === "SCY") {
+    const long = LONG_DISTANCE.find((l) => l.meters === distance);
+    if (long) return result(long.yards, time_sec / long[from as "SCM" | "LCM"]);
+  }
+
+  // Normalise to SCM, then out to the target course
+  let time = time_sec;
+  if (from === "SCY") time *= YARDS_TO_METERS;
+  if (from === "LCM") time -= (TURN_ALLOWANCE[stroke] * distance) / 100;
+  if (to === "SCY") time /= YARDS_TO_METERS;
+  if (to === "LCM") time += (TURN_ALLOWANCE[stroke] * distance) / 100;
+  return result(distance, time);
+}
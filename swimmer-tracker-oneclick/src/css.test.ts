@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { cssPace, paceZones, sessionPace, testOn, timeInZone, workoutZone, zoneOf } from "./css";
+import type { CssTest, Workout } from "./types";
+
+const test = (date: string, long_sec: number, short_sec: number): CssTest => ({ date, long_m: 400, long_sec, short_m: 200, short_sec });
+
+const session = (date: string, distance_m: number, duration_min: number): Workout => ({ date, distance_m, duration_min, stroke: "Free" });
+
+// 400 m in 6:00 and 200 m in 2:50 → CSS 1:35 (95 s/100 m)
+const first = test("2024-09-01", 360, 170);
+// Four weeks later: 400 m in 5:52, 200 m in 2:48 → 92 s/100 m
+const second = test("2024-09-29", 352, 168);
+
+describe("cssPace", () => {
+  it("is the pace between the two trials, in seconds per 100 m", () => {
+    expect(cssPace(first)).toBe(95);
+    expect(cssPace(second)).toBe(92);
+  });
+
+  it("is null when the trials don't make sense", () => {
+    expect(cssPace(test("2024-09-01", 170, 360))).toBeNull();
+    expect(cssPace({ ...first, short_m: 400 })).toBeNull();
+  });
+});
+
+describe("zones", () => {
+  it("are pace bands around CSS, open-ended at both ends", () => {
+    expect(paceZones(95)).toEqual([
+      { zone: 5, label: "Z5 Sprint", from: null, to: 89 },
+      { zone: 4, label: "Z4 VO2max", from: 89, to: 93 },
+      { zone: 3, label: "Z3 Threshold", from: 93, to: 98 },
+      { zone: 2, label: "Z2 Aerobic", from: 98, to: 105 },
+      { zone: 1, label: "Z1 Recovery", from: 105, to: null },
+    ]);
+  });
+
+  it("put a pace on a band's upper bound in that band", () => {
+    expect([85, 89, 90, 93, 95, 98, 105, 106].map((p) => zoneOf(p, 95))).toEqual([5, 5, 4, 4, 3, 3, 2, 1]);
+  });
+});
+
+describe("sessions", () => {
+  it("are classified by average pace against the test in effect on their date", () => {
+    expect(sessionPace(session("2024-09-10", 3000, 48))).toBeCloseTo(96, 6);
+    expect(sessionPace(session("2024-09-10", 0, 48))).toBeNull();
+    expect(testOn([second, first], "2024-09-28")).toBe(first);
+    expect(testOn([second, first], "2024-09-29")).toBe(second);
+    expect(testOn([second, first], "2024-08-31")).toBeNull();
+    // 96 s/100 m: threshold against 95, aerobic against 92
+    expect(workoutZone(session("2024-09-10", 3000, 48), [first, second])).toBe(3);
+    expect(workoutZone(session("2024-10-01", 3000, 48), [first, second])).toBe(2);
+    expect(workoutZone(session("2024-08-01", 3000, 48), [first, second])).toBeNull();
+  });
+
+  it("add up to minutes per zone per Monday week", () => {
+    const weeks = timeInZone(
+      [
+        session("2024-09-04", 3000, 48),  // Wed, Z3
+        session("2024-09-08", 4000, 80),  // Sun, 120 s/100 m: Z1
+        session("2024-09-09", 2000, 29),  // next Mon, 87 s/100 m: Z5
+        session("2024-08-30", 3000, 48),  // before the first test
+      ],
+      [first]
+    );
+    expect(weeks).toEqual([
+      { weekStart: "2024-09-02", Z1: 80, Z2: 0, Z3: 48, Z4: 0, Z5: 0 },
+      { weekStart: "2024-09-09", Z1: 0, Z2: 0, Z3: 0, Z4: 0, Z5: 29 },
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { weekStart } from "./history";
+import { ZONES } from "./sets";
+import type { CssTest, Workout } from "./types";
+import { pacePer100 } from "./utils";
+
+/**
+ * Critical Swim Speed (CSS) and training pace zones
+ * - CSS from two time trials: (d_long − d_short) / (t_long − t_short), kept
+ *   as a pace in seconds per 100 m (400 m in 6:00 and 200 m in 2:50 → 1:35)
+ * - Zones are bands of pace around CSS, numbered like the set zones
+ *   (Z1 Recovery … Z5 Sprint)
+ * - A session is classified by its average pace (duration / distance, rests
+ *   included) against the latest test on or before its date; sessions before
+ *   the first test have no zone
+ * - Time in zone = minutes of the sessions in each zone, per week
+ */
+
+export const emptyCssTest: CssTest = { date: "", long_m: 400, long_sec: 0, short_m: 200, short_sec: 0, notes: "" };
+
+/** Seconds per 100 m relative to CSS pace (negative = faster); each zone goes up to `upTo`. */
+export const ZONE_BANDS: { zone: number; upTo: number }[] = [
+  { zone: 5, upTo: -6 },
+  { zone: 4, upTo: -2 },
+  { zone: 3, upTo: 3 },
+  { zone: 2, upTo: 10 },
+  { zone: 1, upTo: Infinity },
+];
+
+export const ZONE_COLORS: Record<number, string> = {
+  1: "#3b82f6",
+  2: "#16a34a",
+  3: "#ca8a04",
+  4: "#ea580c",
+  5: "#dc2626",
+};
+
+export type PaceZone = { zone: number; label: string; from: number | null; to: number | null };
+
+/** CSS pace in seconds per 100 m, or null when the trials don't make sense. */
+export function cssPace(t: CssTest): number | null {
+  const meters = Number(t.long_m) - Number(t.short_m);
+  const seconds = Number(t.long_sec) - Number(t.short_sec);
+  if (!(meters > 0 && seconds > 0)) return null;
+  return Math.round((seconds / meters) * 100 * 10) / 10;
+}
+
+/** The zones as pace ranges (s/100 m, faster bound first); open-ended at Z1 and Z5. */
+export function paceZones(css: number): PaceZone[] {
+  return ZONE_BANDS.map((b, i) => ({
+    zone: b.zone,
+    label: ZONES.find((z) => z.zone === b.zone)!.label,
+    from: i ? css + ZONE_BANDS[i - 1].upTo : null,
+    to: isFinite(b.upTo) ? css + b.upTo : null,
+  }));
+}
+
+export function zoneOf(pace100: number, css: number) {
+  return ZONE_BANDS.find((b) => pace100 <= css + b.upTo)!.zone;
+}
+
+/** The test in effect on a date: the latest one on or before it. */
+export function testOn(tests: CssTest[], date: string): CssTest | null {
+  let found: CssTest | null = null;
+  for (const t of tests) if (t.date <= date && (!found || t.date >= found.date)) found = t;
+  return found;
+}
+
+/** Seconds per 100 m for a session, or null without distance or duration. */
+export function sessionPace(w: Workout) {
+  const pace = pacePer100(Number(w.distance_m), Number(w.duration_min));
+  return pace > 0 ? pace * 60 : null;
+}
+
+export function workoutZone(w: Workout, tests: CssTest[]): number | null {
+  const test = testOn(tests, w.date);
+  const css = test && cssPace(test);
+  const pace = sessionPace(w);
+  return css && pace ? zoneOf(pace, css) : null;
+}
+
+export type ZoneWeek = { weekStart: string; [zone: `Z${number}`]: number };
+
+/** Minutes per zone per week (keys "Z1"…"Z5"), oldest first; sessions without a zone are left out. */
+export function timeInZone(workouts: Workout[], tests: CssTest[]): ZoneWeek[] {
+  const map = new Map<string, ZoneWeek>();
+  for (const w of workouts) {
+    const zone = workoutZone(w, tests);
+    if (!zone) continue;
+    const key = weekStart(w.date);
+    const week = map.get(key) ?? { weekStart: key, Z1: 0, Z2: 0, Z3: 0, Z4: 0, Z5: 0 };
+    week[`Z${zone}`] += Number(w.duration_min) || 0;
+    map.set(key, week);
+  }
+  return Array.from(map.values()).sort((a, b) => a.weekStart.localeCompare(b.weekStart));
+}
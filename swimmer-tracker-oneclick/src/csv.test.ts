@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { detectDelimiter, parseCSV, toCSV } from "./csv";
+
+describe("parseCSV", () => {
+  it("reads quoted fields with delimiters, doubled quotes and line breaks", () => {
+    const text = 'date,notes\r\n2024-01-02,"easy, then ""fast""\nfinish"\r\n2024-01-03,plain\r\n';
+    expect(parseCSV(text)).toEqual([
+      ["date", "notes"],
+      ["2024-01-02", 'easy, then "fast"\nfinish'],
+      ["2024-01-03", "plain"],
+    ]);
+  });
+
+  it("strips the BOM and skips blank lines but keeps rows of empty fields", () => {
+    expect(parseCSV("\uFEFFa,b\n\n,\n1,2", ",")).toEqual([["a", "b"], ["", ""], ["1", "2"]]);
+  });
+
+  it("handles CR-only line endings", () => {
+    expect(parseCSV("a;b\r1;2", ";")).toEqual([["a", "b"], ["1", "2"]]);
+  });
+});
+
+describe("detectDelimiter", () => {
+  it("picks the delimiter giving consistent columns", () => {
+    expect(detectDelimiter("date;distance;notes\n2024-01-02;2000;a, b\n2024-01-03;1500;c")).toBe(";");
+    expect(detectDelimiter("date\tdistance\n2024-01-02\t2000")).toBe("\t");
+    expect(detectDelimiter("date,distance\n2024-01-02,2000")).toBe(",");
+  });
+});
+
+describe("toCSV", () => {
+  it("quotes only what needs it and reads back the same", () => {
+    const rows = [["2024-01-02", 'say "hi", ok', null], ["2024-01-03", "line\nbreak", 3]];
+    const text = toCSV(["date", "notes", "rpe"], rows);
+    expect(text.split("\r\n")[1]).toBe('2024-01-02,"say ""hi"", ok",');
+    expect(parseCSV(text)).toEqual([["date", "notes", "rpe"], ["2024-01-02", 'say "hi", ok', ""], ["2024-01-03", "line\nbreak", "3"]]);
+  });
+});
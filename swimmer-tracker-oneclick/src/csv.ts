@@ -0,0 +1,92 @@
+/**
+ * RFC 4180 CSV parsing.
+ * - Quoted fields may contain the delimiter, quotes ("") and line breaks
+ * - CRLF / LF / CR line endings, UTF-8 BOM stripped
+ * - Delimiter auto-detected among , ; TAB | when not given
+ */
+
+export const DELIMITERS = [",", ";", "\t", "|"] as const;
+export type Delimiter = (typeof DELIMITERS)[number];
+
+export function delimiterLabel(d: Delimiter) {
+  return { ",": "Comma", ";": "Semicolon", "\t": "Tab", "|": "Pipe" }[d];
+}
+
+/** Pick the delimiter that splits the first lines into the most consistent columns. */
+export function detectDelimiter(text: string): Delimiter {
+  const sample = text.replace(/^\uFEFF/, "").slice(0, 10_000);
+  let best: Delimiter = ",";
+  let bestScore = -1;
+  for (const d of DELIMITERS) {
+    const rows = parseCSV(sample, d).slice(0, 20);
+    if (rows.length > 1 && sample.length === 10_000) rows.pop(); // likely cut mid-row
+    const widths = rows.map((r) => r.length);
+    const width = widths[0] ?? 1;
+    if (width < 2) continue;
+    const consistent = widths.filter((w) => w === width).length / widths.length;
+    const score = consistent * width;
+    if (score > bestScore) {
+      best = d;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export function parseCSV(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = 0;
+  const endField = () => {
+    row.push(field);
+    field = "";
+  };
+  const endRow = () => {
+    endField();
+    // Skip blank lines, keep rows of empty fields
+    if (!(row.length === 1 && row[0] === "")) rows.push(row);
+    row = [];
+  };
+  while (i < src.length) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"') {
+        if (src[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        quoted = false;
+      } else {
+        field += c;
+      }
+      i++;
+      continue;
+    }
+    if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === delimiter) {
+      endField();
+    } else if (c === "\r" || c === "\n") {
+      endRow();
+      if (c === "\r" && src[i + 1] === "\n") i++;
+    } else {
+      field += c;
+    }
+    i++;
+  }
+  if (field !== "" || row.length) endRow();
+  return rows;
+}
+
+function quote(v: unknown, delimiter: string) {
+  const s = v === null || v === undefined ? "" : String(v);
+  return /["\r\n]/.test(s) || s.includes(delimiter) ? `"${s.replaceAll('"', '""')}"` : s;
+}
+
+export function toCSV(header: string[], rows: unknown[][], delimiter = ","): string {
+  return [header, ...rows].map((r) => r.map((v) => quote(v, delimiter)).join(delimiter)).join("\r\n");
+}
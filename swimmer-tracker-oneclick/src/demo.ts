@@ -0,0 +1,103 @@
+import type { LocalSnapshot } from "./localRepository";
+import type { Profile } from "./repository";
+import { newId } from "./sync";
+import type { Competition, CssTest, Plan, Stroke, Workout } from "./types";
+
+/**
+ * Sample data for demo mode: twelve weeks of training, a few meets, two CSS
+ * tests and a plan around today (mostly followed, one session missed), dated
+ * relative to today so the charts and load figures have something to show.
+ * Deterministic, so every demo starts the same.
+ */
+
+function rng(seed: number) {
+  return () => {
+    seed = (seed * 1_103_515_245 + 12_345) % 2_147_483_648;
+    return seed / 2_147_483_648;
+  };
+}
+
+function daysAgo(n: number) {
+  const d = new Date();
+  d.setDate(d.getDate() - n);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+export function demoData(userId: string): LocalSnapshot {
+  const rand = rng(42);
+  const strokes: Stroke[] = ["Free", "Free", "Free", "Back", "Breast", "Fly", "IM"];
+  const workouts: Workout[] = [];
+  for (let day = 84; day >= 1; day--) {
+    if (![1, 3, 5].includes(day % 7)) continue; // three sessions a week
+    const distance = 2000 + Math.round(rand() * 20) * 100;
+    workouts.push({
+      id: newId(),
+      user_id: userId,
+      date: daysAgo(day),
+      distance_m: distance,
+      duration_min: Math.round(distance / 40 + rand() * 10),
+      stroke: strokes[Math.floor(rand() * strokes.length)],
+      rpe: 4 + Math.floor(rand() * 5),
+      notes: day % 14 === 1 ? "Threshold set" : "",
+      sets: null,
+    });
+  }
+
+  // Plan: the last three weeks and the next two, on the usual training days
+  const titles = ["Aerobic endurance", "Threshold 10×200", "Technique & kick", "Race pace"];
+  const plans: Plan[] = [];
+  for (let day = 21; day >= -14; day--) {
+    if (![1, 3, 5].includes(((day % 7) + 7) % 7)) continue;
+    const plan: Plan = {
+      id: newId(),
+      user_id: userId,
+      date: daysAgo(day),
+      title: titles[plans.length % titles.length],
+      distance_m: 3000,
+      duration_min: 75,
+      stroke: plans.length % 4 === 2 ? "IM" : "Free",
+      rpe: plans.length % 4 === 1 ? 8 : 5,
+      notes: "",
+    };
+    plans.push(plan);
+    const done = workouts.find((w) => w.date === plan.date);
+    if (done && day !== 8) done.plan_id = plan.id;
+  }
+
+  const meet = (date: string, name: string, location: string, swims: [Competition["stroke"], number, number][]) =>
+    swims.map(([stroke, distance_m, time_sec]): Competition => ({
+      id: newId(),
+      user_id: userId,
+      date,
+      meet: name,
+      course: "LCM",
+      stroke,
+      distance_m,
+      time_sec,
+      location,
+      notes: "",
+    }));
+  const competitions = [
+    ...meet(daysAgo(70), "Autumn Open", "City Pool", [["Free", 100, 62.48], ["Free", 200, 136.9], ["Back", 100, 71.35]]),
+    ...meet(daysAgo(28), "Club Championships", "City Pool", [["Free", 100, 61.72], ["Fly", 50, 30.12], ["IM", 200, 158.4]]),
+    ...meet(daysAgo(6), "Regional Qualifier", "Aquatic Centre", [["Free", 100, 61.95], ["Free", 200, 134.55], ["Back", 100, 70.8]]),
+  ];
+
+  const cssTests: CssTest[] = [
+    { id: newId(), user_id: userId, date: daysAgo(80), long_m: 400, long_sec: 600, short_m: 200, short_sec: 290, notes: "" },
+    { id: newId(), user_id: userId, date: daysAgo(30), long_m: 400, long_sec: 584, short_m: 200, short_sec: 284, notes: "After the build block" },
+  ];
+
+  const profile: Profile = {
+    id: userId,
+    full_name: "Demo Swimmer",
+    birth_date: `${new Date().getFullYear() - 15}-04-12`,
+    gender: "F",
+    club: "City Swim Club",
+    course: "LCM",
+    units: "m",
+    default_stroke: "Free",
+  };
+
+  return { workouts, competitions, plans, cssTests, profiles: [profile], versions: [] };
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_LOG_SORT, filterCount, matchesFilter, viewFromParams, viewToParams, type LogView } from "./filters";
+import type { Workout } from "./types";
+
+const session = (extra: Partial<Workout> = {}): Workout => ({
+  date: "2025-03-12", distance_m: 3000, duration_min: 60, stroke: "Free", rpe: 6, notes: "", ...extra,
+});
+
+describe("matchesFilter", () => {
+  it("matches everything with no conditions", () => {
+    expect(matchesFilter(session({ rpe: undefined }), {})).toBe(true);
+    expect(filterCount({})).toBe(0);
+  });
+
+  it("treats date and number ranges as inclusive", () => {
+    const f = { from: "2025-03-12", to: "2025-03-12", minDistance: 3000, maxDistance: 3000, minDuration: 60, maxDuration: 60, minRpe: 6, maxRpe: 6 };
+    expect(matchesFilter(session(), f)).toBe(true);
+    expect(matchesFilter(session({ date: "2025-03-11" }), f)).toBe(false);
+    expect(matchesFilter(session({ date: "2025-03-13" }), f)).toBe(false);
+    expect(matchesFilter(session({ distance_m: 3001 }), f)).toBe(false);
+    expect(matchesFilter(session({ duration_min: 59 }), f)).toBe(false);
+    expect(matchesFilter(session({ rpe: 7 }), f)).toBe(false);
+  });
+
+  it("fails an RPE bound when the session has no RPE, like the SQL comparison", () => {
+    expect(matchesFilter(session({ rpe: undefined }), { minRpe: 1 })).toBe(false);
+    expect(matchesFilter(session({ rpe: undefined }), { maxRpe: 10 })).toBe(false);
+  });
+
+  it("matches the main stroke and sessions with notes", () => {
+    expect(matchesFilter(session({ stroke: "Back" }), { strokes: ["Free", "Back"] })).toBe(true);
+    expect(matchesFilter(session({ stroke: "IM" }), { strokes: ["Free", "Back"] })).toBe(false);
+    expect(matchesFilter(session(), { hasNotes: true })).toBe(false);
+    expect(matchesFilter(session({ notes: "Drills" }), { hasNotes: true })).toBe(true);
+  });
+
+  it("counts each kind of condition once", () => {
+    expect(filterCount({ from: "2025-01-01", to: "2025-03-01", strokes: ["Fly"], minRpe: 3, maxRpe: 8, hasNotes: true })).toBe(4);
+  });
+});
+
+describe("URL parameters", () => {
+  it("round-trip a full view", () => {
+    const view: LogView = {
+      search: "kick",
+      filter: { from: "2025-01-01", to: "2025-03-31", strokes: ["Free", "Breast"], minDistance: 0, maxDistance: 5000, minDuration: 30, maxDuration: 90.5, minRpe: 4, maxRpe: 8, hasNotes: true },
+      sort: { column: "pace_per_100", dir: "asc" },
+    };
+    const params = viewToParams(view);
+    expect(params.toString()).toBe("q=kick&from=2025-01-01&to=2025-03-31&stroke=Free%2CBreast&dmin=0&dmax=5000&tmin=30&tmax=90.5&rmin=4&rmax=8&notes=1&sort=pace_per_100.asc");
+    expect(viewFromParams(new URLSearchParams(params.toString()))).toEqual(view);
+  });
+
+  it("leave out empty conditions and the default sort, and keep other parameters", () => {
+    const params = viewToParams(
+      { search: "  ", filter: { strokes: [] }, sort: DEFAULT_LOG_SORT },
+      new URLSearchParams("invite=abc&q=old&dmin=100")
+    );
+    expect(params.toString()).toBe("invite=abc");
+    expect(viewFromParams(params)).toEqual({ search: "", filter: {}, sort: DEFAULT_LOG_SORT });
+  });
+
+  it("ignore anything malformed", () => {
+    const view = viewFromParams(new URLSearchParams("from=3/1/2025&to=2025-03-31&stroke=Free,Crawl&dmin=abc&dmax=&rmax=7&notes=yes&sort=password.asc"));
+    expect(view).toEqual({ search: "", filter: { to: "2025-03-31", strokes: ["Free"], maxRpe: 7 }, sort: DEFAULT_LOG_SORT });
+    expect(viewFromParams(new URLSearchParams("sort=date.up")).sort).toEqual(DEFAULT_LOG_SORT);
+  });
+});
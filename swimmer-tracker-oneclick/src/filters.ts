@@ -0,0 +1,125 @@
+import { getMeta, setMeta } from "./localdb";
+import { STROKES } from "./sets";
+import type { Stroke, Workout } from "./types";
+
+/**
+ * Structured filters for the training log, and saved views.
+ * - A filter narrows the log table, the KPIs and the weekly chart alike; the
+ *   database applies it (supabaseRepository `page`), `matchesFilter` is the
+ *   same rule for rows in memory (demo, offline)
+ * - Stroke matches the session's main stroke (the Stroke column)
+ * - Ranges are inclusive; a session without an RPE fails any RPE bound, like
+ *   the SQL comparison
+ * - Distances are meters, whatever unit the log is shown in
+ * - The search, filter and sort of the log live in the URL, so a view can be
+ *   bookmarked; saved views are those URL parameters under a name, kept on
+ *   this device like the time standards
+ */
+
+export type LogFilter = {
+  from?: string;          // YYYY-MM-DD
+  to?: string;
+  strokes?: Stroke[];
+  minDistance?: number;   // meters
+  maxDistance?: number;
+  minDuration?: number;   // minutes
+  maxDuration?: number;
+  minRpe?: number;
+  maxRpe?: number;
+  hasNotes?: boolean;
+};
+
+export type LogSort = { column: string; dir: "asc" | "desc" };
+
+/** Everything that decides which sessions the log shows, and in what order. */
+export type LogView = { search: string; filter: LogFilter; sort: LogSort };
+
+export type SavedView = { name: string; params: string };
+
+export const LOG_SORT_COLUMNS = ["date", "stroke", "distance_m", "duration_min", "pace_per_100", "rpe", "notes"];
+export const DEFAULT_LOG_SORT: LogSort = { column: "date", dir: "desc" };
+
+/** How many conditions the filter sets (for the "Filters (3)" button). */
+export function filterCount(f: LogFilter) {
+  return [
+    f.from || f.to,
+    f.strokes?.length,
+    f.minDistance != null || f.maxDistance != null,
+    f.minDuration != null || f.maxDuration != null,
+    f.minRpe != null || f.maxRpe != null,
+    f.hasNotes,
+  ].filter(Boolean).length;
+}
+
+const within = (v: number | null | undefined, min?: number, max?: number) =>
+  (min == null && max == null) || (v != null && !Number.isNaN(Number(v)) && (min == null || Number(v) >= min) && (max == null || Number(v) <= max));
+
+export function matchesFilter(w: Workout, f: LogFilter) {
+  return (
+    (!f.from || w.date >= f.from) &&
+    (!f.to || w.date <= f.to) &&
+    (!f.strokes?.length || f.strokes.includes(w.stroke)) &&
+    within(w.distance_m, f.minDistance, f.maxDistance) &&
+    within(w.duration_min, f.minDuration, f.maxDuration) &&
+    within(w.rpe, f.minRpe, f.maxRpe) &&
+    (!f.hasNotes || !!w.notes)
+  );
+}
+
+// ---------- URL ----------
+type RangeKey = "minDistance" | "maxDistance" | "minDuration" | "maxDuration" | "minRpe" | "maxRpe";
+
+const NUMBER_PARAMS: [RangeKey, string][] = [
+  ["minDistance", "dmin"],
+  ["maxDistance", "dmax"],
+  ["minDuration", "tmin"],
+  ["maxDuration", "tmax"],
+  ["minRpe", "rmin"],
+  ["maxRpe", "rmax"],
+];
+const LOG_PARAMS = ["q", "from", "to", "stroke", "notes", "sort", ...NUMBER_PARAMS.map(([, p]) => p)];
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** The log's search, filter and sort from URL parameters; anything malformed is ignored. */
+export function viewFromParams(params: URLSearchParams): LogView {
+  const filter: LogFilter = {};
+  const from = params.get("from");
+  const to = params.get("to");
+  if (from && DATE.test(from)) filter.from = from;
+  if (to && DATE.test(to)) filter.to = to;
+  const strokes = (params.get("stroke") ?? "").split(",").filter((s): s is Stroke => STROKES.includes(s as Stroke));
+  if (strokes.length) filter.strokes = strokes;
+  for (const [key, param] of NUMBER_PARAMS) {
+    const raw = params.get(param);
+    if (raw !== null && raw !== "" && Number.isFinite(Number(raw))) filter[key] = Number(raw);
+  }
+  if (params.get("notes") === "1") filter.hasNotes = true;
+
+  const [column, dir] = (params.get("sort") ?? "").split(".");
+  const sort = LOG_SORT_COLUMNS.includes(column) && (dir === "asc" || dir === "desc") ? { column, dir } as LogSort : DEFAULT_LOG_SORT;
+  return { search: params.get("q") ?? "", filter, sort };
+}
+
+/** Sets the log's parameters on `params` (dropping empty ones), leaving others such as `invite` alone. */
+export function viewToParams(v: LogView, params = new URLSearchParams()) {
+  for (const p of LOG_PARAMS) params.delete(p);
+  const f = v.filter;
+  if (v.search.trim()) params.set("q", v.search.trim());
+  if (f.from) params.set("from", f.from);
+  if (f.to) params.set("to", f.to);
+  if (f.strokes?.length) params.set("stroke", f.strokes.join(","));
+  for (const [key, param] of NUMBER_PARAMS) if (f[key] != null) params.set(param, String(f[key]));
+  if (f.hasNotes) params.set("notes", "1");
+  if (v.sort.column !== DEFAULT_LOG_SORT.column || v.sort.dir !== DEFAULT_LOG_SORT.dir) params.set("sort", `${v.sort.column}.${v.sort.dir}`);
+  return params;
+}
+
+// ---------- Saved views (this device) ----------
+export async function loadSavedViews(): Promise<SavedView[]> {
+  return (await getMeta<SavedView[]>("log_views")) ?? [];
+}
+
+export async function saveSavedViews(views: SavedView[]) {
+  await setMeta("log_views", views);
+}
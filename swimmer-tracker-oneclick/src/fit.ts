@@ -0,0 +1,126 @@
+/**
+ * Minimal Garmin FIT decoder (the binary format watches record activities in).
+ * - Walks definition + data records, including compressed timestamp headers
+ *   and developer fields (skipped)
+ * - Scalar fields only, keyed by field number; invalid values are dropped
+ * - No CRC check: a damaged file fails on its structure instead
+ */
+
+export type FitMessage = { num: number; fields: Record<number, number | string> };
+
+type FieldDef = { num: number; size: number; type: number };
+type Definition = { num: number; little: boolean; fields: FieldDef[]; devSize: number };
+
+// Base type (low 5 bits) → size and invalid value
+const BASE: Record<number, { size: number; invalid?: number }> = {
+  0: { size: 1, invalid: 0xff },            // enum
+  1: { size: 1, invalid: 0x7f },            // sint8
+  2: { size: 1, invalid: 0xff },            // uint8
+  3: { size: 2, invalid: 0x7fff },          // sint16
+  4: { size: 2, invalid: 0xffff },          // uint16
+  5: { size: 4, invalid: 0x7fffffff },      // sint32
+  6: { size: 4, invalid: 0xffffffff },      // uint32
+  7: { size: 1 },                           // string
+  8: { size: 4 },                           // float32
+  9: { size: 8 },                           // float64
+  10: { size: 1, invalid: 0 },              // uint8z
+  11: { size: 2, invalid: 0 },              // uint16z
+  12: { size: 4, invalid: 0 },              // uint32z
+  13: { size: 1 },                          // byte
+};
+
+const TIMESTAMP_FIELD = 253;
+
+/** Seconds between the FIT epoch (1989-12-31) and the Unix epoch. */
+export const FIT_EPOCH = 631_065_600;
+
+export function fitDate(ts: number) {
+  return new Date((ts + FIT_EPOCH) * 1000);
+}
+
+export function decodeFit(buf: ArrayBuffer): FitMessage[] {
+  const view = new DataView(buf);
+  if (buf.byteLength < 12) throw new Error("Not a FIT file");
+  const headerSize = view.getUint8(0);
+  const dataSize = view.getUint32(4, true);
+  const magic = String.fromCharCode(...new Uint8Array(buf, 8, 4));
+  if (magic !== ".FIT") throw new Error("Not a FIT file");
+  const end = Math.min(headerSize + dataSize, buf.byteLength);
+
+  const defs = new Map<number, Definition>();
+  const out: FitMessage[] = [];
+  let lastTimestamp = 0;
+  let pos = headerSize;
+
+  const readField = (f: FieldDef, little: boolean): number | string | undefined => {
+    const type = f.type & 0x1f;
+    const base = BASE[type];
+    if (type === 7) {
+      const bytes = new Uint8Array(buf, pos, f.size);
+      const zero = bytes.indexOf(0);
+      return new TextDecoder().decode(bytes.subarray(0, zero < 0 ? f.size : zero)) || undefined;
+    }
+    if (!base || f.size !== base.size) return undefined; // arrays and 64-bit types aren't needed
+    let v: number;
+    switch (type) {
+      case 1: v = view.getInt8(pos); break;
+      case 3: v = view.getInt16(pos, little); break;
+      case 5: v = view.getInt32(pos, little); break;
+      case 4: case 11: v = view.getUint16(pos, little); break;
+      case 6: case 12: v = view.getUint32(pos, little); break;
+      case 8: v = view.getFloat32(pos, little); break;
+      case 9: v = view.getFloat64(pos, little); break;
+      default: v = view.getUint8(pos);
+    }
+    if (v === base.invalid || Number.isNaN(v)) return undefined;
+    return v;
+  };
+
+  while (pos < end) {
+    const header = view.getUint8(pos++);
+
+    if (header & 0x40 && !(header & 0x80)) {
+      // Definition message
+      const local = header & 0x0f;
+      const little = view.getUint8(pos + 1) === 0;
+      const num = view.getUint16(pos + 2, little);
+      const count = view.getUint8(pos + 4);
+      pos += 5;
+      const fields: FieldDef[] = [];
+      for (let i = 0; i < count; i++, pos += 3) {
+        fields.push({ num: view.getUint8(pos), size: view.getUint8(pos + 1), type: view.getUint8(pos + 2) });
+      }
+      let devSize = 0;
+      if (header & 0x20) {
+        const devCount = view.getUint8(pos++);
+        for (let i = 0; i < devCount; i++, pos += 3) devSize += view.getUint8(pos + 1);
+      }
+      defs.set(local, { num, little, fields, devSize });
+      continue;
+    }
+
+    // Data message, normal or with a compressed timestamp
+    const compressed = (header & 0x80) !== 0;
+    const local = compressed ? (header >> 5) & 0x03 : header & 0x0f;
+    const def = defs.get(local);
+    if (!def) throw new Error("Damaged FIT file: data before its definition");
+    const fields: Record<number, number | string> = {};
+    for (const f of def.fields) {
+      const v = readField(f, def.little);
+      if (v !== undefined) fields[f.num] = v;
+      pos += f.size;
+    }
+    pos += def.devSize;
+
+    if (compressed) {
+      const offset = header & 0x1f;
+      const low = lastTimestamp % 32;
+      lastTimestamp = lastTimestamp - low + offset + (offset >= low ? 0 : 32);
+      fields[TIMESTAMP_FIELD] = lastTimestamp;
+    } else if (typeof fields[TIMESTAMP_FIELD] === "number") {
+      lastTimestamp = fields[TIMESTAMP_FIELD] as number;
+    }
+    out.push({ num: def.num, fields });
+  }
+  return out;
+}
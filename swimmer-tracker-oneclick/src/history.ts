@@ -0,0 +1,85 @@
+import { strokeBreakdown } from "./sets";
+import type { Stroke, Workout } from "./types";
+import { pacePer100 } from "./utils";
+
+/**
+ * Full-history training totals, kept per week so they can be added up.
+ * - The device only caches the latest sessions; weeks before that window
+ *   come from the server (`weekly_totals` in supabase/schema.sql, same rules
+ *   as here) and are merged with weeks computed from the cache
+ * - Average pace is the mean of session paces, hence a sum and a count
+ */
+
+export type WeekTotals = {
+  week: string;            // Monday, YYYY-MM-DD
+  sessions: number;
+  distance_m: number;
+  pace_sum: number;        // sum of session paces (pacePer100)
+  pace_count: number;      // sessions with a pace
+  by_stroke: Partial<Record<Stroke, number>>;
+};
+
+export type HistoryTotals = {
+  totalDistance: number;
+  totalSessions: number;
+  avgPace100: number;
+  byStroke: Partial<Record<Stroke, number>>;
+};
+
+/** Monday of the date's week. */
+export function weekStart(date: string) {
+  const d = new Date(date + "T00:00:00Z");
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString().slice(0, 10);
+}
+
+function emptyWeek(week: string): WeekTotals {
+  return { week, sessions: 0, distance_m: 0, pace_sum: 0, pace_count: 0, by_stroke: {} };
+}
+
+function addStrokes(into: Partial<Record<Stroke, number>>, from: Partial<Record<Stroke, number>>) {
+  for (const [st, m] of Object.entries(from)) into[st as Stroke] = (into[st as Stroke] ?? 0) + Number(m);
+}
+
+export function weeklyTotals(workouts: Workout[]): WeekTotals[] {
+  const map = new Map<string, WeekTotals>();
+  for (const w of workouts) {
+    const key = weekStart(w.date);
+    const week = map.get(key) ?? emptyWeek(key);
+    week.sessions++;
+    week.distance_m += Number(w.distance_m) || 0;
+    const pace = pacePer100(Number(w.distance_m), Number(w.duration_min));
+    if (pace > 0) {
+      week.pace_sum += pace;
+      week.pace_count++;
+    }
+    addStrokes(week.by_stroke, strokeBreakdown(w));
+    map.set(key, week);
+  }
+  return Array.from(map.values()).sort((a, b) => a.week.localeCompare(b.week));
+}
+
+/** Add up week lists (e.g. server history + cached window); a week may appear in both. */
+export function mergeWeeks(...lists: WeekTotals[][]): WeekTotals[] {
+  const map = new Map<string, WeekTotals>();
+  for (const w of lists.flat()) {
+    const week = map.get(w.week) ?? emptyWeek(w.week);
+    week.sessions += Number(w.sessions);
+    week.distance_m += Number(w.distance_m);
+    week.pace_sum += Number(w.pace_sum);
+    week.pace_count += Number(w.pace_count);
+    addStrokes(week.by_stroke, w.by_stroke ?? {});
+    map.set(w.week, week);
+  }
+  return Array.from(map.values()).sort((a, b) => a.week.localeCompare(b.week));
+}
+
+export function summarize(weeks: WeekTotals[]): HistoryTotals {
+  const all = mergeWeeks(weeks.map((w) => ({ ...w, week: "" })))[0] ?? emptyWeek("");
+  return {
+    totalDistance: all.distance_m,
+    totalSessions: all.sessions,
+    avgPace100: all.pace_count ? all.pace_sum / all.pace_count : 0,
+    byStroke: all.by_stroke,
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { plansToICS } from "./ics";
+import type { Plan } from "./types";
+
+const NOW = new Date("2025-01-20T08:30:00.123Z");
+
+const plan = (extra: Partial<Plan> = {}): Plan => ({
+  id: "p1", date: "2025-01-31", title: "Threshold", distance_m: 4000, duration_min: 75, stroke: "Free", rpe: 7, notes: "", ...extra,
+});
+
+// Content lines with folding undone (RFC 5545 §3.1)
+const unfold = (ics: string) => ics.replace(/\r\n /g, "").split("\r\n");
+
+describe("plansToICS", () => {
+  it("writes one all-day event per plan, keyed by the plan id", () => {
+    const ics = plansToICS([plan({ updated_at: "2025-01-19T10:00:00Z" })], "Training", "m", NOW);
+    expect(ics.endsWith("\r\n")).toBe(true);
+    expect(unfold(ics)).toEqual([
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//Swimmer Tracker//Training plan//EN",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      "X-WR-CALNAME:Training",
+      "BEGIN:VEVENT",
+      "UID:p1@swimmer-tracker",
+      "DTSTAMP:20250120T083000Z",
+      "DTSTART;VALUE=DATE:20250131",
+      "DTEND;VALUE=DATE:20250201",
+      "SUMMARY:Threshold – 4\\,000 m · Free · 75 min · RPE 7",
+      "LAST-MODIFIED:20250119T100000Z",
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+      "END:VCALENDAR",
+      "",
+    ]);
+  });
+
+  it("escapes backslashes, semicolons, commas and line breaks", () => {
+    const ics = plansToICS([plan({ title: "", distance_m: null, stroke: null, duration_min: null, rpe: null, notes: "8x100; 1:30\\2:00\r\nthen easy, 200" })], "A;B", "m", NOW);
+    const lines = unfold(ics);
+    expect(lines).toContain("X-WR-CALNAME:A\\;B");
+    expect(lines).toContain("SUMMARY:Swim");
+    expect(lines).toContain("DESCRIPTION:8x100\\; 1:30\\\\2:00\\nthen easy\\, 200");
+  });
+
+  it("folds long lines at 75 octets, counting multi-byte characters", () => {
+    const notes = "Über-long set: " + "Rücken 50 · ".repeat(20);
+    const ics = plansToICS([plan({ notes })], "Training", "m", NOW);
+    const physical = ics.split("\r\n");
+    const bytes = (s: string) => new TextEncoder().encode(s).length;
+    expect(physical.every((l) => bytes(l) <= 75)).toBe(true);
+    expect(physical.filter((l) => l.startsWith(" ")).length).toBeGreaterThan(2);
+    expect(unfold(ics)).toContain(`DESCRIPTION:${notes}`);
+  });
+
+  it("shows target distances in yards when asked", () => {
+    expect(unfold(plansToICS([plan()], "Training", "yd", NOW))).toContain("SUMMARY:Threshold – 4\\,374 yd · Free · 75 min · RPE 7");
+  });
+});
@@ -0,0 +1,68 @@
+import { addDays, planSummary } from "./plans";
+import type { Unit } from "./units";
+import type { Plan } from "./types";
+
+/**
+ * iCalendar (RFC 5545) export of planned sessions
+ * - One all-day VEVENT per session; the UID is the plan id, so importing an
+ *   updated file again updates the events instead of duplicating them
+ * - Text is escaped (backslash, `;`, `,`, newlines) and lines are folded at 75 octets
+ */
+
+const encoder = new TextEncoder();
+
+function escapeText(s: string) {
+  return s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Continuation lines start with a space, which counts towards their 75 octets
+function fold(line: string) {
+  const out: string[] = [];
+  let cur = "";
+  let size = 0;
+  for (const ch of line) {
+    const n = encoder.encode(ch).length;
+    if (size + n > (out.length ? 74 : 75)) {
+      out.push(cur);
+      cur = "";
+      size = 0;
+    }
+    cur += ch;
+    size += n;
+  }
+  out.push(cur);
+  return out.join("\r\n ");
+}
+
+const icsDate = (date: string) => date.replaceAll("-", "");
+
+function icsStamp(d: Date) {
+  return d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+export function plansToICS(plans: Plan[], calendarName: string, unit: Unit = "m", now = new Date()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Swimmer Tracker//Training plan//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+  for (const p of plans) {
+    const targets = planSummary(p, unit);
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${p.id}@swimmer-tracker`,
+      `DTSTAMP:${icsStamp(now)}`,
+      `DTSTART;VALUE=DATE:${icsDate(p.date)}`,
+      `DTEND;VALUE=DATE:${icsDate(addDays(p.date, 1))}`,
+      `SUMMARY:${escapeText([p.title || "Swim", targets].filter(Boolean).join(" – "))}`
+    );
+    if (p.notes) lines.push(`DESCRIPTION:${escapeText(p.notes)}`);
+    if (p.updated_at) lines.push(`LAST-MODIFIED:${icsStamp(new Date(p.updated_at))}`);
+    lines.push("TRANSP:TRANSPARENT", "END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { competitionImport, parseDate, parseDuration, parseNumber, parseRaceTime, workoutImport } from "./importer";
+
+describe("parseDate", () => {
+  it("reads ISO dates and Excel serials", () => {
+    expect(parseDate("2024-3-5", "auto")).toEqual({ date: "2024-03-05" });
+    expect(parseDate("45356", "auto")).toEqual({ date: "2024-03-05" });
+  });
+
+  it("only guesses day and month when one of them is over 12", () => {
+    expect(parseDate("25/03/2024", "auto")).toEqual({ date: "2024-03-25" });
+    expect(parseDate("03/25/24", "auto")).toEqual({ date: "2024-03-25" });
+    expect(parseDate("05/03/2024", "auto").error).toMatch(/Ambiguous/);
+    expect(parseDate("05/03/2024", "mdy")).toEqual({ date: "2024-05-03" });
+  });
+
+  it("rejects impossible dates", () => {
+    expect(parseDate("2023-02-29", "auto").error).toMatch(/Invalid/);
+    expect(parseDate("", "auto").error).toBe("Missing date");
+  });
+});
+
+describe("parseNumber", () => {
+  it("understands thousands separators and decimal commas", () => {
+    expect(parseNumber("12,500")).toBe(12500);
+    expect(parseNumber("1.250.000")).toBe(1250000);
+    expect(parseNumber("1,5")).toBe(1.5);
+    expect(parseNumber("")).toBeNaN();
+  });
+});
+
+describe("parseDuration", () => {
+  it("reads minutes, h:mm, h:mm:ss and m:ss.xx", () => {
+    expect(parseDuration("75")).toBe(75);
+    expect(parseDuration("1:15")).toBe(75);
+    expect(parseDuration("1:15:30")).toBe(75.5);
+    expect(parseDuration("75:30.00")).toBe(75.5);
+    expect(parseDuration("soon")).toBeNaN();
+  });
+});
+
+describe("parseRaceTime", () => {
+  it("reads seconds, m:ss.xx and h:mm:ss.xx", () => {
+    expect(parseRaceTime("28.41")).toBe(28.41);
+    expect(parseRaceTime("1:02,5")).toBe(62.5);
+    expect(parseRaceTime("1:00:01.10")).toBe(3601.1);
+    expect(parseRaceTime("125.3")).toBe(125.3);
+  });
+
+  it("rounds spreadsheet times with more decimals to hundredths", () => {
+    expect(parseRaceTime("1:02.345")).toBe(62.35);
+    expect(parseRaceTime("31.456")).toBe(31.46);
+    expect(parseRaceTime("125.3049")).toBe(125.3);
+    expect(parseRaceTime("1:00:01.1049")).toBe(3601.1);
+  });
+
+  it("rejects malformed times", () => {
+    expect(parseRaceTime("1:75.00")).toBeNaN();
+    expect(parseRaceTime("fast")).toBeNaN();
+  });
+});
+
+describe("workoutImport", () => {
+  const opts = { dateFormat: "auto" as const };
+
+  it("converts yard sessions to meters and keeps the unit", () => {
+    const { row, errors } = workoutImport.convert({ date: "2024-03-05", distance_m: "2,000", unit: "yd", duration_min: "45", stroke: "free" }, opts);
+    expect(errors).toEqual([]);
+    expect(row).toMatchObject({ date: "2024-03-05", distance_m: 1829, unit: "yd", duration_min: 45, stroke: "Free" });
+  });
+
+  it("lists every problem of a row", () => {
+    const { row, errors } = workoutImport.convert({ date: "x", distance_m: "-1", stroke: "swim", rpe: "11" }, opts);
+    expect(row).toBeNull();
+    expect(errors).toHaveLength(4);
+  });
+});
+
+describe("competitionImport", () => {
+  it("reads course aliases and race times", () => {
+    const { row, errors } = competitionImport.convert(
+      { date: "2024-03-05", meet: "Spring Open", course: "yds", stroke: "fly", distance_m: "100", time_sec: "58.20" },
+      { dateFormat: "auto" }
+    );
+    expect(errors).toEqual([]);
+    expect(row).toMatchObject({ course: "SCY", stroke: "Fly", distance_m: 100, time_sec: 58.2 });
+  });
+});
@@ -0,0 +1,234 @@
+import { COURSES, type Course } from "./course";
+import { newId } from "./sync";
+import type { Competition, Workout } from "./types";
+import { parseUnit, toStored, type Unit } from "./units";
+import { parseStroke } from "./utils";
+
+/**
+ * Import schemas for the import wizard.
+ * - `fields` drive the column mapping (aliases are matched against headers)
+ * - `convert` turns one mapped row of strings into a typed row or errors;
+ *   nothing is coerced silently, a bad value is an error the user can fix
+ * - `dupKey` identifies rows that already exist (or repeat within the file)
+ * - `sheets` are sheet names a workbook tab is matched against
+ * - Session distances are in the row's unit column, else in `opts.unit`
+ */
+
+export type DateFormat = "auto" | "ymd" | "dmy" | "mdy";
+export type ImportOptions = { dateFormat: DateFormat; unit?: Unit };
+
+export type ImportField = { key: string; label: string; required?: boolean; aliases: string[] };
+
+export type RowResult<T> = { row: T | null; errors: string[] };
+
+export type ImportSchema<T> = {
+  title: string;
+  sheets: string[];
+  fields: ImportField[];
+  convert: (values: Record<string, string>, opts: ImportOptions) => RowResult<T>;
+  dupKey: (row: T) => string;
+};
+
+function norm(h: string) {
+  return h.trim().toLowerCase().replace(/[\s_\-()/.]+/g, "");
+}
+
+/** Field key → column index (-1 when no header matches). */
+export function guessMapping(header: string[], fields: ImportField[]): Record<string, number> {
+  const cols = header.map(norm);
+  const out: Record<string, number> = {};
+  for (const f of fields) out[f.key] = cols.findIndex((c) => [f.key, f.label, ...f.aliases].map(norm).includes(c));
+  return out;
+}
+
+// ---------- Value parsers ----------
+export function parseNumber(s: string): number {
+  const t = s.trim().replace(/\s/g, "");
+  if (!t) return NaN;
+  if (/^\d{1,3}(,\d{3})+$/.test(t)) return Number(t.replace(/,/g, "")); // 12,500
+  if (/^\d{1,3}(\.\d{3}){2,}$/.test(t)) return Number(t.replace(/\./g, "")); // 1.250.000
+  return Number(t.replace(",", ".")); // 1,5 → 1.5
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+function validDate(y: number, m: number, d: number) {
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  return dt.getUTCFullYear() === y && dt.getUTCMonth() === m - 1 && dt.getUTCDate() === d;
+}
+
+/** YYYY-MM-DD for an Excel date serial (days since 1899-12-30). */
+export function serialToDate(serial: number) {
+  return new Date(Date.UTC(1899, 11, 30) + Math.floor(serial) * 86_400_000).toISOString().slice(0, 10);
+}
+
+/** YYYY-MM-DD from ISO, D/M/Y-style strings or Excel serials; ambiguous day/month needs an explicit format. */
+export function parseDate(s: string, fmt: DateFormat): { date?: string; error?: string } {
+  const t = s.trim();
+  if (!t) return { error: "Missing date" };
+  if (/^\d{5}(\.\d+)?$/.test(t)) return { date: serialToDate(Number(t)) }; // unformatted spreadsheet date
+  let m = t.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T ].*)?$/);
+  if (m && (fmt === "auto" || fmt === "ymd")) {
+    const [y, mo, d] = [Number(m[1]), Number(m[2]), Number(m[3])];
+    return validDate(y, mo, d) ? { date: `${y}-${pad(mo)}-${pad(d)}` } : { error: `Invalid date "${s}"` };
+  }
+  m = t.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  if (!m) return { error: `Unrecognised date "${s}"` };
+  const a = Number(m[1]);
+  const b = Number(m[2]);
+  const y = m[3].length === 2 ? 2000 + Number(m[3]) : Number(m[3]);
+  let order = fmt;
+  if (order === "auto") {
+    if (a > 12 && b <= 12) order = "dmy";
+    else if (b > 12 && a <= 12) order = "mdy";
+    else if (a === b) order = "dmy";
+    else return { error: `Ambiguous date "${s}": choose a date format` };
+  }
+  if (order === "ymd") return { error: `"${s}" is not year-month-day` };
+  const [d, mo] = order === "dmy" ? [a, b] : [b, a];
+  return validDate(y, mo, d) ? { date: `${y}-${pad(mo)}-${pad(d)}` } : { error: `Invalid date "${s}"` };
+}
+
+/** Minutes from "75", "75.5", "1:15" (h:mm), "1:15:30" (h:mm:ss) or "75:00.00" (m:ss.xx). */
+export function parseDuration(s: string): number {
+  const t = s.trim();
+  if (!t) return NaN;
+  const parts = t.split(":");
+  if (parts.length === 1) return parseNumber(t);
+  if (parts.length === 2 && parts[1].includes(".")) {
+    const sec = parseRaceTime(t);
+    return isFinite(sec) ? Math.round((sec / 60) * 100) / 100 : NaN;
+  }
+  const [h, m, sec] = [Number(parts[0]), Number(parts[1]), Number(parts[2] ?? 0)];
+  if (parts.length > 3 || [h, m, sec].some((x) => !isFinite(x))) return NaN;
+  return Math.round((h * 60 + m + sec / 60) * 100) / 100;
+}
+
+/** Seconds from "SS.xx", "M:SS.xx" or "H:MM:SS.xx", to the hundredth (more decimals are rounded); NaN when malformed. */
+export function parseRaceTime(s: string): number {
+  const t = s.trim().replace(",", ".");
+  const m = t.match(/^(?:(?:(\d+):)?(\d{1,2}):)?(\d{1,2}(?:\.\d+)?)$/);
+  if (!m) return /^\d+(\.\d+)?$/.test(t) ? Math.round(Number(t) * 100) / 100 : NaN; // plain seconds, e.g. 125.3
+  const [h, min, sec] = [Number(m[1] ?? 0), Number(m[2] ?? 0), Number(m[3])];
+  if ((m[2] !== undefined && sec >= 60) || (m[1] !== undefined && min >= 60)) return NaN;
+  return Math.round((h * 3600 + min * 60 + sec) * 100) / 100;
+}
+
+function parseCourse(s: string): Course | null {
+  const c = s.trim().toUpperCase();
+  if ((COURSES as string[]).includes(c)) return c as Course;
+  if (["Y", "YD", "YDS", "YARDS"].includes(c)) return "SCY";
+  if (["S", "SC", "25M"].includes(c)) return "SCM";
+  if (["L", "LC", "50M"].includes(c)) return "LCM";
+  return null;
+}
+
+// ---------- Workouts ----------
+export const workoutImport: ImportSchema<Workout> = {
+  title: "Import sessions",
+  sheets: ["workouts", "sessions", "training", "log", "swims"],
+  fields: [
+    { key: "date", label: "Date", required: true, aliases: ["day", "session date"] },
+    { key: "distance_m", label: "Distance", required: true, aliases: ["distance", "meters", "metres", "yards", "dist"] },
+    { key: "unit", label: "Unit", aliases: ["units", "pool unit", "m/yd"] },
+    { key: "duration_min", label: "Duration (min)", aliases: ["duration", "time", "minutes", "mins"] },
+    { key: "stroke", label: "Stroke", aliases: ["style", "main stroke"] },
+    { key: "rpe", label: "RPE", aliases: ["effort", "rpe110"] },
+    { key: "notes", label: "Notes", aliases: ["note", "comment", "comments", "description", "main set"] },
+  ],
+  convert(v, opts) {
+    const errors: string[] = [];
+    const d = parseDate(v.date ?? "", opts.dateFormat);
+    if (d.error) errors.push(d.error);
+
+    const distance = parseNumber(v.distance_m ?? "");
+    if (!isFinite(distance) || distance < 0) errors.push(`Invalid distance "${v.distance_m ?? ""}"`);
+
+    // A blank unit cell means the default, an unknown one is an error
+    const unit = v.unit?.trim() ? parseUnit(v.unit) : opts.unit ?? "m";
+    if (!unit) errors.push(`Unknown unit "${v.unit}" (m or yd)`);
+
+    const duration = v.duration_min?.trim() ? parseDuration(v.duration_min) : 0;
+    if (!isFinite(duration) || duration < 0) errors.push(`Invalid duration "${v.duration_min}"`);
+
+    // An unmapped stroke column means "all Free"; a mapped but unknown value is an error
+    const stroke = v.stroke === undefined ? "Free" : parseStroke(v.stroke);
+    if (!stroke) errors.push(v.stroke?.trim() ? `Unknown stroke "${v.stroke}"` : "Missing stroke");
+
+    let rpe: number | undefined;
+    if (v.rpe?.trim()) {
+      rpe = parseNumber(v.rpe);
+      if (!Number.isInteger(rpe) || rpe < 1 || rpe > 10) errors.push(`RPE must be 1-10, got "${v.rpe}"`);
+    }
+
+    if (errors.length) return { row: null, errors };
+    return {
+      row: toStored({
+        id: newId(),
+        date: d.date!,
+        distance_m: Math.round(distance),
+        unit: unit!,
+        duration_min: duration,
+        stroke: stroke!,
+        rpe,
+        notes: v.notes?.trim() ?? "",
+      }),
+      errors,
+    };
+  },
+  dupKey: (r) => `${r.date}|${Number(r.distance_m)}|${Number(r.duration_min)}|${r.stroke}`,
+};
+
+// ---------- Competitions ----------
+export const competitionImport: ImportSchema<Competition> = {
+  title: "Import competition results",
+  sheets: ["competitions", "results", "races", "meets", "competition results"],
+  fields: [
+    { key: "date", label: "Date", required: true, aliases: ["race date", "meet date"] },
+    { key: "meet", label: "Meet", required: true, aliases: ["competition", "meet name", "event name"] },
+    { key: "course", label: "Course", aliases: ["pool", "pool length"] },
+    { key: "stroke", label: "Stroke", required: true, aliases: ["style"] },
+    { key: "distance_m", label: "Distance", required: true, aliases: ["distance", "dist", "meters", "metres"] },
+    { key: "time_sec", label: "Time", required: true, aliases: ["time", "final time", "result", "swim time"] },
+    { key: "location", label: "Location", aliases: ["venue", "city", "pool name"] },
+    { key: "notes", label: "Notes", aliases: ["note", "comment", "comments"] },
+  ],
+  convert(v, opts) {
+    const errors: string[] = [];
+    const d = parseDate(v.date ?? "", opts.dateFormat);
+    if (d.error) errors.push(d.error);
+
+    const meet = v.meet?.trim() ?? "";
+    if (!meet) errors.push("Missing meet");
+
+    // An unmapped course column means long course, as in the competition form
+    const course = v.course === undefined ? "LCM" : parseCourse(v.course);
+    if (!course) errors.push(v.course.trim() ? `Unknown course "${v.course}"` : "Missing course");
+
+    const stroke = parseStroke(v.stroke ?? "");
+    if (!stroke || stroke === "Drill") errors.push(v.stroke?.trim() ? `Unknown stroke "${v.stroke}"` : "Missing stroke");
+
+    const distance = parseNumber(v.distance_m ?? "");
+    if (!Number.isInteger(distance) || distance < 25) errors.push(`Invalid distance "${v.distance_m ?? ""}"`);
+
+    const time = parseRaceTime(v.time_sec ?? "");
+    if (!isFinite(time) || time <= 0) errors.push(v.time_sec?.trim() ? `Invalid time "${v.time_sec}"` : "Missing time");
+
+    if (errors.length) return { row: null, errors };
+    return {
+      row: {
+        id: newId(),
+        date: d.date!,
+        meet,
+        course: course!,
+        stroke: stroke as Competition["stroke"],
+        distance_m: distance,
+        time_sec: time,
+        location: v.location?.trim() ?? "",
+        notes: v.notes?.trim() ?? "",
+      },
+      errors,
+    };
+  },
+  dupKey: (r) => `${r.date}|${r.course}|${r.stroke}|${Number(r.distance_m)}|${Number(r.time_sec).toFixed(2)}`,
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { dailyLoads, loadWarnings, sessionLoad, weeklyLoads } from "./load";
+import type { Workout } from "./types";
+
+const session = (date: string, rpe: number | undefined, duration_min: number): Workout => ({ date, rpe, duration_min, distance_m: 2000, stroke: "Free" });
+
+// One session a day from 2024-01-01 (a Monday) on; `rpe(i)` for day i
+function days(n: number, rpe: (i: number) => number | undefined, minutes = 60) {
+  return Array.from({ length: n }, (_, i) => session(new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10), rpe(i), minutes));
+}
+
+describe("sessionLoad", () => {
+  it("is RPE × minutes, zero without an RPE", () => {
+    expect(sessionLoad(session("2024-01-01", 6, 60))).toBe(360);
+    expect(sessionLoad(session("2024-01-01", undefined, 60))).toBe(0);
+  });
+});
+
+describe("dailyLoads", () => {
+  it("has no ratio until 28 days of history, then acute over chronic per week", () => {
+    const steady = dailyLoads(days(28, () => 6), "2024-01-28");
+    expect(steady).toHaveLength(28);
+    expect(steady[26].acwr).toBeNull();
+    expect(steady[27]).toMatchObject({ load: 360, acute: 2520, chronic: 2520, acwr: 1 });
+  });
+
+  it("shows a spike when the last week doubles", () => {
+    const loads = dailyLoads(days(28, (i) => (i >= 21 ? 12 : 6)), "2024-01-28");
+    expect(loads[27]).toMatchObject({ acute: 5040, chronic: 3150, acwr: 1.6 });
+    const [warning] = loadWarnings(loads, weeklyLoads(loads), []);
+    expect(warning.level).toBe("danger");
+  });
+
+  it("fills rest days up to `until`", () => {
+    const loads = dailyLoads([session("2024-01-01", 5, 60)], "2024-01-03");
+    expect(loads.map((d) => d.load)).toEqual([300, 0, 0]);
+  });
+});
+
+describe("weeklyLoads", () => {
+  it("computes Foster's monotony and strain over Monday weeks, rest days included", () => {
+    const loads = dailyLoads([session("2024-01-01", 5, 20), session("2024-01-03", 5, 20), session("2024-01-05", 5, 20)], "2024-01-07");
+    expect(weeklyLoads(loads)).toEqual([{ weekStart: "2024-01-01", load: 300, monotony: 0.87, strain: 261 }]);
+  });
+
+  it("leaves monotony out for a week without variation", () => {
+    const loads = dailyLoads(days(7, () => 5), "2024-01-07");
+    expect(weeklyLoads(loads)[0].monotony).toBeNull();
+  });
+
+  it("warns about high monotony and sessions without RPE", () => {
+    const workouts = days(14, (i) => (i === 13 ? undefined : 6 + (i % 2)));
+    const loads = dailyLoads(workouts, "2024-01-14");
+    const messages = loadWarnings(loads, weeklyLoads(loads), workouts).map((w) => w.message);
+    expect(messages.some((m) => m.startsWith("High monotony"))).toBe(true);
+    expect(messages.some((m) => m.startsWith("1 session(s)"))).toBe(true);
+  });
+});
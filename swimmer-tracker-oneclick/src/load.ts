@@ -0,0 +1,132 @@
+import type { Workout } from "./types";
+
+/**
+ * Training load (session-RPE method)
+ * - Session load = RPE × minutes (arbitrary units, AU)
+ * - Acute = last 7 days, chronic = last 28 days expressed per week
+ * - ACWR = acute / chronic; the 0.8–1.3 band is the usual "sweet spot"
+ * - Foster's monotony = mean / SD of the 7 daily loads of a week
+ *   (rest days count as 0), strain = weekly load × monotony
+ */
+
+export const ACWR_CAUTION = 1.3;
+export const ACWR_DANGER = 1.5;
+export const ACWR_LOW = 0.8;
+export const MONOTONY_HIGH = 2;
+
+const DAY_MS = 86_400_000;
+
+export type LoadDay = {
+  date: string;
+  load: number;
+  acute: number;          // 7-day sum
+  chronic: number;        // 28-day sum / 4
+  acwr: number | null;    // null until 28 days of history
+};
+
+export type WeekLoad = {
+  weekStart: string;      // Monday
+  load: number;
+  monotony: number | null;
+  strain: number | null;
+};
+
+export type LoadWarning = { level: "danger" | "caution" | "info"; message: string };
+
+export function sessionLoad(w: Workout) {
+  const rpe = Number(w.rpe) || 0;
+  const min = Number(w.duration_min) || 0;
+  return rpe * min;
+}
+
+function toDay(date: string) {
+  return Date.parse(date + "T00:00:00Z");
+}
+
+function fromDay(ms: number) {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function round(n: number, digits = 2) {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
+
+/** One entry per calendar day from the first session up to `until` (inclusive). */
+export function dailyLoads(workouts: Workout[], until = new Date().toISOString().slice(0, 10)): LoadDay[] {
+  if (!workouts.length) return [];
+  const byDay = new Map<string, number>();
+  let first = until;
+  for (const w of workouts) {
+    byDay.set(w.date, (byDay.get(w.date) ?? 0) + sessionLoad(w));
+    if (w.date < first) first = w.date;
+  }
+  const start = toDay(first);
+  const end = Math.max(toDay(until), start);
+  const loads: number[] = [];
+  const out: LoadDay[] = [];
+  let acute = 0;
+  let chronic = 0;
+  for (let t = start, i = 0; t <= end; t += DAY_MS, i++) {
+    const date = fromDay(t);
+    const load = byDay.get(date) ?? 0;
+    loads.push(load);
+    acute += load - (i >= 7 ? loads[i - 7] : 0);
+    chronic += load - (i >= 28 ? loads[i - 28] : 0);
+    const chronicWeekly = chronic / 4;
+    out.push({
+      date,
+      load,
+      acute: round(acute, 0),
+      chronic: round(chronicWeekly, 0),
+      acwr: i >= 27 && chronicWeekly > 0 ? round(acute / chronicWeekly) : null,
+    });
+  }
+  return out;
+}
+
+/** Monday-based weeks with Foster's monotony and strain. */
+export function weeklyLoads(days: LoadDay[]): WeekLoad[] {
+  const weeks = new Map<string, number[]>();
+  for (const d of days) {
+    const t = toDay(d.date);
+    const dow = (new Date(t).getUTCDay() + 6) % 7; // Mon=0
+    const key = fromDay(t - dow * DAY_MS);
+    const arr = weeks.get(key) ?? [0, 0, 0, 0, 0, 0, 0];
+    arr[dow] = d.load;
+    weeks.set(key, arr);
+  }
+  return Array.from(weeks.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([weekStart, arr]) => {
+      const load = arr.reduce((s, x) => s + x, 0);
+      const mean = load / 7;
+      const sd = Math.sqrt(arr.reduce((s, x) => s + (x - mean) ** 2, 0) / 7);
+      const monotony = load > 0 && sd > 0 ? round(mean / sd) : null;
+      return { weekStart, load, monotony, strain: monotony !== null ? round(load * monotony, 0) : null };
+    });
+}
+
+export function loadWarnings(days: LoadDay[], weeks: WeekLoad[], workouts: Workout[]): LoadWarning[] {
+  const out: LoadWarning[] = [];
+  const today = days[days.length - 1];
+  if (today?.acwr != null) {
+    if (today.acwr > ACWR_DANGER) {
+      out.push({ level: "danger", message: `Load spike: acute:chronic ratio ${today.acwr} is above ${ACWR_DANGER}. Consider easing off.` });
+    } else if (today.acwr > ACWR_CAUTION) {
+      out.push({ level: "caution", message: `Acute:chronic ratio ${today.acwr} is above ${ACWR_CAUTION}. Build load gradually.` });
+    } else if (today.acwr < ACWR_LOW) {
+      out.push({ level: "info", message: `Acute:chronic ratio ${today.acwr} is below ${ACWR_LOW}: lighter than usual (taper or time off?).` });
+    }
+  }
+  const week = weeks[weeks.length - 1];
+  if (week?.monotony != null && week.monotony > MONOTONY_HIGH) {
+    out.push({ level: "caution", message: `High monotony this week (${week.monotony}). Vary hard and easy days.` });
+  }
+  if (today) {
+    const since = fromDay(toDay(today.date) - 27 * DAY_MS);
+    const missing = workouts.filter((w) => w.date >= since && w.date <= today.date && !(Number(w.rpe) > 0)).length;
+    if (missing) out.push({ level: "info", message: `${missing} session(s) in the last 28 days have no RPE and count as zero load.` });
+  }
+  return out;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { weeklyTotals } from "./history";
+import { createLocalRepository, queryRows } from "./localRepository";
+import type { Workout } from "./types";
+
+const OWNER = "00000000-0000-4000-8000-000000000001";
+
+const workout = (id: string, date: string, distance_m: number, duration_min: number, extra: Partial<Workout> = {}): Workout => ({
+  id, user_id: OWNER, date, distance_m, duration_min, stroke: "Free", notes: "", ...extra,
+});
+
+describe("queryRows", () => {
+  const rows = [
+    workout("a", "2024-01-01", 3000, 60, { notes: "Threshold set" }),   // 2:00 /100
+    workout("b", "2024-01-02", 2000, 30, { rpe: 7 }),                   // 1:30 /100
+    workout("c", "2024-01-03", 1000, 0),                                // no pace
+  ];
+
+  it("sorts by pace per 100 (minutes), sessions without a pace last", () => {
+    const page = (dir: "asc" | "desc") => queryRows("workouts", rows, { sort: "pace_per_100", dir, offset: 0, limit: 10 }).rows.map((r) => r.id);
+    expect(page("asc")).toEqual(["b", "a", "c"]);
+    expect(page("desc")).toEqual(["a", "b", "c"]);
+  });
+
+  it("searches word prefixes and applies the filter before paging", () => {
+    expect(queryRows("workouts", rows, { search: "thresh", sort: "date", dir: "desc", offset: 0, limit: 10 }).rows.map((r) => r.id)).toEqual(["a"]);
+    const page = queryRows("workouts", rows, { filter: { minDistance: 1500 }, sort: "date", dir: "desc", offset: 1, limit: 1 });
+    expect(page).toMatchObject({ total: 2, rows: [{ id: "a" }] });
+  });
+});
+
+describe("weeklyTotals", () => {
+  it("sums session paces in minutes per 100 m", () => {
+    const [week] = weeklyTotals([workout("a", "2024-01-01", 3000, 60), workout("b", "2024-01-02", 2000, 30)]);
+    expect(week).toMatchObject({ week: "2024-01-01", sessions: 2, distance_m: 5000, pace_sum: 3.5, pace_count: 2 });
+  });
+});
+
+describe("createLocalRepository", () => {
+  it("stamps updated_at and keeps the previous version on an edit", async () => {
+    const repo = createLocalRepository();
+    const [first] = await repo.upsert("workouts", [workout("a", "2024-01-01", 3000, 60)]);
+    const [second] = await repo.upsert("workouts", [{ ...first, distance_m: 3200 }]);
+    expect(second.updated_at! > first.updated_at!).toBe(true);
+    const versions = await repo.versions("workouts", "a");
+    expect(versions.map((v) => v.row.distance_m)).toEqual([3000]);
+  });
+
+  it("refuses a second session from the same watch activity", async () => {
+    const repo = createLocalRepository();
+    await repo.upsert("workouts", [workout("a", "2024-01-01", 3000, 60, { source_id: "watch:1" })]);
+    await expect(repo.upsert("workouts", [workout("b", "2024-01-01", 3000, 60, { source_id: "watch:1" })])).rejects.toMatchObject({ code: "23505" });
+  });
+
+  it("lists live rows and the trash separately", async () => {
+    const repo = createLocalRepository();
+    await repo.upsert("workouts", [workout("a", "2024-01-01", 3000, 60), workout("b", "2024-01-02", 2000, 40, { deleted_at: "2024-01-03T00:00:00Z" })]);
+    expect((await repo.list("workouts", OWNER)).map((r) => r.id)).toEqual(["a"]);
+    expect((await repo.list("workouts", OWNER, { trashed: true })).map((r) => r.id)).toEqual(["b"]);
+  });
+});
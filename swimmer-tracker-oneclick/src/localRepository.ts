@@ -0,0 +1,286 @@
+import { matchesFilter } from "./filters";
+import { weeklyTotals } from "./history";
+import { computePBs } from "./pbs";
+import type { Page, PageQuery, Profile, RepoError, Repository, TableName, Tables } from "./repository";
+import type { CssTest, Plan, Workout } from "./types";
+import { pacePer100 } from "./utils";
+
+/**
+ * Repository backed by plain in-memory tables, for demo mode and tests.
+ * - Mirrors what the database does for the client: `updated_at` set on every
+ *   write, PBs computed like the `personal_bests` view, one row per imported
+ *   activity (`source_id`) per user, word-prefix search like the full-text index,
+ *   the previous version kept on every edit like the `row_versions` trigger
+ * - Rows are copied in and out, so callers can't mutate the "server" copy
+ * - `load` / `save` optionally persist the tables (e.g. to IndexedDB)
+ */
+
+type StoredVersion = { table: TableName; row_id: string; data: any; changed_at: string };
+
+export type LocalSnapshot = { [T in TableName]: Tables[T][] } & {
+  plans: Plan[];
+  cssTests: CssTest[];
+  profiles: Profile[];
+  versions: StoredVersion[];
+};
+
+export type LocalRepositoryOptions = {
+  load?: () => Promise<LocalSnapshot | undefined>;
+  save?: (snapshot: LocalSnapshot) => Promise<void>;
+};
+
+type Keyed = { id?: string; user_id?: string; source_id?: string | null; deleted_at?: string | null };
+
+const copy = <T>(v: T): T => structuredClone(v);
+
+const live = (r: Keyed) => !r.deleted_at;
+
+// What counts as an edit: anything but the timestamps (trashing and restoring are not edits)
+function content(row: any) {
+  const { updated_at: _u, deleted_at: _d, ...rest } = row;
+  return JSON.stringify(
+    Object.keys(rest)
+      .filter((k) => rest[k] != null)
+      .sort()
+      .map((k) => [k, rest[k]])
+  );
+}
+
+function fail(message: string, code: string): never {
+  const error: RepoError = { message, code };
+  throw error;
+}
+
+export function emptySnapshot(): LocalSnapshot {
+  return { workouts: [], competitions: [], plans: [], cssTests: [], profiles: [], versions: [] };
+}
+
+// ---------- Search & paging ----------
+// Same text as the `search(...)` computed fields in supabase/schema.sql
+const SEARCH_FIELDS: { [T in TableName]: (keyof Tables[T])[] } = {
+  workouts: ["stroke", "notes"],
+  competitions: ["meet", "location", "stroke", "course", "notes"],
+};
+
+/** Lower-case words of a search box; each one must start a word of the row. */
+export function searchTerms(search = "") {
+  return search.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function sortValue(row: any, column: string): string | number | null {
+  if (column === "pace_per_100") return pacePer100(Number(row.distance_m), Number(row.duration_min)) || null;
+  return row[column] ?? null;
+}
+
+/** What `Repository.page` returns, over rows in memory (also the offline fallback in sync.ts). */
+export function queryRows<T extends TableName>(table: T, rows: Tables[T][], q: PageQuery): Page<Tables[T]> {
+  const terms = searchTerms(q.search);
+  const filter = table === "workouts" ? q.filter : undefined;
+  const matches = rows.filter((r) => {
+    if (filter && !matchesFilter(r as Workout, filter)) return false;
+    if (!terms.length) return true;
+    const words = searchTerms(SEARCH_FIELDS[table].map((f) => String(r[f] ?? "")).join(" "));
+    return terms.every((t) => words.some((w) => w.startsWith(t)));
+  });
+  const sign = q.dir === "asc" ? 1 : -1;
+  const sorted = [...matches].sort((a, b) => {
+    const x = sortValue(a, q.sort);
+    const y = sortValue(b, q.sort);
+    if (x !== y) {
+      if (x === null) return 1; // nulls last either way, like the server query
+      if (y === null) return -1;
+      return sign * (typeof x === "number" && typeof y === "number" ? x - y : String(x).localeCompare(String(y)));
+    }
+    return b.date.localeCompare(a.date) || String(a.id).localeCompare(String(b.id));
+  });
+  return { rows: sorted.slice(q.offset, q.offset + q.limit), total: matches.length };
+}
+
+// Column defaults of the profiles table
+function withDefaults(p: Profile): Profile {
+  return { course: "LCM", units: "m", default_stroke: "Free", ...p };
+}
+
+export function createLocalRepository(opts: LocalRepositoryOptions = {}): Repository {
+  let data: Promise<LocalSnapshot> | null = null;
+  let lastStamp = 0;
+
+  const tables = () =>
+    (data ??= (opts.load?.() ?? Promise.resolve(undefined)).then((s) => ({ ...emptySnapshot(), ...s })));
+  const persist = async () => opts.save?.(await tables());
+
+  // Strictly increasing, so two writes in the same millisecond still differ (conflict checks rely on it)
+  const stamp = () => {
+    lastStamp = Math.max(Date.now(), lastStamp + 1);
+    return new Date(lastStamp).toISOString();
+  };
+
+  const byDateDesc = (a: { date: string }, b: { date: string }) => b.date.localeCompare(a.date);
+
+  return {
+    kind: "local",
+
+    async list(table, owner, { limit, offset = 0, since, until, where, trashed } = {}) {
+      const rows = (await tables())[table]
+        .filter((r) => r.user_id === owner && (trashed ? !live(r) : live(r)))
+        .filter((r) => (!since || r.date >= since) && (!until || r.date <= until))
+        .filter((r) => !where || Object.entries(where).every(([k, v]) => (r as any)[k] === v))
+        .sort((a, b) => byDateDesc(a, b) || String(a.id).localeCompare(String(b.id)));
+      return copy(limit ? rows.slice(offset, offset + limit) : rows.slice(offset)) as Tables[typeof table][];
+    },
+
+    async page(table, owner, q) {
+      const rows = (await tables())[table].filter((r) => r.user_id === owner && live(r)) as Tables[typeof table][];
+      return copy(queryRows(table, rows, q));
+    },
+
+    async get(table, id) {
+      const row = (await tables())[table].find((r) => r.id === id);
+      return row ? (copy(row) as Tables[typeof table]) : null;
+    },
+
+    async upsert(table, rows) {
+      const s = await tables();
+      const all = s[table] as Tables[typeof table][];
+      const stored = rows.map((r) => {
+        if (!r.id || !r.user_id) fail(`${table} rows need an id and a user_id`, "23502");
+        return { ...copy(r), updated_at: stamp() };
+      });
+      if (table === "workouts") {
+        const workouts: Keyed[] = all;
+        for (const r of stored as Keyed[]) {
+          if (!r.source_id) continue;
+          const clash = workouts.some((x) => x.source_id === r.source_id && x.user_id === r.user_id && x.id !== r.id);
+          if (clash) fail('duplicate key value violates unique constraint "workouts_user_source"', "23505");
+        }
+      }
+      const now = new Date().toISOString();
+      for (const r of stored) {
+        const i = all.findIndex((x) => x.id === r.id);
+        if (i < 0) {
+          all.push(r);
+          continue;
+        }
+        if (content(all[i]) !== content(r)) s.versions.push({ table, row_id: r.id!, data: all[i], changed_at: now });
+        all[i] = r;
+      }
+      await persist();
+      return copy(stored);
+    },
+
+    async remove(table, id) {
+      const s = await tables();
+      const rows: { id?: string }[] = s[table];
+      const i = rows.findIndex((r) => r.id === id);
+      if (i >= 0) rows.splice(i, 1);
+      s.versions = s.versions.filter((v) => !(v.table === table && v.row_id === id));
+      await persist();
+    },
+
+    async removeAll(table, owner) {
+      const s = await tables();
+      const rows: Keyed[] = s[table];
+      const gone = new Set(rows.filter((r) => r.user_id === owner).map((r) => r.id));
+      for (let i = rows.length - 1; i >= 0; i--) if (gone.has(rows[i].id)) rows.splice(i, 1);
+      s.versions = s.versions.filter((v) => !(v.table === table && gone.has(v.row_id)));
+      await persist();
+    },
+
+    async versions(table, id) {
+      return copy(
+        (await tables()).versions
+          .filter((v) => v.table === table && v.row_id === id)
+          .reverse()
+          .map((v) => ({ row: v.data, changed_at: v.changed_at }))
+      );
+    },
+
+    async personalBests(owner) {
+      return computePBs((await tables()).competitions.filter((c) => c.user_id === owner && live(c)));
+    },
+
+    async weeklyTotals(owner, before) {
+      return weeklyTotals((await tables()).workouts.filter((w) => w.user_id === owner && live(w) && (!before || w.date < before)));
+    },
+
+    async existingSources(owner, sourceIds) {
+      const wanted = new Set(sourceIds);
+      return (await tables()).workouts
+        .filter((w) => w.user_id === owner && w.source_id && wanted.has(w.source_id))
+        .map((w) => w.source_id!);
+    },
+
+    async plans(owner, range) {
+      return copy(
+        (await tables()).plans
+          .filter((p) => p.user_id === owner && (!range || (p.date >= range.from && p.date <= range.to)))
+          .sort((a, b) => a.date.localeCompare(b.date))
+      );
+    },
+
+    async savePlan(plan) {
+      if (!plan.id || !plan.user_id) fail("plans need an id and a user_id", "23502");
+      const s = await tables();
+      const stored = { ...copy(plan), created_by: plan.created_by ?? plan.user_id, updated_at: stamp() };
+      s.plans = [...s.plans.filter((p) => p.id !== plan.id), stored];
+      await persist();
+      return copy(stored);
+    },
+
+    async removePlan(id) {
+      const s = await tables();
+      s.plans = s.plans.filter((p) => p.id !== id);
+      // on delete set null, like the foreign key
+      for (const w of s.workouts) if (w.plan_id === id) w.plan_id = null;
+      await persist();
+    },
+
+    async cssTests(owner) {
+      return copy((await tables()).cssTests.filter((t) => t.user_id === owner).sort((a, b) => a.date.localeCompare(b.date)));
+    },
+
+    async saveCssTest(test) {
+      if (!test.id || !test.user_id) fail("CSS tests need an id and a user_id", "23502");
+      if (!(test.long_m > test.short_m && test.long_sec > test.short_sec)) fail('new row for relation "css_tests" violates check constraint "css_tests_check"', "23514");
+      const s = await tables();
+      const stored = { ...copy(test), updated_at: stamp() };
+      s.cssTests = [...s.cssTests.filter((t) => t.id !== test.id), stored];
+      await persist();
+      return copy(stored);
+    },
+
+    async removeCssTest(id) {
+      const s = await tables();
+      s.cssTests = s.cssTests.filter((t) => t.id !== id);
+      await persist();
+    },
+
+    async profiles(ids) {
+      return (await tables()).profiles.filter((p) => ids.includes(p.id)).map((p) => ({ id: p.id, full_name: p.full_name }));
+    },
+
+    async profile(id) {
+      const found = (await tables()).profiles.find((p) => p.id === id);
+      return found ? copy(found) : null;
+    },
+
+    async ensureProfile(id) {
+      const s = await tables();
+      let found = s.profiles.find((p) => p.id === id);
+      if (!found) {
+        found = { ...withDefaults({ id, full_name: null }), updated_at: stamp() };
+        s.profiles.push(found);
+        await persist();
+      }
+      return copy(found);
+    },
+
+    async saveProfile(profile) {
+      const s = await tables();
+      const stored = { ...withDefaults(copy(profile)), updated_at: stamp() };
+      s.profiles = [...s.profiles.filter((p) => p.id !== profile.id), stored];
+      await persist();
+      return copy(stored);
+    },
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Minimal promise wrapper around IndexedDB.
+ * - Row stores are keyed by `id` (client-generated UUIDs)
+ * - `outbox` holds queued writes in insertion order
+ * - `meta` is a plain key/value store (cached PBs, conflicts, last sync)
+ *
+ * Adding a store: append it to STORES and bump DB_VERSION.
+ */
+
+const DB_NAME = "swimmer-tracker";
+const DB_VERSION = 1;
+
+export type RowStore = "workouts" | "competitions";
+export type StoreName = RowStore | "outbox" | "meta";
+
+const STORES: { name: StoreName; keyPath?: string; autoIncrement?: boolean }[] = [
+  { name: "workouts", keyPath: "id" },
+  { name: "competitions", keyPath: "id" },
+  { name: "outbox", keyPath: "seq", autoIncrement: true },
+  { name: "meta" },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        for (const s of STORES) {
+          if (!db.objectStoreNames.contains(s.name)) {
+            db.createObjectStore(s.name, s.keyPath ? { keyPath: s.keyPath, autoIncrement: s.autoIncrement } : undefined);
+          }
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function getAll<T>(store: StoreName): Promise<T[]> {
+  const db = await openDB();
+  return request(db.transaction(store).objectStore(store).getAll()) as Promise<T[]>;
+}
+
+export async function putMany(store: StoreName, rows: any[]) {
+  if (!rows.length) return;
+  const db = await openDB();
+  const tx = db.transaction(store, "readwrite");
+  const os = tx.objectStore(store);
+  for (const r of rows) os.put(r);
+  await done(tx);
+}
+
+export async function remove(store: StoreName, key: IDBValidKey) {
+  const db = await openDB();
+  const tx = db.transaction(store, "readwrite");
+  tx.objectStore(store).delete(key);
+  await done(tx);
+}
+
+/** Swap the full contents of a store in one transaction. */
+export async function replaceAll(store: StoreName, rows: any[]) {
+  const db = await openDB();
+  const tx = db.transaction(store, "readwrite");
+  const os = tx.objectStore(store);
+  os.clear();
+  for (const r of rows) os.put(r);
+  await done(tx);
+}
+
+export async function clearAll() {
+  const db = await openDB();
+  const tx = db.transaction(STORES.map((s) => s.name), "readwrite");
+  for (const s of STORES) tx.objectStore(s.name).clear();
+  await done(tx);
+}
+
+export async function getMeta<T>(key: string): Promise<T | undefined> {
+  const db = await openDB();
+  return request(db.transaction("meta").objectStore("meta").get(key)) as Promise<T | undefined>;
+}
+
+export async function setMeta(key: string, value: unknown) {
+  const db = await openDB();
+  const tx = db.transaction("meta", "readwrite");
+  tx.objectStore("meta").put(value, key);
+  await done(tx);
+}
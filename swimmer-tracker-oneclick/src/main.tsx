@@ -1,10 +1,21 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
+import SharedPage from './SharedPage'
 import './index.css'
 
+// Share links (/?share=TOKEN) open a public read-only page, without sign-in
+const shareToken = new URLSearchParams(window.location.search).get('share')
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    {shareToken ? <SharedPage token={shareToken} /> : <App />}
   </React.StrictMode>,
 )
+
+// App-shell caching for offline use / Home Screen install (production builds only)
+if ("serviceWorker" in navigator && import.meta.env.PROD) {
+  window.addEventListener("load", () => {
+    void navigator.serviceWorker.register("/sw.js");
+  });
+}
@@ -0,0 +1,114 @@
+import { COURSES, courseLabel, courseUnit } from "./course";
+import type { PB } from "./types";
+import { secToTime } from "./utils";
+
+/**
+ * PB card: the PB table as a portrait PNG (1080 × 1350, the usual size for
+ * social posts), drawn on a canvas in the browser.
+ * - Grouped by course, strokes in the usual order, shortest distance first
+ * - Events that don't fit are summed up as "+N more events"
+ */
+
+export type PBCard = {
+  name: string;
+  club?: string | null;
+  subtitle?: string;       // e.g. the season of a share link
+  pbs: Pick<PB, "course" | "stroke" | "distance_m" | "time_sec" | "date">[];
+};
+
+const WIDTH = 1080;
+const HEIGHT = 1350;
+const PAD = 72;
+const ROW = 54;
+const GROUP = 76;
+const BOTTOM = HEIGHT - 110;
+const STROKE_ORDER = ["Free", "Back", "Breast", "Fly", "IM"];
+const FONT = "system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif";
+
+function sorted(pbs: PBCard["pbs"]) {
+  return [...pbs].sort(
+    (a, b) =>
+      COURSES.indexOf(a.course) - COURSES.indexOf(b.course) ||
+      STROKE_ORDER.indexOf(a.stroke) - STROKE_ORDER.indexOf(b.stroke) ||
+      Number(a.distance_m) - Number(b.distance_m)
+  );
+}
+
+export function drawPBCard(canvas: HTMLCanvasElement, card: PBCard) {
+  canvas.width = WIDTH;
+  canvas.height = HEIGHT;
+  const ctx = canvas.getContext("2d")!;
+  const bg = ctx.createLinearGradient(0, 0, WIDTH, HEIGHT);
+  bg.addColorStop(0, "#0f172a");
+  bg.addColorStop(1, "#1e3a8a");
+  ctx.fillStyle = bg;
+  ctx.fillRect(0, 0, WIDTH, HEIGHT);
+
+  ctx.textBaseline = "alphabetic";
+  ctx.fillStyle = "#93c5fd";
+  ctx.font = `600 30px ${FONT}`;
+  ctx.fillText("PERSONAL BESTS", PAD, PAD + 30);
+  ctx.fillStyle = "#ffffff";
+  ctx.font = `700 64px ${FONT}`;
+  ctx.fillText(card.name || "Swimmer", PAD, PAD + 110, WIDTH - 2 * PAD);
+  const sub = [card.club, card.subtitle].filter(Boolean).join(" · ");
+  ctx.fillStyle = "#cbd5e1";
+  ctx.font = `400 32px ${FONT}`;
+  if (sub) ctx.fillText(sub, PAD, PAD + 160, WIDTH - 2 * PAD);
+
+  let y = PAD + 230;
+  let course: string | null = null;
+  const rows = sorted(card.pbs);
+  let shown = 0;
+  for (const p of rows) {
+    const header = p.course !== course;
+    if (y + (header ? GROUP : 0) + ROW > BOTTOM) break;
+    if (header) {
+      course = p.course;
+      ctx.fillStyle = "#93c5fd";
+      ctx.font = `600 28px ${FONT}`;
+      ctx.fillText(`${courseLabel(p.course)} (${p.course})`.toUpperCase(), PAD, y + 40);
+      ctx.fillStyle = "rgba(147, 197, 253, 0.4)";
+      ctx.fillRect(PAD, y + 56, WIDTH - 2 * PAD, 2);
+      y += GROUP;
+    }
+    ctx.fillStyle = "#ffffff";
+    ctx.font = `500 36px ${FONT}`;
+    ctx.textAlign = "left";
+    ctx.fillText(`${p.distance_m} ${courseUnit(p.course)} ${p.stroke}`, PAD, y + 38);
+    ctx.fillStyle = "#94a3b8";
+    ctx.font = `400 26px ${FONT}`;
+    ctx.textAlign = "right";
+    ctx.fillText(p.date, WIDTH - PAD - 230, y + 38);
+    ctx.fillStyle = "#ffffff";
+    ctx.font = `700 38px ${FONT}`;
+    ctx.fillText(secToTime(Number(p.time_sec)), WIDTH - PAD, y + 38);
+    ctx.textAlign = "left";
+    y += ROW;
+    shown++;
+  }
+  ctx.fillStyle = "#cbd5e1";
+  ctx.font = `400 28px ${FONT}`;
+  if (!rows.length) ctx.fillText("No results yet.", PAD, y + 38);
+  if (shown < rows.length) ctx.fillText(`+${rows.length - shown} more events`, PAD, y + 38);
+
+  ctx.fillStyle = "#64748b";
+  ctx.font = `400 24px ${FONT}`;
+  ctx.fillText(`Swimmer Tracker · ${new Date().toISOString().slice(0, 10)}`, PAD, HEIGHT - PAD + 20);
+}
+
+/** Draws the card and downloads it as a PNG. */
+export async function downloadPBCard(card: PBCard) {
+  const canvas = document.createElement("canvas");
+  drawPBCard(canvas, card);
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+  if (!blob) throw new Error("Could not create the image");
+  const url = URL.createObjectURL(blob);
+  const el = document.createElement("a");
+  el.href = url;
+  el.download = `pb-card-${(card.name || "swimmer").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")}.png`;
+  document.body.appendChild(el);
+  el.click();
+  el.remove();
+  URL.revokeObjectURL(url);
+}
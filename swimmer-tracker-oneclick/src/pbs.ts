@@ -0,0 +1,32 @@
+import type { Competition, PB } from "./types";
+
+/**
+ * Client-side equivalent of the `personal_bests` view: the fastest swim per
+ * course/stroke/distance, ties broken by the earliest date. Used while offline.
+ */
+export function computePBs(comps: Competition[]): PB[] {
+  const best = new Map<string, Competition>();
+  for (const c of comps) {
+    const key = `${c.user_id ?? ""}|${c.course}|${c.stroke}|${c.distance_m}`;
+    const cur = best.get(key);
+    const t = Number(c.time_sec);
+    if (!cur || t < Number(cur.time_sec) || (t === Number(cur.time_sec) && c.date < cur.date)) best.set(key, c);
+  }
+  return Array.from(best.values())
+    .map((c) => ({
+      user_id: c.user_id ?? "",
+      course: c.course,
+      stroke: c.stroke,
+      distance_m: c.distance_m,
+      time_sec: Number(c.time_sec),
+      date: c.date,
+      meet: c.meet,
+    }))
+    .sort(
+      (a, b) =>
+        a.user_id.localeCompare(b.user_id) ||
+        a.course.localeCompare(b.course) ||
+        a.stroke.localeCompare(b.stroke) ||
+        a.distance_m - b.distance_m
+    );
+}
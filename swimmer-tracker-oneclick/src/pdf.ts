@@ -0,0 +1,98 @@
+/**
+ * Minimal PDF writer (PDF 1.4), enough for printable reports; no library.
+ * - A4 portrait pages, coordinates in points from the top-left corner
+ * - Text in the built-in Helvetica / Helvetica-Bold (WinAnsi): characters
+ *   outside Latin-1 are mapped to their WinAnsi code (– — ’ …) or "?"
+ * - Filled rectangles and lines for tables and bar charts
+ * - Content streams are left uncompressed; a few pages stay small anyway
+ */
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+export type TextStyle = { size?: number; bold?: boolean; color?: string };
+
+// WinAnsi codes for the non-Latin-1 characters we are likely to print
+const WIN_ANSI: Record<string, number> = {
+  "–": 0x96, "—": 0x97, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94,
+  "•": 0x95, "…": 0x85, "€": 0x80, "−": 0x2d,
+};
+
+function encode(text: string) {
+  let out = "";
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    const byte = code < 256 ? code : WIN_ANSI[ch] ?? 0x3f;
+    const c = String.fromCharCode(byte);
+    out += c === "(" || c === ")" || c === "\\" ? "\\" + c : c;
+  }
+  return out;
+}
+
+/** "#1d4ed8" → "0.114 0.306 0.847" */
+function rgb(hex: string) {
+  const n = parseInt(hex.replace("#", ""), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255].map((v) => (v / 255).toFixed(3)).join(" ");
+}
+
+const num = (n: number) => String(Math.round(n * 100) / 100);
+
+export function createPdf() {
+  const pages: string[][] = [];
+  let ops: string[] = [];
+
+  const api = {
+    addPage() {
+      ops = [];
+      pages.push(ops);
+    },
+    text(x: number, y: number, text: string, style: TextStyle = {}) {
+      const size = style.size ?? 10;
+      ops.push(
+        `${rgb(style.color ?? "#111827")} rg BT /${style.bold ? "F2" : "F1"} ${size} Tf ${num(x)} ${num(PAGE_HEIGHT - y)} Td (${encode(text)}) Tj ET`
+      );
+    },
+    rect(x: number, y: number, w: number, h: number, color: string) {
+      ops.push(`${rgb(color)} rg ${num(x)} ${num(PAGE_HEIGHT - y - h)} ${num(w)} ${num(h)} re f`);
+    },
+    line(x1: number, y1: number, x2: number, y2: number, color = "#d1d5db", width = 0.5) {
+      ops.push(`${rgb(color)} RG ${num(width)} w ${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`);
+    },
+    /** The document as a PDF file. */
+    toBlob(): Blob {
+      const objects: string[] = [];
+      const add = (body: string) => objects.push(body);
+      add("<< /Type /Catalog /Pages 2 0 R >>");
+      const kids = pages.map((_, i) => `${5 + i * 2} 0 R`).join(" ");
+      add(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>`);
+      add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+      add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+      pages.forEach((content, i) => {
+        const stream = content.join("\n");
+        add(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+            `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`
+        );
+        add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+      });
+      // Every character is one byte, so string lengths are byte offsets
+      let file = "%PDF-1.4\n%âãÏÓ\n";
+      const offsets = objects.map((body, i) => {
+        const at = file.length;
+        file += `${i + 1} 0 obj\n${body}\nendobj\n`;
+        return at;
+      });
+      const xref = file.length;
+      file += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      file += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+      file += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+      const bytes = new Uint8Array(file.length);
+      for (let i = 0; i < file.length; i++) bytes[i] = file.charCodeAt(i);
+      return new Blob([bytes], { type: "application/pdf" });
+    },
+  };
+  api.addPage();
+  return api;
+}
+
+export type Pdf = ReturnType<typeof createPdf>;
@@ -0,0 +1,82 @@
+import { weekStart } from "./history";
+import type { Plan, Workout } from "./types";
+import { formatDistance, type Unit } from "./units";
+
+/**
+ * Training plan helpers for the calendar
+ * - A planned session is done when a workout in the log links to it (`plan_id`)
+ * - Compliance for a week = done / planned, counting only sessions that are
+ *   due (dated today or earlier), so the current week isn't marked down early
+ * - Weeks start on Monday, like the weekly chart
+ * - Target distances are stored in meters and shown in the user's unit
+ */
+
+export const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+export const emptyPlan: Plan = { date: "", title: "", distance_m: null, duration_min: null, stroke: "Free", rpe: null, notes: "" };
+
+export function addDays(date: string, n: number) {
+  const d = new Date(date + "T00:00:00Z");
+  d.setUTCDate(d.getUTCDate() + n);
+  return d.toISOString().slice(0, 10);
+}
+
+export function addMonths(date: string, n: number) {
+  const d = new Date(date.slice(0, 7) + "-01T00:00:00Z");
+  d.setUTCMonth(d.getUTCMonth() + n);
+  return d.toISOString().slice(0, 10);
+}
+
+export function weekDates(date: string) {
+  const monday = weekStart(date);
+  return WEEKDAYS.map((_, i) => addDays(monday, i));
+}
+
+/** Monday-first weeks covering the month of `date`: 4 to 6 rows of 7 dates. */
+export function monthGrid(date: string): string[][] {
+  const first = date.slice(0, 7) + "-01";
+  const last = addDays(addMonths(first, 1), -1);
+  const weeks: string[][] = [];
+  for (let monday = weekStart(first); monday <= last; monday = addDays(monday, 7)) weeks.push(weekDates(monday));
+  return weeks;
+}
+
+export type Compliance = { planned: number; due: number; done: number; pct: number | null };
+
+export function compliance(plans: Plan[], done: Set<string>, today: string): Compliance {
+  const due = plans.filter((p) => p.date <= today);
+  const finished = due.filter((p) => done.has(p.id!)).length;
+  return {
+    planned: plans.length,
+    due: due.length,
+    done: finished,
+    pct: due.length ? Math.round((finished / due.length) * 100) : null,
+  };
+}
+
+/** Targets in one line, e.g. "4,000 m · Free · 75 min · RPE 6". */
+export function planSummary(p: Plan, unit: Unit = "m") {
+  return [
+    p.distance_m ? formatDistance(p.distance_m, unit) : "",
+    p.stroke ?? "",
+    p.duration_min ? `${p.duration_min} min` : "",
+    p.rpe ? `RPE ${p.rpe}` : "",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/** The workout logged for a planned session, pre-filled with its targets. */
+export function planToWorkout(p: Plan, unit: Unit = "m"): Workout {
+  return {
+    date: p.date,
+    distance_m: p.distance_m ?? 0,
+    unit,
+    duration_min: p.duration_min ?? 0,
+    stroke: p.stroke ?? "Free",
+    rpe: p.rpe ?? undefined,
+    notes: [p.title, p.notes].filter(Boolean).join(" – "),
+    sets: null,
+    plan_id: p.id,
+  };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { baseResults, DEFAULT_EXPONENT, fitExponent, predict, predictions, type BaseResult } from "./predictor";
+import type { Competition, PB } from "./types";
+
+const base = (distance_m: number, time_sec: number): BaseResult => ({ distance_m, time_sec, date: "2024-05-01", meet: "Meet", old: false });
+
+const swim = (date: string, distance_m: number, time_sec: number, stroke: Competition["stroke"] = "Free"): Competition => ({
+  date, meet: `Meet ${date}`, course: "LCM", stroke, distance_m, time_sec,
+});
+
+describe("predict", () => {
+  it("applies Riegel's formula with the default exponent to a single result", () => {
+    const p = predict([base(100, 60)], 200);
+    expect(p.fitted).toBe(false);
+    expect(p.exponent).toBe(DEFAULT_EXPONENT);
+    expect(p.time_sec).toBeCloseTo(60 * 2 ** DEFAULT_EXPONENT, 2);
+    expect(p.low).toBeLessThan(p.time_sec);
+    expect(p.high).toBeGreaterThan(p.time_sec);
+  });
+
+  it("fits the athlete's own exponent from several distances", () => {
+    const k = 1.06;
+    const basis = [base(50, 28), base(100, 28 * 2 ** k), base(200, 28 * 4 ** k)];
+    expect(fitExponent(basis)!.k).toBeCloseTo(k, 6);
+    const p = predict(basis, 400);
+    expect(p).toMatchObject({ fitted: true, exponent: k });
+    expect(p.time_sec).toBeCloseTo(28 * 8 ** k, 1);
+    // A perfect fit still gets the minimum spread (about ±2%)
+    expect(p.high / p.time_sec).toBeGreaterThan(1.015);
+  });
+
+  it("falls back to the default exponent from the closest distance when the fit is implausible", () => {
+    const p = predict([base(100, 60), base(200, 150)], 400);
+    expect(p.fitted).toBe(false);
+    expect(p.basis).toEqual([base(200, 150)]);
+    expect(p.time_sec).toBeCloseTo(150 * 2 ** DEFAULT_EXPONENT, 2);
+  });
+});
+
+describe("baseResults", () => {
+  it("takes the best recent swim per distance and older PBs for the rest", () => {
+    const comps = [swim("2024-05-01", 100, 61), swim("2024-06-01", 100, 60.5), swim("2022-01-01", 200, 125), swim("2024-06-01", 100, 70, "Back")];
+    const pbs: PB[] = [{ user_id: "u", course: "LCM", stroke: "Free", distance_m: 200, time_sec: 125, date: "2022-01-01", meet: "Old" }];
+    expect(baseResults(comps, pbs, "LCM", "Free", "2023-07-01")).toEqual([
+      { distance_m: 100, time_sec: 60.5, date: "2024-06-01", meet: "Meet 2024-06-01", old: false },
+      { distance_m: 200, time_sec: 125, date: "2022-01-01", meet: "Old", old: true },
+    ]);
+  });
+});
+
+describe("predictions", () => {
+  it("predicts the course's events not swum in the last 12 months", () => {
+    const out = predictions([swim("2024-05-01", 100, 60), swim("2024-05-02", 200, 130)], [], "LCM", "2024-07-01");
+    expect(out.map((p) => p.distance_m)).toEqual([50, 400, 800, 1500]);
+    expect(out.every((p) => p.stroke === "Free" && p.fitted)).toBe(true);
+  });
+});
@@ -0,0 +1,136 @@
+import { courseEvents, type Course } from "./course";
+import type { Competition, PB } from "./types";
+
+/**
+ * Race time predictor (Riegel-style)
+ * - time = a · distance^k, where k is the fatigue exponent (time grows a bit
+ *   faster than distance). k is fitted per course and stroke on the athlete's
+ *   own results: least squares on log time against log distance
+ * - Base results: the best swim per distance of the last 12 months; a distance
+ *   not swum in that time counts with its PB (which is older)
+ * - With a single distance, or a fitted k outside 1.00–1.25, the default k is
+ *   applied to the closest base result instead
+ * - Range: an 80% interval from the fit's scatter, wider the further the
+ *   event is from the base distances, and never narrower than about ±2%
+ * - Predicted are the events of the course not swum in the last 12 months
+ */
+
+export const RECENT_MONTHS = 12;
+export const DEFAULT_EXPONENT = 1.08;
+const EXPONENT_RANGE: [number, number] = [1, 1.25];
+const MIN_SPREAD = 0.015;        // log time, ≈ 1.5%
+const EXPONENT_SPREAD = 0.03;    // how far the default k may be off
+const Z80 = 1.28;
+
+type Stroke = Competition["stroke"];
+const STROKES: Stroke[] = ["Free", "Back", "Breast", "Fly", "IM"];
+
+export type BaseResult = {
+  distance_m: number;
+  time_sec: number;
+  date: string;
+  meet: string;
+  old: boolean;           // a PB from before the last 12 months
+};
+
+export type Prediction = {
+  course: Course;
+  stroke: Stroke;
+  distance_m: number;
+  time_sec: number;
+  low: number;
+  high: number;
+  exponent: number;
+  fitted: boolean;        // k from the athlete's results rather than the default
+  basis: BaseResult[];    // the results the prediction rests on
+  pb: PB | null;          // the event's PB, if it was ever swum
+};
+
+type Fit = { k: number; lnA: number; s: number; n: number; mean: number; sxx: number };
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function recentSince(today: string) {
+  const d = new Date(today + "T00:00:00Z");
+  d.setUTCMonth(d.getUTCMonth() - RECENT_MONTHS);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Best swim per distance since `since`, plus PBs of distances not swum since; shortest first. */
+export function baseResults(comps: Competition[], pbs: PB[], course: Course, stroke: Stroke, since: string): BaseResult[] {
+  const best = new Map<number, BaseResult>();
+  for (const c of comps) {
+    if (c.course !== course || c.stroke !== stroke || c.date < since) continue;
+    const cur = best.get(Number(c.distance_m));
+    const t = Number(c.time_sec);
+    if (!cur || t < cur.time_sec || (t === cur.time_sec && c.date < cur.date))
+      best.set(Number(c.distance_m), { distance_m: Number(c.distance_m), time_sec: t, date: c.date, meet: c.meet, old: false });
+  }
+  for (const p of pbs) {
+    if (p.course !== course || p.stroke !== stroke || best.has(Number(p.distance_m))) continue;
+    best.set(Number(p.distance_m), { distance_m: Number(p.distance_m), time_sec: Number(p.time_sec), date: p.date, meet: p.meet, old: true });
+  }
+  return Array.from(best.values()).sort((a, b) => a.distance_m - b.distance_m);
+}
+
+/** Least-squares fit of log time on log distance; null with fewer than two distances. */
+export function fitExponent(basis: BaseResult[]): Fit | null {
+  const n = basis.length;
+  if (n < 2) return null;
+  const xs = basis.map((b) => Math.log(b.distance_m));
+  const ys = basis.map((b) => Math.log(b.time_sec));
+  const mean = xs.reduce((a, b) => a + b, 0) / n;
+  const my = ys.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  xs.forEach((x, i) => {
+    sxy += (x - mean) * (ys[i] - my);
+    sxx += (x - mean) ** 2;
+  });
+  const k = sxy / sxx;
+  const lnA = my - k * mean;
+  const sse = xs.reduce((sum, x, i) => sum + (ys[i] - lnA - k * x) ** 2, 0);
+  return { k, lnA, s: n > 2 ? Math.sqrt(sse / (n - 2)) : 0, n, mean, sxx };
+}
+
+export function predict(basis: BaseResult[], distance_m: number) {
+  const x = Math.log(distance_m);
+  const fit = fitExponent(basis);
+  if (fit && fit.k >= EXPONENT_RANGE[0] && fit.k <= EXPONENT_RANGE[1]) {
+    const spread = Math.max(fit.s, MIN_SPREAD) * Math.sqrt(1 + 1 / fit.n + (x - fit.mean) ** 2 / fit.sxx);
+    return range(Math.exp(fit.lnA + fit.k * x), spread, fit.k, true, basis);
+  }
+  // Riegel's formula from the closest distance
+  const anchor = basis.reduce((a, b) => (Math.abs(Math.log(b.distance_m) - x) < Math.abs(Math.log(a.distance_m) - x) ? b : a));
+  const ratio = Math.log(distance_m / anchor.distance_m);
+  const spread = Math.hypot(MIN_SPREAD, EXPONENT_SPREAD * ratio);
+  return range(anchor.time_sec * Math.exp(DEFAULT_EXPONENT * ratio), spread, DEFAULT_EXPONENT, false, [anchor]);
+}
+
+function range(time: number, spread: number, exponent: number, fitted: boolean, basis: BaseResult[]) {
+  return {
+    time_sec: round2(time),
+    low: round2(time * Math.exp(-Z80 * spread)),
+    high: round2(time * Math.exp(Z80 * spread)),
+    exponent: Math.round(exponent * 1000) / 1000,
+    fitted,
+    basis,
+  };
+}
+
+/** Predictions for every event of the course not swum in the last 12 months, for strokes with results. */
+export function predictions(comps: Competition[], pbs: PB[], course: Course, today: string): Prediction[] {
+  const since = recentSince(today);
+  const out: Prediction[] = [];
+  for (const stroke of STROKES) {
+    const basis = baseResults(comps, pbs, course, stroke, since);
+    if (!basis.length) continue;
+    const recent = new Set(basis.filter((b) => !b.old).map((b) => b.distance_m));
+    for (const distance_m of courseEvents(course, stroke)) {
+      if (recent.has(distance_m)) continue;
+      const pb = pbs.find((p) => p.course === course && p.stroke === stroke && Number(p.distance_m) === distance_m) ?? null;
+      out.push({ course, stroke, distance_m, pb, ...predict(basis, distance_m) });
+    }
+  }
+  return out;
+}
@@ -0,0 +1,42 @@
+import type { Profile } from "./repository";
+import type { Athlete } from "./standards";
+
+/**
+ * Athlete profile helpers
+ * - Age is counted on a given day (usually the meet date), in whole years
+ * - Age groups are the usual two-year bands, open-ended at 10 & under and 19 & over
+ * - For standards, gender and age come from the profile when it has them,
+ *   otherwise from what was entered on the Standards screen
+ */
+
+export const AGE_GROUPS: { label: string; min: number | null; max: number | null }[] = [
+  { label: "10 & under", min: null, max: 10 },
+  { label: "11–12", min: 11, max: 12 },
+  { label: "13–14", min: 13, max: 14 },
+  { label: "15–16", min: 15, max: 16 },
+  { label: "17–18", min: 17, max: 18 },
+  { label: "19 & over", min: 19, max: null },
+];
+
+/** Age in whole years on `date` (both YYYY-MM-DD). */
+export function ageOn(birth_date: string, date: string) {
+  const years = Number(date.slice(0, 4)) - Number(birth_date.slice(0, 4));
+  return date.slice(5) < birth_date.slice(5) ? years - 1 : years;
+}
+
+export function ageGroup(age: number) {
+  return AGE_GROUPS.find((g) => (g.min === null || age >= g.min) && (g.max === null || age <= g.max))!.label;
+}
+
+/** The athlete to check standards for on `date`. */
+export function athleteOn(profile: Profile | null, fallback: Athlete, date: string): Athlete {
+  return {
+    gender: profile?.gender ?? fallback.gender,
+    age: profile?.birth_date ? ageOn(profile.birth_date, date) : fallback.age,
+  };
+}
+
+/** What to call the user on their own screens: their name, else the sign-in email (never shown to others). */
+export function displayName(profile: Profile | null, email?: string) {
+  return profile?.full_name?.trim() || email || "";
+}
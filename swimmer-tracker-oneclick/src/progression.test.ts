@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { eventName, progression, sameEvent, seasonDates, seasonOf, seasons, trendLine } from "./progression";
+import type { Competition } from "./types";
+
+const swim = (date: string, time_sec: number, meet = `Meet ${date}`): Competition => ({
+  date, meet, course: "LCM", stroke: "Free", distance_m: 100, time_sec,
+});
+
+describe("progression", () => {
+  it("marks a swim as a PB when it beats every earlier one, only the fastest of a day", () => {
+    const points = progression([swim("2024-03-02", 61.5), swim("2024-01-10", 62), swim("2024-03-02", 60.8), swim("2024-05-01", 61)]);
+    expect(points.map((p) => [p.date, p.time_sec, p.pb])).toEqual([
+      ["2024-01-10", 62, true],
+      ["2024-03-02", 60.8, true],
+      ["2024-03-02", 61.5, false],
+      ["2024-05-01", 61, false],
+    ]);
+  });
+});
+
+describe("trendLine", () => {
+  it("needs swims on two different days", () => {
+    expect(trendLine(progression([swim("2024-03-02", 61), swim("2024-03-02", 60)]))).toBeNull();
+  });
+
+  it("fits time against date, in seconds per year", () => {
+    // One second faster every 365.25 days
+    const points = progression([swim("2022-01-01", 64), swim("2023-01-01", 63), swim("2024-01-01", 62)]);
+    const trend = trendLine(points)!;
+    expect(trend.perYear).toBeCloseTo(-1, 1);
+    expect(trend.at(points[1].t)).toBeCloseTo(63, 1);
+  });
+});
+
+describe("seasons", () => {
+  it("runs September to August", () => {
+    expect(seasonOf("2024-08-31")).toBe("2023/24");
+    expect(seasonOf("2024-09-01")).toBe("2024/25");
+    expect(seasonOf("2099-10-01")).toBe("2099/00");
+    expect(seasonDates("2024/25")).toEqual({ from: "2024-09-01", to: "2025-08-31" });
+  });
+
+  it("compares each season's best with the one before, positive = faster", () => {
+    const points = progression([swim("2023-10-01", 64), swim("2024-02-01", 62.5), swim("2024-10-01", 61.25), swim("2025-09-15", 62)]);
+    expect(seasons(points)).toEqual([
+      { season: "2023/24", swims: 2, best: 62.5, change: null, pct: null },
+      { season: "2024/25", swims: 1, best: 61.25, change: 1.25, pct: 2 },
+      { season: "2025/26", swims: 1, best: 62, change: -0.75, pct: -1.2 },
+    ]);
+  });
+});
+
+describe("events", () => {
+  it("match on course, stroke and distance, and read as one name", () => {
+    expect(sameEvent({ course: "SCY", stroke: "Fly", distance_m: 200 }, { course: "SCY", stroke: "Fly", distance_m: "200" as unknown as number })).toBe(true);
+    expect(sameEvent({ course: "SCY", stroke: "Fly", distance_m: 200 }, { course: "SCM", stroke: "Fly", distance_m: 200 })).toBe(false);
+    expect(eventName({ course: "SCY", stroke: "Fly", distance_m: 200 })).toBe("200 y Fly (SCY)");
+  });
+});
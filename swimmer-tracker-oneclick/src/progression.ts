@@ -0,0 +1,109 @@
+import { courseUnit } from "./course";
+import type { Competition, PB } from "./types";
+
+/**
+ * Progression of one event (course + stroke + distance) over time
+ * - A swim is a PB point when it beats every earlier swim of the event; on a
+ *   day with several swims (heats, finals) only the fastest can be one
+ * - Trend: least-squares line of time against date, once there are swims on
+ *   two different days
+ * - Seasons run September to August ("2024/25"); improvement compares a
+ *   season's best with the previous season's best, so positive = faster
+ */
+
+export const SEASON_START_MONTH = 9;
+
+const DAY_MS = 86_400_000;
+
+export type SwimEvent = Pick<PB, "course" | "stroke" | "distance_m">;
+
+export type ProgressPoint = {
+  id?: string;
+  date: string;
+  t: number;              // date as epoch ms, for a time-scaled axis
+  time_sec: number;
+  meet: string;
+  pb: boolean;
+};
+
+export type Trend = { perYear: number; at: (t: number) => number };
+
+export type SeasonSummary = {
+  season: string;
+  swims: number;
+  best: number;
+  change: number | null;  // seconds faster than the previous season's best
+  pct: number | null;
+};
+
+export function sameEvent(a: SwimEvent, b: SwimEvent) {
+  return a.course === b.course && a.stroke === b.stroke && Number(a.distance_m) === Number(b.distance_m);
+}
+
+/** e.g. "100 m Free (LCM)". */
+export function eventName(e: SwimEvent) {
+  return `${e.distance_m} ${courseUnit(e.course)} ${e.stroke} (${e.course})`;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Swims oldest first, PBs marked. */
+export function progression(swims: Competition[]): ProgressPoint[] {
+  const sorted = [...swims].sort((a, b) => a.date.localeCompare(b.date) || Number(a.time_sec) - Number(b.time_sec));
+  let best = Infinity;
+  return sorted.map((c) => {
+    const time_sec = Number(c.time_sec);
+    const pb = time_sec < best;
+    if (pb) best = time_sec;
+    return { id: c.id, date: c.date, t: Date.parse(c.date + "T00:00:00Z"), time_sec, meet: c.meet, pb };
+  });
+}
+
+export function trendLine(points: ProgressPoint[]): Trend | null {
+  if (new Set(points.map((p) => p.date)).size < 2) return null;
+  const xs = points.map((p) => p.t / DAY_MS);
+  const mx = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const my = points.reduce((a, p) => a + p.time_sec, 0) / points.length;
+  let sxy = 0;
+  let sxx = 0;
+  xs.forEach((x, i) => {
+    sxy += (x - mx) * (points[i].time_sec - my);
+    sxx += (x - mx) ** 2;
+  });
+  const slope = sxy / sxx;
+  return { perYear: round2(slope * 365.25), at: (t) => round2(my + slope * (t / DAY_MS - mx)) };
+}
+
+export function seasonOf(date: string) {
+  const year = Number(date.slice(0, 4));
+  const start = Number(date.slice(5, 7)) >= SEASON_START_MONTH ? year : year - 1;
+  return `${start}/${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+/** First and last day of a season such as "2024/25". */
+export function seasonDates(season: string) {
+  const start = Number(season.slice(0, 4));
+  const month = String(SEASON_START_MONTH).padStart(2, "0");
+  const end = new Date(Date.UTC(start + 1, SEASON_START_MONTH - 1, 0));
+  return { from: `${start}-${month}-01`, to: end.toISOString().slice(0, 10) };
+}
+
+/** Best time per season, oldest first, with the change against the season before. */
+export function seasons(points: ProgressPoint[]): SeasonSummary[] {
+  const by = new Map<string, ProgressPoint[]>();
+  for (const p of points) {
+    const s = seasonOf(p.date);
+    by.set(s, [...(by.get(s) ?? []), p]);
+  }
+  let prev: number | null = null;
+  return Array.from(by.keys())
+    .sort()
+    .map((season) => {
+      const swims = by.get(season)!;
+      const best = Math.min(...swims.map((p) => p.time_sec));
+      const change = prev == null ? null : round2(prev - best);
+      const pct = prev == null ? null : Math.round(((prev - best) / prev) * 1000) / 10;
+      prev = best;
+      return { season, swims: swims.length, best, change, pct };
+    });
+}
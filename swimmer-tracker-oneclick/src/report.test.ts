@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { buildReport, formatHours, reportPeriods } from "./report";
+import type { Competition, Workout } from "./types";
+
+const session = (date: string, distance_m: number, duration_min: number, extra: Partial<Workout> = {}): Workout => ({
+  date, distance_m, duration_min, stroke: "Free", rpe: 5, ...extra,
+});
+
+const race = (date: string, meet: string, distance_m: number, time_sec: number, extra: Partial<Competition> = {}): Competition => ({
+  date, meet, course: "LCM", stroke: "Free", distance_m, time_sec, ...extra,
+});
+
+describe("training", () => {
+  it("buckets a month by Monday week and counts only the range", () => {
+    const r = buildReport(
+      [
+        session("2025-08-29", 5000, 90),                      // before the range: load only
+        session("2025-09-02", 3000, 60),                      // 2:00/100m
+        session("2025-09-04", 2000, 36, { stroke: "Back" }),  // 1:48/100m
+        session("2025-09-30", 4000, 72, { rpe: undefined }),  // 1:48/100m, no RPE
+      ],
+      [],
+      "2025-09-01",
+      "2025-09-30"
+    );
+    expect(r.bucket).toBe("week");
+    expect(r.buckets.map((b) => [b.start, b.sessions, b.distance_m])).toEqual([
+      ["2025-09-01", 2, 5000],
+      ["2025-09-08", 0, 0],
+      ["2025-09-15", 0, 0],
+      ["2025-09-22", 0, 0],
+      ["2025-09-29", 1, 4000],
+    ]);
+    expect(r).toMatchObject({ sessions: 3, distance_m: 9000, duration_min: 168, byStroke: { Free: 7000, Back: 2000 }, avgPace: 1.8667 });
+    expect(r.buckets[0].pace).toBe(1.9);
+    // Pace trend through the weekly means: 1.9 → 1.8
+    expect(r.paceTrend).toEqual({ start: 1.9, end: 1.8 });
+    expect(r.load).toMatchObject({ total: 300 + 180, unrated: 1 });
+  });
+
+  it("buckets a season by calendar month", () => {
+    const r = buildReport([session("2024-09-15", 3000, 60), session("2025-08-31", 3000, 60)], [], "2024-09-01", "2025-08-31");
+    expect(r.bucket).toBe("month");
+    expect(r.buckets).toHaveLength(12);
+    expect(r.buckets[0]).toMatchObject({ start: "2024-09-01", sessions: 1 });
+    expect(r.buckets[11]).toMatchObject({ start: "2025-08-01", sessions: 1 });
+  });
+});
+
+describe("racing", () => {
+  const comps = [
+    race("2025-06-01", "Summer Open", 100, 62.4),
+    race("2025-06-01", "Summer Open", 200, 140),
+    race("2025-09-13", "Autumn Cup", 100, 62.9),                 // slower than the standing PB
+    race("2025-09-14", "Autumn Cup", 100, 61.8),                 // PB
+    race("2025-09-27", "Club Champs", 100, 61.5),                // PB again: the range's best
+    race("2025-09-27", "Club Champs", 50, 28.1, { stroke: "Fly" }),  // first swim of the event
+    race("2025-09-28", "Club Champs", 200, 141),                 // no PB
+    race("2025-10-04", "Later Meet", 100, 60),                   // after the range
+  ];
+
+  it("lists each event's best swim of the range that beat the PB standing at its start", () => {
+    const r = buildReport([], comps, "2025-09-01", "2025-09-30");
+    expect(r.newPBs).toEqual([
+      { course: "LCM", stroke: "Fly", distance_m: 50, time_sec: 28.1, date: "2025-09-27", meet: "Club Champs", previous: null, improvement: null, pct: null },
+      { course: "LCM", stroke: "Free", distance_m: 100, time_sec: 61.5, date: "2025-09-27", meet: "Club Champs", previous: 62.4, improvement: 0.9, pct: 1.4 },
+    ]);
+  });
+
+  it("counts the swims of each meet that were PBs when swum", () => {
+    const r = buildReport([], comps, "2025-09-01", "2025-09-30");
+    expect(r.swims).toBe(5);
+    expect(r.meets.map((m) => [m.meet, m.swims, m.pbs])).toEqual([
+      ["Autumn Cup", 2, 1],
+      ["Club Champs", 3, 2],
+    ]);
+  });
+});
+
+describe("periods and labels", () => {
+  it("offers this and last month and season", () => {
+    const periods = reportPeriods("2025-10-19").map(({ from, to }) => [from, to]);
+    expect(periods).toEqual([
+      ["2025-10-01", "2025-10-31"],
+      ["2025-09-01", "2025-09-30"],
+      ["2025-09-01", "2026-08-31"],
+      ["2024-09-01", "2025-08-31"],
+    ]);
+  });
+
+  it("formats minutes as hours", () => {
+    expect(formatHours(754)).toBe("12 h 34 min");
+    expect(formatHours(45.4)).toBe("45 min");
+  });
+});
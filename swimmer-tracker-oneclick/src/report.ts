@@ -0,0 +1,234 @@
+import { weekStart } from "./history";
+import { dailyLoads, sessionLoad, weeklyLoads } from "./load";
+import { addDays, addMonths } from "./plans";
+import { computePBs } from "./pbs";
+import { SEASON_START_MONTH, sameEvent, seasonDates, seasonOf } from "./progression";
+import { strokeBreakdown } from "./sets";
+import type { Competition, Stroke, Workout } from "./types";
+import { pacePer100 } from "./utils";
+
+/**
+ * Month and season reports over a date range
+ * - Training: sessions, distance by stroke, time, average pace (mean of
+ *   session paces, as in the KPIs) and its trend, session-RPE load
+ * - Buckets: weeks for ranges up to two months, calendar months beyond
+ * - Pace trend: least-squares line through the bucket paces, read at the
+ *   first and last bucket
+ * - Load: ACWR and monotony need the 4 weeks before the range, so the
+ *   workouts passed in may start earlier; only the range is counted
+ * - New PBs: per event, the best swim of the range when it beats the PB that
+ *   stood when the range began (what `personal_bests` showed then); an event
+ *   swum for the first time counts, without an improvement
+ * - Meets: results of the range grouped by meet, with the swims that were PBs
+ *   when swum
+ */
+
+export const WEEKLY_UP_TO_DAYS = 62;
+export const LOAD_LOOKBACK_DAYS = 27;   // extra days of workouts for the first ACWR of the range
+
+const DAY_MS = 86_400_000;
+
+export type ReportPeriod = { label: string; from: string; to: string };
+
+export type ReportBucket = {
+  start: string;               // Monday, or the 1st of the month
+  sessions: number;
+  distance_m: number;
+  pace: number | null;         // mean session pace, min/100m
+  load: number;
+};
+
+export type NewPB = {
+  course: Competition["course"];
+  stroke: Competition["stroke"];
+  distance_m: number;
+  time_sec: number;
+  date: string;
+  meet: string;
+  previous: number | null;     // the PB when the range began
+  improvement: number | null;  // seconds
+  pct: number | null;
+};
+
+export type MeetSummary = { meet: string; date: string; location: string; course: Competition["course"]; swims: number; pbs: number };
+
+export type Report = {
+  from: string;
+  to: string;
+  bucket: "week" | "month";
+  sessions: number;
+  distance_m: number;
+  duration_min: number;
+  byStroke: Partial<Record<Stroke, number>>;
+  avgPace: number | null;      // min/100m
+  paceTrend: { start: number; end: number } | null;
+  buckets: ReportBucket[];
+  load: { total: number; weeklyAvg: number; peakAcwr: number | null; avgMonotony: number | null; unrated: number };
+  newPBs: NewPB[];
+  meets: MeetSummary[];
+  swims: number;
+};
+
+const round = (n: number, digits = 2) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+/** 754 → "12 h 34 min". */
+export function formatHours(min: number) {
+  const total = Math.round(min);
+  return total >= 60 ? `${Math.floor(total / 60)} h ${String(total % 60).padStart(2, "0")} min` : `${total} min`;
+}
+
+/** "Sep 2026" for months, "2026-09-07" for weeks. */
+export function bucketLabel(start: string, bucket: Report["bucket"]) {
+  if (bucket === "week") return start;
+  return new Date(start + "T00:00:00Z").toLocaleDateString(undefined, { month: "short", year: "numeric", timeZone: "UTC" });
+}
+
+/** This and last month, this and last season (seasons start in September). */
+export function reportPeriods(today: string): ReportPeriod[] {
+  const month = today.slice(0, 7) + "-01";
+  const lastMonth = addMonths(month, -1);
+  const season = seasonOf(today);
+  const lastSeason = seasonOf(`${Number(season.slice(0, 4))}-${String(SEASON_START_MONTH - 1).padStart(2, "0")}-01`);
+  const label = (d: string) => new Date(d + "T00:00:00Z").toLocaleDateString(undefined, { month: "long", year: "numeric", timeZone: "UTC" });
+  return [
+    { label: label(month), from: month, to: addDays(addMonths(month, 1), -1) },
+    { label: label(lastMonth), from: lastMonth, to: addDays(month, -1) },
+    { label: `Season ${season}`, ...seasonDates(season) },
+    { label: `Season ${lastSeason}`, ...seasonDates(lastSeason) },
+  ];
+}
+
+function bucketStarts(from: string, to: string, bucket: Report["bucket"]) {
+  const out: string[] = [];
+  if (bucket === "week") for (let d = weekStart(from); d <= to; d = addDays(d, 7)) out.push(d);
+  else for (let d = from.slice(0, 7) + "-01"; d <= to; d = addMonths(d, 1)) out.push(d);
+  return out;
+}
+
+function paceTrend(buckets: ReportBucket[]): Report["paceTrend"] {
+  const pts = buckets.flatMap((b, i) => (b.pace ? [[i, b.pace] as const] : []));
+  if (pts.length < 2) return null;
+  const mx = pts.reduce((s, [x]) => s + x, 0) / pts.length;
+  const my = pts.reduce((s, [, y]) => s + y, 0) / pts.length;
+  const sxx = pts.reduce((s, [x]) => s + (x - mx) ** 2, 0);
+  const slope = pts.reduce((s, [x, y]) => s + (x - mx) * (y - my), 0) / sxx;
+  const at = (x: number) => round(my + slope * (x - mx), 4);
+  return { start: at(pts[0][0]), end: at(pts[pts.length - 1][0]) };
+}
+
+function training(workouts: Workout[], from: string, to: string) {
+  const bucket: Report["bucket"] = (Date.parse(to) - Date.parse(from)) / DAY_MS < WEEKLY_UP_TO_DAYS ? "week" : "month";
+  const keyOf = (date: string) => (bucket === "week" ? weekStart(date) : date.slice(0, 7) + "-01");
+  const buckets = new Map(bucketStarts(from, to, bucket).map((start) => [start, { start, sessions: 0, distance_m: 0, pace: null, load: 0 } as ReportBucket]));
+  const paces = new Map<string, number[]>();
+  const byStroke: Partial<Record<Stroke, number>> = {};
+  const inRange = workouts.filter((w) => w.date >= from && w.date <= to);
+  let duration = 0;
+  for (const w of inRange) {
+    const b = buckets.get(keyOf(w.date))!;
+    b.sessions++;
+    b.distance_m += Number(w.distance_m) || 0;
+    b.load += sessionLoad(w);
+    duration += Number(w.duration_min) || 0;
+    const pace = pacePer100(Number(w.distance_m), Number(w.duration_min));
+    if (pace > 0) paces.set(b.start, [...(paces.get(b.start) ?? []), pace]);
+    for (const [st, m] of Object.entries(strokeBreakdown(w))) byStroke[st as Stroke] = (byStroke[st as Stroke] ?? 0) + m;
+  }
+  for (const [start, list] of paces) buckets.get(start)!.pace = round(list.reduce((s, p) => s + p, 0) / list.length, 4);
+  const all = Array.from(paces.values()).flat();
+  return {
+    bucket,
+    buckets: Array.from(buckets.values()),
+    sessions: inRange.length,
+    distance_m: inRange.reduce((s, w) => s + (Number(w.distance_m) || 0), 0),
+    duration_min: round(duration, 1),
+    byStroke,
+    avgPace: all.length ? round(all.reduce((s, p) => s + p, 0) / all.length, 4) : null,
+    unrated: inRange.filter((w) => !(Number(w.rpe) > 0)).length,
+  };
+}
+
+function load(workouts: Workout[], from: string, to: string, unrated: number): Report["load"] {
+  const days = dailyLoads(workouts, to).filter((d) => d.date >= from);
+  const weeks = weeklyLoads(days).filter((w) => w.weekStart >= weekStart(from));
+  const total = days.reduce((s, d) => s + d.load, 0);
+  const ratios = days.map((d) => d.acwr).filter((r): r is number => r !== null);
+  const monotony = weeks.map((w) => w.monotony).filter((m): m is number => m !== null);
+  const spanWeeks = Math.max(1, ((Date.parse(to) - Date.parse(from)) / DAY_MS + 1) / 7);
+  return {
+    total,
+    weeklyAvg: Math.round(total / spanWeeks),
+    peakAcwr: ratios.length ? Math.max(...ratios) : null,
+    avgMonotony: monotony.length ? round(monotony.reduce((s, m) => s + m, 0) / monotony.length) : null,
+    unrated,
+  };
+}
+
+function racing(comps: Competition[], from: string, to: string) {
+  const sorted = comps.filter((c) => c.date <= to).sort((a, b) => a.date.localeCompare(b.date) || Number(a.time_sec) - Number(b.time_sec));
+  const before = computePBs(sorted.filter((c) => c.date < from));
+  const inRange = sorted.filter((c) => c.date >= from);
+
+  // Best of the range per event, against the PB standing at `from`
+  const best: Competition[] = [];
+  for (const c of inRange) {
+    const i = best.findIndex((b) => sameEvent(b, c));
+    if (i < 0) best.push(c);
+    else if (Number(c.time_sec) < Number(best[i].time_sec)) best[i] = c;
+  }
+  const newPBs: NewPB[] = best.flatMap((c) => {
+    const prev = before.find((p) => sameEvent(p, c));
+    const t = Number(c.time_sec);
+    if (prev && t >= Number(prev.time_sec)) return [];
+    const previous = prev ? Number(prev.time_sec) : null;
+    return [{
+      course: c.course,
+      stroke: c.stroke,
+      distance_m: Number(c.distance_m),
+      time_sec: t,
+      date: c.date,
+      meet: c.meet,
+      previous,
+      improvement: previous !== null ? round(previous - t) : null,
+      pct: previous !== null ? round(((previous - t) / previous) * 100, 1) : null,
+    }];
+  });
+  newPBs.sort((a, b) => a.date.localeCompare(b.date) || a.course.localeCompare(b.course) || a.stroke.localeCompare(b.stroke) || a.distance_m - b.distance_m);
+
+  // Meets, with the swims that were PBs at the time
+  const running = new Map(before.map((p) => [`${p.course}|${p.stroke}|${p.distance_m}`, Number(p.time_sec)]));
+  const meets = new Map<string, MeetSummary>();
+  for (const c of inRange) {
+    const key = `${c.course}|${c.stroke}|${Number(c.distance_m)}`;
+    const cur = running.get(key);
+    const pb = cur === undefined || Number(c.time_sec) < cur;
+    if (pb) running.set(key, Number(c.time_sec));
+    const m = meets.get(c.meet) ?? { meet: c.meet, date: c.date, location: c.location ?? "", course: c.course, swims: 0, pbs: 0 };
+    m.swims++;
+    if (pb) m.pbs++;
+    meets.set(c.meet, m);
+  }
+  return { newPBs, meets: Array.from(meets.values()), swims: inRange.length };
+}
+
+/**
+ * Report for `from`..`to`. `workouts` may include the weeks before `from`
+ * (for load); `comps` should hold the whole history up to `to` (for PBs).
+ */
+export function buildReport(workouts: Workout[], comps: Competition[], from: string, to: string): Report {
+  const t = training(workouts, from, to);
+  return {
+    from,
+    to,
+    bucket: t.bucket,
+    sessions: t.sessions,
+    distance_m: t.distance_m,
+    duration_min: t.duration_min,
+    byStroke: t.byStroke,
+    avgPace: t.avgPace,
+    paceTrend: paceTrend(t.buckets),
+    buckets: t.buckets,
+    load: load(workouts, from, to, t.unrated),
+    ...racing(comps, from, to),
+  };
+}
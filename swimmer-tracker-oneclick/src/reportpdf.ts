@@ -0,0 +1,156 @@
+import { courseUnit } from "./course";
+import { PAGE_HEIGHT, PAGE_WIDTH, createPdf } from "./pdf";
+import { bucketLabel, formatHours, type Report } from "./report";
+import { STROKE_COLORS, STROKES } from "./sets";
+import { formatDistance, fromMeters, paceIn, type Unit } from "./units";
+import { formatNumber, minutesToMMSS, secToTime } from "./utils";
+
+/**
+ * The report as an A4 PDF, laid out like the report page: summary,
+ * distance by stroke, the week/month table with distance bars, new PBs and
+ * meets. Built in the browser with the writer in pdf.ts.
+ */
+
+const MARGIN = 48;
+const LINE = 16;
+const BAR_COLOR = "#93c5fd";
+const MUTED = "#6b7280";
+
+export function reportPdf(report: Report, meta: { title: string; name: string; unit: Unit }): Blob {
+  const pdf = createPdf();
+  const { unit } = meta;
+  let y = MARGIN;
+
+  const ensure = (h: number) => {
+    if (y + h <= PAGE_HEIGHT - MARGIN) return;
+    pdf.addPage();
+    y = MARGIN;
+  };
+  const heading = (text: string) => {
+    ensure(3 * LINE);
+    y += LINE;
+    pdf.text(MARGIN, y, text, { size: 13, bold: true });
+    y += 6;
+    pdf.line(MARGIN, y, PAGE_WIDTH - MARGIN, y, "#9ca3af", 0.75);
+    y += LINE;
+  };
+  // Columns at fixed x positions; the first row is the header
+  const table = (xs: number[], rows: string[][]) => {
+    rows.forEach((row, i) => {
+      ensure(LINE);
+      row.forEach((cell, j) => pdf.text(MARGIN + xs[j], y, cell, { size: 9, bold: i === 0, color: i === 0 ? MUTED : undefined }));
+      y += i === 0 ? LINE + 2 : LINE;
+    });
+  };
+  const pace = (p: number | null) => (p ? `${minutesToMMSS(paceIn(p, unit))} /100${unit}` : "-");
+
+  // Title
+  pdf.text(MARGIN, y + 14, meta.title, { size: 20, bold: true });
+  y += 36;
+  pdf.text(MARGIN, y, `${meta.name} · ${report.from} – ${report.to}`, { size: 11, color: MUTED });
+  y += LINE;
+  pdf.text(MARGIN, y, `Created ${new Date().toISOString().slice(0, 10)} with Swimmer Tracker`, { size: 8, color: MUTED });
+  y += LINE;
+
+  heading("Summary");
+  const trend = report.paceTrend ? `${pace(report.paceTrend.start)} -> ${pace(report.paceTrend.end)}` : "-";
+  const summary: [string, string][] = [
+    ["Sessions", formatNumber(report.sessions)],
+    ["Distance", formatDistance(report.distance_m, unit)],
+    ["Time", formatHours(report.duration_min)],
+    ["Average pace", pace(report.avgPace)],
+    ["Pace trend", trend],
+    ["Load (RPE × min)", `${formatNumber(report.load.total)} AU · ${formatNumber(report.load.weeklyAvg)} AU/week`],
+    ["Peak ACWR · avg monotony", `${report.load.peakAcwr ?? "-"} · ${report.load.avgMonotony ?? "-"}`],
+    ["Meets · swims · new PBs", `${report.meets.length} · ${report.swims} · ${report.newPBs.length}`],
+  ];
+  for (const [label, value] of summary) {
+    ensure(LINE);
+    pdf.text(MARGIN, y, label, { size: 10, color: MUTED });
+    pdf.text(MARGIN + 170, y, value, { size: 10, bold: true });
+    y += LINE;
+  }
+  if (report.load.unrated) {
+    pdf.text(MARGIN, y, `${report.load.unrated} session(s) without RPE count as zero load.`, { size: 8, color: MUTED });
+    y += LINE;
+  }
+
+  const strokes = STROKES.filter((st) => (report.byStroke[st] ?? 0) > 0);
+  if (strokes.length) {
+    heading("Distance by stroke");
+    const max = Math.max(...strokes.map((st) => report.byStroke[st]!));
+    for (const st of strokes) {
+      ensure(LINE);
+      const m = report.byStroke[st]!;
+      pdf.text(MARGIN, y, st, { size: 10 });
+      pdf.rect(MARGIN + 60, y - 9, (m / max) * 250, 10, STROKE_COLORS[st]);
+      pdf.text(MARGIN + 320, y, `${formatDistance(m, unit)} (${Math.round((m / report.distance_m) * 100)}%)`, { size: 10 });
+      y += LINE;
+    }
+  }
+
+  heading(report.bucket === "week" ? "By week" : "By month");
+  const maxDist = Math.max(1, ...report.buckets.map((b) => b.distance_m));
+  const xs = [0, 90, 150, 235, 320, 380];
+  table(xs, [
+    [report.bucket === "week" ? "Week of" : "Month", "Sessions", `Distance (${unit})`, "Pace", "Load", ""],
+    ...report.buckets.map((b) => [
+      bucketLabel(b.start, report.bucket),
+      String(b.sessions),
+      formatNumber(Math.round(fromMeters(b.distance_m, unit))),
+      b.pace ? minutesToMMSS(paceIn(b.pace, unit)) : "-",
+      formatNumber(b.load),
+      "",
+    ]),
+  ]);
+  // Distance bars next to the rows just written
+  const rowsTop = y - report.buckets.length * LINE;
+  report.buckets.forEach((b, i) => {
+    const top = rowsTop + i * LINE;
+    if (top > MARGIN && b.distance_m) pdf.rect(MARGIN + xs[5], top - 9, (b.distance_m / maxDist) * (PAGE_WIDTH - 2 * MARGIN - xs[5]), 9, BAR_COLOR);
+  });
+
+  heading("New PBs");
+  if (!report.newPBs.length) {
+    pdf.text(MARGIN, y, "No new PBs in this period.", { size: 10, color: MUTED });
+    y += LINE;
+  } else {
+    table([0, 130, 190, 250, 330, 395], [
+      ["Event", "Time", "Previous", "Improvement", "Date", "Meet"],
+      ...report.newPBs.map((p) => [
+        `${p.distance_m} ${courseUnit(p.course)} ${p.stroke} ${p.course}`,
+        secToTime(p.time_sec),
+        p.previous !== null ? secToTime(p.previous) : "first swim",
+        p.improvement !== null ? `-${p.improvement.toFixed(2)} s (${p.pct}%)` : "",
+        p.date,
+        p.meet.slice(0, 28),
+      ]),
+    ]);
+  }
+
+  heading("Meets");
+  if (!report.meets.length) {
+    pdf.text(MARGIN, y, "No meets in this period.", { size: 10, color: MUTED });
+    y += LINE;
+  } else {
+    table([0, 70, 270, 330, 380], [
+      ["Date", "Meet", "Course", "Swims", "PBs"],
+      ...report.meets.map((m) => [m.date, m.meet.slice(0, 38), m.course, String(m.swims), String(m.pbs)]),
+    ]);
+  }
+
+  return pdf.toBlob();
+}
+
+/** Builds the PDF and downloads it, named after the swimmer and the period. */
+export function downloadReportPdf(report: Report, meta: { title: string; name: string; unit: Unit }) {
+  const url = URL.createObjectURL(reportPdf(report, meta));
+  const slug = `${meta.name}-${meta.title}`.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  const el = document.createElement("a");
+  el.href = url;
+  el.download = `report-${slug || report.from}.pdf`;
+  document.body.appendChild(el);
+  el.click();
+  el.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,134 @@
+import { getMeta, setMeta } from "./localdb";
+import { demoData } from "./demo";
+import { createLocalRepository, type LocalSnapshot } from "./localRepository";
+import { hasBackend, supabase } from "./supabase";
+import { createSupabaseRepository } from "./supabaseRepository";
+import type { WeekTotals } from "./history";
+import type { Course } from "./course";
+import type { LogFilter } from "./filters";
+import type { Gender } from "./standards";
+import type { Competition, CssTest, PB, Plan, RowVersion, Stroke, Workout } from "./types";
+import type { Unit } from "./units";
+
+/**
+ * Typed data access for the synced tables, behind one interface.
+ * - `supabase`: the hosted backend; RLS limits every query to what the
+ *   signed-in user may see
+ * - `local`: in-memory tables that behave like the backend (server
+ *   `updated_at`, PBs as the `personal_bests` view computes them). Backs demo
+ *   mode (no VITE_SUPABASE_* settings, or VITE_DEMO_MODE=true) and tests
+ * - Deleting is an edit (`deleted_at`); lists and pages leave trashed rows
+ *   out, `remove` purges for good
+ * - Failures are thrown as RepoError; errors without a `code` mean the
+ *   backend could not be reached
+ */
+
+export type Tables = { workouts: Workout; competitions: Competition };
+export type TableName = keyof Tables;
+
+/** The athlete behind an account; `units` is for training distances. */
+export type Profile = {
+  id: string;
+  full_name: string | null;
+  birth_date?: string | null;      // YYYY-MM-DD
+  gender?: Gender | null;
+  club?: string | null;
+  course?: Course;                 // preferred pool course
+  units?: Unit;                    // training distances are shown in
+  default_stroke?: Stroke;
+  updated_at?: string;
+};
+
+/** What teammates see of each other. */
+export type MemberName = Pick<Profile, "id" | "full_name">;
+
+export type RepoError = { message: string; code?: string };
+
+/**
+ * `since` / `until`: only rows dated within (YYYY-MM-DD, inclusive);
+ * `where`: columns that must equal these values (e.g. one event's results);
+ * `trashed`: the trash instead of live rows;
+ * `offset`: skip that many rows, to read a long list a page at a time with `limit`.
+ */
+export type ListOptions = {
+  limit?: number;
+  offset?: number;
+  since?: string;
+  until?: string;
+  where?: Record<string, string | number>;
+  trashed?: boolean;
+};
+
+/**
+ * One page of a table for display. `search` matches whole words by prefix
+ * (full-text on the server); `filter` narrows workouts (see filters.ts);
+ * `sort` is a column name, or a derived one such as `pace_per_100`.
+ */
+export type PageQuery = { search?: string; filter?: LogFilter; sort: string; dir: "asc" | "desc"; offset: number; limit: number };
+export type Page<T> = { rows: T[]; total: number };
+
+export type Repository = {
+  kind: "supabase" | "local";
+  /** The owner's rows, newest first. */
+  list<T extends TableName>(table: T, owner: string, opts?: ListOptions): Promise<Tables[T][]>;
+  /** Searched, sorted page of the owner's rows plus the number of matches. */
+  page<T extends TableName>(table: T, owner: string, q: PageQuery): Promise<Page<Tables[T]>>;
+  get<T extends TableName>(table: T, id: string): Promise<Tables[T] | null>;
+  /** Insert or replace by id; returns the rows as stored (with the server's `updated_at`). */
+  upsert<T extends TableName>(table: T, rows: Tables[T][]): Promise<Tables[T][]>;
+  /** Delete for good, with its edit history. */
+  remove(table: TableName, id: string): Promise<void>;
+  /** Delete all of the owner's rows for good, trash and edit history included. */
+  removeAll(table: TableName, owner: string): Promise<void>;
+  /** Earlier versions of a row, newest first. */
+  versions<T extends TableName>(table: T, id: string): Promise<RowVersion<Tables[T]>[]>;
+  personalBests(owner: string): Promise<PB[]>;
+  /** Training totals per week (Monday), oldest first; only sessions before `before` when given. */
+  weeklyTotals(owner: string, before?: string): Promise<WeekTotals[]>;
+  /** Which of these imported-activity ids the owner already has. */
+  existingSources(owner: string, sourceIds: string[]): Promise<string[]>;
+  /** Planned sessions of a swimmer, by date; optionally only `from`..`to` (inclusive). */
+  plans(owner: string, range?: { from: string; to: string }): Promise<Plan[]>;
+  savePlan(plan: Plan): Promise<Plan>;
+  removePlan(id: string): Promise<void>;
+  /** A swimmer's CSS tests, oldest first. */
+  cssTests(owner: string): Promise<CssTest[]>;
+  saveCssTest(test: CssTest): Promise<CssTest>;
+  removeCssTest(id: string): Promise<void>;
+  /** Names of the user and their teammates, for rosters. */
+  profiles(ids: string[]): Promise<MemberName[]>;
+  /** A whole profile: the user's own or a coached swimmer's; null when there is none. */
+  profile(id: string): Promise<Profile | null>;
+  /** The signed-in user's profile, created on first sign-in. */
+  ensureProfile(id: string): Promise<Profile>;
+  saveProfile(profile: Profile): Promise<Profile>;
+};
+
+// ---------- Demo mode ----------
+export const DEMO_MODE = !hasBackend || import.meta.env.VITE_DEMO_MODE === "true";
+
+export const DEMO_USER = "00000000-0000-4000-8000-000000000000";
+
+/** Stands in for the auth session when there is no backend. */
+export const demoSession = { user: { id: DEMO_USER, email: "demo@swimmer-tracker.local", user_metadata: {} } };
+
+// ---------- Current repository ----------
+let current: Repository | null = null;
+
+export function repository(): Repository {
+  if (!current) {
+    current = DEMO_MODE
+      ? createLocalRepository({
+          // The demo "server" lives next to the offline cache in IndexedDB
+          load: async () => (await getMeta<LocalSnapshot>("demo-backend")) ?? demoData(DEMO_USER),
+          save: (snapshot) => setMeta("demo-backend", snapshot),
+        })
+      : createSupabaseRepository(supabase);
+  }
+  return current;
+}
+
+/** Swap the backend, e.g. a fresh local repository in tests. */
+export function setRepository(repo: Repository) {
+  current = repo;
+}
@@ -0,0 +1,75 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { parseLenex, parseSdif, swimToCompetition } from "./results";
+
+describe("parseLenex", () => {
+  const lenex = `<?xml version="1.0" encoding="UTF-8"?>
+    <LENEX version="3.0"><MEETS>
+      <MEET name="Spring Open" city="Leeds" nation="GBR" course="LCM">
+        <SESSIONS><SESSION date="2024-04-13"><EVENTS>
+          <EVENT eventid="1" round="PRE"><SWIMSTYLE distance="100" stroke="FREE" relaycount="1" /></EVENT>
+          <EVENT eventid="2" round="FIN"><SWIMSTYLE distance="100" stroke="FREE" relaycount="1" /></EVENT>
+          <EVENT eventid="3"><SWIMSTYLE distance="50" stroke="BACK" relaycount="4" /></EVENT>
+          <EVENT eventid="4"><SWIMSTYLE distance="200" stroke="MEDLEY" relaycount="1" /></EVENT>
+        </EVENTS></SESSION></SESSIONS>
+        <CLUBS><CLUB name="City Swim"><ATHLETES>
+          <ATHLETE firstname="Ana" lastname="Silva" birthdate="2008-05-01" gender="F"><RESULTS>
+            <RESULT eventid="1" swimtime="00:01:01.20"><SPLITS><SPLIT distance="50" swimtime="00:00:29.50" /></SPLITS></RESULT>
+            <RESULT eventid="2" swimtime="00:01:00.85" />
+            <RESULT eventid="3" swimtime="00:00:31.00" />
+            <RESULT eventid="4" swimtime="00:02:30.00" status="DSQ" />
+          </RESULTS></ATHLETE>
+        </ATHLETES></CLUB></CLUBS>
+      </MEET>
+    </MEETS></LENEX>`;
+
+  it("reads individual swims per round with their splits", () => {
+    const [ana, ...rest] = parseLenex(lenex);
+    expect(rest).toEqual([]);
+    expect(ana).toMatchObject({ name: "Ana Silva", birth_year: 2008, gender: "F", club: "City Swim" });
+    expect(ana.swims).toEqual([
+      {
+        date: "2024-04-13", meet: "Spring Open", location: "Leeds, GBR", course: "LCM", stroke: "Free", distance: 100,
+        time_sec: 61.2, round: "Prelim", splits: [29.5, 31.7], split_length: 50,
+      },
+      {
+        date: "2024-04-13", meet: "Spring Open", location: "Leeds, GBR", course: "LCM", stroke: "Free", distance: 100,
+        time_sec: 60.85, round: "Final", splits: null, split_length: null,
+      },
+    ]);
+    expect(swimToCompetition(ana.swims[1])).toMatchObject({ distance_m: 100, time_sec: 60.85, notes: "Final" });
+  });
+
+  it("refuses other XML", () => {
+    expect(() => parseLenex("<results />")).toThrow("Not a valid Lenex file");
+  });
+});
+
+describe("parseSdif", () => {
+  // Fixed-width record: text placed at 1-based columns
+  const record = (code: string, fields: [number, string][]) => {
+    const line = (code + " ".repeat(160)).split("");
+    for (const [at, text] of fields) line.splice(at - 1, text.length, ...text);
+    return line.join("").trimEnd();
+  };
+  const sdif = [
+    record("A0", []),
+    record("B1", [[12, "Summer Champs"], [86, "Austin"], [106, "TX"], [122, "07182024"]]),
+    record("C1", [[18, "Longhorn Aquatics"]]),
+    record("D0", [[12, "Doe, Jane"], [56, "03022007"], [66, "F"], [68, " 200"], [72, "4"], [98, "2:05.31"], [106, "Y"], [116, "2:03.99"], [124, "Y"]]),
+    record("D0", [[12, "Doe, Jane"], [56, "03022007"], [66, "F"], [68, " 200"], [72, "6"], [116, "1:50.00"], [124, "Y"]]),
+  ].join("\r\n");
+
+  it("reads prelim and final swims, using the meet date", () => {
+    const [jane] = parseSdif(sdif);
+    expect(jane).toMatchObject({ name: "Jane Doe", birth_year: 2007, club: "Longhorn Aquatics" });
+    expect(jane.swims.map((s) => [s.round, s.course, s.stroke, s.distance, s.time_sec, s.date, s.location])).toEqual([
+      ["Prelim", "SCY", "Fly", 200, 125.31, "2024-07-18", "Austin, TX"],
+      ["Final", "SCY", "Fly", 200, 123.99, "2024-07-18", "Austin, TX"],
+    ]);
+  });
+
+  it("refuses files without an A0 record", () => {
+    expect(() => parseSdif("hello")).toThrow("Not a valid SDIF file");
+  });
+});
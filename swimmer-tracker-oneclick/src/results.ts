@@ -0,0 +1,245 @@
+import type { Course } from "./course";
+import { newId } from "./sync";
+import { fromCumulative, SPLIT_LENGTHS, validateSplits } from "./splits";
+import type { Competition } from "./types";
+
+/**
+ * Meet results files from Meet Manager / SPLASH.
+ * - Lenex (.lef XML, .lxf zipped) and Hy-Tek SDIF (.sd3 / .cl2 fixed width)
+ * - Parsed into athletes with their individual swims; relays, DQs, scratches
+ *   and no-times are left out
+ * - Prelims and finals are separate swims; Lenex splits are kept when they
+ *   fall on every 25 or 50
+ */
+
+export type MeetSwim = {
+  date: string;            // YYYY-MM-DD
+  meet: string;
+  location: string;
+  course: Course;
+  stroke: Competition["stroke"];
+  distance: number;
+  time_sec: number;
+  round: string;           // "Prelim", "Final", … or ""
+  splits: number[] | null;
+  split_length: number | null;
+};
+
+export type ResultAthlete = {
+  key: string;
+  name: string;            // "First Last"
+  birth_year: number | null;
+  gender: string;
+  club: string;
+  swims: MeetSwim[];
+};
+
+// ---------- Lenex ----------
+const LENEX_STROKES: Record<string, Competition["stroke"]> = {
+  FREE: "Free", BACK: "Back", BREAST: "Breast", FLY: "Fly", MEDLEY: "IM",
+};
+const LENEX_ROUNDS: Record<string, string> = {
+  PRE: "Prelim", FIN: "Final", SEM: "Semi-final", QUA: "Quarter-final", SOP: "Swim-off", SOS: "Swim-off", TIM: "",
+};
+
+/** Seconds from Lenex "HH:MM:SS.hh"; null for NT / zero. */
+function lenexTime(t: string | null) {
+  const m = t?.match(/^(\d+):(\d{2}):(\d{2})\.(\d{2})$/);
+  if (!m) return null;
+  const sec = Number(m[1]) * 3600 + Number(m[2]) * 60 + Number(m[3]) + Number(m[4]) / 100;
+  return sec > 0 ? Math.round(sec * 100) / 100 : null;
+}
+
+function lenexCourse(c: string | null): Course | null {
+  return c === "LCM" || c === "SCM" || c === "SCY" ? c : null;
+}
+
+// Lap splits when the cumulative splits fall on every 25 or 50 of the race
+function lenexSplits(result: Element, distance: number, time: number) {
+  const cum = Array.from(result.getElementsByTagName("SPLIT"))
+    .map((s) => ({ at: Number(s.getAttribute("distance")), t: lenexTime(s.getAttribute("swimtime")) }))
+    .filter((s): s is { at: number; t: number } => s.at > 0 && s.at < distance && s.t !== null)
+    .sort((a, b) => a.at - b.at);
+  if (!cum.length) return null;
+  const length = SPLIT_LENGTHS.find((l) => cum.every((s, i) => s.at === (i + 1) * l) && distance === (cum.length + 1) * l);
+  if (!length) return null;
+  const laps = fromCumulative([...cum.map((s) => s.t), time]).map((l) => Math.round(l * 100) / 100);
+  return validateSplits(laps, time, distance, length) ? null : { splits: laps, split_length: length };
+}
+
+export function parseLenex(xml: string): ResultAthlete[] {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length || !doc.getElementsByTagName("LENEX").length) {
+    throw new Error("Not a valid Lenex file");
+  }
+  const athletes = new Map<string, ResultAthlete>();
+  for (const meet of Array.from(doc.getElementsByTagName("MEET"))) {
+    const meetName = meet.getAttribute("name") ?? "";
+    const location = [meet.getAttribute("city"), meet.getAttribute("nation")].filter(Boolean).join(", ");
+
+    // Event id → what was swum, when
+    type Ev = { date: string; course: Course | null; stroke?: Competition["stroke"]; distance: number; relay: boolean; round: string };
+    const events = new Map<string, Ev>();
+    for (const session of Array.from(meet.getElementsByTagName("SESSION"))) {
+      const date = session.getAttribute("date") ?? "";
+      const course = lenexCourse(session.getAttribute("course") ?? meet.getAttribute("course"));
+      for (const ev of Array.from(session.getElementsByTagName("EVENT"))) {
+        const style = ev.getElementsByTagName("SWIMSTYLE")[0];
+        if (!style) continue;
+        events.set(ev.getAttribute("eventid") ?? "", {
+          date,
+          course,
+          stroke: LENEX_STROKES[style.getAttribute("stroke") ?? ""],
+          distance: Number(style.getAttribute("distance")),
+          relay: Number(style.getAttribute("relaycount") ?? 1) > 1,
+          round: LENEX_ROUNDS[ev.getAttribute("round") ?? "TIM"] ?? "",
+        });
+      }
+    }
+
+    for (const club of Array.from(meet.getElementsByTagName("CLUB"))) {
+      const clubName = club.getAttribute("name") ?? "";
+      for (const a of Array.from(club.getElementsByTagName("ATHLETE"))) {
+        const name = `${a.getAttribute("firstname") ?? ""} ${a.getAttribute("lastname") ?? ""}`.trim();
+        const birth = Number(a.getAttribute("birthdate")?.slice(0, 4)) || null;
+        const key = `${name.toLowerCase()}|${birth ?? ""}`;
+        const athlete = athletes.get(key) ?? { key, name, birth_year: birth, gender: a.getAttribute("gender") ?? "", club: clubName, swims: [] };
+        athletes.set(key, athlete);
+        for (const r of Array.from(a.getElementsByTagName("RESULT"))) {
+          const ev = events.get(r.getAttribute("eventid") ?? "");
+          const time = lenexTime(r.getAttribute("swimtime"));
+          if (!ev || ev.relay || !ev.stroke || !ev.course || !ev.distance || !ev.date || !time || r.getAttribute("status")) continue;
+          athlete.swims.push({
+            date: ev.date,
+            meet: meetName,
+            location,
+            course: ev.course,
+            stroke: ev.stroke,
+            distance: ev.distance,
+            time_sec: time,
+            round: ev.round,
+            ...(lenexSplits(r, ev.distance, time) ?? { splits: null, split_length: null }),
+          });
+        }
+      }
+    }
+  }
+  return sortAthletes(athletes);
+}
+
+// ---------- SDIF ----------
+const SDIF_STROKES: Record<string, Competition["stroke"]> = { "1": "Free", "2": "Back", "3": "Breast", "4": "Fly", "5": "IM" };
+const SDIF_COURSES: Record<string, Course> = { "1": "SCM", S: "SCM", "2": "SCY", Y: "SCY", "3": "LCM", L: "LCM" };
+
+// Columns are 1-based in the SDIF spec
+const col = (line: string, from: number, to: number) => line.slice(from - 1, to).trim();
+
+function sdifDate(s: string) {
+  const m = s.match(/^(\d{2})(\d{2})(\d{4})$/);
+  return m ? `${m[3]}-${m[1]}-${m[2]}` : "";
+}
+
+function sdifTime(s: string) {
+  const m = s.match(/^(?:(\d+):)?(\d{1,2}\.\d{2})$/);
+  return m ? Math.round((Number(m[1] ?? 0) * 60 + Number(m[2])) * 100) / 100 : null;
+}
+
+export function parseSdif(text: string): ResultAthlete[] {
+  const lines = text.split(/\r?\n/);
+  if (!lines.some((l) => l.startsWith("A0"))) throw new Error("Not a valid SDIF file");
+  const athletes = new Map<string, ResultAthlete>();
+  let meet = "";
+  let location = "";
+  let meetDate = "";
+  let club = "";
+  for (const line of lines) {
+    const code = line.slice(0, 2);
+    if (code === "B1") {
+      meet = col(line, 12, 41);
+      location = [col(line, 86, 105), col(line, 106, 107)].filter(Boolean).join(", ");
+      meetDate = sdifDate(col(line, 122, 129));
+    } else if (code === "C1") {
+      club = col(line, 18, 47);
+    } else if (code === "D0") {
+      const stroke = SDIF_STROKES[col(line, 72, 72)];
+      const distance = Number(col(line, 68, 71));
+      if (!stroke || !distance) continue; // relays
+      const [last, first = ""] = col(line, 12, 39).split(",").map((s) => s.trim());
+      const name = `${first} ${last}`.trim();
+      const birth = Number(sdifDate(col(line, 56, 63)).slice(0, 4)) || null;
+      const key = `${name.toLowerCase()}|${birth ?? ""}`;
+      const athlete = athletes.get(key) ?? { key, name, birth_year: birth, gender: col(line, 66, 66), club, swims: [] };
+      athletes.set(key, athlete);
+      const date = sdifDate(col(line, 81, 88)) || meetDate;
+      // Each round is its own swim: time, then course
+      for (const [round, from] of [["Prelim", 98], ["Swim-off", 107], ["Final", 116]] as const) {
+        const time = sdifTime(col(line, from, from + 7));
+        const course = SDIF_COURSES[col(line, from + 8, from + 8).toUpperCase()];
+        if (!time || !course || !date) continue;
+        athlete.swims.push({ date, meet, location, course, stroke, distance, time_sec: time, round, splits: null, split_length: null });
+      }
+    }
+  }
+  return sortAthletes(athletes);
+}
+
+function sortAthletes(map: Map<string, ResultAthlete>) {
+  return Array.from(map.values())
+    .filter((a) => a.swims.length)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// ---------- Files ----------
+/** The first .lef entry of a zipped Lenex file. */
+async function unzipLenex(buf: ArrayBuffer): Promise<string> {
+  const view = new DataView(buf);
+  let eocd = -1;
+  for (let i = buf.byteLength - 22; i >= Math.max(0, buf.byteLength - 65_557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("Not a valid .lxf file");
+  let p = view.getUint32(eocd + 16, true);
+  for (let n = view.getUint16(eocd + 10, true); n > 0; n--) {
+    const method = view.getUint16(p + 10, true);
+    const size = view.getUint32(p + 20, true);
+    const nameLen = view.getUint16(p + 28, true);
+    const skip = nameLen + view.getUint16(p + 30, true) + view.getUint16(p + 32, true);
+    const name = new TextDecoder().decode(new Uint8Array(buf, p + 46, nameLen));
+    const local = view.getUint32(p + 42, true);
+    p += 46 + skip;
+    if (!/\.lef$/i.test(name)) continue;
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const data = new Uint8Array(buf, start, size);
+    if (method === 0) return new TextDecoder().decode(data);
+    if (method !== 8) break;
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+    return new Response(stream).text();
+  }
+  throw new Error("No Lenex results in this .lxf file");
+}
+
+export async function readResultsFile(file: File): Promise<ResultAthlete[]> {
+  if (/\.lxf$/i.test(file.name)) return parseLenex(await unzipLenex(await file.arrayBuffer()));
+  if (/\.(lef|xml)$/i.test(file.name)) return parseLenex(await file.text());
+  if (/\.(sd3|cl2|sdif|txt)$/i.test(file.name)) return parseSdif(await file.text());
+  throw new Error("Choose a Lenex (.lef, .lxf) or SDIF (.sd3) file");
+}
+
+export function swimToCompetition(s: MeetSwim): Competition {
+  return {
+    id: newId(),
+    date: s.date,
+    meet: s.meet,
+    course: s.course,
+    stroke: s.stroke,
+    distance_m: s.distance,
+    time_sec: s.time_sec,
+    splits: s.splits,
+    split_length: s.split_length,
+    location: s.location,
+    notes: s.round,
+  };
+}
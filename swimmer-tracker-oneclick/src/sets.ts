@@ -0,0 +1,89 @@
+import type { Stroke, Workout, WorkoutSet } from "./types";
+
+/**
+ * Structured sessions.
+ * - A workout without `sets` is treated as one set of its stroke/distance,
+ *   or, when imported from a watch, as its lengths grouped by stroke
+ * - Totals (distance, dominant stroke, duration from intervals) come from the sets
+ */
+
+export const STROKES: Stroke[] = ["Free", "Back", "Breast", "Fly", "IM", "Drill"];
+export const SET_KINDS: NonNullable<WorkoutSet["kind"]>[] = ["swim", "kick", "pull", "drill"];
+export const ZONES: { zone: number; label: string }[] = [
+  { zone: 1, label: "Z1 Recovery" },
+  { zone: 2, label: "Z2 Aerobic" },
+  { zone: 3, label: "Z3 Threshold" },
+  { zone: 4, label: "Z4 VO2max" },
+  { zone: 5, label: "Z5 Sprint" },
+];
+
+export const STROKE_COLORS: Record<Stroke, string> = {
+  Free: "#2563eb",
+  Back: "#16a34a",
+  Breast: "#d97706",
+  Fly: "#9333ea",
+  IM: "#dc2626",
+  Drill: "#6b7280",
+};
+
+export const emptySet: WorkoutSet = { reps: 1, distance_m: 100, stroke: "Free", kind: "swim" };
+
+export function workoutSets(w: Workout): WorkoutSet[] {
+  if (w.sets?.length) return w.sets;
+  if (w.lengths?.length && w.pool_length) return lengthSets(w);
+  return [{ reps: 1, distance_m: Number(w.distance_m) || 0, stroke: w.stroke }];
+}
+
+// Consecutive lengths of one stroke become one set (e.g. 8×25 Free)
+function lengthSets(w: Workout): WorkoutSet[] {
+  const out: WorkoutSet[] = [];
+  for (const l of w.lengths ?? []) {
+    const stroke = l.stroke ?? w.stroke;
+    const last = out[out.length - 1];
+    if (last?.stroke === stroke) last.reps++;
+    else out.push({ reps: 1, distance_m: Number(w.pool_length), stroke });
+  }
+  return out;
+}
+
+export function setDistance(s: WorkoutSet) {
+  return (Number(s.reps) || 0) * (Number(s.distance_m) || 0);
+}
+
+/** Meters per stroke for one session. */
+export function strokeBreakdown(w: Workout): Partial<Record<Stroke, number>> {
+  const out: Partial<Record<Stroke, number>> = {};
+  for (const s of workoutSets(w)) out[s.stroke] = (out[s.stroke] ?? 0) + setDistance(s);
+  return out;
+}
+
+/** Session totals derived from the sets; duration only when every set has an interval. */
+export function totalsFromSets(sets: WorkoutSet[]) {
+  const byStroke = new Map<Stroke, number>();
+  let distance_m = 0;
+  for (const s of sets) {
+    const d = setDistance(s);
+    distance_m += d;
+    byStroke.set(s.stroke, (byStroke.get(s.stroke) ?? 0) + d);
+  }
+  const stroke = Array.from(byStroke.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? "Free";
+  const timed = sets.length > 0 && sets.every((s) => Number(s.interval_sec) > 0);
+  const duration_min = timed
+    ? Math.round((sets.reduce((t, s) => t + (Number(s.reps) || 0) * Number(s.interval_sec), 0) / 60) * 10) / 10
+    : undefined;
+  return { distance_m, stroke, duration_min };
+}
+
+export function formatInterval(sec?: number) {
+  if (!sec || sec <= 0) return "";
+  return `${Math.floor(sec / 60)}:${Math.round(sec % 60).toString().padStart(2, "0")}`;
+}
+
+export function formatSet(s: WorkoutSet) {
+  const reps = Number(s.reps) > 1 ? `${s.reps}×` : "";
+  const kind = s.kind && s.kind !== "swim" ? ` ${s.kind}` : "";
+  const at = s.interval_sec ? ` @${formatInterval(s.interval_sec)}` : "";
+  const zone = s.zone ? ` Z${s.zone}` : "";
+  const desc = s.description ? ` – ${s.description}` : "";
+  return `${reps}${s.distance_m} ${s.stroke}${kind}${at}${zone}${desc}`;
+}
@@ -0,0 +1,87 @@
+import { supabase } from "./supabase";
+import type { Competition, PB } from "./types";
+
+/**
+ * Public share links. Online only, like teams.
+ * - A link is a random token; /?share=TOKEN opens a read-only page that
+ *   works without signing in
+ * - The scope (PBs, or PBs plus recent results) and the optional dates are
+ *   enforced by shared_page() in supabase/schema.sql, not by the client
+ * - With dates, the PBs are the best swims within them (e.g. a season)
+ * - Revoking deletes the link; the page then shows "not available"
+ */
+
+export type ShareScope = "pbs" | "pbs_results";
+
+export const SHARE_SCOPES: { scope: ShareScope; label: string }[] = [
+  { scope: "pbs", label: "PBs only" },
+  { scope: "pbs_results", label: "PBs + recent results" },
+];
+
+export type ShareLink = {
+  id: string;
+  token: string;
+  label: string;
+  scope: ShareScope;
+  date_from: string | null;
+  date_to: string | null;
+  created_at: string;
+};
+
+export type NewShareLink = Pick<ShareLink, "label" | "scope" | "date_from" | "date_to">;
+
+export type SharedResult = Pick<Competition, "date" | "meet" | "course" | "stroke" | "distance_m" | "time_sec" | "location">;
+
+export type SharedPage = Pick<ShareLink, "label" | "scope" | "date_from" | "date_to"> & {
+  full_name: string | null;
+  club: string | null;
+  pbs: Omit<PB, "user_id">[];
+  results: SharedResult[] | null;   // null for "PBs only"
+};
+
+export function shareUrl(token: string) {
+  return `${window.location.origin}/?share=${encodeURIComponent(token)}`;
+}
+
+/** "2024-09-01 – 2025-08-31", "since 2024-09-01", "" for all time. */
+export function shareDates(l: Pick<ShareLink, "date_from" | "date_to">) {
+  if (l.date_from && l.date_to) return `${l.date_from} – ${l.date_to}`;
+  if (l.date_from) return `since ${l.date_from}`;
+  if (l.date_to) return `until ${l.date_to}`;
+  return "";
+}
+
+export async function listShareLinks(owner: string): Promise<ShareLink[]> {
+  const { data, error } = await supabase
+    .from("share_links")
+    .select("id, token, label, scope, date_from, date_to, created_at")
+    .eq("user_id", owner)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as ShareLink[];
+}
+
+export async function createShareLink(link: NewShareLink): Promise<ShareLink> {
+  const { data, error } = await supabase
+    .from("share_links")
+    .insert({ ...link, label: link.label.trim() })
+    .select("id, token, label, scope, date_from, date_to, created_at")
+    .single();
+  if (error) throw error;
+  return data as ShareLink;
+}
+
+export async function revokeShareLink(id: string) {
+  const { error } = await supabase.from("share_links").delete().eq("id", id);
+  if (error) throw error;
+}
+
+/** The page behind a token, or null when the link is unknown or revoked. */
+export async function loadSharedPage(token: string): Promise<SharedPage | null> {
+  const { data, error } = await supabase.rpc("shared_page", { share_token: token });
+  if (error) throw error;
+  if (!data) return null;
+  const page = data as SharedPage;
+  const num = <T extends { distance_m: number; time_sec: number }>(r: T) => ({ ...r, distance_m: Number(r.distance_m), time_sec: Number(r.time_sec) });
+  return { ...page, pbs: page.pbs.map(num), results: page.results?.map(num) ?? null };
+}
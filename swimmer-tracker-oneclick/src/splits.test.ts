@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { analysePacing, cumulative, fromCumulative, regroup, validateSplits } from "./splits";
+
+describe("cumulative / fromCumulative", () => {
+  it("convert between lap and cumulative times", () => {
+    expect(cumulative([30, 32.5, 33])).toEqual([30, 62.5, 95.5]);
+    expect(fromCumulative([30, 62.5, 95.5])).toEqual([30, 32.5, 33]);
+  });
+});
+
+describe("validateSplits", () => {
+  it("accepts splits that cover the distance and add up to the final time", () => {
+    expect(validateSplits([29.1, 31.4], 60.5, 100, 50)).toBeNull();
+    // Each split is rounded to 1/100 s, so the sum may be a few hundredths off
+    expect(validateSplits([29.13, 31.4], 60.5, 100, 50)).toBeNull();
+  });
+
+  it("explains what is wrong", () => {
+    expect(validateSplits([30, 30, 30], 90, 100, 50)).toMatch(/Expected 2 splits of 50, got 3/);
+    expect(validateSplits([30, 0], 60, 100, 50)).toMatch(/needs a time/);
+    expect(validateSplits([30, 31], 60, 100, 50)).toMatch(/add up to 61.00 s but the final time is 60.00 s/);
+    expect(validateSplits([30], 30, 50, 100)).toMatch(/can't be split/);
+  });
+});
+
+describe("regroup", () => {
+  it("merges 25s into 50s", () => {
+    expect(regroup([14, 16, 15, 17], 25, 50)).toEqual([30, 32]);
+    expect(regroup([30, 32], 50, 50)).toEqual([30, 32]);
+  });
+
+  it("gives up when the lengths don't divide", () => {
+    expect(regroup([14, 16, 15], 25, 50)).toBeNull();
+    expect(regroup([30, 32], 50, 75)).toBeNull();
+  });
+});
+
+describe("analysePacing", () => {
+  it("compares a race lap by lap with the reference at the coarser split length", () => {
+    const p = analysePacing({ laps: [13.5, 15.5, 16.5, 17.5], length: 25 }, { laps: [30, 32], length: 50 });
+    expect(p.length).toBe(50);
+    expect(p.rows).toEqual([
+      { at: 50, race: 29, ref: 30, delta: -1 },
+      { at: 100, race: 34, ref: 32, delta: 2 },
+    ]);
+    expect(p.notes).toEqual([
+      "Back half +5.00s slower than the front half (positive split).",
+      "Faded 3.00s more in the back half than in the reference swim.",
+      "Fast start: first 50 -1.00s vs the reference, then lost +2.00s — went out too fast.",
+      "Most time lost on 50–100 (+2.00s).",
+      "Best segment vs the reference: 0–50 (-1.00s).",
+    ]);
+  });
+
+  it("reports a negative split without a reference", () => {
+    const p = analysePacing({ laps: [31, 30], length: 50 });
+    expect(p.rows.every((r) => r.ref === undefined)).toBe(true);
+    expect(p.notes).toEqual(["Back half -1.00s vs the front half (even or negative split)."]);
+  });
+});
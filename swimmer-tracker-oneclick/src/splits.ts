@@ -0,0 +1,121 @@
+/**
+ * Race splits and pacing analysis.
+ * - Splits are stored as lap times (one per `split_length`), not cumulative
+ * - They must cover the race distance and add up to the final time
+ * - Pacing compares a race with a reference swim of the same event
+ */
+
+export const SPLIT_LENGTHS = [25, 50] as const;
+export type SplitLength = (typeof SPLIT_LENGTHS)[number];
+
+// Timing systems round each split to 1/100 s; allow for that when summing
+export const SPLIT_TOLERANCE = 0.05;
+
+export function cumulative(laps: number[]) {
+  let t = 0;
+  return laps.map((l) => (t += l));
+}
+
+export function fromCumulative(times: number[]) {
+  return times.map((t, i) => t - (i ? times[i - 1] : 0));
+}
+
+/** Returns an error message, or null when the splits are valid. */
+export function validateSplits(laps: number[], time_sec: number, distance: number, length: number): string | null {
+  if (distance % length !== 0) return `A ${distance} can't be split into ${length}s.`;
+  if (laps.length !== distance / length) return `Expected ${distance / length} splits of ${length}, got ${laps.length}.`;
+  if (laps.some((l) => !isFinite(l) || l <= 0)) return "Every split needs a time.";
+  const sum = laps.reduce((s, l) => s + l, 0);
+  if (Math.abs(sum - time_sec) > SPLIT_TOLERANCE) {
+    return `Splits add up to ${sum.toFixed(2)} s but the final time is ${time_sec.toFixed(2)} s.`;
+  }
+  return null;
+}
+
+/** Merge 25s into 50s (or any multiple) so swims with different split lengths compare. */
+export function regroup(laps: number[], from: number, to: number): number[] | null {
+  if (to === from) return laps;
+  if (to % from !== 0) return null;
+  const n = to / from;
+  if (laps.length % n !== 0) return null;
+  const out: number[] = [];
+  for (let i = 0; i < laps.length; i += n) out.push(laps.slice(i, i + n).reduce((s, l) => s + l, 0));
+  return out;
+}
+
+export type PacingRow = { at: number; race: number; ref?: number; delta?: number };
+
+export type Pacing = {
+  length: number;
+  rows: PacingRow[];
+  notes: string[];
+};
+
+function sum(xs: number[]) {
+  return xs.reduce((s, x) => s + x, 0);
+}
+
+function halves(laps: number[]) {
+  const mid = Math.floor(laps.length / 2);
+  return { front: sum(laps.slice(0, mid)), back: sum(laps.slice(laps.length - mid)) };
+}
+
+function signed(x: number) {
+  return `${x > 0 ? "+" : ""}${x.toFixed(2)}s`;
+}
+
+/**
+ * Lap-by-lap comparison of a race with a reference swim (usually the PB).
+ * Both are brought to the coarser split length when they differ.
+ */
+export function analysePacing(
+  race: { laps: number[]; length: number },
+  ref?: { laps: number[]; length: number }
+): Pacing {
+  let length = race.length;
+  let laps = race.laps;
+  let refLaps: number[] | null = null;
+  if (ref) {
+    length = Math.max(race.length, ref.length);
+    laps = regroup(race.laps, race.length, length) ?? race.laps;
+    refLaps = regroup(ref.laps, ref.length, length);
+    if (refLaps && refLaps.length !== laps.length) refLaps = null;
+  }
+
+  const rows: PacingRow[] = laps.map((l, i) => {
+    const r = refLaps?.[i];
+    return { at: (i + 1) * length, race: l, ref: r, delta: r !== undefined ? Math.round((l - r) * 100) / 100 : undefined };
+  });
+
+  const notes: string[] = [];
+  if (laps.length >= 2) {
+    const { front, back } = halves(laps);
+    const diff = back - front;
+    notes.push(
+      diff > 0
+        ? `Back half ${signed(diff)} slower than the front half (positive split).`
+        : `Back half ${signed(diff)} vs the front half (even or negative split).`
+    );
+    if (refLaps) {
+      const r = halves(refLaps);
+      const fade = diff - (r.back - r.front);
+      if (fade > 0.3) notes.push(`Faded ${fade.toFixed(2)}s more in the back half than in the reference swim.`);
+    }
+  }
+  if (refLaps) {
+    const deltas = rows.map((r) => r.delta ?? 0);
+    const total = sum(deltas);
+    if (deltas[0] < -0.1 && total > 0) {
+      notes.push(`Fast start: first ${length} ${signed(deltas[0])} vs the reference, then lost ${signed(total - deltas[0])} — went out too fast.`);
+    }
+    const worst = deltas.indexOf(Math.max(...deltas));
+    if (deltas[worst] > 0.05) {
+      notes.push(`Most time lost on ${worst * length}–${(worst + 1) * length} (${signed(deltas[worst])}).`);
+    }
+    const best = deltas.indexOf(Math.min(...deltas));
+    if (deltas[best] < -0.05) {
+      notes.push(`Best segment vs the reference: ${best * length}–${(best + 1) * length} (${signed(deltas[best])}).`);
+    }
+  }
+  return { length, rows, notes };
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { cutsFor, eventsOf, parseStandardsFile, standardStatus, type Athlete, type StandardSet } from "./standards";
+import type { PB } from "./types";
+
+const CSV = `set,level,stroke,distance,course,gender,age_min,age_max,time
+Age Group,A,Free,100,SCY,F,11,12,1:02.59
+Age Group,B,Freestyle,100,SCY,F,11,12,1:09.99
+Age Group,AA,free,100,yards,W,11,12,58.49
+Age Group,A,Free,100,SCY,M,11,12,1:00.19
+Age Group,A,Back,50,SCY,X,,,32.10`;
+
+const [set] = parseStandardsFile("cuts.csv", CSV);
+const girl: Athlete = { gender: "F", age: 12 };
+
+const pb = (time_sec: number, extra: Partial<PB> = {}): PB => ({
+  user_id: "u", course: "SCY", stroke: "Free", distance_m: 100, time_sec, date: "2025-02-01", meet: "Winter", ...extra,
+});
+
+describe("parseStandardsFile", () => {
+  it("reads CSV with stroke, course and gender aliases and M:SS times", () => {
+    expect(set.name).toBe("Age Group");
+    expect(set.standards).toHaveLength(5);
+    expect(set.standards[2]).toEqual({
+      level: "AA", stroke: "Free", distance: 100, course: "SCY", gender: "F", age_min: 11, age_max: 12, time_sec: 58.49,
+    });
+    expect(set.standards[4]).toMatchObject({ gender: "X", age_min: null, age_max: null });
+  });
+
+  it("reads JSON, naming a bare list after the file", () => {
+    const [s] = parseStandardsFile("club.json", JSON.stringify([{ level: "Gold", stroke: "Fly", distance: 50, course: "LCM", time: 30.5 }]));
+    expect(s).toEqual({
+      name: "club",
+      standards: [{ level: "Gold", stroke: "Fly", distance: 50, course: "LCM", gender: "X", age_min: null, age_max: null, time_sec: 30.5 }],
+    });
+  });
+
+  it("names the row of a bad cut", () => {
+    expect(() => parseStandardsFile("x.csv", "level,stroke,distance,course,time\nA,Free,100,SCQ,1:00.00")).toThrow(
+      'Row 2: Unknown course "SCQ"'
+    );
+  });
+});
+
+describe("cutsFor", () => {
+  it("keeps the athlete's gender and age band, fastest first, whatever the file order", () => {
+    expect(cutsFor(set, pb(0), girl).map((c) => c.level)).toEqual(["AA", "A", "B"]);
+    expect(cutsFor(set, pb(0), { gender: "F", age: 13 })).toEqual([]);
+    // Open cuts (no ages, any gender) apply to everyone
+    expect(cutsFor(set, pb(0, { stroke: "Back", distance_m: 50 }), { gender: "M", age: null })).toHaveLength(1);
+  });
+});
+
+describe("standardStatus", () => {
+  it("gives the fastest cut met and the gap to the next one", () => {
+    expect(standardStatus(set, pb(61.2), girl)).toMatchObject({ achieved: { level: "A" }, next: { level: "AA" }, gap_sec: 2.71, gap_pct: 4.4 });
+  });
+
+  it("has nothing achieved above the slowest cut and nothing next at the top", () => {
+    expect(standardStatus(set, pb(75), girl)).toMatchObject({ achieved: null, next: { level: "B" } });
+    expect(standardStatus(set, pb(58), girl)).toMatchObject({ achieved: { level: "AA" }, next: null, gap_sec: null });
+  });
+});
+
+describe("eventsOf", () => {
+  it("lists each event once, by course, stroke and distance", () => {
+    const mixed: StandardSet = { name: "x", standards: [...set.standards].reverse() };
+    expect(eventsOf(mixed, girl)).toEqual([
+      { stroke: "Free", distance_m: 100, course: "SCY" },
+      { stroke: "Back", distance_m: 50, course: "SCY" },
+    ]);
+  });
+});
@@ -0,0 +1,187 @@
+import type { Course } from "./course";
+import { parseCSV } from "./csv";
+import { getMeta, setMeta } from "./localdb";
+import type { PB } from "./types";
+import { parseStroke, timeToSec } from "./utils";
+
+/**
+ * Time standards (qualifying / motivational cuts).
+ * - A StandardSet is one list, e.g. "2025 Age Group Motivational", with
+ *   several levels (B, BB, A…); each cut is keyed by
+ *   stroke, distance, course, gender and age band
+ * - Levels are ranked per event by time, so files can list them in any order
+ * - Sets live on this device (IndexedDB), loaded from CSV or JSON:
+ *
+ *   CSV:  set,level,stroke,distance,course,gender,age_min,age_max,time
+ *         Age Group 2025,A,Free,100,SCY,F,11,12,1:02.59
+ *   JSON: [{ "name": "...", "standards": [{ "level", "stroke", "distance",
+ *          "course", "gender", "age_min", "age_max", "time" }] }]
+ *
+ *   gender is F, M or X (any); empty ages mean open; time is seconds or M:SS.xx
+ */
+
+export type Gender = "F" | "M" | "X";
+
+export type TimeStandard = {
+  level: string;
+  stroke: string;
+  distance: number;
+  course: Course;
+  gender: Gender;
+  age_min: number | null;
+  age_max: number | null;
+  time_sec: number;
+};
+
+export type StandardSet = { name: string; standards: TimeStandard[] };
+
+export type Athlete = { gender: Gender; age: number | null };
+
+export type StandardStatus = {
+  achieved: TimeStandard | null;   // fastest cut the PB meets
+  next: TimeStandard | null;       // next faster cut
+  gap_sec: number | null;          // time to drop to reach `next`
+  gap_pct: number | null;
+};
+
+function normStroke(s: string) {
+  return parseStroke(s) ?? s.trim();
+}
+
+function normCourse(s: string): Course {
+  const c = s.trim().toUpperCase();
+  if (c === "SCM" || c === "SCY" || c === "LCM") return c;
+  if (c === "Y" || c === "YD" || c === "YARDS") return "SCY";
+  if (c === "S" || c === "SC") return "SCM";
+  if (c === "L" || c === "LC") return "LCM";
+  throw new Error(`Unknown course "${s}"`);
+}
+
+function normGender(s: string | undefined): Gender {
+  const g = (s ?? "").trim().toUpperCase();
+  if (g.startsWith("F") || g === "W" || g === "G") return "F";
+  if (g.startsWith("M") || g === "B") return "M";
+  return "X";
+}
+
+function toAge(v: unknown) {
+  const n = v === null || v === undefined || v === "" ? NaN : Number(v);
+  return isFinite(n) ? n : null;
+}
+
+function toTime(v: unknown) {
+  const t = typeof v === "number" ? v : timeToSec(String(v ?? "").trim());
+  if (!isFinite(t) || t <= 0) throw new Error(`Invalid time "${v}"`);
+  return t;
+}
+
+function toStandard(r: Record<string, any>): TimeStandard {
+  const distance = Number(r.distance ?? r.distance_m);
+  if (!distance) throw new Error(`Invalid distance "${r.distance}"`);
+  return {
+    level: String(r.level ?? "").trim() || "Cut",
+    stroke: normStroke(String(r.stroke ?? "")),
+    distance,
+    course: normCourse(String(r.course ?? "")),
+    gender: normGender(r.gender),
+    age_min: toAge(r.age_min),
+    age_max: toAge(r.age_max),
+    time_sec: toTime(r.time ?? r.time_sec),
+  };
+}
+
+function group(rows: { set: string; std: TimeStandard }[]): StandardSet[] {
+  const sets = new Map<string, TimeStandard[]>();
+  for (const { set, std } of rows) sets.set(set, [...(sets.get(set) ?? []), std]);
+  return Array.from(sets.entries()).map(([name, standards]) => ({ name, standards }));
+}
+
+export function parseStandardsCSV(text: string, fallbackName: string): StandardSet[] {
+  const [head, ...body] = parseCSV(text);
+  if (!head) return [];
+  const header = head.map((h) => h.trim().toLowerCase());
+  return group(
+    body.map((cols, i) => {
+      const r: Record<string, string> = {};
+      header.forEach((h, j) => (r[h] = cols[j]?.trim() ?? ""));
+      try {
+        return { set: r.set || fallbackName, std: toStandard(r) };
+      } catch (e: any) {
+        throw new Error(`Row ${i + 2}: ${e.message}`);
+      }
+    })
+  );
+}
+
+export function parseStandardsJSON(text: string, fallbackName: string): StandardSet[] {
+  const data = JSON.parse(text);
+  const sets: any[] = Array.isArray(data) ? (data[0]?.standards ? data : [{ name: fallbackName, standards: data }]) : [data];
+  return sets.map((s) => ({
+    name: String(s.name || fallbackName),
+    standards: (s.standards ?? []).map((r: any) => toStandard(r)),
+  }));
+}
+
+export function parseStandardsFile(fileName: string, text: string): StandardSet[] {
+  const base = fileName.replace(/\.[^.]+$/, "");
+  return /\.json$/i.test(fileName) ? parseStandardsJSON(text, base) : parseStandardsCSV(text, base);
+}
+
+export function levelsOf(set: StandardSet) {
+  return Array.from(new Set(set.standards.map((s) => s.level)));
+}
+
+function fits(s: TimeStandard, athlete: Athlete) {
+  if (s.gender !== "X" && athlete.gender !== "X" && s.gender !== athlete.gender) return false;
+  if (athlete.age === null) return true;
+  return (s.age_min === null || athlete.age >= s.age_min) && (s.age_max === null || athlete.age <= s.age_max);
+}
+
+/** Cuts for one event that apply to the athlete, fastest first. */
+export function cutsFor(set: StandardSet, event: { stroke: string; distance_m: number; course: Course }, athlete: Athlete) {
+  return set.standards
+    .filter((s) => s.stroke === event.stroke && s.distance === event.distance_m && s.course === event.course && fits(s, athlete))
+    .sort((a, b) => a.time_sec - b.time_sec);
+}
+
+export function standardStatus(set: StandardSet, pb: PB, athlete: Athlete): StandardStatus {
+  const cuts = cutsFor(set, pb, athlete);
+  const t = Number(pb.time_sec);
+  const achieved = cuts.find((c) => t <= c.time_sec) ?? null;
+  const faster = cuts.filter((c) => c.time_sec < t);
+  const next = faster.length ? faster[faster.length - 1] : null;
+  const gap = next ? t - next.time_sec : null;
+  return {
+    achieved,
+    next,
+    gap_sec: gap !== null ? Math.round(gap * 100) / 100 : null,
+    gap_pct: gap !== null ? Math.round((gap / t) * 1000) / 10 : null,
+  };
+}
+
+/** Events (stroke/distance/course) covered by a set, in a stable display order. */
+export function eventsOf(set: StandardSet, athlete: Athlete) {
+  const order = ["Free", "Back", "Breast", "Fly", "IM"];
+  const seen = new Map<string, { stroke: string; distance_m: number; course: Course }>();
+  for (const s of set.standards) {
+    if (!fits(s, athlete)) continue;
+    seen.set(`${s.course}|${s.stroke}|${s.distance}`, { stroke: s.stroke, distance_m: s.distance, course: s.course });
+  }
+  return Array.from(seen.values()).sort(
+    (a, b) => a.course.localeCompare(b.course) || order.indexOf(a.stroke) - order.indexOf(b.stroke) || a.distance_m - b.distance_m
+  );
+}
+
+// ---------- Persistence (this device) ----------
+/** `athlete` is what was entered here; `meetDate` is the day ages are counted on (empty = today). */
+export type StandardsState = { sets: StandardSet[]; active: string | null; athlete: Athlete; meetDate?: string | null };
+
+export const emptyStandards: StandardsState = { sets: [], active: null, athlete: { gender: "X", age: null } };
+
+export async function loadStandards(): Promise<StandardsState> {
+  return (await getMeta<StandardsState>("standards")) ?? emptyStandards;
+}
+
+export async function saveStandards(state: StandardsState) {
+  await setMeta("standards", state);
+}
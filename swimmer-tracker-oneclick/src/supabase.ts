@@ -0,0 +1,17 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+const url = import.meta.env.VITE_SUPABASE_URL as string | undefined;
+const key = import.meta.env.VITE_SUPABASE_ANON_KEY as string | undefined;
+
+/** False without VITE_SUPABASE_* settings: the app then runs in demo mode. */
+export const hasBackend = Boolean(url && key);
+
+// ---------- Supabase client ----------
+// Without a project nothing may touch the client; fail loudly if something does
+export const supabase: SupabaseClient = hasBackend
+  ? createClient(url!, key!)
+  : new Proxy({} as SupabaseClient, {
+      get() {
+        throw new Error("Supabase is not configured (demo mode)");
+      },
+    });
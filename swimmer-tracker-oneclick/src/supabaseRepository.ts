@@ -0,0 +1,180 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { searchTerms } from "./localRepository";
+import type { Profile, Repository, TableName } from "./repository";
+import type { CssTest, Plan } from "./types";
+
+/**
+ * Repository over the Supabase tables, the `personal_bests` view and the
+ * `weekly_totals` function. Edit history is written by a trigger
+ * (`row_versions`), so the client only reads it. Search and derived sort columns are computed
+ * fields (`search`, `pace_per_100`), which PostgREST filters and orders by.
+ * PostgREST errors are thrown as they come (they carry a SQLSTATE/PGRST
+ * `code`); fetch failures come without one.
+ */
+
+// updated_at belongs to the server (set by trigger); never send ours
+function toServer(row: any) {
+  const { updated_at: _u, ...rest } = row;
+  return rest;
+}
+
+export function createSupabaseRepository(client: SupabaseClient): Repository {
+  return {
+    kind: "supabase",
+
+    async list(table, owner, opts = {}) {
+      let q = client.from(table).select("*").eq("user_id", owner).order("date", { ascending: false }).order("id");
+      q = opts.trashed ? q.not("deleted_at", "is", null) : q.is("deleted_at", null);
+      if (opts.since) q = q.gte("date", opts.since);
+      if (opts.until) q = q.lte("date", opts.until);
+      if (opts.where) q = q.match(opts.where);
+      if (opts.limit) q = opts.offset ? q.range(opts.offset, opts.offset + opts.limit - 1) : q.limit(opts.limit);
+      const { data, error } = await q;
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async page(table, owner, { search, filter: f, sort, dir, offset, limit }) {
+      let q = client.from(table).select("*", { count: "exact" }).eq("user_id", owner).is("deleted_at", null);
+      // Every word as a prefix: "thresh kick" finds "Threshold kick set"
+      const terms = searchTerms(search);
+      if (terms.length) q = q.textSearch("search", terms.map((t) => `${t}:*`).join(" & "), { config: "simple" });
+      // Same rules as matchesFilter()
+      if (f && table === "workouts") {
+        if (f.from) q = q.gte("date", f.from);
+        if (f.to) q = q.lte("date", f.to);
+        if (f.strokes?.length) q = q.in("stroke", f.strokes);
+        if (f.minDistance != null) q = q.gte("distance_m", f.minDistance);
+        if (f.maxDistance != null) q = q.lte("distance_m", f.maxDistance);
+        if (f.minDuration != null) q = q.gte("duration_min", f.minDuration);
+        if (f.maxDuration != null) q = q.lte("duration_min", f.maxDuration);
+        if (f.minRpe != null) q = q.gte("rpe", f.minRpe);
+        if (f.maxRpe != null) q = q.lte("rpe", f.maxRpe);
+        if (f.hasNotes) q = q.neq("notes", "");
+      }
+      const { data, error, count } = await q
+        .order(sort, { ascending: dir === "asc", nullsFirst: false })
+        .order("date", { ascending: false })
+        .order("id")
+        .range(offset, offset + limit - 1);
+      if (error) throw error;
+      return { rows: data ?? [], total: count ?? 0 };
+    },
+
+    async get(table, id) {
+      const { data, error } = await client.from(table).select("*").eq("id", id).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+
+    async upsert(table, rows) {
+      if (!rows.length) return [];
+      const { data, error } = await client.from(table).upsert(rows.map(toServer)).select();
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async remove(table: TableName, id: string) {
+      const { error } = await client.from(table).delete().eq("id", id);
+      if (error) throw error;
+    },
+
+    async removeAll(table: TableName, owner: string) {
+      const { error } = await client.from(table).delete().eq("user_id", owner);
+      if (error) throw error;
+    },
+
+    async versions(table, id) {
+      const { data, error } = await client
+        .from("row_versions")
+        .select("data, changed_at")
+        .eq("table_name", table)
+        .eq("row_id", id)
+        .order("changed_at", { ascending: false });
+      if (error) throw error;
+      return (data ?? []).map((v) => ({ row: v.data, changed_at: v.changed_at }));
+    },
+
+    async personalBests(owner) {
+      const { data, error } = await client.from("personal_bests").select("*").eq("user_id", owner);
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async weeklyTotals(owner, before) {
+      const { data, error } = await client.rpc("weekly_totals", { p_user: owner, p_before: before ?? null });
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async existingSources(owner, sourceIds) {
+      if (!sourceIds.length) return [];
+      const { data, error } = await client.from("workouts").select("source_id").eq("user_id", owner).in("source_id", sourceIds);
+      if (error) throw error;
+      return (data ?? []).map((r) => r.source_id);
+    },
+
+    async plans(owner, range) {
+      let q = client.from("planned_sessions").select("*").eq("user_id", owner).order("date").order("created_at");
+      if (range) q = q.gte("date", range.from).lte("date", range.to);
+      const { data, error } = await q;
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async savePlan(plan: Plan) {
+      const { data, error } = await client.from("planned_sessions").upsert(toServer(plan)).select().single();
+      if (error) throw error;
+      return data;
+    },
+
+    async removePlan(id) {
+      const { error } = await client.from("planned_sessions").delete().eq("id", id);
+      if (error) throw error;
+    },
+
+    async cssTests(owner) {
+      const { data, error } = await client.from("css_tests").select("*").eq("user_id", owner).order("date").order("created_at");
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async saveCssTest(test: CssTest) {
+      const { data, error } = await client.from("css_tests").upsert(toServer(test)).select().single();
+      if (error) throw error;
+      return data;
+    },
+
+    async removeCssTest(id) {
+      const { error } = await client.from("css_tests").delete().eq("id", id);
+      if (error) throw error;
+    },
+
+    async profiles(ids) {
+      if (!ids.length) return [];
+      const { data, error } = await client.rpc("member_names", { ids });
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async profile(id) {
+      const { data, error } = await client.from("profiles").select("*").eq("id", id).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+
+    async ensureProfile(id) {
+      const created = await client.rpc("ensure_profile");
+      if (created.error) throw created.error;
+      const { data, error } = await client.from("profiles").select("*").eq("id", id).single();
+      if (error) throw error;
+      return data;
+    },
+
+    async saveProfile(profile: Profile) {
+      const { data, error } = await client.from("profiles").upsert(toServer(profile)).select("*").single();
+      if (error) throw error;
+      return data;
+    },
+  };
+}
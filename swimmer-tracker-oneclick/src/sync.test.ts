@@ -0,0 +1,156 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createLocalRepository } from "./localRepository";
+import { setRepository, type Repository } from "./repository";
+import { adoptLocalData, clearLocal, deleteLocal, listTrash, newId, readLocal, resolveConflict, restoreLocal, rowsBetween, saveLocal, sync } from "./sync";
+import type { Workout } from "./types";
+
+const OWNER = "00000000-0000-4000-8000-000000000001";
+
+const workout = (id: string, extra: Partial<Workout> = {}): Workout => ({
+  id, user_id: OWNER, date: "2024-03-05", distance_m: 2000, duration_min: 40, stroke: "Free", notes: "", ...extra,
+});
+
+let server: Repository;
+
+beforeEach(async () => {
+  vi.unstubAllGlobals();
+  await clearLocal();
+  server = createLocalRepository();
+  setRepository(server);
+  await adoptLocalData(OWNER);
+});
+
+describe("outbox", () => {
+  it("keeps writes made offline and sends them once online", async () => {
+    vi.stubGlobal("navigator", { onLine: false });
+    await saveLocal("workouts", [workout("a"), workout("b")]);
+    expect(await sync()).toMatchObject({ offline: true, pushed: 0 });
+    expect((await readLocal()).pending).toBe(2);
+    expect(await server.list("workouts", OWNER)).toEqual([]);
+
+    vi.unstubAllGlobals();
+    expect(await sync()).toMatchObject({ offline: false, pushed: 2, errors: [] });
+    const local = await readLocal();
+    expect(local.pending).toBe(0);
+    expect(local.workouts.every((w) => w.updated_at)).toBe(true);
+    expect((await server.list("workouts", OWNER)).map((w) => w.id).sort()).toEqual(["a", "b"]);
+  });
+
+  it("collapses repeated edits of a row into one write", async () => {
+    await saveLocal("workouts", [workout("a")]);
+    await saveLocal("workouts", [workout("a", { distance_m: 2500 })]);
+    expect((await readLocal()).pending).toBe(1);
+    await sync();
+    expect((await server.get("workouts", "a"))?.distance_m).toBe(2500);
+  });
+
+  it("moves deleted rows to the trash and brings them back", async () => {
+    await saveLocal("workouts", [workout("a")]);
+    await sync();
+    const [row] = (await readLocal()).workouts;
+    const trashed = await deleteLocal("workouts", row);
+    expect((await readLocal()).workouts).toEqual([]);
+    expect((await listTrash("workouts")).map((r) => r.id)).toEqual(["a"]);
+
+    await sync();
+    expect((await server.get("workouts", "a"))?.deleted_at).toBeTruthy();
+    await restoreLocal("workouts", [trashed]);
+    await sync();
+    expect((await readLocal()).workouts.map((w) => w.id)).toEqual(["a"]);
+    expect((await server.get("workouts", "a"))?.deleted_at).toBeNull();
+  });
+});
+
+describe("conflicts", () => {
+  it("holds an edit when the server copy changed since, until the user picks a side", async () => {
+    await saveLocal("workouts", [workout("a")]);
+    await sync();
+    const [synced] = (await readLocal()).workouts;
+
+    // Another device edits the row, then this one does
+    await server.upsert("workouts", [{ ...synced, notes: "from the phone" }]);
+    await saveLocal("workouts", [{ ...synced, notes: "from the laptop" }]);
+
+    const res = await sync();
+    expect(res.pushed).toBe(0);
+    expect(res.conflicts).toHaveLength(1);
+    const [c] = (await readLocal()).conflicts;
+    expect(c).toMatchObject({ id: "a", local: { notes: "from the laptop" }, remote: { notes: "from the phone" } });
+    // The pull leaves the local edit alone while the conflict is open
+    expect((await readLocal()).workouts[0].notes).toBe("from the laptop");
+
+    await resolveConflict(c, "mine");
+    await sync();
+    expect((await server.get("workouts", "a"))?.notes).toBe("from the laptop");
+    expect((await readLocal()).conflicts).toEqual([]);
+  });
+
+  it("keeps the server copy when asked", async () => {
+    await saveLocal("workouts", [workout("a")]);
+    await sync();
+    const [synced] = (await readLocal()).workouts;
+    await server.upsert("workouts", [{ ...synced, notes: "server" }]);
+    await saveLocal("workouts", [{ ...synced, notes: "mine" }]);
+    await sync();
+
+    await resolveConflict((await readLocal()).conflicts[0], "theirs");
+    expect((await readLocal()).workouts[0].notes).toBe("server");
+  });
+});
+
+describe("refused rows", () => {
+  it("sends the rest of a batch and holds only the row the server refuses", async () => {
+    await server.upsert("workouts", [workout("old", { source_id: "watch:2024-03-05T06:30:00Z" })]);
+    await saveLocal("workouts", [workout("a"), workout("again", { source_id: "watch:2024-03-05T06:30:00Z" }), workout("b")]);
+
+    const res = await sync();
+    expect(res.pushed).toBe(2);
+    expect(res.errors).toHaveLength(1);
+    const local = await readLocal();
+    expect(local.pending).toBe(0);
+    expect(local.conflicts).toMatchObject([{ id: "again", remote: null, error: expect.stringContaining("workouts_user_source") }]);
+    // Nothing is lost on this device: the refused row is still there after the pull
+    expect(local.workouts.map((w) => w.id).sort()).toEqual(["a", "again", "b", "old"]);
+
+    await resolveConflict(local.conflicts[0], "theirs");
+    expect((await readLocal()).workouts.map((w) => w.id).sort()).toEqual(["a", "b", "old"]);
+  });
+
+  it("holds an edit the server refuses instead of letting the pull overwrite it", async () => {
+    await saveLocal("workouts", [workout("a"), workout("b", { source_id: "watch:1" })]);
+    await sync();
+    const a = (await readLocal()).workouts.find((w) => w.id === "a")!;
+    await saveLocal("workouts", [{ ...a, notes: "edited", source_id: "watch:1" }]);
+
+    const res = await sync();
+    expect(res.errors).toHaveLength(1);
+    const [c] = (await readLocal()).conflicts;
+    expect(c).toMatchObject({ id: "a", local: { notes: "edited" }, remote: { notes: "" } });
+    expect((await readLocal()).workouts.find((w) => w.id === "a")?.notes).toBe("edited");
+  });
+});
+
+describe("rowsBetween", () => {
+  it("reads every row in the range from the server, past the 1000-row page", async () => {
+    // Like PostgREST, return at most 1000 rows per request
+    const local = server;
+    setRepository({ ...local, list: (table, owner, opts = {}) => local.list(table, owner, { ...opts, limit: Math.min(opts.limit ?? 1000, 1000) }) });
+    const old = Array.from({ length: 1200 }, (_, i) => workout(`w${String(i).padStart(4, "0")}`, { date: "2019-05-0" + (1 + (i % 9)) }));
+    await server.upsert("workouts", [...old, workout("later", { date: "2019-06-01" })]);
+    const rows = await rowsBetween("workouts", OWNER, "2019-05-01", "2019-05-31");
+    expect(rows).toHaveLength(1200);
+    expect(new Set(rows.map((r) => r.id)).size).toBe(1200);
+  });
+});
+
+describe("newId", () => {
+  const UUID_V4 = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+  it("makes a v4 UUID without randomUUID (plain http)", () => {
+    const { getRandomValues } = globalThis.crypto;
+    vi.stubGlobal("crypto", { getRandomValues: getRandomValues.bind(globalThis.crypto) });
+    const ids = Array.from({ length: 50 }, newId);
+    expect(ids.every((id) => UUID_V4.test(id))).toBe(true);
+    expect(new Set(ids).size).toBe(50);
+  });
+});
@@ -0,0 +1,498 @@
+import type { WeekTotals } from "./history";
+import { computePBs } from "./pbs";
+import { clearAll, getAll, getMeta, putMany, remove, replaceAll, setMeta, type RowStore } from "./localdb";
+import { queryRows } from "./localRepository";
+import { sameEvent, type SwimEvent } from "./progression";
+import { repository, type ListOptions, type Page, type PageQuery, type Profile, type RepoError, type Repository, type TableName, type Tables } from "./repository";
+import type { Competition, CssTest, PB, Workout } from "./types";
+
+/**
+ * Offline-first sync.
+ * - Every write lands in IndexedDB first and is queued in the `outbox`
+ * - `sync()` replays the outbox in order, then pulls the server copy
+ *   (whichever backend `repository()` points at)
+ * - An edit carries `base`: the server `updated_at` it started from. If the
+ *   server row moved on in the meantime (another device), the op becomes a
+ *   Conflict and waits for the user to keep one side.
+ * - A write the server refuses (a constraint, a policy) becomes a Conflict
+ *   too, with the error, so the row stays on this device instead of being
+ *   replaced by the next pull. New rows are sent in chunks; when a chunk
+ *   fails, its rows are retried one by one and only the refused ones held.
+ * - Deleting moves a row to the trash: an edit setting `deleted_at`, so it
+ *   syncs (and conflicts) like any other. Trashed rows are not kept locally;
+ *   only purging sends a real delete.
+ * - Only the latest rows are kept on the device (the window). Older history
+ *   is read page by page from the server (`queryPage`), and its weekly
+ *   totals are cached so the KPIs cover every session.
+ * - CSS tests and the profile are saved straight to the server (no outbox)
+ *   and cached, so pace zones and defaults still work offline.
+ */
+
+type Row = Tables[TableName];
+
+export type OutboxOp = {
+  seq?: number;
+  table: RowStore;
+  op: "upsert" | "delete";
+  id: string;
+  row?: Row;               // full row for upserts
+  base: string | null;     // server updated_at the edit was based on; null = new row
+  queued_at: string;
+};
+
+export type Conflict = {
+  table: RowStore;
+  id: string;
+  local: Row | null;       // null = deleted on this device
+  remote: Row | null;      // null = deleted on the server (or never got there)
+  error?: string;          // set when the server refused the write rather than had a newer copy
+};
+
+export type SyncResult = { pushed: number; conflicts: Conflict[]; errors: string[]; offline: boolean };
+
+/** Weekly totals of the sessions older than the cached window (`since` = first day it covers). */
+export type History = { since: string | null; weeks: WeekTotals[] };
+
+export type LocalState = {
+  workouts: Workout[];
+  competitions: Competition[];
+  pbs: PB[];
+  history: History;
+  cssTests: CssTest[];
+  conflicts: Conflict[];
+  pending: number;
+};
+
+/** A page for display; `local` = searched on this device only (offline). */
+export type TablePage<T> = Page<T> & { local: boolean };
+
+const BATCH = 500;
+const WINDOW = 500;
+const ALL_PAGE = 1000;  // PostgREST's default row limit
+
+/** A v4 UUID, as the `uuid` primary keys expect; also on plain http, where `randomUUID` is missing. */
+export function newId(): string {
+  if (typeof crypto.randomUUID === "function") return crypto.randomUUID();
+  const b = crypto.getRandomValues(new Uint8Array(16));
+  b[6] = (b[6] & 0x0f) | 0x40; // version 4
+  b[8] = (b[8] & 0x3f) | 0x80; // RFC 4122 variant
+  const hex = Array.from(b, (x) => x.toString(16).padStart(2, "0")).join("");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+function byDateDesc(a: { date: string }, b: { date: string }) {
+  return b.date.localeCompare(a.date);
+}
+
+function isNetworkError(error: RepoError) {
+  // Backend errors carry a SQLSTATE/PGRST code; fetch failures do not.
+  return !navigator.onLine || !error.code;
+}
+
+// ---------- Local reads ----------
+/** Drop cached data that belongs to a different account on this device. */
+export async function adoptLocalData(userId: string) {
+  const owner = await getMeta<string>("owner");
+  if (owner && owner !== userId) await clearAll();
+  if (owner !== userId) await setMeta("owner", userId);
+}
+
+export async function readLocal(): Promise<LocalState> {
+  const [workouts, competitions, ops, conflicts, cachedPBs, history, cssTests] = await Promise.all([
+    getAll<Workout>("workouts"),
+    getAll<Competition>("competitions"),
+    getAll<OutboxOp>("outbox"),
+    getMeta<Conflict[]>("conflicts"),
+    getMeta<PB[]>("personal_bests"),
+    getMeta<History>("history"),
+    getMeta<CssTest[]>("css_tests"),
+  ]);
+  const compsDirty = ops.some((o) => o.table === "competitions");
+  return {
+    workouts: workouts.sort(byDateDesc),
+    competitions: competitions.sort(byDateDesc),
+    pbs: compsDirty || !cachedPBs ? computePBs(competitions) : cachedPBs,
+    history: history ?? { since: null, weeks: [] },
+    cssTests: cssTests ?? [],
+    conflicts: conflicts ?? [],
+    pending: ops.length,
+  };
+}
+
+/**
+ * A searched, sorted page from the server, with this device's unsent edits
+ * and deletes applied. Offline, the cached window is searched instead.
+ */
+export async function queryPage<T extends TableName>(table: T, q: PageQuery): Promise<TablePage<Tables[T]>> {
+  const owner = (await getMeta<string>("owner")) ?? "";
+  const ops = (await getAll<OutboxOp>("outbox")).filter((o) => o.table === table);
+  if (navigator.onLine) {
+    try {
+      const page = await repository().page(table, owner, q);
+      const latest = new Map(ops.map((o) => [o.id, o]));
+      const rows = page.rows
+        .map((r) => (latest.get(r.id!)?.row as Tables[T] | undefined) ?? r)
+        .filter((r) => latest.get(r.id!)?.op !== "delete" && !r.deleted_at);
+      return { rows, total: page.total - (page.rows.length - rows.length), local: false };
+    } catch (error: any) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+  return { ...queryRows(table, await getAll<Tables[T]>(table), q), local: true };
+}
+
+/** Every row matching `q` (e.g. a filtered log, for its KPIs), a page at a time; same rules as `queryPage`. */
+export async function queryAll<T extends TableName>(table: T, q: Omit<PageQuery, "offset" | "limit">): Promise<TablePage<Tables[T]>> {
+  const rows: Tables[T][] = [];
+  for (let offset = 0; ; offset += ALL_PAGE) {
+    const page = await queryPage(table, { ...q, offset, limit: ALL_PAGE });
+    rows.push(...page.rows);
+    if (offset + ALL_PAGE >= page.total) return { rows, total: rows.length, local: page.local };
+  }
+}
+
+// Every row `list` returns for `opts`, a page at a time (the server caps each response);
+// a short page is the last one
+async function listAll<T extends TableName>(table: T, owner: string, opts: ListOptions): Promise<Tables[T][]> {
+  const rows: Tables[T][] = [];
+  for (let offset = 0; ; offset += ALL_PAGE) {
+    const page = await repository().list(table, owner, { ...opts, offset, limit: ALL_PAGE });
+    rows.push(...page);
+    if (page.length < ALL_PAGE) return rows;
+  }
+}
+
+// Server rows matching `opts` plus, for the signed-in user, cached rows passing
+// `keep`, minus this device's unsent deletes
+async function liveRows<T extends TableName>(
+  table: T,
+  owner: string,
+  opts: ListOptions,
+  keep: (r: Tables[T]) => boolean
+): Promise<Tables[T][]> {
+  const mine = owner === (await getMeta<string>("owner"));
+  let rows: Tables[T][] = [];
+  try {
+    if (!mine || navigator.onLine) rows = await listAll(table, owner, opts);
+  } catch (error: any) {
+    if (!mine || !isNetworkError(error)) throw error;
+  }
+  if (!mine) return rows;
+  const ops = (await getAll<OutboxOp>("outbox")).filter((o) => o.table === table);
+  const gone = new Set(ops.filter((o) => o.op === "delete" || o.row?.deleted_at).map((o) => o.id));
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  for (const r of await getAll<Tables[T]>(table)) if (keep(r)) byId.set(r.id, r);
+  return Array.from(byId.values()).filter((r) => !gone.has(r.id!));
+}
+
+/**
+ * Live rows dated `from`..`to` (e.g. a calendar month). For the signed-in
+ * user, this device's unsent changes are applied, and offline the cached
+ * window stands in for the server; other owners (a coach's swimmers) need a
+ * connection.
+ */
+export function rowsBetween<T extends TableName>(table: T, owner: string, from: string, to: string): Promise<Tables[T][]> {
+  return liveRows(table, owner, { since: from, until: to }, (r) => r.date >= from && r.date <= to);
+}
+
+/** Every swim of one event (course, stroke, distance) over the whole history; same rules as `rowsBetween`. */
+export function eventSwims(owner: string, event: SwimEvent): Promise<Competition[]> {
+  const where = { course: event.course, stroke: event.stroke, distance_m: event.distance_m };
+  return liveRows("competitions", owner, { where }, (r) => sameEvent(r, event));
+}
+
+/** The trash, most recently deleted first, including deletes not sent yet. Offline: only those. */
+export async function listTrash<T extends TableName>(table: T): Promise<Tables[T][]> {
+  const owner = (await getMeta<string>("owner")) ?? "";
+  const ops = (await getAll<OutboxOp>("outbox")).filter((o) => o.table === table);
+  let rows: Tables[T][] = [];
+  if (navigator.onLine) {
+    try {
+      rows = await repository().list(table, owner, { trashed: true });
+    } catch (error: any) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+  const pending = new Set(ops.map((o) => o.id));
+  const trash = rows.filter((r) => !pending.has(r.id!));
+  for (const o of ops) if (o.op === "upsert" && o.row?.deleted_at) trash.push(o.row as Tables[T]);
+  return trash.sort((a, b) => String(b.deleted_at).localeCompare(String(a.deleted_at)));
+}
+
+// ---------- Profile ----------
+/** The user's profile (created on first sign-in); offline, the cached copy. */
+export async function loadProfile(userId: string): Promise<Profile | null> {
+  try {
+    const profile = await repository().ensureProfile(userId);
+    await setMeta("profile", profile);
+    return profile;
+  } catch (error: any) {
+    if (!isNetworkError(error)) throw error;
+    return (await getMeta<Profile>("profile")) ?? null;
+  }
+}
+
+export async function saveProfile(profile: Profile) {
+  const saved = await repository().saveProfile(profile);
+  await setMeta("profile", saved);
+  return saved;
+}
+
+// ---------- CSS tests ----------
+export async function saveCssTest(test: CssTest) {
+  const owner = (await getMeta<string>("owner")) ?? "";
+  const saved = await repository().saveCssTest({ ...test, id: test.id ?? newId(), user_id: owner });
+  const tests = ((await getMeta<CssTest[]>("css_tests")) ?? []).filter((t) => t.id !== saved.id);
+  await setMeta("css_tests", [...tests, saved].sort((a, b) => a.date.localeCompare(b.date)));
+}
+
+export async function removeCssTest(id: string) {
+  await repository().removeCssTest(id);
+  await setMeta("css_tests", ((await getMeta<CssTest[]>("css_tests")) ?? []).filter((t) => t.id !== id));
+}
+
+export async function pendingCount() {
+  return (await getAll<OutboxOp>("outbox")).length;
+}
+
+export async function clearLocal() {
+  await clearAll();
+}
+
+// Rows coming back from the server: live ones are cached, trashed ones dropped
+async function storeRows(table: RowStore, rows: Row[]) {
+  await putMany(table, rows.filter((r) => !r.deleted_at));
+  for (const r of rows) if (r.deleted_at) await remove(table, r.id!);
+}
+
+// ---------- Local writes ----------
+async function enqueue(next: OutboxOp[]) {
+  const ops = await getAll<OutboxOp>("outbox");
+  const byKey = new Map(ops.map((o) => [`${o.table}:${o.id}`, o]));
+  const add: OutboxOp[] = [];
+  for (const op of next) {
+    const prev = byKey.get(`${op.table}:${op.id}`);
+    if (prev) {
+      // Collapse onto the pending op, keeping the server version it started from.
+      await remove("outbox", prev.seq!);
+      op.base = prev.base;
+      byKey.delete(`${op.table}:${op.id}`);
+      if (op.op === "delete" && prev.base === null) continue; // created and deleted offline
+    }
+    add.push(op);
+  }
+  await putMany("outbox", add);
+}
+
+export async function saveLocal(table: RowStore, rows: Row[]) {
+  await putMany(table, rows);
+  const now = new Date().toISOString();
+  await enqueue(rows.map((row) => ({ table, op: "upsert", id: row.id!, row, base: row.updated_at ?? null, queued_at: now })));
+}
+
+/** Move a row to the trash; returns the trashed row (for undo). */
+export async function deleteLocal<T extends Row>(table: RowStore, row: T) {
+  const trashed = { ...row, deleted_at: new Date().toISOString() };
+  await remove(table, row.id!);
+  await enqueue([{ table, op: "upsert", id: row.id!, row: trashed, base: row.updated_at ?? null, queued_at: new Date().toISOString() }]);
+  return trashed;
+}
+
+/**
+ * Take rows back out of the trash as they were. Sent without a base version
+ * (no conflict check): the copy in the trash may predate the delete reaching
+ * the server.
+ */
+export async function restoreLocal(table: RowStore, rows: Row[]) {
+  await saveLocal(table, rows.map((r) => ({ ...r, deleted_at: null, updated_at: undefined })));
+}
+
+/** Delete for good (from the trash). */
+export async function purgeLocal(table: RowStore, row: { id?: string; updated_at?: string }) {
+  await remove(table, row.id!);
+  await enqueue([{ table, op: "delete", id: row.id!, base: row.updated_at ?? null, queued_at: new Date().toISOString() }]);
+}
+
+// ---------- Conflicts ----------
+async function addConflicts(found: Conflict[]) {
+  if (!found.length) return;
+  const cur = (await getMeta<Conflict[]>("conflicts")) ?? [];
+  const keys = new Set(found.map((c) => `${c.table}:${c.id}`));
+  await setMeta("conflicts", [...cur.filter((c) => !keys.has(`${c.table}:${c.id}`)), ...found]);
+}
+
+export async function resolveConflict(c: Conflict, keep: "mine" | "theirs") {
+  if (keep === "mine") {
+    const base = c.remote?.updated_at ?? null;
+    const now = new Date().toISOString();
+    if (c.local) await enqueue([{ table: c.table, op: "upsert", id: c.id, row: c.local, base, queued_at: now }]);
+    else if (c.remote) await enqueue([{ table: c.table, op: "delete", id: c.id, base, queued_at: now }]);
+  } else if (c.remote) {
+    await storeRows(c.table, [c.remote]);
+  } else {
+    await remove(c.table, c.id);
+  }
+  const cur = (await getMeta<Conflict[]>("conflicts")) ?? [];
+  await setMeta("conflicts", cur.filter((x) => !(x.table === c.table && x.id === c.id)));
+}
+
+// ---------- Replay ----------
+async function flush(res: SyncResult) {
+  const repo = repository();
+  const ops = (await getAll<OutboxOp>("outbox")).sort((a, b) => a.seq! - b.seq!);
+  const drop = async (batch: OutboxOp[]) => {
+    for (const b of batch) await remove("outbox", b.seq!);
+  };
+  // Kept as a conflict, so the row stays on this device until the user retries or discards it
+  const refused = (op: OutboxOp, remote: Row | null, error: RepoError) => {
+    res.errors.push(error.message);
+    res.conflicts.push({ table: op.table, id: op.id, local: op.op === "upsert" ? op.row! : null, remote, error: error.message });
+  };
+  let i = 0;
+  while (i < ops.length) {
+    const op = ops[i];
+
+    // New rows (creates, imports) go up in chunks; upsert keeps retries idempotent.
+    if (op.op === "upsert" && op.base === null) {
+      const batch = [op];
+      while (batch.length < BATCH && i + batch.length < ops.length) {
+        const n = ops[i + batch.length];
+        if (n.op !== "upsert" || n.base !== null || n.table !== op.table) break;
+        batch.push(n);
+      }
+      try {
+        await storeRows(op.table, await repo.upsert(op.table, batch.map((b) => b.row!)));
+        res.pushed += batch.length;
+        await drop(batch);
+      } catch (error: any) {
+        if (isNetworkError(error)) return void (res.offline = true);
+        // One bad row fails the whole chunk: send them one by one so only the bad ones are held back
+        for (const b of batch) {
+          try {
+            await storeRows(b.table, await repo.upsert(b.table, [b.row!]));
+            res.pushed++;
+          } catch (rowErr: any) {
+            if (isNetworkError(rowErr)) return void (res.offline = true);
+            refused(b, null, rowErr);
+          }
+          await drop([b]);
+        }
+      }
+      i += batch.length;
+      continue;
+    }
+
+    // Edits and deletes of rows the server already has: check for a newer server copy first.
+    let remote: Row | null;
+    try {
+      remote = await repo.get(op.table, op.id);
+    } catch (readErr: any) {
+      if (isNetworkError(readErr)) return void (res.offline = true);
+      refused(op, null, readErr);
+      await drop([op]);
+      i++;
+      continue;
+    }
+    if (op.op === "delete" && !remote) {
+      await drop([op]);
+      i++;
+      continue;
+    }
+    if ((remote?.updated_at ?? null) !== op.base) {
+      res.conflicts.push({ table: op.table, id: op.id, local: op.op === "upsert" ? op.row! : null, remote: remote ?? null });
+      await drop([op]);
+      i++;
+      continue;
+    }
+
+    try {
+      if (op.op === "upsert") await storeRows(op.table, await repo.upsert(op.table, [op.row!]));
+      else await repo.remove(op.table, op.id);
+      res.pushed++;
+    } catch (error: any) {
+      if (isNetworkError(error)) return void (res.offline = true);
+      refused(op, remote ?? null, error);
+    }
+    await drop([op]);
+    i++;
+  }
+}
+
+// The latest WINDOW rows, widened to whole days so no session on the first day is left out
+async function recent<T extends TableName>(repo: Repository, table: T, owner: string) {
+  const rows = await repo.list(table, owner, { limit: WINDOW });
+  if (rows.length < WINDOW) return { rows, since: null };
+  const since = rows[rows.length - 1].date;
+  return { rows: await repo.list(table, owner, { since }), since };
+}
+
+/** Replace local rows with the server copy, except rows with unsent edits or open conflicts. */
+async function pull(res: SyncResult) {
+  // Coaches can read their swimmers' rows too; the local copy is only ours
+  const owner = (await getMeta<string>("owner")) ?? "";
+  const repo = repository();
+  let w: Workout[], c: Competition[], p: PB[], t: CssTest[], history: History;
+  try {
+    const [workouts, competitions, pbs, tests] = await Promise.all([
+      recent(repo, "workouts", owner),
+      recent(repo, "competitions", owner),
+      repo.personalBests(owner),
+      repo.cssTests(owner),
+    ]);
+    [w, c, p, t] = [workouts.rows, competitions.rows, pbs, tests];
+    const since = workouts.since;
+    history = { since, weeks: since ? await repo.weeklyTotals(owner, since) : [] };
+  } catch (error: any) {
+    if (isNetworkError(error)) return void (res.offline = true);
+    throw error;
+  }
+  const ops = await getAll<OutboxOp>("outbox");
+  const conflicts = (await getMeta<Conflict[]>("conflicts")) ?? [];
+  const held = new Set([...ops, ...conflicts].map((o) => `${o.table}:${o.id}`));
+  const merge = async (table: RowStore, remote: any[]) => {
+    const next = remote.filter((r) => !held.has(`${table}:${r.id}`));
+    for (const l of await getAll<any>(table)) if (held.has(`${table}:${l.id}`)) next.push(l);
+    await replaceAll(table, next);
+  };
+  await merge("workouts", w);
+  await merge("competitions", c);
+  await setMeta("personal_bests", p);
+  await setMeta("history", history);
+  await setMeta("css_tests", t);
+  await setMeta("lastSync", new Date().toISOString());
+}
+
+async function syncOnce(): Promise<SyncResult> {
+  const res: SyncResult = { pushed: 0, conflicts: [], errors: [], offline: false };
+  if (!navigator.onLine) return { ...res, offline: true };
+  await flush(res);
+  await addConflicts(res.conflicts);
+  if (!res.offline) await pull(res);
+  return res;
+}
+
+let running: Promise<SyncResult> | null = null;
+let rerun = false;
+
+/** Push queued writes, then pull. Concurrent calls share one run (plus one follow-up pass). */
+export function sync(): Promise<SyncResult> {
+  if (running) {
+    rerun = true;
+    return running;
+  }
+  running = (async () => {
+    const total: SyncResult = { pushed: 0, conflicts: [], errors: [], offline: false };
+    do {
+      rerun = false;
+      const r = await syncOnce();
+      total.pushed += r.pushed;
+      total.conflicts.push(...r.conflicts);
+      total.errors.push(...r.errors);
+      total.offline = r.offline;
+    } while (rerun && !total.offline);
+    return total;
+  })().finally(() => {
+    running = null;
+  });
+  return running;
+}
@@ -0,0 +1,152 @@
+import { weekStart } from "./history";
+import { repository, type MemberName } from "./repository";
+import { supabase } from "./supabase";
+import type { Competition, PB, Workout } from "./types";
+
+/**
+ * Teams, invites and the coach roster. Online only: these read other
+ * users' rows through the coach RLS policies in supabase/schema.sql.
+ */
+
+export type Role = "coach" | "swimmer";
+
+export type Team = { id: string; name: string; role: Role };
+
+export type TeamMember = { team_id: string; user_id: string; role: Role; full_name: string | null };
+
+export type TeamInvite = { id: string; team_id: string; role: Role; code: string; expires_at: string; accepted_at: string | null };
+
+export type CoachComment = {
+  id: string;
+  coach_id: string;
+  swimmer_id: string;
+  workout_id: string | null;
+  competition_id: string | null;
+  body: string;
+  created_at: string;
+};
+
+export type RosterRow = TeamMember & { weekDistance: number; weekSessions: number; latestPBs: PB[] };
+
+export function inviteLink(code: string) {
+  return `${window.location.origin}/?invite=${encodeURIComponent(code)}`;
+}
+
+export async function listTeams(userId: string): Promise<Team[]> {
+  const { data, error } = await supabase.from("team_members").select("role, teams(id, name)").eq("user_id", userId);
+  if (error) throw error;
+  const rows = (data ?? []) as unknown as { role: Role; teams: { id: string; name: string } }[];
+  return rows.map((m) => ({ id: m.teams.id, name: m.teams.name, role: m.role }));
+}
+
+export async function createTeam(name: string): Promise<string> {
+  const { data, error } = await supabase.rpc("create_team", { team_name: name });
+  if (error) throw error;
+  return data as string;
+}
+
+export async function acceptInvite(code: string): Promise<string> {
+  const { data, error } = await supabase.rpc("accept_team_invite", { invite_code: code });
+  if (error) throw error;
+  return data as string;
+}
+
+export async function listMembers(teamId: string): Promise<TeamMember[]> {
+  const { data, error } = await supabase.from("team_members").select("team_id, user_id, role").eq("team_id", teamId);
+  if (error) throw error;
+  const ids = (data ?? []).map((m) => m.user_id);
+  const profiles = await repository().profiles(ids).catch((): MemberName[] => []);
+  const names = new Map(profiles.map((p) => [p.id, p.full_name]));
+  return (data ?? []).map((m) => ({ ...(m as Omit<TeamMember, "full_name">), full_name: names.get(m.user_id) ?? null }));
+}
+
+export async function removeMember(teamId: string, userId: string) {
+  const { error } = await supabase.from("team_members").delete().eq("team_id", teamId).eq("user_id", userId);
+  if (error) throw error;
+}
+
+export async function listInvites(teamId: string): Promise<TeamInvite[]> {
+  const { data, error } = await supabase
+    .from("team_invites")
+    .select("id, team_id, role, code, expires_at, accepted_at")
+    .eq("team_id", teamId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as TeamInvite[];
+}
+
+export async function createInvite(teamId: string, role: Role): Promise<TeamInvite> {
+  const { data, error } = await supabase
+    .from("team_invites")
+    .insert({ team_id: teamId, role })
+    .select("id, team_id, role, code, expires_at, accepted_at")
+    .single();
+  if (error) throw error;
+  return data as TeamInvite;
+}
+
+export async function revokeInvite(id: string) {
+  const { error } = await supabase.from("team_invites").delete().eq("id", id);
+  if (error) throw error;
+}
+
+/** Swimmers of a team with this week's volume and their three most recent PBs. */
+export async function fetchRoster(teamId: string): Promise<RosterRow[]> {
+  const members = (await listMembers(teamId)).filter((m) => m.role === "swimmer");
+  const ids = members.map((m) => m.user_id);
+  if (!ids.length) return [];
+  const [{ data: w, error: ew }, { data: p, error: ep }] = await Promise.all([
+    supabase.from("workouts").select("user_id, distance_m").in("user_id", ids).is("deleted_at", null).gte("date", weekStart(new Date().toISOString().slice(0, 10))),
+    supabase.from("personal_bests").select("*").in("user_id", ids).order("date", { ascending: false }),
+  ]);
+  if (ew) throw ew;
+  if (ep) throw ep;
+  return members.map((m) => {
+    const mine = (w ?? []).filter((x) => x.user_id === m.user_id);
+    return {
+      ...m,
+      weekDistance: mine.reduce((s, x) => s + (x.distance_m || 0), 0),
+      weekSessions: mine.length,
+      latestPBs: ((p ?? []) as PB[]).filter((x) => x.user_id === m.user_id).slice(0, 3),
+    };
+  });
+}
+
+export async function fetchSwimmerLog(swimmerId: string): Promise<{ workouts: Workout[]; competitions: Competition[] }> {
+  const [{ data: w, error: ew }, { data: c, error: ec }] = await Promise.all([
+    supabase.from("workouts").select("*").eq("user_id", swimmerId).is("deleted_at", null).order("date", { ascending: false }).limit(50),
+    supabase.from("competitions").select("*").eq("user_id", swimmerId).is("deleted_at", null).order("date", { ascending: false }).limit(50),
+  ]);
+  if (ew) throw ew;
+  if (ec) throw ec;
+  return { workouts: (w ?? []) as Workout[], competitions: (c ?? []) as Competition[] };
+}
+
+export async function listComments(swimmerId: string): Promise<CoachComment[]> {
+  const { data, error } = await supabase
+    .from("coach_comments")
+    .select("*")
+    .eq("swimmer_id", swimmerId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as CoachComment[];
+}
+
+export async function addComment(
+  swimmerId: string,
+  target: { workout_id: string } | { competition_id: string },
+  body: string
+): Promise<CoachComment> {
+  const { data, error } = await supabase
+    .from("coach_comments")
+    .insert({ swimmer_id: swimmerId, body, ...target })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as CoachComment;
+}
+
+export async function deleteComment(id: string) {
+  const { error } = await supabase.from("coach_comments").delete().eq("id", id);
+  if (error) throw error;
+}
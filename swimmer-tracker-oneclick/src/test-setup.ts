@@ -0,0 +1,10 @@
+import "fake-indexeddb/auto";
+
+/**
+ * Test environment: an in-memory IndexedDB for localdb.ts, and `navigator`
+ * (missing in Node) reporting online. A test goes offline with
+ * `vi.stubGlobal("navigator", { onLine: false })`.
+ */
+if (!("navigator" in globalThis)) {
+  Object.defineProperty(globalThis, "navigator", { value: { onLine: true }, configurable: true, writable: true });
+}
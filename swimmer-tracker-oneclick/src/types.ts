@@ -0,0 +1,103 @@
+import type { Course } from "./course";
+import type { Unit } from "./units";
+
+// ---------- Shared row types ----------
+export type Stroke = "Free" | "Back" | "Breast" | "Fly" | "IM" | "Drill";
+
+// One line of a session: reps × distance × stroke @ interval
+export type WorkoutSet = {
+  reps: number;
+  distance_m: number;      // per rep, meters
+  stroke: Stroke;
+  interval_sec?: number;   // send-off per rep
+  kind?: "swim" | "kick" | "pull" | "drill";
+  zone?: number;           // effort zone 1-5
+  description?: string;
+};
+
+// One pool length recorded by a watch (active lengths only, rests dropped)
+export type SwimLength = {
+  stroke: Stroke | null;   // null when the watch could not tell (mixed)
+  strokes: number | null;  // stroke count
+  time_sec: number;
+};
+
+export type Workout = {
+  id?: string;
+  user_id?: string;
+  date: string;            // YYYY-MM-DD
+  distance_m: number;      // meters (sum of sets when sets are present), also for yard sessions
+  unit?: Unit;             // pool unit the session was entered in; meters when missing
+  duration_min: number;    // minutes
+  stroke: Stroke;          // dominant stroke by distance
+  rpe?: number;            // 1-10
+  notes?: string;
+  sets?: WorkoutSet[] | null;
+  lengths?: SwimLength[] | null;   // from a FIT/TCX import
+  pool_length?: number | null;     // meters, for `lengths`
+  source_id?: string | null;       // imported activity (start time), prevents re-importing it
+  plan_id?: string | null;         // planned session this completes
+  deleted_at?: string | null;      // in the trash since
+  updated_at?: string;     // set by the server, used for conflict checks
+};
+
+export type Competition = {
+  id?: string;
+  user_id?: string;
+  date: string;            // YYYY-MM-DD
+  meet: string;
+  course: Course;          // pool course; distance is in yards for SCY
+  distance_m: number;
+  stroke: "Free" | "Back" | "Breast" | "Fly" | "IM";
+  time_sec: number;        // total seconds
+  splits?: number[] | null;        // lap times, one per split_length
+  split_length?: number | null;    // 25 | 50
+  location?: string;
+  notes?: string;
+  deleted_at?: string | null;      // in the trash since
+  updated_at?: string;
+};
+
+// A session on the training calendar, set by the swimmer or their coach
+export type Plan = {
+  id?: string;
+  user_id?: string;                // the swimmer
+  created_by?: string | null;
+  date: string;                    // YYYY-MM-DD
+  title: string;
+  distance_m?: number | null;      // target, meters
+  duration_min?: number | null;    // target
+  stroke?: Stroke | null;          // focus
+  rpe?: number | null;             // target 1-10
+  notes?: string;
+  updated_at?: string;
+};
+
+/** Two time trials (usually 400 m and 200 m) giving the swimmer's critical swim speed on a date. */
+export type CssTest = {
+  id?: string;
+  user_id?: string;
+  date: string;                    // YYYY-MM-DD
+  long_m: number;                  // longer trial, meters
+  long_sec: number;
+  short_m: number;                 // shorter trial, meters
+  short_sec: number;
+  notes?: string;
+  updated_at?: string;
+};
+
+/** An earlier state of a row, kept when it was edited. */
+export type RowVersion<T> = {
+  row: T;
+  changed_at: string;      // when it was replaced
+};
+
+export type PB = {
+  user_id: string;
+  course: Course;
+  stroke: string;
+  distance_m: number;
+  time_sec: number;
+  date: string;
+  meet: string;
+};
@@ -0,0 +1,76 @@
+import type { Workout } from "./types";
+import { formatNumber } from "./utils";
+
+/**
+ * Training distance units
+ * - Sessions are stored in meters (`distance_m` and set distances) whatever
+ *   pool they were swum in; `unit` records the pool's unit, so a session is
+ *   edited, listed set by set and exported in the unit it was entered in
+ * - Totals, pace per 100 and the weekly chart are shown in the user's
+ *   preferred unit (profile), converted for display only
+ * - Race distances are not affected: competitions go by their course
+ */
+
+export type Unit = "m" | "yd";
+export const UNITS: Unit[] = ["m", "yd"];
+
+export const YARD_M = 0.9144;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function unitLabel(unit: Unit) {
+  return unit === "yd" ? "Yards" : "Meters";
+}
+
+/** "yd", "yards", "y", "SCY" → yd; "m", "meters", "SCM"… → m; null when unknown. */
+export function parseUnit(s: string): Unit | null {
+  const u = s.trim().toLowerCase().replace(/[\s.]+/g, "");
+  if (["yd", "yds", "y", "yard", "yards", "scy"].includes(u)) return "yd";
+  if (["m", "meter", "meters", "metre", "metres", "scm", "lcm"].includes(u)) return "m";
+  return null;
+}
+
+export function toMeters(distance: number, unit: Unit) {
+  return unit === "yd" ? distance * YARD_M : distance;
+}
+
+export function fromMeters(meters: number, unit: Unit) {
+  return unit === "yd" ? meters / YARD_M : meters;
+}
+
+/** Whole units, e.g. "2,500 yd". */
+export function formatDistance(meters: number, unit: Unit) {
+  return `${formatNumber(Math.round(fromMeters(Number(meters), unit)))} ${unit}`;
+}
+
+/** Pace per 100 m (minutes) → per 100 of `unit`. */
+export function paceIn(pacePer100m: number, unit: Unit) {
+  return unit === "yd" ? pacePer100m * YARD_M : pacePer100m;
+}
+
+/** Pool unit from a watch's pool length: a 25 yd pool is 22.86 m. */
+export function poolUnit(pool_length: number | null | undefined): Unit {
+  return pool_length && Math.abs(pool_length - 25 * YARD_M) < 0.5 ? "yd" : "m";
+}
+
+/** A stored session with its distances in its own unit (for the form, sets and exports). */
+export function inSessionUnit(w: Workout): Workout {
+  const unit = w.unit ?? "m";
+  if (unit === "m") return w;
+  return {
+    ...w,
+    distance_m: Math.round(fromMeters(Number(w.distance_m), unit)),
+    sets: w.sets?.map((s) => ({ ...s, distance_m: round2(fromMeters(Number(s.distance_m), unit)) })) ?? w.sets,
+  };
+}
+
+/** The reverse of inSessionUnit: a session entered in its own unit, in meters for storing. */
+export function toStored(w: Workout): Workout {
+  const unit = w.unit ?? "m";
+  if (unit === "m") return w;
+  return {
+    ...w,
+    distance_m: Math.round(toMeters(Number(w.distance_m), unit)),
+    sets: w.sets?.map((s) => ({ ...s, distance_m: round2(toMeters(Number(s.distance_m), unit)) })) ?? w.sets,
+  };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { minutesToMMSS, pacePer100, parseStroke, secToTime, timeToSec } from "./utils";
+
+describe("pacePer100", () => {
+  it("is minutes per 100 m", () => {
+    expect(pacePer100(3000, 60)).toBe(2);
+    expect(minutesToMMSS(pacePer100(2500, 40))).toBe("1:36");
+  });
+
+  it("is 0 without a distance or a duration", () => {
+    expect(pacePer100(0, 60)).toBe(0);
+    expect(pacePer100(2000, 0)).toBe(0);
+  });
+});
+
+describe("race times", () => {
+  it("formats and reads m:ss.xx", () => {
+    expect(secToTime(61.2)).toBe("1:01.20");
+    expect(timeToSec("1:01.20")).toBeCloseTo(61.2);
+    expect(timeToSec("28.5")).toBe(28.5);
+  });
+});
+
+describe("parseStroke", () => {
+  it("knows the usual spellings", () => {
+    expect(parseStroke(" Butterfly ")).toBe("Fly");
+    expect(parseStroke("individual medley")).toBe("IM");
+    expect(parseStroke("sidestroke")).toBeNull();
+  });
+});
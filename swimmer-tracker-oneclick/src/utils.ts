@@ -0,0 +1,46 @@
+import type { Stroke } from "./types";
+
+// ---------- Formatting & parsing ----------
+export function formatNumber(n: number) {
+  return new Intl.NumberFormat().format(n);
+}
+export function pacePer100(distance_m: number, duration_min: number) {
+  if (!distance_m || !duration_min) return 0;
+  return (duration_min * 100) / distance_m; // min/100m
+}
+export function minutesToMMSS(min: number) {
+  if (!isFinite(min) || min <= 0) return "-";
+  const totalSec = Math.round(min * 60);
+  const m = Math.floor(totalSec / 60);
+  const s = totalSec % 60;
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+export function secToTime(sec: number) {
+  if (!isFinite(sec) || sec <= 0) return "-";
+  const m = Math.floor(sec / 60);
+  const s = Math.floor(sec % 60);
+  const ms = Math.round((sec - Math.floor(sec)) * 100);
+  return `${m}:${s.toString().padStart(2, "0")}.${ms.toString().padStart(2, "0")}`;
+}
+export function timeToSec(t: string) {
+  // Accepts MM:SS.xx or M:SS or SS.xx
+  const parts = t.split(":");
+  if (parts.length === 1) return Number(parts[0]);
+  const m = Number(parts[0]);
+  const s = Number(parts[1]);
+  return m * 60 + s;
+}
+
+const STROKE_ALIASES: Record<string, Stroke> = {
+  free: "Free", freestyle: "Free", fr: "Free", fs: "Free", crawl: "Free",
+  back: "Back", backstroke: "Back", bk: "Back",
+  breast: "Breast", breaststroke: "Breast", br: "Breast",
+  fly: "Fly", butterfly: "Fly", fl: "Fly",
+  im: "IM", medley: "IM", "individual medley": "IM",
+  drill: "Drill", drills: "Drill",
+};
+
+/** Stroke names as they show up in spreadsheets and exports, or null. */
+export function parseStroke(s: string): Stroke | null {
+  return STROKE_ALIASES[s.trim().toLowerCase()] ?? null;
+}
@@ -0,0 +1,101 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { FIT_EPOCH } from "./fit";
+import { activityToWorkout, dominantStroke, parseFit, parseTcx } from "./watch";
+
+// A FIT file from [global message number, fields [num, base type, value]] records, little-endian
+type Field = [num: number, type: number, value: number];
+const SIZES: Record<number, number> = { 0x00: 1, 0x84: 2, 0x86: 4 };
+
+function fitFile(messages: [number, Field[]][]) {
+  const body: number[] = [];
+  const push = (n: number, size: number) => {
+    for (let i = 0; i < size; i++) body.push((n >>> (8 * i)) & 0xff);
+  };
+  const defined = new Map<number, number>();
+  for (const [num, fields] of messages) {
+    const local = defined.get(num) ?? defined.size;
+    if (!defined.has(num)) {
+      defined.set(num, local);
+      body.push(0x40 | local, 0, 0);
+      push(num, 2);
+      body.push(fields.length);
+      for (const [f, type] of fields) body.push(f, SIZES[type], type);
+    }
+    body.push(local);
+    for (const [, type, value] of fields) push(value, SIZES[type]);
+  }
+  const header = [14, 0x20, 0, 0, ...[0, 8, 16, 24].map((s) => (body.length >>> s) & 0xff), ...".FIT".split("").map((c) => c.charCodeAt(0)), 0, 0];
+  return new Uint8Array([...header, ...body]).buffer;
+}
+
+const START = Date.UTC(2024, 2, 5, 6, 30) / 1000 - FIT_EPOCH;
+
+const length = (ms: number, stroke: number, type = 1): [number, Field[]] => [
+  101,
+  [[4, 0x86, ms], [5, 0x84, 14], [7, 0x00, stroke], [12, 0x00, type]],
+];
+
+describe("parseFit", () => {
+  it("reads the session and its active lengths", () => {
+    const buf = fitFile([
+      [18, [[2, 0x86, START], [5, 0x00, 5], [9, 0x86, 10000], [44, 0x84, 2500], [8, 0x86, 180_000]]],
+      length(20_500, 0),
+      length(30_000, 0, 0),   // idle: a rest at the wall
+      length(21_250, 0),
+      length(24_000, 1),
+    ]);
+    const a = parseFit(buf);
+    expect(a.source_id).toBe("watch:2024-03-05T06:30:00Z");
+    expect(a.distance_m).toBe(100);
+    expect(a.pool_length).toBe(25);
+    expect(a.lengths).toEqual([
+      { stroke: "Free", strokes: 14, time_sec: 20.5 },
+      { stroke: "Free", strokes: 14, time_sec: 21.25 },
+      { stroke: "Back", strokes: 14, time_sec: 24 },
+    ]);
+    expect(a.moving_sec).toBe(66);
+  });
+
+  it("refuses other sports and other files", () => {
+    expect(() => parseFit(fitFile([[18, [[2, 0x86, START], [5, 0x00, 1]]]]))).toThrow("not a swim");
+    expect(() => parseFit(new Uint8Array(20).buffer)).toThrow("Not a FIT file");
+  });
+});
+
+describe("parseTcx", () => {
+  it("takes lengths from the trackpoints and skips rest laps", () => {
+    const point = (t: string, d: number) => `<Trackpoint><Time>2024-03-05T06:${t}Z</Time><DistanceMeters>${d}</DistanceMeters></Trackpoint>`;
+    const tcx = `<?xml version="1.0"?>
+      <TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">
+        <Activities><Activity Sport="Other"><Id>2024-03-05T06:30:00Z</Id>
+          <Lap StartTime="2024-03-05T06:30:00Z"><TotalTimeSeconds>42</TotalTimeSeconds><DistanceMeters>50</DistanceMeters>
+            <Track>${point("30:00", 0)}${point("30:20", 25)}${point("30:42", 50)}</Track></Lap>
+          <Lap StartTime="2024-03-05T06:31:00Z"><TotalTimeSeconds>30</TotalTimeSeconds><DistanceMeters>0</DistanceMeters></Lap>
+        </Activity></Activities>
+      </TrainingCenterDatabase>`;
+    const a = parseTcx(tcx);
+    expect(a.source_id).toBe("watch:2024-03-05T06:30:00Z");
+    expect(a).toMatchObject({ distance_m: 50, moving_sec: 42, pool_length: 25 });
+    expect(a.lengths.map((l) => l.time_sec)).toEqual([20, 22]);
+  });
+});
+
+describe("activityToWorkout", () => {
+  it("makes a yard session from a 25 yd pool and takes the main stroke", () => {
+    const w = activityToWorkout({
+      source_id: "watch:x",
+      start: new Date(2024, 2, 5, 7),
+      distance_m: 91,
+      moving_sec: 90,
+      pool_length: 22.86,
+      lengths: [
+        { stroke: "Breast", strokes: null, time_sec: 30 },
+        { stroke: "Free", strokes: null, time_sec: 30 },
+        { stroke: "Breast", strokes: null, time_sec: 30 },
+      ],
+    });
+    expect(w).toMatchObject({ date: "2024-03-05", unit: "yd", duration_min: 1.5, stroke: "Breast", source_id: "watch:x" });
+    expect(dominantStroke([])).toBe("Free");
+  });
+});
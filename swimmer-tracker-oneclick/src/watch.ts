@@ -0,0 +1,152 @@
+import { decodeFit, fitDate } from "./fit";
+import { repository } from "./repository";
+import { newId } from "./sync";
+import type { Stroke, SwimLength, Workout } from "./types";
+import { poolUnit } from "./units";
+
+/**
+ * Pool swims recorded on a watch (Garmin and others), imported from FIT or TCX.
+ * - Everything is parsed in the browser; the file is never uploaded
+ * - Moving time is the sum of the active lengths (rests excluded), distance
+ *   comes from the device, the dominant stroke from the lengths; a 25 yd
+ *   pool makes it a yard session
+ * - `source_id` is the activity's start time, so the same swim is recognised
+ *   whether it comes as FIT or TCX, and is never imported twice
+ */
+
+export type SwimActivity = {
+  source_id: string;
+  start: Date;
+  distance_m: number;
+  moving_sec: number;
+  pool_length: number | null;   // meters
+  lengths: SwimLength[];
+};
+
+// ---------- FIT ----------
+const MSG = { session: 18, length: 101 };
+const SPORT_SWIMMING = 5;
+// FIT swim_stroke enum; 5 = mixed
+const FIT_STROKES: Record<number, Stroke> = { 0: "Free", 1: "Back", 2: "Breast", 3: "Fly", 4: "Drill", 6: "IM" };
+
+export function parseFit(buf: ArrayBuffer): SwimActivity {
+  const msgs = decodeFit(buf);
+  const session = msgs.find((m) => m.num === MSG.session)?.fields;
+  if (!session) throw new Error("No session in this FIT file");
+  if (session[5] !== SPORT_SWIMMING) throw new Error("This FIT file is not a swim");
+  const num = (k: number) => (typeof session[k] === "number" ? (session[k] as number) : null);
+
+  const lengths: SwimLength[] = msgs
+    .filter((m) => m.num === MSG.length && m.fields[12] !== 0) // length_type 0 = idle
+    .map((m) => ({
+      stroke: FIT_STROKES[m.fields[7] as number] ?? null,
+      strokes: typeof m.fields[5] === "number" ? m.fields[5] : null,
+      time_sec: Math.round(Number(m.fields[4] ?? m.fields[3] ?? 0) / 10) / 100,
+    }));
+
+  const start = num(2) ?? num(253);
+  if (start === null) throw new Error("This FIT file has no start time");
+  const pool = num(44) !== null ? num(44)! / 100 : null;
+  const timer = (num(8) ?? num(7) ?? 0) / 1000;
+  const moving = lengths.length ? lengths.reduce((t, l) => t + l.time_sec, 0) : timer;
+  const distance = num(9) !== null ? num(9)! / 100 : pool ? pool * lengths.length : 0;
+  return activity(fitDate(start), distance, moving, pool, lengths);
+}
+
+// ---------- TCX ----------
+export function parseTcx(text: string): SwimActivity {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length) throw new Error("Not a valid TCX file");
+  const act = doc.getElementsByTagNameNS("*", "Activity")[0];
+  if (!act) throw new Error("No activity in this TCX file");
+  if (/^(running|biking)$/i.test(act.getAttribute("Sport") ?? "")) throw new Error("This TCX file is not a swim");
+
+  const first = (el: Element, tag: string) => el.getElementsByTagNameNS("*", tag)[0]?.textContent?.trim() ?? "";
+  const child = (el: Element, tag: string) =>
+    Array.from(el.children).find((c) => c.localName === tag)?.textContent?.trim() ?? "";
+
+  const start = new Date(first(act, "Id") || act.getElementsByTagNameNS("*", "Lap")[0]?.getAttribute("StartTime") || "");
+  if (isNaN(start.getTime())) throw new Error("This TCX file has no start time");
+
+  // Rest intervals are laps without distance
+  let distance = 0;
+  let moving = 0;
+  const lengths: SwimLength[] = [];
+  for (const lap of Array.from(act.getElementsByTagNameNS("*", "Lap"))) {
+    const d = Number(child(lap, "DistanceMeters")) || 0;
+    distance += d;
+    if (d > 0) moving += Number(child(lap, "TotalTimeSeconds")) || 0;
+
+    // Pool swims carry one trackpoint per length: time and cumulative distance
+    const points = Array.from(lap.getElementsByTagNameNS("*", "Trackpoint"))
+      .map((p) => ({ t: Date.parse(first(p, "Time")), d: Number(first(p, "DistanceMeters")) }))
+      .filter((p) => isFinite(p.t) && isFinite(p.d));
+    for (let i = 1; i < points.length; i++) {
+      if (points[i].d > points[i - 1].d) {
+        lengths.push({ stroke: null, strokes: null, time_sec: (points[i].t - points[i - 1].t) / 1000 });
+      }
+    }
+  }
+  const pool = lengths.length ? Math.round(distance / lengths.length) : null;
+  return activity(start, distance, moving, pool, lengths);
+}
+
+function activity(start: Date, distance: number, moving: number, pool: number | null, lengths: SwimLength[]): SwimActivity {
+  return {
+    source_id: `watch:${start.toISOString().slice(0, 19)}Z`,
+    start,
+    distance_m: Math.round(distance),
+    moving_sec: Math.round(moving),
+    pool_length: pool,
+    lengths,
+  };
+}
+
+export async function readActivityFile(file: File): Promise<SwimActivity> {
+  if (/\.fit$/i.test(file.name)) return parseFit(await file.arrayBuffer());
+  if (/\.tcx$/i.test(file.name)) return parseTcx(await file.text());
+  throw new Error("Choose a .fit or .tcx file");
+}
+
+// ---------- Workouts ----------
+/** Stroke with the most active lengths; Free when the watch recorded none. */
+export function dominantStroke(lengths: SwimLength[]): Stroke {
+  const counts = new Map<Stroke, number>();
+  for (const l of lengths) if (l.stroke) counts.set(l.stroke, (counts.get(l.stroke) ?? 0) + 1);
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? "Free";
+}
+
+function localDate(d: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export function activityToWorkout(a: SwimActivity): Workout {
+  return {
+    id: newId(),
+    date: localDate(a.start),
+    distance_m: a.distance_m,
+    duration_min: Math.round((a.moving_sec / 60) * 10) / 10,
+    stroke: dominantStroke(a.lengths),
+    notes: "",
+    sets: null,
+    lengths: a.lengths.length ? a.lengths : null,
+    pool_length: a.pool_length,
+    unit: poolUnit(a.pool_length),
+    source_id: a.source_id,
+  };
+}
+
+/**
+ * Activities already in the log: checked against local rows, then (online)
+ * against the server, which also holds sessions older than the local copy.
+ */
+export async function importedSourceIds(userId: string, local: Workout[], ids: string[]): Promise<Set<string>> {
+  const known = new Set(local.map((w) => w.source_id).filter((s): s is string => !!s));
+  const unknown = ids.filter((id) => !known.has(id));
+  if (unknown.length && navigator.onLine) {
+    const found = await repository().existingSources(userId, unknown).catch(() => []);
+    for (const id of found) known.add(id);
+  }
+  return known;
+}
@@ -0,0 +1,64 @@
+import * as XLSX from "xlsx";
+import { describe, expect, it, vi } from "vitest";
+import type { Competition, PB, Workout } from "./types";
+import { exportWorkbook, readWorkbook } from "./xlsx";
+
+// Keep the exported workbook instead of writing a file
+const saved = vi.hoisted(() => ({ wb: null as import("xlsx").WorkBook | null }));
+vi.mock("xlsx", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("xlsx")>();
+  return { ...actual, writeFile: (wb: import("xlsx").WorkBook) => void (saved.wb = wb) };
+});
+
+function toFile(wb: XLSX.WorkBook, name = "log.xlsx") {
+  return new File([XLSX.write(wb, { type: "array", bookType: "xlsx" })], name);
+}
+
+const workout: Workout = { id: "w", user_id: "u", date: "2024-03-05", distance_m: 1829, unit: "yd", duration_min: 45, stroke: "Free", rpe: 6, notes: "Kick, then pull" };
+const race: Competition = { date: "2024-03-09", meet: "Spring Open", course: "SCY", stroke: "Free", distance_m: 100, time_sec: 52.34 };
+const mile: Competition = { date: "2024-03-10", meet: "Spring Open", course: "LCM", stroke: "Free", distance_m: 1500, time_sec: 3725.5 };
+const pb: PB = { user_id: "u", course: "SCY", stroke: "Free", distance_m: 100, time_sec: 52.34, date: "2024-03-09", meet: "Spring Open" };
+
+describe("readWorkbook", () => {
+  it("turns date and time cells into the text the import wizard reads", async () => {
+    const ws = XLSX.utils.aoa_to_sheet([
+      ["date", "time", "distance"],
+      [{ t: "n", v: 45356, z: "d/m/yyyy" }, { t: "n", v: 62.34 / 86_400, z: "mm:ss.00" }, { t: "n", v: 1500 }],
+      [{ t: "n", v: 45357, z: "yyyy-mm-dd" }, { t: "n", v: 3725.5 / 86_400, z: '[h]:mm:ss.00;"late"' }, { t: "s", v: "" }],
+    ]);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, "Races");
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([]), "Empty");
+
+    const read = await readWorkbook(toFile(wb));
+    expect(read.fileName).toBe("log.xlsx");
+    expect(read.sheets).toEqual([
+      {
+        name: "Races",
+        rows: [
+          ["date", "time", "distance"],
+          ["2024-03-05", "1:02.34", "1500"],
+          ["2024-03-06", "1:02:05.50", ""],
+        ],
+      },
+    ]);
+  });
+});
+
+describe("exportWorkbook", () => {
+  it("writes sheets that read back unchanged, sessions in their own unit", async () => {
+    await exportWorkbook([workout], [race, mile], [pb]);
+    const read = await readWorkbook(toFile(saved.wb!));
+    expect(read.sheets.map((s) => s.name)).toEqual(["Workouts", "Competitions", "Personal Bests"]);
+    const [workouts, comps, pbs] = read.sheets.map((s) => s.rows);
+    expect(workouts).toEqual([
+      ["date", "distance", "unit", "duration_min", "stroke", "rpe", "notes"],
+      ["2024-03-05", "2000", "yd", "45", "Free", "6", "Kick, then pull"],
+    ]);
+    expect(comps.slice(1)).toEqual([
+      ["2024-03-09", "Spring Open", "SCY", "Free", "100", "0:52.34", "", ""],
+      ["2024-03-10", "Spring Open", "LCM", "Free", "1500", "1:02:05.50", "", ""],
+    ]);
+    expect(pbs[1]).toEqual(["SCY", "Free", "100", "y", "0:52.34", "2024-03-09", "Spring Open"]);
+  });
+});
@@ -0,0 +1,110 @@
+import { courseUnit } from "./course";
+import { serialToDate } from "./importer";
+import type { Competition, PB, Workout } from "./types";
+import { inSessionUnit } from "./units";
+
+/**
+ * Excel workbooks (.xlsx / .xls) in and out, via SheetJS.
+ * - The library is loaded on first use, so it stays out of the main bundle
+ * - Reading turns every sheet into rows of strings for the import wizard:
+ *   date cells become YYYY-MM-DD, time cells (1:02.34, 1:15:00) keep their
+ *   clock form, plain numbers are written without grouping
+ * - Export writes Workouts, Competitions and Personal Bests sheets with
+ *   real date and time cells, so the file reads back in unchanged; sessions
+ *   keep the unit they were entered in
+ */
+
+export type Sheet = { name: string; rows: string[][] };
+export type Workbook = { fileName: string; sheets: Sheet[] };
+
+type Cell = { t: string; v?: unknown; z?: unknown; w?: string };
+
+const DAY_SEC = 86_400;
+
+// Format codes minus literals, colours and locale tags; "[h]" style elapsed markers are kept
+function formatTokens(z: string) {
+  return z
+    .replace(/"[^"]*"/g, "")
+    .replace(/\\./g, "")
+    .replace(/\[(?![hms]+\])[^\]]*\]/gi, "")
+    .toLowerCase();
+}
+
+function cellText(cell: Cell | undefined): string {
+  if (!cell || cell.v === undefined || cell.v === null) return "";
+  if (cell.t === "e") return "";
+  if (cell.t !== "n" || typeof cell.v !== "number") return String(cell.v);
+  const tokens = typeof cell.z === "string" ? formatTokens(cell.z) : "";
+  if (/[yd]/.test(tokens)) return serialToDate(cell.v);
+  if (/[hs]/.test(tokens)) {
+    // Durations: hundredths are what the sheet shows for race times
+    const total = Math.round(cell.v * DAY_SEC * 100) / 100;
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = (total % 60).toFixed(2).padStart(5, "0");
+    return tokens.includes("h") ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${h * 60 + m}:${s}`;
+  }
+  return String(cell.v);
+}
+
+export async function readWorkbook(file: File): Promise<Workbook> {
+  const XLSX = await import("xlsx");
+  const wb = XLSX.read(await file.arrayBuffer(), { type: "array", cellNF: true });
+  const sheets = wb.SheetNames.map((name) => {
+    const ws = wb.Sheets[name];
+    if (!ws["!ref"]) return { name, rows: [] };
+    const range = XLSX.utils.decode_range(ws["!ref"]);
+    const rows: string[][] = [];
+    for (let r = range.s.r; r <= range.e.r; r++) {
+      const row: string[] = [];
+      for (let c = range.s.c; c <= range.e.c; c++) row.push(cellText(ws[XLSX.utils.encode_cell({ r, c })]).trim());
+      if (row.some(Boolean)) rows.push(row);
+    }
+    return { name, rows };
+  });
+  return { fileName: file.name, sheets: sheets.filter((s) => s.rows.length) };
+}
+
+// ---------- Export ----------
+function dateCell(iso: string) {
+  const [y, m, d] = iso.split("-").map(Number);
+  return { t: "n", v: (Date.UTC(y, m - 1, d) - Date.UTC(1899, 11, 30)) / (DAY_SEC * 1000), z: "yyyy-mm-dd" };
+}
+
+function timeCell(sec: number) {
+  return { t: "n", v: Number(sec) / DAY_SEC, z: Number(sec) >= 3600 ? "[h]:mm:ss.00" : "[m]:ss.00" };
+}
+
+export async function exportWorkbook(workouts: Workout[], comps: Competition[], pbs: PB[]) {
+  const XLSX = await import("xlsx");
+  const wb = XLSX.utils.book_new();
+  const add = (name: string, header: string[], rows: unknown[][], widths: number[]) => {
+    const ws = XLSX.utils.aoa_to_sheet([header, ...rows]);
+    ws["!cols"] = widths.map((wch) => ({ wch }));
+    XLSX.utils.book_append_sheet(wb, ws, name);
+  };
+  add(
+    "Workouts",
+    ["date", "distance", "unit", "duration_min", "stroke", "rpe", "notes"],
+    workouts.map(inSessionUnit).map((r) => [
+      dateCell(r.date), Number(r.distance_m), r.unit ?? "m", Number(r.duration_min), r.stroke, r.rpe ?? "", r.notes ?? "",
+    ]),
+    [12, 10, 5, 12, 8, 5, 40]
+  );
+  add(
+    "Competitions",
+    ["date", "meet", "course", "stroke", "distance", "time", "location", "notes"],
+    comps.map((c) => [
+      dateCell(c.date), c.meet, c.course, c.stroke, Number(c.distance_m), timeCell(c.time_sec), c.location ?? "", c.notes ?? "",
+    ]),
+    [12, 30, 7, 8, 9, 10, 20, 30]
+  );
+  add(
+    "Personal Bests",
+    ["course", "stroke", "distance", "unit", "time", "date", "meet"],
+    pbs.map((p) => [p.course, p.stroke, Number(p.distance_m), courseUnit(p.course), timeCell(p.time_sec), dateCell(p.date), p.meet]),
+    [7, 8, 9, 5, 10, 12, 30]
+  );
+  const stamp = new Date().toISOString().slice(0, 19).replaceAll(":", "-");
+  XLSX.writeFile(wb, `swims_${stamp}.xlsx`);
+}
@@ -3,44 +3,228 @@ create extension if not exists pgcrypto;
 create table if not exists profiles (
   id uuid primary key references auth.users on delete cascade,
   full_name text,
-  created_at timestamptz default now()
+  birth_date date,
+  gender text check (gender in ('F','M','X')),
+  club text,
+  course text not null default 'LCM' check (course in ('SCM','SCY','LCM')),
+  units text not null default 'm' check (units in ('m','yd')),
+  default_stroke text not null default 'Free' check (default_stroke in ('Free','Back','Breast','Fly','IM','Drill')),
+  created_at timestamptz default now(),
+  updated_at timestamptz not null default now()
 );
 create table if not exists workouts (
   id uuid primary key default gen_random_uuid(),
   user_id uuid not null references auth.users on delete cascade,
   date date not null,
-  distance_m int not null check (distance_m >= 0),
+  distance_m int not null check (distance_m >= 0), -- meters, also for yard sessions
+  unit text not null default 'm' check (unit in ('m','yd')), -- pool unit the session was entered in
   duration_min numeric not null check (duration_min >= 0),
   stroke text not null check (stroke in ('Free','Back','Breast','Fly','IM','Drill')),
   rpe int check (rpe between 1 and 10),
   notes text,
-  created_at timestamptz default now()
+  sets jsonb check (sets is null or jsonb_typeof(sets) = 'array'), -- [{reps, distance_m, stroke, interval_sec, kind, zone, description}]
+  lengths jsonb check (lengths is null or jsonb_typeof(lengths) = 'array'), -- watch lengths [{stroke, strokes, time_sec}]
+  pool_length numeric check (pool_length > 0), -- meters, for lengths
+  source_id text, -- imported activity, e.g. 'watch:2025-01-31T06:02:11Z'
+  plan_id uuid, -- the planned session this completes (foreign key below, with planned_sessions)
+  deleted_at timestamptz, -- in the trash since
+  created_at timestamptz default now(),
+  updated_at timestamptz not null default now()
 );
+alter table workouts add column if not exists updated_at timestamptz not null default now();
+alter table workouts add column if not exists sets jsonb check (sets is null or jsonb_typeof(sets) = 'array');
+alter table workouts add column if not exists lengths jsonb check (lengths is null or jsonb_typeof(lengths) = 'array');
+alter table workouts add column if not exists pool_length numeric check (pool_length > 0);
+alter table workouts add column if not exists source_id text;
+alter table workouts add column if not exists deleted_at timestamptz;
+alter table workouts add column if not exists unit text not null default 'm' check (unit in ('m','yd'));
 create index if not exists workouts_user_date on workouts(user_id, date desc);
+-- The same watch activity can't be imported twice
+create unique index if not exists workouts_user_source on workouts(user_id, source_id) where source_id is not null;
 
 create table if not exists competitions (
   id uuid primary key default gen_random_uuid(),
   user_id uuid not null references auth.users on delete cascade,
   date date not null,
   meet text not null,
-  distance_m int not null check (distance_m > 0),
+  course text not null default 'LCM' check (course in ('SCM','SCY','LCM')),
+  distance_m int not null check (distance_m > 0), -- yards for SCY
   stroke text not null check (stroke in ('Free','Back','Breast','Fly','IM')),
   time_sec numeric not null check (time_sec > 0),
+  splits numeric[],           -- lap times, one per split_length
+  split_length int check (split_length in (25, 50)),
   location text,
   notes text,
-  created_at timestamptz default now()
+  deleted_at timestamptz, -- in the trash since
+  created_at timestamptz default now(),
+  updated_at timestamptz not null default now()
 );
+alter table competitions add column if not exists updated_at timestamptz not null default now();
+alter table competitions add column if not exists course text not null default 'LCM' check (course in ('SCM','SCY','LCM'));
+alter table competitions add column if not exists splits numeric[];
+alter table competitions add column if not exists split_length int check (split_length in (25, 50));
+alter table competitions add column if not exists deleted_at timestamptz;
 create index if not exists competitions_user_stroke on competitions(user_id, stroke, distance_m, time_sec);
+create index if not exists competitions_user_course_event on competitions(user_id, course, stroke, distance_m, time_sec);
+
+-- updated_at drives offline sync conflict detection (src/sync.ts)
+create or replace function set_updated_at() returns trigger language plpgsql as $$
+begin
+  new.updated_at = now();
+  return new;
+end $$;
+
+drop trigger if exists workouts_set_updated_at on workouts;
+create trigger workouts_set_updated_at before update on workouts
+  for each row execute function set_updated_at();
+
+drop trigger if exists competitions_set_updated_at on competitions;
+create trigger competitions_set_updated_at before update on competitions
+  for each row execute function set_updated_at();
+
+-- Athlete profile: age on a meet date and the age group come from birth_date (src/profile.ts)
+alter table profiles add column if not exists birth_date date;
+alter table profiles add column if not exists gender text check (gender in ('F','M','X'));
+alter table profiles add column if not exists club text;
+alter table profiles add column if not exists course text not null default 'LCM' check (course in ('SCM','SCY','LCM'));
+alter table profiles add column if not exists units text not null default 'm' check (units in ('m','yd'));
+alter table profiles add column if not exists default_stroke text not null default 'Free'
+  check (default_stroke in ('Free','Back','Breast','Fly','IM','Drill'));
+alter table profiles add column if not exists updated_at timestamptz not null default now();
+
+drop trigger if exists profiles_set_updated_at on profiles;
+create trigger profiles_set_updated_at before update on profiles
+  for each row execute function set_updated_at();
+
+-- Splits must cover the race distance and add up to the final time (same rule as src/splits.ts)
+create or replace function check_competition_splits() returns trigger language plpgsql as $$
+begin
+  if new.splits is null then
+    return new;
+  end if;
+  if new.split_length is null or cardinality(new.splits) * new.split_length <> new.distance_m then
+    raise exception 'splits must cover the race distance';
+  end if;
+  if abs((select sum(s) from unnest(new.splits) s) - new.time_sec) > 0.05 then
+    raise exception 'splits must add up to the final time';
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists competitions_check_splits on competitions;
+create trigger competitions_check_splits before insert or update on competitions
+  for each row execute function check_competition_splits();
 
-create or replace view personal_bests as
-select distinct on (user_id, stroke, distance_m)
-  user_id, stroke, distance_m, time_sec, date, meet
+-- One PB per course: a 25 m pool 100 Free is a different event from a 50 m pool one.
+-- security_invoker makes the view respect the competitions RLS policies.
+drop view if exists personal_bests;
+create view personal_bests with (security_invoker = on) as
+select distinct on (user_id, course, stroke, distance_m)
+  user_id, course, stroke, distance_m, time_sec, date, meet
 from competitions
-order by user_id, stroke, distance_m, time_sec asc, date asc;
+where deleted_at is null
+order by user_id, course, stroke, distance_m, time_sec asc, date asc;
+
+-- Table search and sort (src/supabaseRepository.ts). Computed fields: PostgREST filters and
+-- orders by them (search=fts..., order=pace_per_100) but leaves them out of select=*.
+-- The SQL functions inline, so the search queries use the expression indexes.
+create or replace function search(workouts) returns tsvector language sql immutable as $$
+  select to_tsvector('simple', coalesce($1.stroke, '') || ' ' || coalesce($1.notes, ''))
+$$;
+create index if not exists workouts_search on workouts
+  using gin (to_tsvector('simple', coalesce(stroke, '') || ' ' || coalesce(notes, '')));
+
+create or replace function search(competitions) returns tsvector language sql immutable as $$
+  select to_tsvector('simple', $1.meet || ' ' || coalesce($1.location, '') || ' ' || $1.stroke || ' ' || $1.course || ' ' || coalesce($1.notes, ''))
+$$;
+create index if not exists competitions_search on competitions
+  using gin (to_tsvector('simple', meet || ' ' || coalesce(location, '') || ' ' || stroke || ' ' || course || ' ' || coalesce(notes, '')));
+create index if not exists competitions_user_date on competitions(user_id, date desc);
+
+-- Same formula as pacePer100 in src/utils.ts (minutes per 100 m)
+create or replace function pace_per_100(workouts) returns numeric language sql immutable as $$
+  select case when $1.distance_m > 0 and $1.duration_min > 0 then $1.duration_min * 100 / $1.distance_m end
+$$;
+
+-- Weekly totals for the KPIs and the weekly chart over the whole history (src/history.ts).
+-- Meters per stroke follow workoutSets in src/sets.ts: the sets, else the watch lengths,
+-- else the whole session in its main stroke. security invoker keeps the workouts RLS.
+create or replace function weekly_totals(p_user uuid, p_before date default null)
+returns table (week date, sessions int, distance_m numeric, pace_sum numeric, pace_count int, by_stroke jsonb)
+language sql stable security invoker as $$
+  with log as (
+    select * from workouts where user_id = p_user and deleted_at is null and (p_before is null or date < p_before)
+  ), parts as (
+    select w.date, coalesce(s->>'stroke', w.stroke) as stroke, coalesce((s->>'reps')::numeric, 0) * coalesce((s->>'distance_m')::numeric, 0) as meters
+    from log w cross join lateral jsonb_array_elements(w.sets) s
+    where jsonb_array_length(coalesce(w.sets, '[]')) > 0
+    union all
+    select w.date, coalesce(l->>'stroke', w.stroke), w.pool_length
+    from log w cross join lateral jsonb_array_elements(w.lengths) l
+    where jsonb_array_length(coalesce(w.sets, '[]')) = 0 and w.pool_length > 0
+    union all
+    select w.date, w.stroke, w.distance_m
+    from log w
+    where jsonb_array_length(coalesce(w.sets, '[]')) = 0
+      and not (jsonb_array_length(coalesce(w.lengths, '[]')) > 0 and coalesce(w.pool_length, 0) > 0)
+  ), strokes as (
+    select week, jsonb_object_agg(stroke, meters) as by_stroke
+    from (select date_trunc('week', date)::date as week, stroke, sum(meters) as meters from parts group by 1, 2) t
+    group by week
+  ), totals as (
+    select date_trunc('week', date)::date as week,
+      count(*)::int as sessions,
+      sum(distance_m)::numeric as distance_m,
+      coalesce(sum(pace_per_100(w)), 0) as pace_sum,
+      count(pace_per_100(w))::int as pace_count
+    from workouts w
+    where user_id = p_user and deleted_at is null and (p_before is null or date < p_before)
+    group by 1
+  )
+  select t.week, t.sessions, t.distance_m, t.pace_sum, t.pace_count, coalesce(s.by_stroke, '{}')
+  from totals t left join strokes s using (week)
+  order by t.week
+$$;
+
+-- ---------- Trash & edit history ----------
+-- Deleting moves a row to the trash (deleted_at); only purging removes it. Every edit keeps
+-- the previous version here so it can be restored (src/RowHistory.tsx).
+create table if not exists row_versions (
+  id bigint generated always as identity primary key,
+  table_name text not null check (table_name in ('workouts','competitions')),
+  row_id uuid not null,
+  user_id uuid not null references auth.users on delete cascade,
+  data jsonb not null,                        -- the row before the change
+  changed_at timestamptz not null default now()
+);
+create index if not exists row_versions_row on row_versions(table_name, row_id, changed_at desc);
+
+-- Runs as the definer: clients can read their versions but never write them
+create or replace function keep_row_version() returns trigger language plpgsql security definer set search_path = public as $$
+begin
+  if tg_op = 'DELETE' then
+    delete from row_versions where table_name = tg_table_name and row_id = old.id;
+    return old;
+  end if;
+  -- Trashing and restoring are not edits
+  if (to_jsonb(old) - 'updated_at' - 'deleted_at') is distinct from (to_jsonb(new) - 'updated_at' - 'deleted_at') then
+    insert into row_versions (table_name, row_id, user_id, data) values (tg_table_name, old.id, old.user_id, to_jsonb(old));
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists workouts_keep_version on workouts;
+create trigger workouts_keep_version after update or delete on workouts
+  for each row execute function keep_row_version();
+
+drop trigger if exists competitions_keep_version on competitions;
+create trigger competitions_keep_version after update or delete on competitions
+  for each row execute function keep_row_version();
 
 alter table profiles enable row level security;
 alter table workouts enable row level security;
 alter table competitions enable row level security;
+alter table row_versions enable row level security;
 
 drop policy if exists "Profiles are user-only" on profiles;
 create policy "Profiles are user-only" on profiles for all using (id = auth.uid());
@@ -50,3 +234,344 @@ create policy "Workouts are user-only" on workouts for all using (user_id = auth
 
 drop policy if exists "Competitions are user-only" on competitions;
 create policy "Competitions are user-only" on competitions for all using (user_id = auth.uid());
+
+drop policy if exists "Versions are user-only" on row_versions;
+create policy "Versions are user-only" on row_versions for select using (user_id = auth.uid());
+
+-- ---------- Teams: coaches and swimmers ----------
+create table if not exists teams (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  created_by uuid not null default auth.uid() references auth.users on delete cascade,
+  created_at timestamptz default now()
+);
+
+create table if not exists team_members (
+  team_id uuid not null references teams on delete cascade,
+  user_id uuid not null references auth.users on delete cascade,
+  role text not null check (role in ('coach','swimmer')),
+  created_at timestamptz default now(),
+  primary key (team_id, user_id)
+);
+create index if not exists team_members_user on team_members(user_id);
+
+create table if not exists team_invites (
+  id uuid primary key default gen_random_uuid(),
+  team_id uuid not null references teams on delete cascade,
+  role text not null default 'swimmer' check (role in ('coach','swimmer')),
+  code text not null unique default encode(gen_random_bytes(6), 'hex'),
+  created_by uuid not null default auth.uid() references auth.users on delete cascade,
+  expires_at timestamptz not null default now() + interval '14 days',
+  accepted_by uuid references auth.users on delete set null,
+  accepted_at timestamptz,
+  created_at timestamptz default now()
+);
+
+create table if not exists coach_comments (
+  id uuid primary key default gen_random_uuid(),
+  coach_id uuid not null default auth.uid() references auth.users on delete cascade,
+  swimmer_id uuid not null references auth.users on delete cascade,
+  workout_id uuid references workouts on delete cascade,
+  competition_id uuid references competitions on delete cascade,
+  body text not null check (length(trim(body)) > 0),
+  created_at timestamptz default now(),
+  check (num_nonnulls(workout_id, competition_id) = 1)
+);
+create index if not exists coach_comments_swimmer on coach_comments(swimmer_id, created_at desc);
+
+-- Membership checks run as the definer so policies on team_members don't recurse
+create or replace function is_team_member(t uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (select 1 from team_members where team_id = t and user_id = auth.uid());
+$$;
+
+create or replace function is_team_coach(t uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (select 1 from team_members where team_id = t and user_id = auth.uid() and role = 'coach');
+$$;
+
+-- True when the signed-in user coaches a team the given swimmer belongs to
+create or replace function coaches_swimmer(swimmer uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1
+    from team_members c
+    join team_members s on s.team_id = c.team_id
+    where c.user_id = auth.uid() and c.role = 'coach'
+      and s.user_id = swimmer and s.role = 'swimmer'
+  );
+$$;
+
+create or replace function shares_team(other uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1
+    from team_members a
+    join team_members b on b.team_id = a.team_id
+    where a.user_id = auth.uid() and b.user_id = other
+  );
+$$;
+
+-- Creates the signed-in user's profile on first sign-in, named from the sign-in provider when
+-- it gives a name. Never the email: names are shown to teammates (member_names).
+create or replace function ensure_profile() returns void
+language sql security definer set search_path = public as $$
+  insert into profiles (id, full_name)
+  select id, nullif(trim(raw_user_meta_data->>'full_name'), '') from auth.users where id = auth.uid()
+  on conflict (id) do update set full_name = coalesce(profiles.full_name, excluded.full_name);
+$$;
+
+-- Profiles created before that were named with the email; clear those names
+update profiles p set full_name = null from auth.users u where u.id = p.id and p.full_name = u.email;
+
+create or replace function create_team(team_name text) returns uuid
+language plpgsql security definer set search_path = public as $$
+declare
+  t uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'not signed in';
+  end if;
+  insert into teams (name, created_by) values (team_name, auth.uid()) returning id into t;
+  insert into team_members (team_id, user_id, role) values (t, auth.uid(), 'coach');
+  perform ensure_profile();
+  return t;
+end $$;
+
+create or replace function accept_team_invite(invite_code text) returns uuid
+language plpgsql security definer set search_path = public as $$
+declare
+  inv team_invites;
+begin
+  if auth.uid() is null then
+    raise exception 'not signed in';
+  end if;
+  select * into inv from team_invites where code = invite_code for update;
+  if not found or inv.expires_at < now() or inv.accepted_at is not null then
+    raise exception 'invite is invalid or has expired';
+  end if;
+  -- A coach invite promotes an existing swimmer; a swimmer invite never demotes a coach
+  insert into team_members (team_id, user_id, role) values (inv.team_id, auth.uid(), inv.role)
+  on conflict (team_id, user_id) do update set role = excluded.role where excluded.role = 'coach';
+  update team_invites set accepted_by = auth.uid(), accepted_at = now() where id = inv.id;
+  perform ensure_profile();
+  return inv.team_id;
+end $$;
+
+alter table teams enable row level security;
+alter table team_members enable row level security;
+alter table team_invites enable row level security;
+alter table coach_comments enable row level security;
+
+drop policy if exists "Teams visible to members" on teams;
+create policy "Teams visible to members" on teams for select using (is_team_member(id));
+drop policy if exists "Coaches manage teams" on teams;
+create policy "Coaches manage teams" on teams for update using (is_team_coach(id));
+drop policy if exists "Coaches delete teams" on teams;
+create policy "Coaches delete teams" on teams for delete using (is_team_coach(id));
+
+-- Members are added only through create_team / accept_team_invite
+drop policy if exists "Members visible to team" on team_members;
+create policy "Members visible to team" on team_members for select using (is_team_member(team_id));
+drop policy if exists "Coaches remove members, members leave" on team_members;
+create policy "Coaches remove members, members leave" on team_members for delete
+  using (is_team_coach(team_id) or user_id = auth.uid());
+
+drop policy if exists "Coaches manage invites" on team_invites;
+create policy "Coaches manage invites" on team_invites for all
+  using (is_team_coach(team_id)) with check (is_team_coach(team_id) and created_by = auth.uid());
+
+-- Teammates only see names (member_names); birth date and gender stay with the swimmer and their coaches
+drop policy if exists "Profiles visible to teammates" on profiles;
+drop policy if exists "Coaches read swimmers' profiles" on profiles;
+create policy "Coaches read swimmers' profiles" on profiles for select using (coaches_swimmer(id));
+
+create or replace function member_names(ids uuid[]) returns table (id uuid, full_name text)
+language sql stable security definer set search_path = public as $$
+  select p.id, p.full_name from profiles p
+  where p.id = any(ids) and (p.id = auth.uid() or shares_team(p.id));
+$$;
+
+drop policy if exists "Coaches read swimmers' workouts" on workouts;
+create policy "Coaches read swimmers' workouts" on workouts for select
+  using (coaches_swimmer(user_id) and deleted_at is null);
+
+drop policy if exists "Coaches read swimmers' competitions" on competitions;
+create policy "Coaches read swimmers' competitions" on competitions for select
+  using (coaches_swimmer(user_id) and deleted_at is null);
+
+drop policy if exists "Comments visible to coach and swimmer" on coach_comments;
+create policy "Comments visible to coach and swimmer" on coach_comments for select
+  using (coach_id = auth.uid() or swimmer_id = auth.uid());
+drop policy if exists "Coaches comment on swimmers' rows" on coach_comments;
+create policy "Coaches comment on swimmers' rows" on coach_comments for insert
+  with check (
+    coach_id = auth.uid() and coaches_swimmer(swimmer_id)
+    and (workout_id is null or exists (select 1 from workouts w where w.id = workout_id and w.user_id = swimmer_id))
+    and (competition_id is null or exists (select 1 from competitions c where c.id = competition_id and c.user_id = swimmer_id))
+  );
+drop policy if exists "Coaches delete own comments" on coach_comments;
+create policy "Coaches delete own comments" on coach_comments for delete using (coach_id = auth.uid());
+
+-- ---------- Training plan ----------
+-- Planned sessions on the calendar. Swimmers plan their own; their coaches can plan for them.
+-- Marking one done creates a workout with plan_id set (src/plans.ts).
+create table if not exists planned_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users on delete cascade, -- the swimmer
+  created_by uuid references auth.users on delete set null default auth.uid(),
+  date date not null,
+  title text not null default '',
+  distance_m int check (distance_m >= 0),
+  duration_min numeric check (duration_min >= 0),
+  stroke text check (stroke in ('Free','Back','Breast','Fly','IM','Drill')),
+  rpe int check (rpe between 1 and 10),
+  notes text,
+  created_at timestamptz default now(),
+  updated_at timestamptz not null default now()
+);
+create index if not exists planned_sessions_user_date on planned_sessions(user_id, date);
+
+drop trigger if exists planned_sessions_set_updated_at on planned_sessions;
+create trigger planned_sessions_set_updated_at before update on planned_sessions
+  for each row execute function set_updated_at();
+
+-- The author is whoever is signed in, whatever the client sends, and never changes afterwards
+-- (except to null when the author's account is deleted)
+create or replace function set_plan_author() returns trigger language plpgsql as $$
+begin
+  if tg_op = 'INSERT' then
+    new.created_by = coalesce(auth.uid(), new.created_by);
+  elsif new.created_by is not null then
+    new.created_by = old.created_by;
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists planned_sessions_set_author on planned_sessions;
+create trigger planned_sessions_set_author before insert or update on planned_sessions
+  for each row execute function set_plan_author();
+
+alter table workouts add column if not exists plan_id uuid;
+alter table workouts drop constraint if exists workouts_plan_id_fkey;
+alter table workouts add constraint workouts_plan_id_fkey
+  foreign key (plan_id) references planned_sessions on delete set null;
+create index if not exists workouts_plan on workouts(plan_id) where plan_id is not null;
+
+alter table planned_sessions enable row level security;
+
+drop policy if exists "Swimmers manage their plan" on planned_sessions;
+create policy "Swimmers manage their plan" on planned_sessions for all
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
+drop policy if exists "Coaches manage swimmers' plans" on planned_sessions;
+create policy "Coaches manage swimmers' plans" on planned_sessions for all
+  using (coaches_swimmer(user_id)) with check (coaches_swimmer(user_id));
+
+-- ---------- CSS tests ----------
+-- Critical swim speed time trials; the training pace zones come from the latest one (src/css.ts).
+create table if not exists css_tests (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users on delete cascade default auth.uid(),
+  date date not null,
+  long_m int not null default 400,
+  long_sec numeric not null check (long_sec > 0),
+  short_m int not null default 200,
+  short_sec numeric not null check (short_sec > 0),
+  notes text,
+  created_at timestamptz default now(),
+  updated_at timestamptz not null default now(),
+  check (long_m > short_m and long_sec > short_sec)
+);
+create index if not exists css_tests_user_date on css_tests(user_id, date);
+
+drop trigger if exists css_tests_set_updated_at on css_tests;
+create trigger css_tests_set_updated_at before update on css_tests
+  for each row execute function set_updated_at();
+
+alter table css_tests enable row level security;
+
+drop policy if exists "Swimmers manage their CSS tests" on css_tests;
+create policy "Swimmers manage their CSS tests" on css_tests for all
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
+drop policy if exists "Coaches read swimmers' CSS tests" on css_tests;
+create policy "Coaches read swimmers' CSS tests" on css_tests for select using (coaches_swimmer(user_id));
+
+-- ---------- Share links ----------
+-- Read-only pages for people without an account (a club, a recruiter): /?share=TOKEN.
+-- The token is the only key. The table is private to its owner; visitors go through
+-- shared_page(), which returns only what the link's scope and dates allow. Deleting
+-- the row revokes the link.
+create table if not exists share_links (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users on delete cascade default auth.uid(),
+  token text not null unique default encode(gen_random_bytes(16), 'hex'),
+  label text not null default '',
+  scope text not null default 'pbs' check (scope in ('pbs','pbs_results')),
+  date_from date, -- only swims on or after
+  date_to date,   -- only swims on or before
+  created_at timestamptz default now(),
+  check (date_from is null or date_to is null or date_from <= date_to)
+);
+create index if not exists share_links_user on share_links(user_id);
+
+alter table share_links enable row level security;
+
+drop policy if exists "Swimmers manage their share links" on share_links;
+create policy "Swimmers manage their share links" on share_links for all
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- Best swim per event within the link's dates (all-time PBs without dates), plus the
+-- latest results for 'pbs_results'. Null for an unknown or revoked token.
+create or replace function shared_page(share_token text) returns jsonb
+language sql stable security definer set search_path = public as $$
+  with link as (
+    select * from share_links where token = share_token
+  ), swims as (
+    select c.date, c.meet, c.course, c.stroke, c.distance_m, c.time_sec, c.location
+    from competitions c join link l on c.user_id = l.user_id
+    where c.deleted_at is null
+      and (l.date_from is null or c.date >= l.date_from)
+      and (l.date_to is null or c.date <= l.date_to)
+  )
+  select jsonb_build_object(
+    'label', l.label,
+    'scope', l.scope,
+    'date_from', l.date_from,
+    'date_to', l.date_to,
+    'full_name', nullif(p.full_name, u.email),   -- only a name the user set, never the email
+    'club', p.club,
+    'pbs', coalesce((
+      select jsonb_agg(b order by b.course, b.stroke, b.distance_m)
+      from (
+        select distinct on (course, stroke, distance_m) course, stroke, distance_m, time_sec, date, meet
+        from swims order by course, stroke, distance_m, time_sec, date
+      ) b
+    ), '[]'::jsonb),
+    'results', case when l.scope = 'pbs_results' then coalesce((
+      select jsonb_agg(r order by r.date desc)
+      from (select * from swims order by date desc limit 100) r
+    ), '[]'::jsonb) end
+  )
+  from link l
+  left join profiles p on p.id = l.user_id
+  left join auth.users u on u.id = l.user_id;
+$$;
+revoke execute on function shared_page(text) from public;
+grant execute on function shared_page(text) to anon, authenticated;
+
+-- ---------- Account deletion ----------
+-- Deletes the signed-in user. Everything that references auth.users "on delete cascade"
+-- goes with it: profile, workouts, competitions, edit history, CSS tests, the training
+-- plan, share links, team memberships and invites, coach comments by or about them, and
+-- the teams they created (with those teams' members and invites). Plans a coach wrote
+-- for other swimmers stay, without the author (created_by is set null).
+create or replace function delete_my_account() returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  if auth.uid() is null then
+    raise exception 'not signed in';
+  end if;
+  delete from auth.users where id = auth.uid();
+end $$;
+revoke execute on function delete_my_account() from public, anon;
+grant execute on function delete_my_account() to authenticated;